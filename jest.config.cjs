@@ -0,0 +1,19 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', {
+      // The app compiles to ES modules for webpack; jest runs CommonJS
+      tsconfig: {
+        module: 'commonjs',
+        target: 'ES2020',
+        jsx: 'react',
+        strict: true,
+        esModuleInterop: true,
+        skipLibCheck: true
+      }
+    }]
+  }
+};
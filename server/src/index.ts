@@ -1,8 +1,60 @@
 import express from "express";
+import { randomBytes, timingSafeEqual } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
 
 const app = express();
 const PORT = 6080;
 
+app.use(express.json());
+
+// Where the server records that the first admin account has been created, so
+// no setup token is issued again after a restart
+const SETUP_STATE_FILE = process.env.ADMIN_SETUP_STATE_FILE || path.join(process.cwd(), "admin-setup.json");
+
+// How long a client has to create the admin account after claiming the token
+// before someone else may try
+const CLAIM_TIMEOUT = 5 * 60 * 1000;
+
+interface SetupState {
+  completedAt: number;
+  adminId: string;
+  // The admin's signing key, which clients trust moderation signatures from
+  adminKeyId?: string;
+}
+
+// A claim on the setup token by a client that is creating the admin account
+interface SetupClaim {
+  id: string;
+  expiresAt: number;
+}
+
+const readSetupState = (): SetupState | null => {
+  if (!existsSync(SETUP_STATE_FILE)) return null;
+  try {
+    return JSON.parse(readFileSync(SETUP_STATE_FILE, "utf8"));
+  } catch (error) {
+    // An unreadable file still means setup happened; don't reopen it
+    console.error("Could not read admin setup state:", error);
+    return { completedAt: 0, adminId: "" };
+  }
+};
+
+// One-time token for creating the first admin account. It's only issued
+// while no admin has been created, and stops working once the client that
+// claimed it reports the admin account was created.
+let setupToken: string | null = readSetupState() ? null : randomBytes(16).toString("hex");
+let pendingClaim: SetupClaim | null = null;
+
+const matchesToken = (token: unknown) => {
+  if (!setupToken || typeof token !== "string") return false;
+  const expected = Buffer.from(setupToken);
+  const provided = Buffer.from(token.trim());
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+const hasPendingClaim = () => Boolean(pendingClaim && pendingClaim.expiresAt > Date.now());
+
 // Basic route for hello world
 app.get("/api/hello", (req, res) => {
   res.send("Hello World Api!");
@@ -12,7 +64,90 @@ app.get("/ping", (req, res) => {
   res.send("pong!");
 });
 
+// Tell clients which account was created as the first admin, and with which
+// signing key, so they can check moderation without trusting profile flags
+app.get("/api/admin-setup/admin", (req, res) => {
+  const state = readSetupState();
+  if (!state || !state.adminId || !state.adminKeyId) {
+    res.status(404).json({ error: "No admin account has been set up" });
+    return;
+  }
+  res.json({ adminId: state.adminId, adminKeyId: state.adminKeyId });
+});
+
+// Claim the setup token while the client creates the first admin account.
+// Only one client can hold a claim at a time.
+app.post("/api/admin-setup/claim", (req, res) => {
+  if (!setupToken || readSetupState()) {
+    setupToken = null;
+    res.status(410).json({ error: "An admin account has already been set up" });
+    return;
+  }
+
+  if (!matchesToken(req.body?.token)) {
+    res.status(403).json({ error: "Invalid setup token" });
+    return;
+  }
+
+  if (hasPendingClaim()) {
+    res.status(409).json({ error: "Admin setup is already in progress. Try again in a few minutes." });
+    return;
+  }
+
+  pendingClaim = { id: randomBytes(16).toString("hex"), expiresAt: Date.now() + CLAIM_TIMEOUT };
+  console.log("Admin setup token claimed");
+  res.json({ claimId: pendingClaim.id });
+});
+
+// Mark the token used once the claiming client has created the admin account
+app.post("/api/admin-setup/complete", (req, res) => {
+  const { token, claimId, adminId, adminKeyId } = req.body || {};
+
+  if (!matchesToken(token) || !hasPendingClaim() || pendingClaim!.id !== claimId) {
+    res.status(403).json({ error: "This setup claim is no longer valid" });
+    return;
+  }
+
+  if (typeof adminId !== "string" || !adminId) {
+    res.status(400).json({ error: "Missing admin account id" });
+    return;
+  }
+
+  if (typeof adminKeyId !== "string" || !adminKeyId) {
+    res.status(400).json({ error: "Missing admin signing key" });
+    return;
+  }
+
+  try {
+    const state: SetupState = { completedAt: Date.now(), adminId, adminKeyId };
+    writeFileSync(SETUP_STATE_FILE, JSON.stringify(state, null, 2));
+  } catch (error) {
+    console.error("Could not save admin setup state:", error);
+    res.status(500).json({ error: "Could not record the admin setup" });
+    return;
+  }
+
+  setupToken = null;
+  pendingClaim = null;
+  console.log("Admin account created:", adminId);
+  res.json({ ok: true });
+});
+
+// Give up a claim when creating the admin account failed, so setup can be retried
+app.post("/api/admin-setup/release", (req, res) => {
+  if (pendingClaim && pendingClaim.id === req.body?.claimId) {
+    pendingClaim = null;
+    console.log("Admin setup claim released");
+  }
+  res.json({ ok: true });
+});
+
 // Start the server
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  if (setupToken) {
+    console.log(`Admin setup token (valid until the admin account is created): ${setupToken}`);
+  } else {
+    console.log(`Admin account already set up (see ${SETUP_STATE_FILE})`);
+  }
 });
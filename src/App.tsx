@@ -3,12 +3,21 @@ import { Route, Routes } from "react-router-dom";
 import { HelloWorld } from "./views";
 import { MarketplacePage } from "./features/marketplace/pages/MarketplacePage";
 import { GenreExplorerPage } from "./features/marketplace/pages/GenreExplorerPage";
+import { MessagesPage } from "./features/marketplace/pages/MessagesPage";
+import { ProfilePage } from "./features/marketplace/pages/ProfilePage";
+import { PublicProfilePage } from "./features/marketplace/pages/PublicProfilePage";
+import { AdminPage } from "./features/marketplace/pages/AdminPage";
 
 const App: React.FC = () => {
   return (
     <Routes>
       <Route path="/" element={<MarketplacePage />} />
       <Route path="/explore/:genre" element={<GenreExplorerPage />} />
+      <Route path="/messages" element={<MessagesPage />} />
+      <Route path="/messages/:threadId" element={<MessagesPage />} />
+      <Route path="/profile" element={<ProfilePage />} />
+      <Route path="/u/:username" element={<PublicProfilePage />} />
+      <Route path="/admin" element={<AdminPage />} />
       <Route path="/hello" element={<HelloWorld />} />
     </Routes>
   );
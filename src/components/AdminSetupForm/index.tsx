@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useUserStore } from '../../stores/userStore';
+
+/**
+ * Props for the AdminSetupForm component
+ */
+export interface AdminSetupFormProps {
+  /**
+   * Called when the user backs out of setup
+   */
+  onCancel: () => void;
+}
+
+/**
+ * First-run form for creating the admin account. The operator enters the
+ * setup token the server prints on startup and picks the admin credentials.
+ *
+ * @param props - The component props
+ * @returns A form for creating the first admin
+ */
+export const AdminSetupForm: React.FC<AdminSetupFormProps> = ({ onCancel }) => {
+  const { createInitialAdmin, authError, isLoading } = useUserStore();
+  const [setupToken, setSetupToken] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [localError, setLocalError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLocalError('');
+
+    if (password.length < 8) {
+      setLocalError('Admin passwords must be at least 8 characters');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setLocalError('Passwords do not match');
+      return;
+    }
+
+    await createInitialAdmin(setupToken, username, password);
+  };
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-2">First-run Setup</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        No admin account exists yet. Enter the setup token printed in the server log to create one.
+      </p>
+
+      {(localError || authError) && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4 rounded">
+          <p>{localError || authError}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="setupToken" className="block text-sm font-medium text-gray-700 mb-1">
+            Setup token
+          </label>
+          <input
+            id="setupToken"
+            type="text"
+            value={setupToken}
+            onChange={(e) => setSetupToken(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded font-mono text-sm"
+            autoComplete="off"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="adminUsername" className="block text-sm font-medium text-gray-700 mb-1">
+            Admin username
+          </label>
+          <input
+            id="adminUsername"
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="adminPassword" className="block text-sm font-medium text-gray-700 mb-1">
+            Password
+          </label>
+          <input
+            id="adminPassword"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            autoComplete="new-password"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="adminConfirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+            Confirm password
+          </label>
+          <input
+            id="adminConfirmPassword"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            autoComplete="new-password"
+            required
+          />
+        </div>
+
+        <button
+          type="submit"
+          className="w-full bg-blue-600 text-white p-2 rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={isLoading}
+        >
+          {isLoading ? 'Creating admin...' : 'Create Admin Account'}
+        </button>
+      </form>
+
+      <div className="mt-4 text-center">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-blue-600 text-sm hover:underline focus:outline-none"
+        >
+          Back to login
+        </button>
+      </div>
+    </div>
+  );
+};
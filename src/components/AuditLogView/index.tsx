@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { useModerationStore, MODERATION_ACTION_LABELS } from '../../stores/moderationStore';
+
+/**
+ * Props for the AuditLogView component
+ */
+export interface AuditLogViewProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * Admin view of the audit log: every admin action, newest first, with search
+ *
+ * @param props - The component props
+ * @returns A searchable list of audit entries
+ */
+export const AuditLogView: React.FC<AuditLogViewProps> = ({ className = '' }) => {
+  const { auditLog } = useModerationStore();
+  const [query, setQuery] = useState('');
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleEntries = auditLog.filter(entry =>
+    entry.targetName.toLowerCase().includes(normalizedQuery) ||
+    entry.adminName.toLowerCase().includes(normalizedQuery) ||
+    entry.reason.toLowerCase().includes(normalizedQuery)
+  );
+
+  return (
+    <div className={className}>
+      <h2 className="text-xl font-semibold mb-4">Audit Log</h2>
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by target, admin or reason"
+        className="w-full p-2 border border-gray-300 rounded mb-3 text-sm"
+      />
+
+      {visibleEntries.length > 0 ? (
+        <ul className="divide-y">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="py-3 text-sm">
+              <div className="flex justify-between">
+                <p>
+                  <span className="font-medium">{entry.adminName}</span>
+                  {' '}{MODERATION_ACTION_LABELS[entry.action].toLowerCase()}{' '}
+                  <span className="font-medium">{entry.targetName}</span>
+                  {entry.details && <span className="text-gray-500"> ({entry.details})</span>}
+                </p>
+                <span className="text-gray-500 shrink-0 ml-4">{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="text-gray-700 mt-1">Reason: {entry.reason}</p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500 text-sm">No admin actions recorded yet.</p>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useUserStore } from '../../stores/userStore';
 import { PlayerRole } from '../../types/playerProfile';
+import { AdminSetupForm } from '../AdminSetupForm';
 
 /**
  * Props for the AuthSidebar component
@@ -24,9 +25,10 @@ export const AuthSidebar: React.FC<AuthSidebarProps> = ({ className = '' }) => {
   const [password, setPassword] = useState('');
   const [localError, setLocalError] = useState('');
   const [localLoading, setLocalLoading] = useState(false);
+  const [isAdminSetup, setIsAdminSetup] = useState(false);
   
   // Use the userStore login/signup methods
-  const { login, signup, error, isLoading, user } = useUserStore();
+  const { login, signup, authError: error, isLoading, user, hasAdmin } = useUserStore();
 
   // Reset local loading state when userStore's loading state changes
   useEffect(() => {
@@ -77,7 +79,7 @@ export const AuthSidebar: React.FC<AuthSidebarProps> = ({ className = '' }) => {
       
       if (!success) {
         // If login/signup failed but no error was set in the store
-        setLocalError(error || `${isLogin ? 'Login' : 'Signup'} failed. Please try again.`);
+        setLocalError(useUserStore.getState().authError || `${isLogin ? 'Login' : 'Signup'} failed. Please try again.`);
       }
       
       // Always reset loading after authentication attempt
@@ -94,6 +96,14 @@ export const AuthSidebar: React.FC<AuthSidebarProps> = ({ className = '' }) => {
     }, 3000);
   };
 
+  if (isAdminSetup) {
+    return (
+      <aside className={`w-64 h-screen bg-gray-50 p-4 ${className}`}>
+        <AdminSetupForm onCancel={() => setIsAdminSetup(false)} />
+      </aside>
+    );
+  }
+
   return (
     <aside className={`w-64 h-screen bg-gray-50 p-4 ${className}`}>
       <h2 className="text-xl font-semibold mb-6">{isLogin ? 'Login' : 'Sign Up'}</h2>
@@ -152,6 +162,19 @@ export const AuthSidebar: React.FC<AuthSidebarProps> = ({ className = '' }) => {
           {isLogin ? 'Need an account? Sign up' : 'Already have an account? Login'}
         </button>
       </div>
+      
+      {!hasAdmin() && (
+        <div className="mt-6 pt-4 border-t border-gray-200 text-center">
+          <p className="text-xs text-gray-500 mb-1">This marketplace has no admin yet.</p>
+          <button
+            type="button"
+            onClick={() => setIsAdminSetup(true)}
+            className="text-blue-600 text-sm hover:underline focus:outline-none"
+          >
+            Run first-run setup
+          </button>
+        </div>
+      )}
     </aside>
   );
 };
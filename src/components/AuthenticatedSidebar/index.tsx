@@ -1,7 +1,13 @@
 import React, { useState } from 'react';
-import { useUserStore } from '../../stores/userStore';
+import { Link } from 'react-router-dom';
+import { useUserStore, hasRole } from '../../stores/userStore';
+import { useMessageStore } from '../../stores/messageStore';
 import { PlayerRole } from '../../types/playerProfile';
 import { ListingCreationModal } from '../ListingCreationModal';
+import { TradeMatchesPanel } from '../TradeMatchesPanel';
+import { ExchangeRateEditor } from '../ExchangeRateEditor';
+import { DeviceSessionList } from '../DeviceSessionList';
+import { UserAvatar } from '../UserAvatar';
 
 /**
  * Props for the AuthenticatedSidebar component
@@ -21,6 +27,7 @@ export interface AuthenticatedSidebarProps {
  */
 export const AuthenticatedSidebar: React.FC<AuthenticatedSidebarProps> = ({ className = '' }) => {
   const { getCurrentUser, logout } = useUserStore();
+  const { getTotalUnreadCount } = useMessageStore();
   const currentUser = getCurrentUser();
   const [showListingModal, setShowListingModal] = useState(false);
   
@@ -37,19 +44,16 @@ export const AuthenticatedSidebar: React.FC<AuthenticatedSidebarProps> = ({ clas
     setShowListingModal(true);
   };
   
-  // Default roles if not specified
-  const roles = currentUser.roles || ['user'];
-  const isSeller = roles.includes(PlayerRole.SELLER);
-  const isServiceProvider = roles.includes(PlayerRole.SERVICE_PROVIDER);
+  const isSeller = hasRole(currentUser, PlayerRole.SELLER);
+  const isServiceProvider = hasRole(currentUser, PlayerRole.SERVICE_PROVIDER);
+  const unreadMessages = getTotalUnreadCount(currentUser.id);
   
   return (
     <>
-      <aside className={`w-64 h-screen bg-gray-50 p-4 ${className}`}>
+      <aside className={`w-64 h-screen bg-gray-50 p-4 overflow-y-auto ${className}`}>
         <div className="flex items-center mb-6">
-          <div className="w-12 h-12 rounded-full bg-blue-500 text-white flex items-center justify-center mr-3">
-            {currentUser.name.charAt(0).toUpperCase()}
-          </div>
-          <div>
+          <UserAvatar name={currentUser.name} imageUrl={currentUser.profileImageUrl} sizeClassName="w-12 h-12" />
+          <div className="ml-3">
             <h2 className="text-lg font-semibold">{currentUser.name}</h2>
             <p className="text-sm text-gray-600">
               {currentUser.isAdmin ? 'Administrator' : 'Member'}
@@ -58,8 +62,13 @@ export const AuthenticatedSidebar: React.FC<AuthenticatedSidebarProps> = ({ clas
         </div>
         
         <nav className="space-y-1 mb-6">
-          <a href="#" className="block p-2 hover:bg-gray-100 rounded">My Profile</a>
-          <a href="#" className="block p-2 hover:bg-gray-100 rounded">Messages</a>
+          <Link to="/profile" className="block p-2 hover:bg-gray-100 rounded">My Profile</Link>
+          <Link to="/messages" className="flex justify-between items-center p-2 hover:bg-gray-100 rounded">
+            Messages
+            {unreadMessages > 0 && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-blue-600 text-white">{unreadMessages}</span>
+            )}
+          </Link>
           <a href="#" className="block p-2 hover:bg-gray-100 rounded">Wishlist</a>
           <a href="#" className="block p-2 hover:bg-gray-100 rounded">Purchase History</a>
           
@@ -76,6 +85,11 @@ export const AuthenticatedSidebar: React.FC<AuthenticatedSidebarProps> = ({ clas
           >
             Sell an Item
           </button>
+          {!isSeller && (
+            <Link to="/profile" className="block px-2 text-xs text-gray-500 hover:text-blue-600">
+              Become a seller to list items for sale
+            </Link>
+          )}
           
           {isServiceProvider && (
             <>
@@ -83,11 +97,28 @@ export const AuthenticatedSidebar: React.FC<AuthenticatedSidebarProps> = ({ clas
                 <h3 className="font-medium text-sm mb-1">Service Provider Tools</h3>
               </div>
               <a href="#" className="block p-2 hover:bg-gray-100 rounded">My Services</a>
-              <a href="#" className="block p-2 hover:bg-gray-100 rounded">Offer a Service</a>
+              <button 
+                onClick={handleCreateListing}
+                className="block w-full text-left p-2 hover:bg-gray-100 rounded text-blue-600 font-medium"
+              >
+                Offer a Service
+              </button>
             </>
           )}
         </nav>
         
+        <TradeMatchesPanel className="pt-2 border-t border-gray-200 mb-6" />
+        
+        {currentUser.isAdmin && (
+          <Link to="/admin" className="block p-2 mb-4 hover:bg-gray-100 rounded font-medium">Admin Console</Link>
+        )}
+        
+        {currentUser.isAdmin && (
+          <ExchangeRateEditor className="pt-2 border-t border-gray-200 mb-6" />
+        )}
+        
+        <DeviceSessionList className="pt-2 border-t border-gray-200 mb-6" />
+        
         <div className="pt-4 border-t border-gray-200">
           <button
             onClick={handleLogout}
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Listing, ContactRevealPolicy } from '../../stores/listingStore';
+import { useUserStore } from '../../stores/userStore';
+import {
+  useContactStore,
+  getContactRevealPolicy,
+  CONTACT_REVEAL_POLICY_LABELS
+} from '../../stores/contactStore';
+
+/**
+ * Props for the ContactInfoPanel component
+ */
+export interface ContactInfoPanelProps {
+  /**
+   * The listing whose contact details are shown
+   */
+  listing: Listing;
+}
+
+/**
+ * Explain to a buyer what they need to do to see the seller's contact details
+ */
+const getLockedMessage = (policy: ContactRevealPolicy, isLoggedIn: boolean) => {
+  if (!isLoggedIn) {
+    return 'Log in to contact the seller.';
+  }
+
+  switch (policy) {
+    case ContactRevealPolicy.ON_MESSAGE:
+      return "Message the seller and their contact details will appear here once they've replied.";
+    case ContactRevealPolicy.ON_ACCEPTED_DEAL:
+      return 'The seller shares contact details once they accept your offer or trade.';
+    case ContactRevealPolicy.MESSAGES_ONLY:
+      return 'This seller only talks through in-app messages.';
+  }
+};
+
+/**
+ * Contact details for a listing. Sellers see their own details and reveal
+ * policy, buyers see the details only once they have been revealed to them.
+ *
+ * @param props - The component props
+ * @returns The contact section of a listing
+ */
+export const ContactInfoPanel: React.FC<ContactInfoPanelProps> = ({ listing }) => {
+  const { getCurrentUser } = useUserStore();
+  const { reveals, sealedContacts, getOwnContactInfo, getRevealedContactInfo } = useContactStore();
+  const [contactInfo, setContactInfo] = useState<string | null>(null);
+  const currentUser = getCurrentUser();
+  const isOwnListing = currentUser?.id === listing.sellerId;
+  const policy = getContactRevealPolicy(listing);
+
+  // Decrypt whenever the sealed copy for this viewer changes
+  const sealedForViewer = isOwnListing
+    ? sealedContacts[listing.id]
+    : currentUser ? reveals[listing.id]?.[currentUser.id] : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!sealedForViewer) {
+      setContactInfo(null);
+      return;
+    }
+
+    const decrypt = isOwnListing ? getOwnContactInfo : getRevealedContactInfo;
+    decrypt(listing.id).then(result => {
+      if (!cancelled) setContactInfo(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listing.id, isOwnListing, sealedForViewer, getOwnContactInfo, getRevealedContactInfo]);
+
+  if (isOwnListing) {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 p-4 rounded">
+        <p className="font-medium text-yellow-800">Your contact details</p>
+        <p className="mt-1 text-gray-700">
+          {contactInfo ?? 'Not saved. Edit the listing to enter them again.'}
+        </p>
+        <p className="mt-2 text-sm text-gray-500">Shared with buyers: {CONTACT_REVEAL_POLICY_LABELS[policy].toLowerCase()}</p>
+      </div>
+    );
+  }
+
+  if (contactInfo) {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 p-4 rounded">
+        <p className="font-medium text-yellow-800">Contact method shared with you by the seller:</p>
+        <p className="mt-1 text-gray-700">{contactInfo}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 p-4 rounded">
+      <p className="text-gray-600">{getLockedMessage(policy, Boolean(currentUser))}</p>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMessageStore, getOtherParticipantName, Message, MessageThread } from '../../stores/messageStore';
+
+/**
+ * Props for the ConversationList component
+ */
+export interface ConversationListProps {
+  /**
+   * The user whose conversations are listed
+   */
+  userId: string;
+  /**
+   * ID of the conversation currently open, if any
+   */
+  activeThreadId?: string;
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * The decrypted text of a thread's latest message
+ */
+const LastMessagePreview: React.FC<{ thread: MessageThread; message: Message }> = ({ thread, message }) => {
+  const { openMessage } = useMessageStore();
+  const [body, setBody] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    openMessage(thread, message).then(opened => {
+      if (!cancelled) setBody(opened ? opened.body : null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [thread, message, openMessage]);
+
+  return body === null ? null : <p className="text-sm text-gray-600 truncate mt-1">{body}</p>;
+};
+
+/**
+ * List of the user's conversations, most recent first, with unread counts
+ *
+ * @param props - The component props
+ * @returns A list of links to conversations
+ */
+export const ConversationList: React.FC<ConversationListProps> = ({ userId, activeThreadId, className = '' }) => {
+  const { getThreadsForUser, getUnreadCount } = useMessageStore();
+  const threads = getThreadsForUser(userId);
+
+  if (threads.length === 0) {
+    return (
+      <div className={`p-4 text-sm text-gray-500 ${className}`}>
+        No conversations yet. Use "Contact Seller" on a listing to start one.
+      </div>
+    );
+  }
+
+  return (
+    <ul className={`divide-y ${className}`}>
+      {threads.map(thread => {
+        const unread = getUnreadCount(thread.id, userId);
+        const lastMessage = thread.messages[thread.messages.length - 1];
+
+        return (
+          <li key={thread.id}>
+            <Link
+              to={`/messages/${thread.id}`}
+              className={`block p-3 hover:bg-gray-50 ${thread.id === activeThreadId ? 'bg-blue-50' : ''}`}
+            >
+              <div className="flex justify-between items-center">
+                <span className={`truncate ${unread > 0 ? 'font-semibold' : 'font-medium'}`}>
+                  {getOtherParticipantName(thread, userId)}
+                </span>
+                {unread > 0 && (
+                  <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-blue-600 text-white">{unread}</span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 truncate">{thread.listingTitle}</p>
+              {lastMessage && <LastMessagePreview thread={thread} message={lastMessage} />}
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
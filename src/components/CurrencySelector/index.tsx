@@ -0,0 +1,44 @@
+import React from 'react';
+import { useDisplayCurrencyStore } from '../../stores/displayCurrencyStore';
+import { useUserStore } from '../../stores/userStore';
+import { SUPPORTED_CURRENCIES } from '../../modules/money';
+
+/**
+ * Props for the CurrencySelector component
+ */
+export interface CurrencySelectorProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * A select that lets the viewer choose the currency prices are shown in
+ *
+ * @param props - The component props
+ * @returns A labelled currency select
+ */
+export const CurrencySelector: React.FC<CurrencySelectorProps> = ({ className = '' }) => {
+  const { getDisplayCurrency, setDisplayCurrency } = useDisplayCurrencyStore();
+  // Subscribe to the user store so a profile preference change re-renders the select
+  useUserStore();
+  const displayCurrency = getDisplayCurrency();
+
+  return (
+    <label className={`flex items-center text-sm text-gray-600 ${className}`}>
+      <span className="mr-2">Show prices in</span>
+      <select
+        value={displayCurrency}
+        onChange={(e) => setDisplayCurrency(e.target.value)}
+        className="p-1 border border-gray-300 rounded"
+      >
+        {SUPPORTED_CURRENCIES.map(currency => (
+          <option key={currency.code} value={currency.code}>
+            {currency.symbol} {currency.code}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
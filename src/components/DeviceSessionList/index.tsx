@@ -0,0 +1,114 @@
+import React from 'react';
+import { useUserStore } from '../../stores/userStore';
+import { useSessionStore, SESSION_DURATION_OPTIONS } from '../../stores/sessionStore';
+
+/**
+ * Props for the DeviceSessionList component
+ */
+export interface DeviceSessionListProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * Turn a user agent string into a short "Browser on OS" description
+ */
+const describeDevice = (userAgent: string) => {
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser';
+  const os = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${os}`;
+};
+
+/**
+ * Get the id of this device's session, if it has one
+ */
+const getCurrentSessionId = () => {
+  try {
+    return JSON.parse(localStorage.getItem('user-session') || 'null')?.sessionId || null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * A sidebar panel listing the devices the current user is logged in on, with
+ * controls to end sessions and choose how long sessions last
+ *
+ * @param props - The component props
+ * @returns A panel of active device sessions
+ */
+export const DeviceSessionList: React.FC<DeviceSessionListProps> = ({ className = '' }) => {
+  const { getCurrentUser, logoutEverywhere } = useUserStore();
+  const { getSessionsForUser, getSessionDuration, setSessionDuration, endSession } = useSessionStore();
+  const currentUser = getCurrentUser();
+
+  if (!currentUser) {
+    return null;
+  }
+
+  const sessions = getSessionsForUser(currentUser.id);
+  const currentSessionId = getCurrentSessionId();
+
+  return (
+    <div className={className}>
+      <h3 className="font-medium text-sm mb-1">Devices</h3>
+
+      <ul className="space-y-2 mb-3">
+        {sessions.map(session => (
+          <li key={session.id} className="text-xs flex justify-between items-start gap-2">
+            <div>
+              <p className="text-gray-800" title={session.userAgent}>
+                {describeDevice(session.userAgent)}
+                {session.id === currentSessionId && (
+                  <span className="ml-1 text-green-700">(this device)</span>
+                )}
+              </p>
+              <p className="text-gray-500">Last seen {new Date(session.lastSeenAt).toLocaleString()}</p>
+            </div>
+            {session.id !== currentSessionId && (
+              <button
+                type="button"
+                onClick={() => endSession(session.id)}
+                className="text-red-600 hover:text-red-800 shrink-0"
+              >
+                Log out
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <label className="block text-xs text-gray-600 mb-3">
+        Stay logged in for
+        <select
+          value={getSessionDuration(currentUser.id)}
+          onChange={(e) => setSessionDuration(currentUser.id, Number(e.target.value))}
+          className="w-full p-1 border border-gray-300 rounded text-sm mt-1"
+        >
+          {SESSION_DURATION_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <button
+        type="button"
+        onClick={logoutEverywhere}
+        className="w-full px-2 py-1 text-xs border border-red-300 text-red-600 rounded hover:bg-red-50"
+      >
+        Log out everywhere
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { useExchangeRateStore } from '../../stores/exchangeRateStore';
+import { SUPPORTED_CURRENCIES } from '../../modules/money';
+
+/**
+ * Props for the ExchangeRateEditor component
+ */
+export interface ExchangeRateEditorProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * Admin editor for the synced exchange rate table. Rates are entered as how
+ * many units of each currency one unit of the base currency buys.
+ *
+ * @param props - The component props
+ * @returns A compact table of editable exchange rates
+ */
+export const ExchangeRateEditor: React.FC<ExchangeRateEditorProps> = ({ className = '' }) => {
+  const { baseCurrency, rates, updatedAt, updatedBy, error, setRate, removeRate } = useExchangeRateStore();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const currencies = SUPPORTED_CURRENCIES.filter(currency => currency.code !== baseCurrency);
+
+  const handleSave = (code: string) => {
+    const draft = drafts[code];
+    if (draft === undefined) return;
+
+    const saved = draft.trim() === ''
+      ? removeRate(code)
+      : setRate(code, parseFloat(draft));
+
+    if (saved) {
+      setDrafts(prev => {
+        const { [code]: _saved, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  return (
+    <div className={className}>
+      <h3 className="font-medium text-sm mb-1">Exchange Rates</h3>
+      <p className="text-xs text-gray-500 mb-2">1 {baseCurrency} equals:</p>
+
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      <div className="space-y-1">
+        {currencies.map(currency => (
+          <div key={currency.code} className="flex items-center gap-1">
+            <span className="w-10 text-xs font-medium">{currency.code}</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={drafts[currency.code] ?? rates[currency.code]?.toString() ?? ''}
+              onChange={(e) => setDrafts(prev => ({ ...prev, [currency.code]: e.target.value }))}
+              onBlur={() => handleSave(currency.code)}
+              className="flex-1 p-1 border border-gray-300 rounded text-xs"
+              placeholder="Not set"
+            />
+          </div>
+        ))}
+      </div>
+
+      {updatedAt && (
+        <p className="text-xs text-gray-400 mt-2">
+          Updated {new Date(updatedAt).toLocaleDateString()}{updatedBy ? ` by ${updatedBy}` : ''}
+        </p>
+      )}
+    </div>
+  );
+};
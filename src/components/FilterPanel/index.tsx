@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Listing, ItemCategory, ServiceCategory } from '../../stores/listingStore';
+import { Listing, ListingPrice, ItemCategory, ServiceCategory } from '../../stores/listingStore';
+import money, { DEFAULT_CURRENCY } from '../../modules/money';
 
 /**
  * Props for the FilterSection component
@@ -34,6 +35,7 @@ interface MarketplaceFilters {
   };
   location: string;
   sellerTypes: string[];
+  trustedSellersOnly: boolean;
 }
 
 /**
@@ -52,6 +54,14 @@ export interface FilterPanelProps {
    * Available listings to base filter options on
    */
   listings?: Listing[];
+  /**
+   * Currency the price range is entered and shown in
+   */
+  displayCurrency?: string;
+  /**
+   * Converts a listing price into the display currency, returning null when no rate is known
+   */
+  toDisplayPrice?: (price: ListingPrice) => ListingPrice | null;
 }
 
 /**
@@ -66,9 +76,12 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
     categories: [],
     priceRange: { min: null, max: null },
     location: '',
-    sellerTypes: []
+    sellerTypes: [],
+    trustedSellersOnly: false
   },
-  listings = []
+  listings = [],
+  displayCurrency = DEFAULT_CURRENCY,
+  toDisplayPrice = (price) => price
 }) => {
   // Local state for managing filter inputs
   const [minPrice, setMinPrice] = useState<string>(currentFilters.priceRange.min?.toString() || '');
@@ -88,8 +101,9 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
       categoryMap.set(category, (categoryMap.get(category) || 0) + 1);
       
       // Process price for bounds
-      const price = parseFloat(listing.price);
-      if (!isNaN(price)) {
+      const displayPrice = toDisplayPrice(listing.price);
+      if (displayPrice && displayPrice.amountMinor !== null) {
+        const price = money.toMajorUnits(displayPrice.amountMinor, displayCurrency);
         minListingPrice = Math.min(minListingPrice, price);
         maxListingPrice = Math.max(maxListingPrice, price);
       }
@@ -116,7 +130,7 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
         max: maxListingPrice === 0 ? 100 : Math.ceil(maxListingPrice)
       }
     };
-  }, [listings]);
+  }, [listings, displayCurrency, toDisplayPrice]);
   
   // Update local state when props change
   useEffect(() => {
@@ -190,7 +204,7 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
         </div>
       </FilterSection>
 
-      <FilterSection title="Price Range">
+      <FilterSection title={`Price Range (${displayCurrency})`}>
         <div className="space-y-2">
           <div className="flex gap-2">
             <input 
@@ -212,7 +226,9 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
           </div>
           {filterOptions.priceRange.min !== 0 && filterOptions.priceRange.max !== 100 && (
             <p className="text-xs text-gray-500">
-              Price range: ${filterOptions.priceRange.min} - ${filterOptions.priceRange.max}
+              Price range: {money.formatAmount(money.toMinorUnits(filterOptions.priceRange.min, displayCurrency), displayCurrency)}
+              {' - '}
+              {money.formatAmount(money.toMinorUnits(filterOptions.priceRange.max, displayCurrency), displayCurrency)}
             </p>
           )}
         </div>
@@ -262,6 +278,18 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
           </label>
         </div>
       </FilterSection>
+
+      <FilterSection title="Seller">
+        <label className="flex items-center">
+          <input 
+            type="checkbox" 
+            className="mr-2" 
+            checked={currentFilters.trustedSellersOnly}
+            onChange={(e) => onFilterChange?.({ trustedSellersOnly: e.target.checked })}
+          />
+          <span>Trusted sellers only</span>
+        </label>
+      </FilterSection>
     </div>
   );
 };
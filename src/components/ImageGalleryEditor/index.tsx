@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GalleryImage } from '../../stores/listingStore';
+import { SyncedImage } from '../SyncedImage';
+
+/**
+ * Props for the ImageGalleryEditor component
+ */
+export interface ImageGalleryEditorProps {
+  /**
+   * The gallery being edited, in display order
+   */
+  images: GalleryImage[];
+  /**
+   * Called with the updated gallery after a reorder, removal or primary change
+   */
+  onChange: (images: GalleryImage[]) => void;
+}
+
+/**
+ * Move an item within a list, returning a new list
+ */
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+/**
+ * Editable grid of listing images. Images can be dragged to reorder, marked
+ * as the primary image shown on cards, or removed.
+ *
+ * @param props - The component props
+ * @returns A grid of image tiles with gallery controls
+ */
+export const ImageGalleryEditor: React.FC<ImageGalleryEditorProps> = ({ images, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+  const previewUrlsRef = useRef(previewUrls);
+
+  // Create object URLs for new uploads and revoke those no longer in the gallery
+  useEffect(() => {
+    const next: Record<string, string> = {};
+    images.forEach(image => {
+      if (image.file) {
+        next[image.id] = previewUrlsRef.current[image.id] ?? URL.createObjectURL(image.file);
+      }
+    });
+
+    Object.entries(previewUrlsRef.current).forEach(([id, url]) => {
+      if (next[id] !== url) URL.revokeObjectURL(url);
+    });
+
+    previewUrlsRef.current = next;
+    setPreviewUrls(next);
+  }, [images]);
+
+  // Revoke any remaining previews when the editor goes away
+  useEffect(() => {
+    return () => {
+      Object.values(previewUrlsRef.current).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  const handleSetPrimary = (id: string) => {
+    onChange(images.map(image => ({ ...image, isPrimary: image.id === id })));
+  };
+
+  const handleRemove = (id: string) => {
+    const remaining = images.filter(image => image.id !== id);
+
+    // Keep a primary image if the removed one was primary
+    if (remaining.length > 0 && !remaining.some(image => image.isPrimary)) {
+      remaining[0] = { ...remaining[0], isPrimary: true };
+    }
+
+    onChange(remaining);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(moveItem(images, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  if (images.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-4 mt-4">
+      {images.map((image, index) => {
+        const src = previewUrls[image.id] ?? image.thumbnailUrl ?? image.url;
+
+        return (
+          <div
+            key={image.id}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => setDragIndex(null)}
+            className={`relative rounded border-2 cursor-move ${
+              image.isPrimary ? 'border-blue-500' : 'border-transparent'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            {src ? (
+              <SyncedImage
+                src={src}
+                alt={`Image ${index + 1}`}
+                className="h-24 w-full object-cover rounded"
+              />
+            ) : (
+              <div className="h-24 w-full bg-gray-100 rounded" />
+            )}
+
+            {image.isPrimary ? (
+              <span className="absolute bottom-1 left-1 text-xs px-2 py-0.5 rounded bg-blue-600 text-white">
+                Primary
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleSetPrimary(image.id)}
+                className="absolute bottom-1 left-1 text-xs px-2 py-0.5 rounded bg-white bg-opacity-90 text-gray-700 hover:bg-opacity-100"
+              >
+                Set primary
+              </button>
+            )}
+
+            <button
+              type="button"
+              onClick={() => handleRemove(image.id)}
+              className="absolute top-0 right-0 bg-red-500 text-white rounded-full p-1 transform translate-x-1/2 -translate-y-1/2"
+              aria-label="Remove image"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,4 +1,11 @@
 import React from 'react';
+import { ListingPrice, ListingImage, getPrimaryImage } from '../../stores/listingStore';
+import money from '../../modules/money';
+import { SyncedImage } from '../SyncedImage';
+import { StarRating } from '../StarRating';
+import { RatingSummary } from '../../stores/reviewStore';
+import { ReputationBadge } from '../ReputationBadge';
+import { Reputation } from '../../modules/reputation';
 
 /**
  * Props for the ItemCard component
@@ -15,15 +22,27 @@ export interface ItemCardProps {
   /**
    * Price of the item
    */
-  price: number;
+  price: ListingPrice;
   /**
-   * URL to the item's image
+   * Price converted to the viewer's display currency, when it differs from the listing's
    */
-  imageUrl: string;
+  convertedPrice?: ListingPrice | null;
+  /**
+   * The item's images; the card shows the thumbnail of the primary image
+   */
+  images: ListingImage[];
   /**
    * Seller's username
    */
   seller: string;
+  /**
+   * Seller's average rating; shown once they have at least one review
+   */
+  sellerRating?: RatingSummary;
+  /**
+   * Seller's reputation, shown as a badge next to their name
+   */
+  sellerReputation?: Reputation | null;
   /**
    * Brief description of the item
    */
@@ -32,6 +51,11 @@ export interface ItemCardProps {
    * Location of the item/seller
    */
   location?: string;
+  /**
+   * Whether the listing's signatures couldn't be checked, because it has none
+   * or they're from a key this device doesn't trust yet
+   */
+  isUnverified?: boolean;
   /**
    * Handler for when the card is clicked
    */
@@ -48,12 +72,21 @@ export const ItemCard: React.FC<ItemCardProps> = ({
   itemId,
   title,
   price,
-  imageUrl,
+  convertedPrice,
+  images,
   seller,
+  sellerRating,
+  sellerReputation,
   description,
   location,
+  isUnverified = false,
   onClick
 }) => {
+  const primaryImage = getPrimaryImage(images);
+  const imageUrl = primaryImage
+    ? primaryImage.thumbnailUrl || primaryImage.url
+    : 'https://placehold.co/300x200?text=No+Image';
+  
   return (
     <div 
       className="border rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow cursor-pointer"
@@ -61,18 +94,39 @@ export const ItemCard: React.FC<ItemCardProps> = ({
       data-item-id={itemId}
     >
       <div className="h-48 overflow-hidden">
-        <img 
+        <SyncedImage 
           src={imageUrl} 
           alt={title} 
           className="w-full h-full object-cover"
         />
       </div>
       <div className="p-4">
-        <h3 className="font-semibold text-lg">{title}</h3>
-        <p className="text-blue-600 font-bold mt-1">${price.toFixed(2)}</p>
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="font-semibold text-lg">{title}</h3>
+          {isUnverified && (
+            <span
+              className="shrink-0 mt-1 px-2 py-0.5 text-xs rounded bg-yellow-100 text-yellow-800"
+              title="This listing's signature couldn't be checked"
+            >
+              Unverified
+            </span>
+          )}
+        </div>
+        <p className="text-blue-600 font-bold mt-1">
+          {money.formatPrice(convertedPrice || price)}
+          {convertedPrice && convertedPrice.currency !== price.currency && (
+            <span className="ml-2 text-xs text-gray-500 font-normal">({money.formatPrice(price)})</span>
+          )}
+        </p>
         <p className="text-gray-600 text-sm mt-2 line-clamp-2">{description}</p>
         <div className="mt-3 flex justify-between items-center">
-          <span className="text-sm text-gray-500">By: {seller}</span>
+          <span className="text-sm text-gray-500">
+            By: {seller}
+            {sellerReputation && <ReputationBadge reputation={sellerReputation} className="ml-2" />}
+            {sellerRating && sellerRating.count > 0 && (
+              <StarRating rating={sellerRating.average} count={sellerRating.count} className="ml-2" />
+            )}
+          </span>
           {location && <span className="text-sm text-gray-500">{location}</span>}
         </div>
       </div>
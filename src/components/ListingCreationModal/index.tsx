@@ -1,56 +1,138 @@
-import React, { useState } from 'react';
-import { useUserStore } from '../../stores/userStore';
+import React, { useEffect, useState } from 'react';
+import { useUserStore, hasRole, ROLE_LABELS } from '../../stores/userStore';
 import { 
   useListingStore, 
+  Listing,
   ListingType, 
   ItemCategory, 
   ServiceCategory, 
   ItemCondition,
-  ListingFormData
+  ListingFormData,
+  PricingUnit,
+  GalleryImage,
+  ContactRevealPolicy,
+  LISTING_TYPE_ROLES
 } from '../../stores/listingStore';
+import {
+  useContactStore,
+  getContactRevealPolicy,
+  CONTACT_REVEAL_POLICY_LABELS
+} from '../../stores/contactStore';
+import money, { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../../modules/money';
+import { MAX_UPLOAD_BYTES } from '../../modules/imageStorage';
+import { ImageGalleryEditor } from '../ImageGalleryEditor';
+
+/**
+ * Generate a random ID for gallery images
+ */
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+/**
+ * Build form data prefilled from an existing listing
+ */
+const toFormData = (listing: Listing): ListingFormData => ({
+  listingType: listing.listingType,
+  category: listing.category,
+  title: listing.title,
+  shortDescription: listing.shortDescription,
+  detailedDescription: listing.detailedDescription,
+  price: { ...listing.price },
+  condition: listing.condition,
+  location: listing.location,
+  isRemote: listing.isRemote,
+  contactInfo: '',  // Loaded separately, since it is sealed
+  contactRevealPolicy: getContactRevealPolicy(listing),
+  tags: listing.tags.join(', ')
+});
 
 // Props interface for the modal component
 interface ListingCreationModalProps {
   onClose: () => void;
+  /** Listing to edit; when omitted the modal creates a new listing */
+  listing?: Listing;
 }
 
-export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onClose }) => {
+export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onClose, listing }) => {
   // Get current user
   const { getCurrentUser } = useUserStore();
   // Get listing store methods
-  const { createListing, isLoading, error: storeError } = useListingStore();
+  const { createListing, updateListing, isLoading, error: storeError } = useListingStore();
+  const isEditing = Boolean(listing);
   
   const currentUser = getCurrentUser();
 
   if (!currentUser) {
     return null;
   }
+  
+  // Some listing types need a role. A listing being edited can keep its type either way
+  const getMissingRole = (type: ListingType) => {
+    const requiredRole = LISTING_TYPE_ROLES[type];
+    if (!requiredRole || hasRole(currentUser, requiredRole) || listing?.listingType === type) {
+      return null;
+    }
+    return requiredRole;
+  };
+  const typeLabel = (type: ListingType, label: string) => {
+    const missingRole = getMissingRole(type);
+    return missingRole ? `${label} (${ROLE_LABELS[missingRole]} role needed)` : label;
+  };
 
   // Initialize form state
-  const [formData, setFormData] = useState<ListingFormData>({
-    listingType: ListingType.SELL,
+  const [formData, setFormData] = useState<ListingFormData>(() => listing ? toFormData(listing) : {
+    listingType: getMissingRole(ListingType.SELL) ? ListingType.BUY : ListingType.SELL,
     category: ItemCategory.VIDEO_GAME,
     title: '',
     shortDescription: '',
     detailedDescription: '',
-    price: '',
+    price: {
+      amountMinor: null,
+      currency: DEFAULT_CURRENCY,
+      unit: PricingUnit.FIXED,
+      orBestOffer: false
+    },
     condition: ItemCondition.NEW,
     location: '',
     isRemote: false,
     contactInfo: '',
+    contactRevealPolicy: ContactRevealPolicy.ON_MESSAGE,
     tags: ''
   });
   
+  // Contact details are sealed, so decrypt the seller's copy when editing
+  const { getOwnContactInfo } = useContactStore();
+  const [isContactMissing, setIsContactMissing] = useState(false);
+  
+  useEffect(() => {
+    if (!listing) return;
+    
+    getOwnContactInfo(listing.id).then(contactInfo => {
+      if (contactInfo === null) {
+        setIsContactMissing(true);
+      } else {
+        setFormData(prev => ({ ...prev, contactInfo }));
+      }
+    });
+  }, [listing, getOwnContactInfo]);
+  
   // Step-based form navigation
   const [currentStep, setCurrentStep] = useState(1);
   const totalSteps = 5;
   
   // Validation state
-  const [errors, setErrors] = useState<Partial<Record<keyof ListingFormData, string>>>({});
+  const [errors, setErrors] = useState<Partial<Record<keyof ListingFormData | 'general', string>>>({});
   
-  // Image upload state (simplified for demo)
-  const [imageFiles, setImageFiles] = useState<File[]>([]);
-  const [previewUrls, setPreviewUrls] = useState<string[]>([]);
+  // Raw text of the price amount input, kept separately so partial input isn't lost
+  const [priceAmount, setPriceAmount] = useState(() =>
+    listing && listing.price.amountMinor !== null
+      ? money.toMajorUnits(listing.price.amountMinor, listing.price.currency).toString()
+      : ''
+  );
+  
+  // Image gallery state
+  const [gallery, setGallery] = useState<GalleryImage[]>(() =>
+    listing ? listing.images.map(image => ({ ...image })) : []
+  );
   const [imageUrl, setImageUrl] = useState('');
   const [isValidImage, setIsValidImage] = useState(true);
 
@@ -70,31 +152,69 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
     setFormData(prev => ({ ...prev, [name]: checked }));
   };
   
+  // Handle changes to the structured price
+  const handlePriceChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    const price = { ...formData.price };
+    
+    if (name === 'priceAmount' || name === 'priceCurrency') {
+      const amountText = name === 'priceAmount' ? value : priceAmount;
+      const amount = parseFloat(amountText);
+      
+      if (name === 'priceCurrency') {
+        price.currency = value;
+      }
+      
+      setPriceAmount(amountText);
+      price.amountMinor = isNaN(amount) ? null : money.toMinorUnits(amount, price.currency);
+    } else if (name === 'priceUnit') {
+      price.unit = value as PricingUnit;
+    } else if (name === 'priceOrBestOffer') {
+      price.orBestOffer = (e.target as HTMLInputElement).checked;
+    }
+    
+    setFormData(prev => ({ ...prev, price }));
+    
+    if (errors.price) {
+      setErrors(prev => ({ ...prev, price: undefined }));
+    }
+  };
+  
+  // Add new images to the end of the gallery
+  const addToGallery = (items: Omit<GalleryImage, 'id' | 'isPrimary'>[]) => {
+    setGallery(prev => [
+      ...prev,
+      ...items.map((item, index) => ({
+        ...item,
+        id: generateId(),
+        isPrimary: prev.length === 0 && index === 0
+      }))
+    ]);
+  };
+  
   // Handle image upload
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const newFiles = Array.from(e.target.files);
-      setImageFiles(prev => [...prev, ...newFiles]);
+      const selectedFiles = Array.from(e.target.files);
+      const newFiles = selectedFiles.filter(file =>
+        file.type.startsWith('image/') && file.size <= MAX_UPLOAD_BYTES
+      );
+      
+      if (newFiles.length < selectedFiles.length) {
+        setErrors(prev => ({ ...prev, general: 'Some files were skipped. Photos must be images up to 10MB.' }));
+      }
       
-      // Generate preview URLs
-      const newPreviewUrls = newFiles.map(file => URL.createObjectURL(file));
-      setPreviewUrls(prev => [...prev, ...newPreviewUrls]);
+      addToGallery(newFiles.map(file => ({ file })));
+      // Allow the same file to be picked again after removing it
+      e.target.value = '';
     }
   };
   
-  // Remove an uploaded image
-  const handleRemoveImage = (index: number) => {
-    const newFiles = [...imageFiles];
-    const newUrls = [...previewUrls];
-    
-    // Revoke object URL to prevent memory leaks
-    URL.revokeObjectURL(newUrls[index]);
-    
-    newFiles.splice(index, 1);
-    newUrls.splice(index, 1);
-    
-    setImageFiles(newFiles);
-    setPreviewUrls(newUrls);
+  // Add the image URL to the gallery
+  const handleAddImageUrl = () => {
+    if (!imageUrl.trim() || !isValidImage) return;
+    addToGallery([{ url: imageUrl.trim() }]);
+    setImageUrl('');
   };
   
   // Handle image URL change
@@ -133,6 +253,11 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
       case 1: // Listing type & category
         if (!formData.listingType) {
           stepErrors.listingType = 'Please select a listing type';
+        } else {
+          const missingRole = getMissingRole(formData.listingType);
+          if (missingRole) {
+            stepErrors.listingType = `You need the ${ROLE_LABELS[missingRole]} role for this. You can take it on from My Profile.`;
+          }
         }
         if (!formData.category) {
           stepErrors.category = 'Please select a category';
@@ -147,9 +272,14 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
         }
         break;
       case 3: // Pricing and condition
-        if (!formData.price.trim()) {
+        if (formData.price.unit !== PricingUnit.FREE && 
+            formData.price.unit !== PricingUnit.NEGOTIABLE && 
+            formData.price.amountMinor === null) {
           stepErrors.price = 'Please enter a price or rate';
         }
+        if (formData.price.amountMinor !== null && formData.price.amountMinor < 0) {
+          stepErrors.price = 'Price cannot be negative';
+        }
         if (isPhysicalItem() && !formData.condition) {
           stepErrors.condition = 'Please select a condition';
         }
@@ -222,33 +352,31 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
       return;
     }
     
-    // Convert the image URL to a File object
-    let imageFiles: File[] = [];
-    if (imageUrl.trim()) {
-      // Create a mock File object
-      const fileName = imageUrl.split('/').pop() || 'image.jpg';
-      // Use a blob to simulate a file - in a real app you might handle this differently
-      const mockFile = new File([new Blob()], fileName, { type: 'image/jpeg' });
-      
-      // Override the createMockImageUrl function behavior for this specific file
-      // by adding a special attribute to the file
-      Object.defineProperty(mockFile, 'customUrl', {
-        value: imageUrl,
-        writable: false
-      });
-      
-      imageFiles = [mockFile];
-    }
-    
     // Form is valid, submit to store
     try {
-      await createListing(formData, imageFiles);
+      // Uploaded photos are compressed and stored by the listing store
+      // Include an image URL that was entered but not added yet
+      const pendingUrl = imageUrl.trim() && isValidImage
+        ? [{ id: generateId(), url: imageUrl.trim(), isPrimary: gallery.length === 0 }]
+        : [];
+      const images = [...gallery, ...pendingUrl];
+      
+      if (listing) {
+        const updated = await updateListing(listing.id, formData, images);
+        if (!updated) {
+          throw new Error(useListingStore.getState().error || 'Failed to update listing');
+        }
+        alert('Listing updated successfully!');
+      } else {
+        await createListing(formData, images);
+        alert('Listing created successfully!');
+      }
       
-      alert('Listing created successfully!');
       onClose();
     } catch (error) {
       console.error('Error submitting listing:', error);
-      setErrors({ ...errors, general: storeError || 'Failed to create listing. Please try again.' });
+      const message = error instanceof Error ? error.message : storeError;
+      setErrors({ ...errors, general: message || `Failed to ${isEditing ? 'update' : 'create'} listing. Please try again.` });
     }
   };
   
@@ -258,7 +386,7 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
       case 1: return ['listingType', 'category'];
       case 2: return ['title', 'shortDescription', 'detailedDescription'];
       case 3: return ['price', 'condition'];
-      case 4: return ['location', 'isRemote', 'contactInfo'];
+      case 4: return ['location', 'isRemote', 'contactInfo', 'contactRevealPolicy'];
       case 5: return ['tags'];
       default: return [];
     }
@@ -271,7 +399,7 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white border-b p-4 flex justify-between items-center z-10">
-          <h2 className="text-xl font-semibold">Create Listing</h2>
+          <h2 className="text-xl font-semibold">{isEditing ? 'Edit Listing' : 'Create Listing'}</h2>
           <button 
             onClick={onClose}
             className="text-gray-500 hover:text-gray-700"
@@ -312,10 +440,14 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
                   onChange={handleChange}
                   className={`w-full p-2 border rounded ${errors.listingType ? 'border-red-500' : 'border-gray-300'}`}
                 >
-                  <option value={ListingType.SELL}>Sell an Item</option>
+                  <option value={ListingType.SELL} disabled={Boolean(getMissingRole(ListingType.SELL))}>
+                    {typeLabel(ListingType.SELL, 'Sell an Item')}
+                  </option>
                   <option value={ListingType.BUY}>Buy an Item</option>
                   <option value={ListingType.TRADE}>Trade an Item</option>
-                  <option value={ListingType.OFFER_SERVICE}>Offer a Service</option>
+                  <option value={ListingType.OFFER_SERVICE} disabled={Boolean(getMissingRole(ListingType.OFFER_SERVICE))}>
+                    {typeLabel(ListingType.OFFER_SERVICE, 'Offer a Service')}
+                  </option>
                   <option value={ListingType.REQUEST_SERVICE}>Request a Service</option>
                 </select>
                 {errors.listingType && <p className="text-red-500 text-sm mt-1">{errors.listingType}</p>}
@@ -422,30 +554,60 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
                         : 'What is the value of your item?'
                   }
                 </label>
-                <div className="relative mt-1 rounded-md shadow-sm">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <span className="text-gray-500 sm:text-sm">$</span>
-                  </div>
-                  <input
-                    type="text"
-                    name="price"
-                    value={formData.price}
-                    onChange={handleChange}
-                    className={`w-full pl-7 p-2 border rounded ${errors.price ? 'border-red-500' : 'border-gray-300'}`}
-                    placeholder="0.00"
-                    aria-describedby="price-currency"
-                  />
-                  <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                    <span className="text-gray-500 sm:text-sm" id="price-currency">USD</span>
+                <select
+                  name="priceUnit"
+                  value={formData.price.unit}
+                  onChange={handlePriceChange}
+                  className="w-full p-2 border border-gray-300 rounded mb-2"
+                >
+                  <option value={PricingUnit.FIXED}>Fixed price</option>
+                  <option value={PricingUnit.PER_HOUR}>Per hour</option>
+                  <option value={PricingUnit.PER_SESSION}>Per session</option>
+                  <option value={PricingUnit.NEGOTIABLE}>Negotiable</option>
+                  <option value={PricingUnit.FREE}>Free</option>
+                </select>
+                
+                {formData.price.unit !== PricingUnit.FREE && (
+                  <div className="flex gap-2">
+                    <select
+                      name="priceCurrency"
+                      value={formData.price.currency}
+                      onChange={handlePriceChange}
+                      className="p-2 border border-gray-300 rounded"
+                      aria-label="Currency"
+                    >
+                      {SUPPORTED_CURRENCIES.map(currency => (
+                        <option key={currency.code} value={currency.code}>
+                          {currency.symbol} {currency.code}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      name="priceAmount"
+                      min="0"
+                      step="0.01"
+                      value={priceAmount}
+                      onChange={handlePriceChange}
+                      className={`flex-1 p-2 border rounded ${errors.price ? 'border-red-500' : 'border-gray-300'}`}
+                      placeholder={formData.price.unit === PricingUnit.NEGOTIABLE ? 'Asking amount (optional)' : '0.00'}
+                    />
                   </div>
-                </div>
-                {errors.price && <p className="text-red-500 text-sm mt-1">{errors.price}</p>}
+                )}
                 
-                {isService() && (
-                  <p className="mt-2 text-sm text-gray-500">
-                    Tip: You can specify if this is an hourly rate, fixed price, or negotiable in your description.
-                  </p>
+                {formData.price.unit !== PricingUnit.FREE && formData.price.unit !== PricingUnit.NEGOTIABLE && (
+                  <label className="flex items-center mt-2">
+                    <input
+                      type="checkbox"
+                      name="priceOrBestOffer"
+                      checked={formData.price.orBestOffer}
+                      onChange={handlePriceChange}
+                      className="mr-2"
+                    />
+                    <span className="text-sm text-gray-700">Or best offer</span>
+                  </label>
                 )}
+                {errors.price && <p className="text-red-500 text-sm mt-1">{errors.price}</p>}
               </div>
               
               {isPhysicalItem() && (
@@ -515,9 +677,33 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
                   className={`w-full p-2 border rounded ${errors.contactInfo ? 'border-red-500' : 'border-gray-300'}`}
                   placeholder="Email, phone, Discord handle, etc."
                 />
-                <p className="text-sm text-gray-500 mt-1">This information will be visible to other users.</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  This is encrypted and only shared with the buyers you choose below.
+                </p>
+                {isContactMissing && (
+                  <p className="text-sm text-yellow-700 mt-1">
+                    Your contact details were saved on another device. Enter them again to keep sharing them.
+                  </p>
+                )}
                 {errors.contactInfo && <p className="text-red-500 text-sm mt-1">{errors.contactInfo}</p>}
               </div>
+              
+              <div>
+                <label htmlFor="contactRevealPolicy" className="block text-sm font-medium text-gray-700 mb-1">
+                  When can buyers see your contact details?
+                </label>
+                <select
+                  id="contactRevealPolicy"
+                  name="contactRevealPolicy"
+                  value={formData.contactRevealPolicy}
+                  onChange={handleChange}
+                  className="w-full p-2 border border-gray-300 rounded"
+                >
+                  {Object.values(ContactRevealPolicy).map(policy => (
+                    <option key={policy} value={policy}>{CONTACT_REVEAL_POLICY_LABELS[policy]}</option>
+                  ))}
+                </select>
+              </div>
             </div>
           )}
           
@@ -552,30 +738,11 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
                   </div>
                 </div>
                 
-                {/* Image previews */}
-                {previewUrls.length > 0 && (
-                  <div className="grid grid-cols-3 gap-4 mt-4">
-                    {previewUrls.map((url, index) => (
-                      <div key={index} className="relative">
-                        <img 
-                          src={url} 
-                          alt={`Preview ${index + 1}`} 
-                          className="h-24 w-full object-cover rounded"
-                        />
-                        <button
-                          type="button"
-                          onClick={() => handleRemoveImage(index)}
-                          className="absolute top-0 right-0 bg-red-500 text-white rounded-full p-1 transform translate-x-1/2 -translate-y-1/2"
-                          aria-label="Remove image"
-                        >
-                          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                          </svg>
-                        </button>
-                      </div>
-                    ))}
-                  </div>
+                {/* Gallery */}
+                {gallery.length > 1 && (
+                  <p className="text-xs text-gray-500 mt-2">Drag photos to reorder them. The primary photo is shown on the listing card.</p>
                 )}
+                <ImageGalleryEditor images={gallery} onChange={setGallery} />
               </div>
               
               <div>
@@ -598,14 +765,24 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
                 <label htmlFor="imageUrl" className="block text-sm font-medium text-gray-700 mb-1">
                   Image URL
                 </label>
-                <input
-                  type="text"
-                  id="imageUrl"
-                  value={imageUrl}
-                  onChange={handleImageUrlChange}
-                  placeholder="https://example.com/image.jpg"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    id="imageUrl"
+                    value={imageUrl}
+                    onChange={handleImageUrlChange}
+                    placeholder="https://example.com/image.jpg"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleAddImageUrl}
+                    disabled={!imageUrl.trim() || !isValidImage}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
                 {imageUrl && (
                   <div className="mt-2">
                     <p className="text-sm text-gray-500 mb-1">Preview:</p>
@@ -631,7 +808,7 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
                   <p><strong>Type:</strong> {formData.listingType.replace('_', ' ').toUpperCase()}</p>
                   <p><strong>Category:</strong> {formData.category.replace('_', ' ').toUpperCase()}</p>
                   <p><strong>Title:</strong> {formData.title}</p>
-                  <p><strong>Price:</strong> ${formData.price}</p>
+                  <p><strong>Price:</strong> {money.formatPrice(formData.price)}</p>
                   {isPhysicalItem() && <p><strong>Condition:</strong> {formData.condition?.replace('_', ' ').toUpperCase()}</p>}
                   <p><strong>Location:</strong> {formData.isRemote ? 'Remote/Online' : formData.location}</p>
                 </div>
@@ -676,7 +853,9 @@ export const ListingCreationModal: React.FC<ListingCreationModalProps> = ({ onCl
                 className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
                 disabled={isLoading}
               >
-                {isLoading ? 'Creating...' : 'Create Listing'}
+                {isEditing
+                  ? (isLoading ? 'Saving...' : 'Save Changes')
+                  : (isLoading ? 'Creating...' : 'Create Listing')}
               </button>
             )}
           </div>
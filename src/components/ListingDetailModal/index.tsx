@@ -1,6 +1,29 @@
-import React, { useState } from 'react';
-import { Listing, ItemCondition, ListingType } from '../../stores/listingStore';
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Listing, ItemCondition, ListingType, useListingStore } from '../../stores/listingStore';
 import { useUserStore } from '../../stores/userStore';
+import { useMessageStore, MAX_MESSAGE_LENGTH } from '../../stores/messageStore';
+import { OfferThread } from '../OfferThread';
+import { TradeProposalPanel } from '../TradeProposalPanel';
+import { SyncedImage } from '../SyncedImage';
+import { ListingCreationModal } from '../ListingCreationModal';
+import { ContactInfoPanel } from '../ContactInfoPanel';
+import { UserAvatar } from '../UserAvatar';
+import money from '../../modules/money';
+import { useExchangeRateStore } from '../../stores/exchangeRateStore';
+import { useDisplayCurrencyStore } from '../../stores/displayCurrencyStore';
+import { useListingVerificationStore } from '../../stores/listingVerificationStore';
+import { useReportStore } from '../../stores/reportStore';
+import { ReportDialog } from '../ReportDialog';
+import { useReviewStore } from '../../stores/reviewStore';
+import { StarRating } from '../StarRating';
+import { ReviewForm } from '../ReviewForm';
+import { useModerationStore } from '../../stores/moderationStore';
+import { useOfferStore } from '../../stores/offerStore';
+import { useTradeStore } from '../../stores/tradeStore';
+import { ReputationBadge } from '../ReputationBadge';
+import { ReputationBreakdown } from '../ReputationBreakdown';
+import reputation from '../../modules/reputation';
 
 interface ListingDetailModalProps {
   listing: Listing;
@@ -11,13 +34,91 @@ export const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
   listing, 
   onClose 
 }) => {
-  const [currentImageIndex, setCurrentImageIndex] = useState(0);
-  const { getCurrentUser } = useUserStore();
+  const { getCurrentUser, profiles } = useUserStore();
   const currentUser = getCurrentUser();
+  const seller = profiles.find(profile => profile.id === listing.sellerId);
+  const { baseCurrency, rates } = useExchangeRateStore();
+  const { getDisplayCurrency } = useDisplayCurrencyStore();
+  const convertedPrice = money.convertPrice(listing.price, getDisplayCurrency(), { baseCurrency, rates });
   
   // Find the primary image or use the first one
   const primaryImageIndex = listing.images.findIndex(img => img.isPrimary);
   const initialImageIndex = primaryImageIndex >= 0 ? primaryImageIndex : 0;
+  const [currentImageIndex, setCurrentImageIndex] = useState(initialImageIndex);
+  // Edits can remove images, so keep the index within the gallery
+  const imageIndex = Math.min(currentImageIndex, Math.max(0, listing.images.length - 1));
+  
+  const { deleteListing, setListingStatus, isLoading, error } = useListingStore();
+  const { getVerification } = useListingVerificationStore();
+  const verification = getVerification(listing.id);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const { hasReported, isHiddenPendingReview } = useReportStore();
+  const alreadyReported = Boolean(currentUser && hasReported(listing.id, currentUser.id));
+  const { reviews, getRatingSummary, getCounterparties, hasReviewed } = useReviewStore();
+  const sellerRating = getRatingSummary(listing.sellerId);
+  const { listings } = useListingStore();
+  const { auditLog } = useModerationStore();
+  const { offersByListing } = useOfferStore();
+  const { proposals } = useTradeStore();
+  const sellerReputation = useMemo(
+    () => reputation.computeReputation(listing.sellerId, {
+      users: profiles,
+      listings,
+      reviews,
+      auditLog,
+      offers: Object.values(offersByListing).flat(),
+      trades: proposals
+    }),
+    [listing.sellerId, profiles, listings, reviews, auditLog, offersByListing, proposals]
+  );
+  const [showReputation, setShowReputation] = useState(false);
+  // People the current user completed this deal with and hasn't reviewed yet
+  const reviewees = currentUser
+    ? getCounterparties(listing.id, currentUser.id).filter(id => !hasReviewed(listing.id, currentUser.id, id))
+    : [];
+  
+  const navigate = useNavigate();
+  const { startThread, getThreadForListing, isLoading: isSending, error: messageError } = useMessageStore();
+  const [isComposing, setIsComposing] = useState(false);
+  const [firstMessage, setFirstMessage] = useState('');
+  
+  // Open the existing conversation with the seller, or ask for the message that starts one
+  const handleContactSeller = () => {
+    const existing = currentUser ? getThreadForListing(listing.id, currentUser.id) : undefined;
+    if (existing) {
+      navigate(`/messages/${existing.id}`);
+    } else {
+      setIsComposing(true);
+    }
+  };
+  
+  // Start the conversation with its first message
+  const handleStartConversation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const thread = await startThread(listing.id, firstMessage);
+      navigate(`/messages/${thread.id}`);
+    } catch (err) {
+      // The store keeps the error message for display
+    }
+  };
+  
+  // Remove the listing for good and close the modal
+  const handleDelete = async () => {
+    if (await deleteListing(listing.id)) {
+      onClose();
+    }
+  };
+  
+  // Take the listing off the marketplace without deleting it
+  const handleMarkAs = async (status: 'sold' | 'inactive') => {
+    if (await setListingStatus(listing.id, status)) {
+      setIsConfirmingDelete(false);
+      onClose();
+    }
+  };
   
   // Format the date to a readable string
   const formatDate = (timestamp: number) => {
@@ -68,6 +169,8 @@ export const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
   
   // Check if this is the user's own listing
   const isOwnListing = currentUser?.id === listing.sellerId;
+  const isService = listing.listingType === ListingType.OFFER_SERVICE ||
+    listing.listingType === ListingType.REQUEST_SERVICE;
   
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -86,14 +189,43 @@ export const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
         </div>
         
         <div className="p-6">
+          {listing.moderation && (
+            <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4 rounded">
+              <p>This listing was taken down by an admin: {listing.moderation.reason}</p>
+            </div>
+          )}
+          {!listing.moderation && isHiddenPendingReview(listing.id) && (
+            <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-3 mb-4 rounded">
+              <p>This listing has been reported by several people and is hidden from the marketplace until an admin reviews it.</p>
+            </div>
+          )}
+          {verification === 'invalid' && (
+            <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4 rounded">
+              <p>This listing's signature doesn't match its contents. It may have been altered by someone other than the seller.</p>
+            </div>
+          )}
+          {verification === 'untrusted' && (
+            <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-3 mb-4 rounded">
+              <p>This listing is signed with a key of the seller's that this device doesn't recognise yet, so its details can't be verified.</p>
+            </div>
+          )}
+          {verification === 'unsigned' && (
+            <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-800 p-3 mb-4 rounded">
+              <p>
+                This listing hasn't been signed by its seller, so its details can't be verified.
+                {isOwnListing && ' Edit and save it to sign it.'}
+              </p>
+            </div>
+          )}
+          
           <div className="flex flex-col md:flex-row gap-6">
             {/* Images section */}
             <div className="md:w-1/2">
               {listing.images.length > 0 ? (
                 <>
                   <div className="h-64 md:h-80 overflow-hidden rounded-lg border">
-                    <img 
-                      src={listing.images[currentImageIndex].url} 
+                    <SyncedImage 
+                      src={listing.images[imageIndex].url} 
                       alt={listing.title} 
                       className="w-full h-full object-contain"
                     />
@@ -106,12 +238,12 @@ export const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
                         <button
                           key={image.id}
                           className={`w-20 h-20 flex-shrink-0 rounded border-2 ${
-                            index === currentImageIndex ? 'border-blue-500' : 'border-gray-200'
+                            index === imageIndex ? 'border-blue-500' : 'border-gray-200'
                           }`}
                           onClick={() => setCurrentImageIndex(index)}
                         >
-                          <img 
-                            src={image.url} 
+                          <SyncedImage 
+                            src={image.thumbnailUrl || image.url} 
                             alt={`${listing.title} thumbnail ${index + 1}`} 
                             className="w-full h-full object-cover rounded"
                           />
@@ -131,7 +263,12 @@ export const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
             <div className="md:w-1/2">
               <div className="flex justify-between items-start">
                 <h1 className="text-2xl font-bold">{listing.title}</h1>
-                <p className="text-2xl font-bold text-blue-600">${parseFloat(listing.price).toFixed(2)}</p>
+                <div className="text-right">
+                  <p className="text-2xl font-bold text-blue-600">{money.formatPrice(convertedPrice || listing.price)}</p>
+                  {convertedPrice && convertedPrice.currency !== listing.price.currency && (
+                    <p className="text-sm text-gray-500">{money.formatPrice(listing.price)} in the seller's currency</p>
+                  )}
+                </div>
               </div>
               
               <div className="mt-2">
@@ -188,11 +325,29 @@ export const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
               <div className="mt-6">
                 <h3 className="font-semibold text-lg mb-2">Seller Information</h3>
                 <div className="flex items-center">
-                  <div className="w-10 h-10 rounded-full bg-blue-500 text-white flex items-center justify-center mr-3">
-                    {listing.sellerName.charAt(0).toUpperCase()}
-                  </div>
-                  <div>
-                    <p className="font-medium">{listing.sellerName}</p>
+                  <UserAvatar name={listing.sellerName} imageUrl={seller?.profileImageUrl} />
+                  <div className="ml-3">
+                    <Link
+                      to={`/u/${encodeURIComponent(seller?.name || listing.sellerName)}`}
+                      className="font-medium text-blue-600 hover:underline"
+                    >
+                      {listing.sellerName}
+                    </Link>
+                    <div>
+                      <StarRating rating={sellerRating.average} count={sellerRating.count} />
+                    </div>
+                    {sellerReputation && (
+                      <div className="mt-1">
+                        <ReputationBadge reputation={sellerReputation} />
+                        <button
+                          type="button"
+                          onClick={() => setShowReputation(!showReputation)}
+                          className="ml-2 text-xs text-blue-600 hover:underline"
+                        >
+                          {showReputation ? 'Hide details' : 'How is this worked out?'}
+                        </button>
+                      </div>
+                    )}
                     {listing.isRemote ? (
                       <p className="text-sm text-gray-500">Remote/Online</p>
                     ) : (
@@ -200,26 +355,55 @@ export const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
                     )}
                   </div>
                 </div>
+                {sellerReputation && showReputation && (
+                  <ReputationBreakdown reputation={sellerReputation} className="mt-3 p-3 bg-gray-50 rounded" />
+                )}
               </div>
               
               {/* Action buttons */}
               <div className="mt-8 flex flex-col sm:flex-row gap-2">
                 {!isOwnListing && (
                   <button
-                    className="flex-1 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    onClick={handleContactSeller}
+                    disabled={!currentUser}
+                    title={currentUser ? undefined : 'Log in to message the seller'}
+                    className="flex-1 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
                   >
                     Contact Seller
                   </button>
                 )}
                 
+                {!isOwnListing && currentUser && (
+                  <button
+                    onClick={() => setIsReporting(true)}
+                    disabled={alreadyReported}
+                    title={alreadyReported ? "You've already reported this listing" : undefined}
+                    className="px-4 py-2 border border-red-300 text-red-700 rounded hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400 disabled:opacity-50"
+                  >
+                    {alreadyReported ? 'Reported' : 'Report'}
+                  </button>
+                )}
+                
                 {isOwnListing && (
                   <>
+                    {/* A reserved listing is closed by the seller once the deal is done, which opens reviews */}
+                    {listing.status === 'pending' && (
+                      <button
+                        onClick={() => handleMarkAs('sold')}
+                        disabled={isLoading}
+                        className="flex-1 bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+                      >
+                        {isService ? 'Mark as Completed' : 'Mark as Sold'}
+                      </button>
+                    )}
                     <button
+                      onClick={() => setIsEditing(true)}
                       className="flex-1 bg-orange-500 text-white px-4 py-2 rounded hover:bg-orange-600 focus:outline-none focus:ring-2 focus:ring-orange-400"
                     >
                       Edit Listing
                     </button>
                     <button
+                      onClick={() => setIsConfirmingDelete(true)}
                       className="flex-1 bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-400"
                     >
                       Delete
@@ -227,9 +411,106 @@ export const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
                   </>
                 )}
               </div>
+              
+              {!isOwnListing && isComposing && (
+                <form onSubmit={handleStartConversation} className="mt-4">
+                  <textarea
+                    value={firstMessage}
+                    onChange={(e) => setFirstMessage(e.target.value)}
+                    maxLength={MAX_MESSAGE_LENGTH}
+                    rows={3}
+                    className="w-full p-2 border border-gray-300 rounded resize-none"
+                    placeholder="Write a message to the seller..."
+                    autoFocus
+                  />
+                  <div className="mt-2 flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={isSending || !firstMessage.trim()}
+                      className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                      Send Message
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setIsComposing(false)}
+                      className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              )}
+              
+              {!isOwnListing && messageError && (
+                <p className="mt-2 text-sm text-red-600">{messageError}</p>
+              )}
+              
+              {/* Delete confirmation, offering to take the listing down instead */}
+              {isOwnListing && isConfirmingDelete && (
+                <div className="mt-4 p-4 border border-red-200 bg-red-50 rounded">
+                  <p className="font-medium text-red-800">Delete this listing?</p>
+                  <p className="text-sm text-gray-700 mt-1">
+                    Deleting removes it for everyone and can't be undone. If the item is gone or
+                    you just want to take a break, mark it as sold or inactive instead and keep its history.
+                  </p>
+                  
+                  {error && <p className="text-sm text-red-700 mt-2">{error}</p>}
+                  
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleMarkAs('sold')}
+                      className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                      disabled={isLoading}
+                    >
+                      Mark as Sold
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleMarkAs('inactive')}
+                      className="px-3 py-1 text-sm bg-gray-600 text-white rounded hover:bg-gray-700"
+                      disabled={isLoading}
+                    >
+                      Mark as Inactive
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleDelete}
+                      className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+                      disabled={isLoading}
+                    >
+                      Delete Permanently
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setIsConfirmingDelete(false)}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
           
+          {/* Reviews for the people the viewer completed this deal with */}
+          {reviewees.length > 0 && (
+            <div className="mt-8 border-t pt-6">
+              <h3 className="font-semibold text-lg mb-3">Leave a Review</h3>
+              {reviewees.map(revieweeId => (
+                <ReviewForm
+                  key={revieweeId}
+                  listingId={listing.id}
+                  revieweeId={revieweeId}
+                  revieweeName={profiles.find(profile => profile.id === revieweeId)?.name || 'Unknown user'}
+                  className="mb-4"
+                />
+              ))}
+            </div>
+          )}
+          
           {/* Detailed description section */}
           <div className="mt-8 border-t pt-6">
             <h3 className="font-semibold text-lg mb-3">Description</h3>
@@ -238,16 +519,46 @@ export const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
             </div>
           </div>
           
-          {/* Contact section */}
+          {/* Offers section, or trade proposals for trade listings */}
+          <div className="mt-8 border-t pt-6">
+            {listing.listingType === ListingType.TRADE ? (
+              <>
+                <h3 className="font-semibold text-lg mb-3">Trade Proposals</h3>
+                <TradeProposalPanel listing={listing} />
+              </>
+            ) : (
+              <>
+                <h3 className="font-semibold text-lg mb-3">Offers</h3>
+                <OfferThread listing={listing} />
+              </>
+            )}
+          </div>
+          
+          {/* Contact section. Details are sealed and only shown to the seller
+              and to buyers the listing's reveal policy allows */}
           <div className="mt-8 border-t pt-6">
             <h3 className="font-semibold text-lg mb-3">Contact Information</h3>
-            <div className="bg-yellow-50 border border-yellow-200 p-4 rounded">
-              <p className="font-medium text-yellow-800">Contact method provided by seller:</p>
-              <p className="mt-1 text-gray-700">{listing.contactInfo}</p>
-            </div>
+            <ContactInfoPanel listing={listing} />
           </div>
         </div>
       </div>
+      
+      {/* Edit form, prefilled from the current listing */}
+      {isEditing && (
+        <ListingCreationModal
+          listing={listing}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+      
+      {isReporting && (
+        <ReportDialog
+          targetType="listing"
+          targetId={listing.id}
+          targetName={listing.title}
+          onClose={() => setIsReporting(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useListingStore, Listing } from '../../stores/listingStore';
+import { ReasonDialog } from '../ReasonDialog';
+import money from '../../modules/money';
+
+/**
+ * Props for the ListingModerationTable component
+ */
+export interface ListingModerationTableProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+type ListingAction = 'deactivate' | 'restore' | 'remove';
+
+const ACTION_LABELS: Record<ListingAction, string> = {
+  deactivate: 'Deactivate',
+  restore: 'Restore',
+  remove: 'Remove'
+};
+
+/**
+ * Admin table of every listing, with search and actions to take listings
+ * down regardless of who owns them
+ *
+ * @param props - The component props
+ * @returns A searchable table of listings
+ */
+export const ListingModerationTable: React.FC<ListingModerationTableProps> = ({ className = '' }) => {
+  const {
+    listings,
+    adminDeactivateListing,
+    adminRestoreListing,
+    adminRemoveListing,
+    error
+  } = useListingStore();
+  const [query, setQuery] = useState('');
+  const [pending, setPending] = useState<{ listing: Listing; action: ListingAction } | null>(null);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleListings = listings
+    .filter(listing =>
+      listing.title.toLowerCase().includes(normalizedQuery) ||
+      listing.sellerName.toLowerCase().includes(normalizedQuery) ||
+      listing.tags.some(tag => tag.toLowerCase().includes(normalizedQuery))
+    )
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const handleConfirm = async (reason: string) => {
+    if (!pending) return;
+    const { listing, action } = pending;
+    setPending(null);
+
+    if (action === 'deactivate') {
+      await adminDeactivateListing(listing.id, reason);
+    } else if (action === 'restore') {
+      await adminRestoreListing(listing.id, reason);
+    } else {
+      await adminRemoveListing(listing.id, reason);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <h2 className="text-xl font-semibold mb-4">Listings</h2>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4 rounded">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by title, seller or tag"
+        className="w-full p-2 border border-gray-300 rounded mb-3 text-sm"
+      />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2 pr-4">Title</th>
+              <th className="py-2 pr-4">Seller</th>
+              <th className="py-2 pr-4">Price</th>
+              <th className="py-2 pr-4">Status</th>
+              <th className="py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleListings.map(listing => (
+              <tr key={listing.id} className="border-b last:border-0">
+                <td className="py-2 pr-4">{listing.title}</td>
+                <td className="py-2 pr-4">
+                  <Link to={`/u/${encodeURIComponent(listing.sellerName)}`} className="text-blue-600 hover:underline">
+                    {listing.sellerName}
+                  </Link>
+                </td>
+                <td className="py-2 pr-4">{money.formatPrice(listing.price)}</td>
+                <td className="py-2 pr-4" title={listing.moderation?.reason}>
+                  {listing.moderation ? (
+                    <span className="text-red-700">Taken down</span>
+                  ) : (
+                    <span className="capitalize">{listing.status}</span>
+                  )}
+                </td>
+                <td className="py-2 text-right space-x-2 whitespace-nowrap">
+                  {listing.moderation ? (
+                    <button
+                      type="button"
+                      onClick={() => setPending({ listing, action: 'restore' })}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Restore
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setPending({ listing, action: 'deactivate' })}
+                      className="text-yellow-700 hover:text-yellow-900"
+                    >
+                      Deactivate
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setPending({ listing, action: 'remove' })}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {pending && (
+        <ReasonDialog
+          title={`${ACTION_LABELS[pending.action]} "${pending.listing.title}"`}
+          confirmLabel={ACTION_LABELS[pending.action]}
+          isDestructive={pending.action !== 'restore'}
+          onConfirm={handleConfirm}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  );
+};
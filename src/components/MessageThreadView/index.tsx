@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  useMessageStore,
+  MessageThread,
+  OpenedMessage,
+  MAX_MESSAGE_LENGTH,
+  getOtherParticipantName
+} from '../../stores/messageStore';
+
+/**
+ * Props for the MessageThreadView component
+ */
+export interface MessageThreadViewProps {
+  /**
+   * The conversation to show
+   */
+  thread: MessageThread;
+  /**
+   * ID of the user viewing the conversation
+   */
+  currentUserId: string;
+}
+
+/**
+ * A single conversation with a composer for replies. Opening the thread
+ * marks it as read. Messages are decrypted for the viewer, and ones their
+ * sender didn't sign with a trusted key are marked as unverified.
+ *
+ * @param props - The component props
+ * @returns The messages in the thread and a reply form
+ */
+export const MessageThreadView: React.FC<MessageThreadViewProps> = ({ thread, currentUserId }) => {
+  const { sendMessage, markThreadRead, openMessage, isLoading, error } = useMessageStore();
+  const [draft, setDraft] = useState('');
+  const [opened, setOpened] = useState<Record<string, OpenedMessage | null>>({});
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Decrypt the messages whenever the thread changes
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(thread.messages.map(message => openMessage(thread, message))).then(results => {
+      if (cancelled) return;
+      setOpened(Object.fromEntries(thread.messages.map((message, index) => [message.id, results[index]])));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [thread, openMessage]);
+
+  // Mark new messages as read and keep the latest message in view
+  useEffect(() => {
+    markThreadRead(thread.id);
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [thread.id, thread.messages.length, markThreadRead]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    const sent = await sendMessage(thread.id, draft);
+    if (sent) {
+      setDraft('');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b p-4">
+        <h2 className="text-lg font-semibold">{getOtherParticipantName(thread, currentUserId)}</h2>
+        <p className="text-sm text-gray-500">About: {thread.listingTitle}</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {thread.messages.length === 0 && (
+          <p className="text-sm text-gray-500">No messages yet. Say hello!</p>
+        )}
+        {thread.messages.map(message => {
+          const isOwn = message.senderId === currentUserId;
+          const content = opened[message.id];
+
+          return (
+            <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[75%] rounded-lg px-3 py-2 ${isOwn ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'}`}>
+                {content ? (
+                  <p className="whitespace-pre-line break-words">{content.body}</p>
+                ) : (
+                  <p className="italic opacity-75">
+                    {content === null ? "This message can't be decrypted on this device" : 'Decrypting...'}
+                  </p>
+                )}
+                <p className={`text-xs mt-1 ${isOwn ? 'text-blue-100' : 'text-gray-400'}`}>
+                  {new Date(message.createdAt).toLocaleString()}
+                  {content && !content.isVerified && (
+                    <span title="This message isn't signed by its sender, so it may not be from them"> · Unverified</span>
+                  )}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      {error && (
+        <div className="mx-4 p-3 bg-red-100 border-l-4 border-red-500 text-red-700 text-sm">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSend} className="border-t p-4 flex gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter sends, Shift+Enter adds a new line
+            if (e.key === 'Enter' && !e.shiftKey) {
+              handleSend(e);
+            }
+          }}
+          maxLength={MAX_MESSAGE_LENGTH}
+          rows={2}
+          className="flex-1 p-2 border border-gray-300 rounded resize-none"
+          placeholder="Write a message..."
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 self-end"
+          disabled={isLoading || !draft.trim()}
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { Listing } from '../../stores/listingStore';
+import { useUserStore } from '../../stores/userStore';
+import {
+  useOfferStore,
+  Offer,
+  OfferEvent,
+  OfferStatus,
+  isOfferOpen,
+  isAwaitingResponseFrom
+} from '../../stores/offerStore';
+import money from '../../modules/money';
+
+/**
+ * Props for the OfferThread component
+ */
+export interface OfferThreadProps {
+  /**
+   * The listing the offers are made against
+   */
+  listing: Listing;
+}
+
+/**
+ * Props for a single offer card within the thread
+ */
+interface OfferCardProps {
+  offer: Offer;
+  currentUserId: string;
+  currency: string;
+}
+
+/**
+ * Get a readable label and colour for an offer status
+ */
+const getStatusBadge = (status: OfferStatus) => {
+  switch (status) {
+    case OfferStatus.PENDING:
+      return { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' };
+    case OfferStatus.COUNTERED:
+      return { label: 'Countered', className: 'bg-blue-100 text-blue-800' };
+    case OfferStatus.ACCEPTED:
+      return { label: 'Accepted', className: 'bg-green-100 text-green-800' };
+    case OfferStatus.REJECTED:
+      return { label: 'Rejected', className: 'bg-red-100 text-red-800' };
+    case OfferStatus.WITHDRAWN:
+      return { label: 'Withdrawn', className: 'bg-gray-200 text-gray-700' };
+    case OfferStatus.EXPIRED:
+      return { label: 'Expired', className: 'bg-gray-200 text-gray-700' };
+  }
+};
+
+/**
+ * Format an offer amount, which is held in major units of the listing's currency
+ */
+const formatOfferAmount = (amount: number, currency: string) => {
+  return money.formatAmount(money.toMinorUnits(amount, currency), currency);
+};
+
+/**
+ * Describe a single event in the offer history
+ */
+const describeEvent = (event: OfferEvent, currency: string) => {
+  switch (event.type) {
+    case 'offer':
+      return `${event.actorName} offered ${formatOfferAmount(event.amount ?? 0, currency)}`;
+    case 'counter':
+      return `${event.actorName} countered with ${formatOfferAmount(event.amount ?? 0, currency)}`;
+    case 'accept':
+      return `${event.actorName} accepted`;
+    case 'reject':
+      return `${event.actorName} declined`;
+    case 'withdraw':
+      return `${event.actorName} withdrew the offer`;
+    case 'expire':
+      return 'The offer expired';
+  }
+};
+
+/**
+ * A single offer with its history and the actions available to the current user
+ */
+const OfferCard: React.FC<OfferCardProps> = ({ offer, currentUserId, currency }) => {
+  const { counterOffer, acceptOffer, rejectOffer, withdrawOffer, isLoading } = useOfferStore();
+  const [isCountering, setIsCountering] = useState(false);
+  const [counterAmount, setCounterAmount] = useState('');
+  const [counterMessage, setCounterMessage] = useState('');
+
+  const badge = getStatusBadge(offer.status);
+  const canRespond = isAwaitingResponseFrom(offer, currentUserId);
+  const canWithdraw = offer.buyerId === currentUserId && isOfferOpen(offer);
+
+  const handleCounter = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(counterAmount);
+    if (isNaN(amount)) return;
+
+    const updated = await counterOffer(offer.id, amount, counterMessage.trim() || undefined);
+    if (updated) {
+      setIsCountering(false);
+      setCounterAmount('');
+      setCounterMessage('');
+    }
+  };
+
+  return (
+    <div className="border rounded p-3">
+      <div className="flex justify-between items-center">
+        <span className="font-medium">
+          {offer.buyerId === currentUserId ? 'Your offer' : `Offer from ${offer.buyerName}`}: {formatOfferAmount(offer.amount, currency)}
+        </span>
+        <span className={`text-xs px-2 py-1 rounded ${badge.className}`}>{badge.label}</span>
+      </div>
+
+      <ul className="mt-2 space-y-1 text-sm text-gray-600">
+        {offer.history.map(event => (
+          <li key={event.id}>
+            <span className="text-gray-400 mr-2">{new Date(event.createdAt).toLocaleString()}</span>
+            {describeEvent(event, currency)}
+            {event.message && <span className="block pl-4 italic">"{event.message}"</span>}
+          </li>
+        ))}
+      </ul>
+
+      {isOfferOpen(offer) && (
+        <p className="mt-2 text-xs text-gray-500">
+          {canRespond ? 'Waiting for your response' : 'Waiting for the other party'}
+          {' · expires '}{new Date(offer.expiresAt).toLocaleString()}
+        </p>
+      )}
+
+      {(canRespond || canWithdraw) && !isCountering && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {canRespond && (
+            <>
+              <button
+                type="button"
+                onClick={() => acceptOffer(offer.id)}
+                className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                disabled={isLoading}
+              >
+                Accept
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsCountering(true)}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                disabled={isLoading}
+              >
+                Counter
+              </button>
+              <button
+                type="button"
+                onClick={() => rejectOffer(offer.id)}
+                className="px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600"
+                disabled={isLoading}
+              >
+                Decline
+              </button>
+            </>
+          )}
+          {canWithdraw && (
+            <button
+              type="button"
+              onClick={() => withdrawOffer(offer.id)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+              disabled={isLoading}
+            >
+              Withdraw
+            </button>
+          )}
+        </div>
+      )}
+
+      {isCountering && (
+        <form onSubmit={handleCounter} className="mt-3 space-y-2">
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={counterAmount}
+            onChange={(e) => setCounterAmount(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            placeholder="Counter-offer amount"
+            required
+          />
+          <input
+            type="text"
+            value={counterMessage}
+            onChange={(e) => setCounterMessage(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            placeholder="Message (optional)"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+              disabled={isLoading}
+            >
+              Send Counter-offer
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsCountering(false)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Offer thread for a listing. Sellers see every offer made on their listing,
+ * buyers see their own offers and can make a new one.
+ *
+ * @param props - The component props
+ * @returns The offers section of a listing
+ */
+export const OfferThread: React.FC<OfferThreadProps> = ({ listing }) => {
+  const { getCurrentUser } = useUserStore();
+  const { getOffersForListing, getOpenOfferForBuyer, makeOffer, expireStaleOffers, isLoading, error } = useOfferStore();
+  const [amount, setAmount] = useState('');
+  const [message, setMessage] = useState('');
+  const currentUser = getCurrentUser();
+
+  // Mark any offers that ran out of time before showing the thread
+  useEffect(() => {
+    expireStaleOffers();
+  }, [expireStaleOffers]);
+
+  if (!currentUser) {
+    return (
+      <p className="text-sm text-gray-500">Log in to make an offer on this listing.</p>
+    );
+  }
+
+  const isSeller = currentUser.id === listing.sellerId;
+  const offers = getOffersForListing(listing.id)
+    .filter(offer => isSeller || offer.buyerId === currentUser.id)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  const canMakeOffer = !isSeller &&
+    listing.status === 'active' &&
+    !getOpenOfferForBuyer(listing.id, currentUser.id);
+
+  const handleMakeOffer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (isNaN(value)) return;
+
+    try {
+      await makeOffer(listing.id, value, message.trim() || undefined);
+      setAmount('');
+      setMessage('');
+    } catch (err) {
+      // The store keeps the error message for display
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="p-3 bg-red-100 border-l-4 border-red-500 text-red-700 text-sm">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {offers.length > 0 ? (
+        offers.map(offer => (
+          <OfferCard key={offer.id} offer={offer} currentUserId={currentUser.id} currency={listing.price.currency} />
+        ))
+      ) : (
+        <p className="text-sm text-gray-500">
+          {isSeller ? 'No offers on this listing yet.' : 'You have not made an offer yet.'}
+        </p>
+      )}
+
+      {canMakeOffer && (
+        <form onSubmit={handleMakeOffer} className="flex flex-col sm:flex-row gap-2">
+          <div className="relative sm:w-40">
+            <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-500">{money.getCurrencySymbol(listing.price.currency)}</span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full pl-7 p-2 border border-gray-300 rounded"
+              placeholder="0.00"
+              required
+            />
+          </div>
+          <input
+            type="text"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            className="flex-1 p-2 border border-gray-300 rounded"
+            placeholder="Message to the seller (optional)"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            disabled={isLoading}
+          >
+            Make Offer
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+
+/**
+ * Props for the Pagination component
+ */
+export interface PaginationProps {
+  /**
+   * The page being shown, starting from 1
+   */
+  page: number;
+  /**
+   * Number of items on each page
+   */
+  pageSize: number;
+  /**
+   * Total number of items across all pages
+   */
+  totalItems: number;
+  /**
+   * Handler for when another page is chosen
+   */
+  onPageChange: (page: number) => void;
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * Page numbers to show: the first and last, and a couple either side of the
+ * current page, with null where a run of pages is skipped
+ */
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 2) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+/**
+ * Previous/next and numbered page buttons, with a count of what's shown.
+ * Renders only the count when everything fits on one page.
+ *
+ * @param props - The component props
+ * @returns Page navigation for a list of results
+ */
+export const Pagination: React.FC<PaginationProps> = ({
+  page,
+  pageSize,
+  totalItems,
+  onPageChange,
+  className = ''
+}) => {
+  const pageCount = Math.max(1, Math.ceil(totalItems / pageSize));
+  const first = totalItems === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, totalItems);
+  const buttonClass = 'px-3 py-1 rounded border text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <nav className={`flex flex-wrap items-center justify-between gap-2 ${className}`} aria-label="Pagination">
+      <span className="text-sm text-gray-600">
+        Showing {first}–{last} of {totalItems}
+      </span>
+
+      {pageCount > 1 && (
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1}
+            className={`${buttonClass} border-gray-300 hover:bg-gray-100`}
+          >
+            Previous
+          </button>
+          {visiblePages(page, pageCount).map((p, index) =>
+            p === null ? (
+              <span key={`gap-${index}`} className="px-1 text-gray-400">…</span>
+            ) : (
+              <button
+                key={p}
+                onClick={() => onPageChange(p)}
+                aria-current={p === page ? 'page' : undefined}
+                className={`${buttonClass} ${
+                  p === page ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 hover:bg-gray-100'
+                }`}
+              >
+                {p}
+              </button>
+            )
+          )}
+          <button
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= pageCount}
+            className={`${buttonClass} border-gray-300 hover:bg-gray-100`}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </nav>
+  );
+};
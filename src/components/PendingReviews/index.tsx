@@ -0,0 +1,54 @@
+import React from 'react';
+import { useReviewStore } from '../../stores/reviewStore';
+import { useUserStore } from '../../stores/userStore';
+import { useListingStore } from '../../stores/listingStore';
+import { ReviewForm } from '../ReviewForm';
+
+/**
+ * Props for the PendingReviews component
+ */
+export interface PendingReviewsProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * Completed transactions the current user hasn't reviewed yet, each with a
+ * review form. Renders nothing when there's nothing to review.
+ *
+ * @param props - The component props
+ * @returns A list of review forms
+ */
+export const PendingReviews: React.FC<PendingReviewsProps> = ({ className = '' }) => {
+  const { getPendingReviews } = useReviewStore();
+  const { getCurrentUser } = useUserStore();
+  // Pending reviews depend on listing statuses, so re-render when they change
+  useListingStore();
+
+  const currentUser = getCurrentUser();
+  const pending = currentUser ? getPendingReviews(currentUser.id) : [];
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      <h2 className="text-xl font-semibold mb-4">Leave a Review</h2>
+      <ul className="divide-y">
+        {pending.map(({ listing, counterpartyId, counterpartyName }) => (
+          <li key={`${listing.id}-${counterpartyId}`} className="py-3">
+            <p className="text-sm text-gray-500 mb-1">{listing.title}</p>
+            <ReviewForm
+              listingId={listing.id}
+              revieweeId={counterpartyId}
+              revieweeName={counterpartyName}
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
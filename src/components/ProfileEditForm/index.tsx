@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import { UserProfile, useUserStore } from '../../stores/userStore';
+import { useContactStore } from '../../stores/contactStore';
+import imageStorage, { THUMBNAIL_OPTIONS } from '../../modules/imageStorage';
+import { UserAvatar } from '../UserAvatar';
+
+/**
+ * Props for the ProfileEditForm component
+ */
+export interface ProfileEditFormProps {
+  /**
+   * The profile being edited
+   */
+  profile: UserProfile;
+  /**
+   * Called after the profile has been saved
+   */
+  onSaved?: () => void;
+}
+
+/**
+ * Split a comma separated input into a clean list
+ */
+const parseList = (value: string) => {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+};
+
+/**
+ * Parse an optional coordinate, returning null when it isn't a valid number in range
+ */
+const parseCoordinate = (value: string, limit: number): number | undefined | null => {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : null;
+};
+
+/**
+ * A form for editing a user's profile. Contact details are sealed in the
+ * contact store rather than saved on the public profile.
+ *
+ * @param props - The component props
+ * @returns A profile editing form
+ */
+export const ProfileEditForm: React.FC<ProfileEditFormProps> = ({ profile, onSaved }) => {
+  const { updateProfileDetails } = useUserStore();
+  const { getOwnProfileContacts, setProfileContacts } = useContactStore();
+  const [bio, setBio] = useState(profile.bio || '');
+  const [email, setEmail] = useState('');
+  const [primaryContact, setPrimaryContact] = useState('');
+  const [additionalContacts, setAdditionalContacts] = useState('');
+  const [city, setCity] = useState(profile.city || '');
+  const [stateProvince, setStateProvince] = useState(profile.stateProvince || '');
+  const [country, setCountry] = useState(profile.country || '');
+  const [latitude, setLatitude] = useState(profile.latitude?.toString() || '');
+  const [longitude, setLongitude] = useState(profile.longitude?.toString() || '');
+  const [profileImageUrl, setProfileImageUrl] = useState(profile.profileImageUrl);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  // Contact details are sealed, so they're loaded separately
+  useEffect(() => {
+    let cancelled = false;
+
+    getOwnProfileContacts().then(contacts => {
+      if (cancelled || !contacts) return;
+      setEmail(contacts.email || '');
+      setPrimaryContact(contacts.primaryContact || '');
+      setAdditionalContacts((contacts.additionalContacts || []).join(', '));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id, getOwnProfileContacts]);
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setIsUploading(true);
+    try {
+      const stored = await imageStorage.storeImage(file, THUMBNAIL_OPTIONS);
+      setProfileImageUrl(stored.url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload picture');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaved(false);
+
+    if (email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    const parsedLatitude = parseCoordinate(latitude, 90);
+    const parsedLongitude = parseCoordinate(longitude, 180);
+    if (parsedLatitude === null || parsedLongitude === null) {
+      setError('Latitude must be between -90 and 90, and longitude between -180 and 180');
+      return;
+    }
+
+    const contactsSaved = await setProfileContacts({
+      email: email.trim() || undefined,
+      primaryContact: primaryContact.trim() || undefined,
+      additionalContacts: parseList(additionalContacts)
+    });
+    if (!contactsSaved) {
+      setError(useContactStore.getState().error || 'Failed to save contact details');
+      return;
+    }
+
+    updateProfileDetails(profile.id, {
+      bio: bio.trim() || undefined,
+      city: city.trim() || undefined,
+      stateProvince: stateProvince.trim() || undefined,
+      country: country.trim() || undefined,
+      latitude: parsedLatitude,
+      longitude: parsedLongitude,
+      profileImageUrl
+    });
+
+    setSaved(true);
+    onSaved?.();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 rounded">
+          <p>{error}</p>
+        </div>
+      )}
+      {saved && !error && (
+        <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-3 rounded">
+          <p>Profile saved</p>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500">
+        Your contact details are encrypted and only shared with users you've messaged or made a deal with.
+        Everything else on your profile is visible to everyone, with coordinates rounded to about 10 km.
+      </p>
+
+      <div className="flex items-center gap-4">
+        <UserAvatar name={profile.name} imageUrl={profileImageUrl} sizeClassName="w-16 h-16 text-2xl" />
+        <div className="flex flex-col gap-1">
+          <label className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+            {isUploading ? 'Uploading...' : 'Upload picture'}
+            <input type="file" accept="image/*" className="hidden" onChange={handleImageChange} disabled={isUploading} />
+          </label>
+          {profileImageUrl && (
+            <button
+              type="button"
+              onClick={() => setProfileImageUrl(undefined)}
+              className="text-sm text-red-600 hover:text-red-800 text-left"
+            >
+              Remove picture
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="profileBio" className="block text-sm font-medium text-gray-700 mb-1">Bio</label>
+        <textarea
+          id="profileBio"
+          value={bio}
+          onChange={(e) => setBio(e.target.value)}
+          className="w-full p-2 border border-gray-300 rounded"
+          rows={4}
+          maxLength={1000}
+          placeholder="Tell other players what you collect, play or trade"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="profileEmail" className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input
+            id="profileEmail"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+          />
+        </div>
+        <div>
+          <label htmlFor="profilePrimaryContact" className="block text-sm font-medium text-gray-700 mb-1">Primary contact</label>
+          <input
+            id="profilePrimaryContact"
+            type="text"
+            value={primaryContact}
+            onChange={(e) => setPrimaryContact(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            placeholder="e.g. Discord: player#1234"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="profileAdditionalContacts" className="block text-sm font-medium text-gray-700 mb-1">Other contacts</label>
+        <input
+          id="profileAdditionalContacts"
+          type="text"
+          value={additionalContacts}
+          onChange={(e) => setAdditionalContacts(e.target.value)}
+          className="w-full p-2 border border-gray-300 rounded"
+          placeholder="Comma separated"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="profileCity" className="block text-sm font-medium text-gray-700 mb-1">City</label>
+          <input
+            id="profileCity"
+            type="text"
+            value={city}
+            onChange={(e) => setCity(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+          />
+        </div>
+        <div>
+          <label htmlFor="profileStateProvince" className="block text-sm font-medium text-gray-700 mb-1">State / Province</label>
+          <input
+            id="profileStateProvince"
+            type="text"
+            value={stateProvince}
+            onChange={(e) => setStateProvince(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+          />
+        </div>
+        <div>
+          <label htmlFor="profileCountry" className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+          <input
+            id="profileCountry"
+            type="text"
+            value={country}
+            onChange={(e) => setCountry(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="profileLatitude" className="block text-sm font-medium text-gray-700 mb-1">Latitude</label>
+          <input
+            id="profileLatitude"
+            type="text"
+            inputMode="decimal"
+            value={latitude}
+            onChange={(e) => setLatitude(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            placeholder="Optional"
+          />
+        </div>
+        <div>
+          <label htmlFor="profileLongitude" className="block text-sm font-medium text-gray-700 mb-1">Longitude</label>
+          <input
+            id="profileLongitude"
+            type="text"
+            inputMode="decimal"
+            value={longitude}
+            onChange={(e) => setLongitude(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            placeholder="Optional"
+          />
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        disabled={isUploading}
+      >
+        Save Profile
+      </button>
+    </form>
+  );
+};
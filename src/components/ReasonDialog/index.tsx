@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+
+/**
+ * Props for the ReasonDialog component
+ */
+export interface ReasonDialogProps {
+  /**
+   * Heading describing the action being confirmed
+   */
+  title: string;
+  /**
+   * Label for the confirm button
+   */
+  confirmLabel: string;
+  /**
+   * Called with the reason once the admin confirms
+   */
+  onConfirm: (reason: string) => void;
+  /**
+   * Called when the admin backs out
+   */
+  onCancel: () => void;
+  /**
+   * Whether the action is destructive, which styles the confirm button in red
+   */
+  isDestructive?: boolean;
+  /**
+   * Extra fields shown above the reason, e.g. a suspension length
+   */
+  children?: React.ReactNode;
+}
+
+/**
+ * A modal asking an admin why they're taking an action. Every admin action is
+ * recorded in the audit log with the reason given here.
+ *
+ * @param props - The component props
+ * @returns A modal with a required reason field
+ */
+export const ReasonDialog: React.FC<ReasonDialogProps> = ({
+  title,
+  confirmLabel,
+  onConfirm,
+  onCancel,
+  isDestructive = false,
+  children
+}) => {
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason.trim()) {
+      onConfirm(reason.trim());
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-4">
+        <h2 className="text-lg font-semibold">{title}</h2>
+
+        {children}
+
+        <div>
+          <label htmlFor="adminActionReason" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason
+          </label>
+          <textarea
+            id="adminActionReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            rows={3}
+            placeholder="Recorded in the audit log"
+            autoFocus
+            required
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!reason.trim()}
+            className={`px-4 py-2 text-sm text-white rounded disabled:opacity-50 ${
+              isDestructive ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import {
+  useReportStore,
+  ReportReason,
+  ReportTargetType,
+  REPORT_REASON_LABELS,
+  MAX_REPORT_DETAILS_LENGTH
+} from '../../stores/reportStore';
+
+/**
+ * Props for the ReportDialog component
+ */
+export interface ReportDialogProps {
+  /**
+   * Whether a listing or a user is being reported
+   */
+  targetType: ReportTargetType;
+  /**
+   * ID of the listing or user being reported
+   */
+  targetId: string;
+  /**
+   * Name shown in the heading, e.g. the listing title
+   */
+  targetName: string;
+  /**
+   * Called when the dialog should close, after sending or cancelling
+   */
+  onClose: () => void;
+}
+
+/**
+ * A modal for reporting a listing or user to the admins, with a reason
+ * category and an optional description
+ *
+ * @param props - The component props
+ * @returns A report form in a modal
+ */
+export const ReportDialog: React.FC<ReportDialogProps> = ({
+  targetType,
+  targetId,
+  targetName,
+  onClose
+}) => {
+  const { submitReport, isLoading } = useReportStore();
+  const [reason, setReason] = useState<ReportReason>(ReportReason.SCAM);
+  const [details, setDetails] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      await submitReport(targetType, targetId, reason, details);
+      setIsSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send report');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      {isSent ? (
+        <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Thanks for letting us know</h2>
+          <p className="text-sm text-gray-600">An admin will review your report.</p>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Report {targetName}</h2>
+
+          {error && (
+            <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 rounded">
+              <p>{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="reportReason" className="block text-sm font-medium text-gray-700 mb-1">
+              What's wrong?
+            </label>
+            <select
+              id="reportReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as ReportReason)}
+              className="w-full p-2 border border-gray-300 rounded"
+            >
+              {Object.values(ReportReason).map(value => (
+                <option key={value} value={value}>{REPORT_REASON_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="reportDetails" className="block text-sm font-medium text-gray-700 mb-1">
+              Details {reason !== ReportReason.OTHER && <span className="text-gray-400">(optional)</span>}
+            </label>
+            <textarea
+              id="reportDetails"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded"
+              rows={4}
+              maxLength={MAX_REPORT_DETAILS_LENGTH}
+              placeholder="Anything that helps an admin understand the problem"
+              required={reason === ReportReason.OTHER}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 text-sm text-white bg-red-600 hover:bg-red-700 rounded disabled:opacity-50"
+            >
+              {isLoading ? 'Sending...' : 'Send report'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
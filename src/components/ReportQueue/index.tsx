@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  useReportStore,
+  Report,
+  ReportDetails,
+  ReportGroup,
+  ReportStatus,
+  REPORT_REASON_LABELS
+} from '../../stores/reportStore';
+import { ReasonDialog } from '../ReasonDialog';
+
+/**
+ * Props for the ReportQueue component
+ */
+export interface ReportQueueProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+type ReviewOutcome = ReportStatus.RESOLVED | ReportStatus.DISMISSED | ReportStatus.ESCALATED;
+
+const OUTCOME_LABELS: Record<ReviewOutcome, string> = {
+  [ReportStatus.RESOLVED]: 'Resolve',
+  [ReportStatus.DISMISSED]: 'Dismiss',
+  [ReportStatus.ESCALATED]: 'Escalate'
+};
+
+/**
+ * One report in the queue, with the reporter and description opened with the
+ * admin's key
+ */
+const ReportItem: React.FC<{ report: Report }> = ({ report }) => {
+  const { openReportDetails } = useReportStore();
+  const [details, setDetails] = useState<ReportDetails | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    openReportDetails(report).then(result => {
+      if (!cancelled) setDetails(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [report, openReportDetails]);
+
+  return (
+    <li className="py-2">
+      <div className="flex justify-between">
+        <p>
+          <span className="font-medium">{details ? details.reporterName : 'Unknown reporter'}</span>
+          {': '}{REPORT_REASON_LABELS[report.reason]}
+        </p>
+        <span className="text-gray-500 shrink-0 ml-4">{new Date(report.createdAt).toLocaleString()}</span>
+      </div>
+      {details?.details && <p className="text-gray-700 mt-1">{details.details}</p>}
+      {!details && (
+        <p className="text-gray-500 mt-1">Sealed to other admins, or made before you became an admin</p>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Admin queue of open reports, grouped by the listing or user they're about.
+ * Resolving, dismissing or escalating applies to every open report in a group.
+ *
+ * @param props - The component props
+ * @returns The report review queue and the auto-hide setting
+ */
+export const ReportQueue: React.FC<ReportQueueProps> = ({ className = '' }) => {
+  const { getReviewQueue, reviewReports, autoHideThreshold, setAutoHideThreshold, error } = useReportStore();
+  const queue = getReviewQueue();
+  const [pending, setPending] = useState<{ group: ReportGroup; outcome: ReviewOutcome } | null>(null);
+  const [threshold, setThreshold] = useState(String(autoHideThreshold));
+  const [isEditingThreshold, setIsEditingThreshold] = useState(false);
+
+  const handleConfirm = (note: string) => {
+    if (!pending) return;
+    reviewReports(pending.group.targetId, pending.outcome, note);
+    setPending(null);
+  };
+
+  const handleThresholdConfirm = (reason: string) => {
+    setAutoHideThreshold(Number(threshold), reason);
+    setIsEditingThreshold(false);
+  };
+
+  const targetLink = (group: ReportGroup) => {
+    if (group.targetType === 'user') {
+      return `/u/${encodeURIComponent(group.targetName)}`;
+    }
+    return null;
+  };
+
+  return (
+    <div className={className}>
+      <h2 className="text-xl font-semibold mb-4">Reports ({queue.length} open)</h2>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4 rounded">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2 mb-6 text-sm">
+        <label className="block">
+          <span className="block font-medium text-gray-700 mb-1">Hide listings after this many reports</span>
+          <input
+            type="number"
+            min={1}
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            className="w-24 p-2 border border-gray-300 rounded"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => setIsEditingThreshold(true)}
+          disabled={Number(threshold) === autoHideThreshold}
+          className="px-4 py-2 text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+
+      {queue.length > 0 ? (
+        <ul className="space-y-4">
+          {queue.map(group => {
+            const link = targetLink(group);
+
+            return (
+              <li key={group.targetId} className="border rounded p-4">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <span className="text-xs uppercase text-gray-500 mr-2">{group.targetType}</span>
+                    {link ? (
+                      <Link to={link} className="font-medium text-blue-600 hover:underline">{group.targetName}</Link>
+                    ) : (
+                      <span className="font-medium">{group.targetName}</span>
+                    )}
+                    {group.isEscalated && (
+                      <span className="ml-2 px-2 py-0.5 text-xs bg-orange-100 text-orange-800 rounded">Escalated</span>
+                    )}
+                  </div>
+                  <div className="space-x-2 whitespace-nowrap text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setPending({ group, outcome: ReportStatus.RESOLVED })}
+                      className="text-green-700 hover:text-green-900"
+                    >
+                      Resolve
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setPending({ group, outcome: ReportStatus.DISMISSED })}
+                      className="text-gray-600 hover:text-gray-800"
+                    >
+                      Dismiss
+                    </button>
+                    {!group.isEscalated && (
+                      <button
+                        type="button"
+                        onClick={() => setPending({ group, outcome: ReportStatus.ESCALATED })}
+                        className="text-orange-700 hover:text-orange-900"
+                      >
+                        Escalate
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <ul className="divide-y text-sm">
+                  {group.reports.map(report => (
+                    <ReportItem key={report.id} report={report} />
+                  ))}
+                </ul>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-gray-500 text-sm">No open reports.</p>
+      )}
+
+      {pending && (
+        <ReasonDialog
+          title={`${OUTCOME_LABELS[pending.outcome]} reports about "${pending.group.targetName}"`}
+          confirmLabel={OUTCOME_LABELS[pending.outcome]}
+          onConfirm={handleConfirm}
+          onCancel={() => setPending(null)}
+        >
+          {pending.outcome === ReportStatus.RESOLVED && pending.group.targetType === 'listing' && (
+            <p className="text-sm text-gray-600">
+              Resolving doesn't take the listing down. Use the Listings tab for that.
+            </p>
+          )}
+        </ReasonDialog>
+      )}
+
+      {isEditingThreshold && (
+        <ReasonDialog
+          title={`Hide listings after ${threshold} reports`}
+          confirmLabel="Save"
+          onConfirm={handleThresholdConfirm}
+          onCancel={() => setIsEditingThreshold(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Reputation, ReputationLevel, REPUTATION_LEVEL_LABELS } from '../../modules/reputation';
+
+/**
+ * Props for the ReputationBadge component
+ */
+export interface ReputationBadgeProps {
+  /**
+   * The user's computed reputation
+   */
+  reputation: Reputation;
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+const LEVEL_STYLES: Record<ReputationLevel, string> = {
+  [ReputationLevel.NEW]: 'bg-gray-100 text-gray-700',
+  [ReputationLevel.ESTABLISHED]: 'bg-blue-100 text-blue-800',
+  [ReputationLevel.TRUSTED]: 'bg-green-100 text-green-800'
+};
+
+/**
+ * Small pills showing a user's reputation level, plus a second pill for
+ * verified service providers
+ *
+ * @param props - The component props
+ * @returns One or two badge pills
+ */
+export const ReputationBadge: React.FC<ReputationBadgeProps> = ({ reputation, className = '' }) => (
+  <span className={`inline-flex flex-wrap gap-1 align-middle ${className}`}>
+    <span
+      className={`px-2 py-0.5 text-xs rounded ${LEVEL_STYLES[reputation.level]}`}
+      title={`Reputation score ${reputation.score}/100`}
+    >
+      {REPUTATION_LEVEL_LABELS[reputation.level]}
+    </span>
+    {reputation.isVerifiedServiceProvider && (
+      <span className="px-2 py-0.5 text-xs rounded bg-purple-100 text-purple-800">
+        Verified service provider
+      </span>
+    )}
+  </span>
+);
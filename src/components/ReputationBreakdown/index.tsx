@@ -0,0 +1,54 @@
+import React from 'react';
+import { Reputation } from '../../modules/reputation';
+import { ReputationBadge } from '../ReputationBadge';
+
+/**
+ * Props for the ReputationBreakdown component
+ */
+export interface ReputationBreakdownProps {
+  /**
+   * The user's computed reputation
+   */
+  reputation: Reputation;
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * Explains how a reputation score was derived: the points from each part of
+ * the user's history and what stands between them and the next level
+ *
+ * @param props - The component props
+ * @returns The score, its factors and any notes
+ */
+export const ReputationBreakdown: React.FC<ReputationBreakdownProps> = ({ reputation, className = '' }) => (
+  <div className={className}>
+    <div className="flex items-center gap-2 mb-2">
+      <span className="font-medium">Reputation {reputation.score}/100</span>
+      <ReputationBadge reputation={reputation} />
+    </div>
+
+    <table className="w-full text-sm">
+      <tbody>
+        {reputation.factors.map(factor => (
+          <tr key={factor.label} className="border-b last:border-0 align-top">
+            <td className="py-1 pr-4 font-medium whitespace-nowrap">{factor.label}</td>
+            <td className="py-1 pr-4 text-gray-600">{factor.detail}</td>
+            <td className={`py-1 text-right whitespace-nowrap ${factor.points < 0 ? 'text-red-700' : ''}`}>
+              {factor.points > 0 ? '+' : ''}{factor.points}
+              {factor.maxPoints > 0 && <span className="text-gray-400"> / {factor.maxPoints}</span>}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    {reputation.notes.length > 0 && (
+      <ul className="mt-2 text-xs text-gray-500 list-disc pl-4">
+        {reputation.notes.map(note => <li key={note}>{note}</li>)}
+      </ul>
+    )}
+  </div>
+);
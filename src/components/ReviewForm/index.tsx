@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useReviewStore, MAX_RATING, MAX_REVIEW_LENGTH } from '../../stores/reviewStore';
+
+/**
+ * Props for the ReviewForm component
+ */
+export interface ReviewFormProps {
+  /**
+   * ID of the sold listing the review is about
+   */
+  listingId: string;
+  /**
+   * ID of the user being reviewed
+   */
+  revieweeId: string;
+  /**
+   * Name of the user being reviewed, shown in the heading
+   */
+  revieweeName: string;
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * Form for rating the other party of a completed transaction, with 1-5 stars
+ * and an optional comment
+ *
+ * @param props - The component props
+ * @returns A star picker and comment box
+ */
+export const ReviewForm: React.FC<ReviewFormProps> = ({
+  listingId,
+  revieweeId,
+  revieweeName,
+  className = ''
+}) => {
+  const { submitReview, isLoading } = useReviewStore();
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      // The store stops offering this form once the review exists
+      await submitReview(listingId, revieweeId, rating, comment);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post review');
+    }
+  };
+
+  const shownRating = hoverRating || rating;
+
+  return (
+    <form onSubmit={handleSubmit} className={className}>
+      <p className="text-sm font-medium text-gray-700 mb-1">How was your deal with {revieweeName}?</p>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      <div className="flex mb-2" onMouseLeave={() => setHoverRating(0)}>
+        {Array.from({ length: MAX_RATING }, (_, index) => index + 1).map(star => (
+          <button
+            key={star}
+            type="button"
+            onClick={() => setRating(star)}
+            onMouseEnter={() => setHoverRating(star)}
+            className={`text-2xl leading-none px-0.5 ${star <= shownRating ? 'text-yellow-500' : 'text-gray-300'}`}
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+            aria-pressed={rating === star}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        className="w-full p-2 border border-gray-300 rounded text-sm"
+        rows={3}
+        maxLength={MAX_REVIEW_LENGTH}
+        placeholder="Tell others what it was like (optional)"
+      />
+
+      <div className="flex justify-end mt-2">
+        <button
+          type="submit"
+          disabled={rating === 0 || isLoading}
+          className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50"
+        >
+          {isLoading ? 'Posting...' : 'Post review'}
+        </button>
+      </div>
+    </form>
+  );
+};
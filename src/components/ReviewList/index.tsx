@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useReviewStore, Review, MAX_REVIEW_LENGTH } from '../../stores/reviewStore';
+import { useUserStore } from '../../stores/userStore';
+import { StarRating } from '../StarRating';
+
+/**
+ * Props for the ReviewList component
+ */
+export interface ReviewListProps {
+  /**
+   * ID of the user whose reviews to show
+   */
+  userId: string;
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * Reply box for a single review, shown to the person the review is about
+ */
+const ReplyForm: React.FC<{ review: Review; onDone: () => void }> = ({ review, onDone }) => {
+  const { replyToReview, isLoading, error } = useReviewStore();
+  const [text, setText] = useState(review.reply?.text || '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await replyToReview(review.id, text)) {
+      onDone();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2">
+      {error && <p className="text-sm text-red-600 mb-1">{error}</p>}
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="w-full p-2 border border-gray-300 rounded text-sm"
+        rows={2}
+        maxLength={MAX_REVIEW_LENGTH}
+        placeholder="Your public reply"
+        autoFocus
+        required
+      />
+      <div className="flex justify-end gap-2 mt-1">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!text.trim() || isLoading}
+          className="px-3 py-1 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50"
+        >
+          Post reply
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * A user's reviews, newest first, with their public replies. The user the
+ * reviews are about can reply to each one.
+ *
+ * @param props - The component props
+ * @returns The rating summary and a list of reviews
+ */
+export const ReviewList: React.FC<ReviewListProps> = ({ userId, className = '' }) => {
+  const { getReviewsForUser, getRatingSummary } = useReviewStore();
+  const { getCurrentUser } = useUserStore();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const reviews = getReviewsForUser(userId);
+  const summary = getRatingSummary(userId);
+  const canReply = getCurrentUser()?.id === userId;
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-3 mb-4">
+        <h2 className="text-xl font-semibold">Reviews</h2>
+        <StarRating rating={summary.average} count={summary.count} />
+      </div>
+
+      {reviews.length > 0 ? (
+        <ul className="divide-y">
+          {reviews.map(review => (
+            <li key={review.id} className="py-3 text-sm">
+              <div className="flex justify-between">
+                <div>
+                  <StarRating rating={review.rating} />
+                  <span className="ml-2">
+                    by{' '}
+                    <Link to={`/u/${encodeURIComponent(review.reviewerName)}`} className="font-medium text-blue-600 hover:underline">
+                      {review.reviewerName}
+                    </Link>
+                    <span className="text-gray-500"> for {review.listingTitle}</span>
+                  </span>
+                </div>
+                <span className="text-gray-500 shrink-0 ml-4">{new Date(review.createdAt).toLocaleDateString()}</span>
+              </div>
+
+              {review.comment && <p className="text-gray-700 mt-1 whitespace-pre-line">{review.comment}</p>}
+
+              {review.reply && replyingTo !== review.id && (
+                <div className="mt-2 ml-4 pl-3 border-l-2 border-gray-200">
+                  <p className="text-xs text-gray-500">Reply{review.reply.updatedAt ? ' (edited)' : ''}</p>
+                  <p className="text-gray-700 whitespace-pre-line">{review.reply.text}</p>
+                </div>
+              )}
+
+              {canReply && (
+                replyingTo === review.id ? (
+                  <ReplyForm review={review} onDone={() => setReplyingTo(null)} />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setReplyingTo(review.id)}
+                    className="mt-1 text-blue-600 hover:underline"
+                  >
+                    {review.reply ? 'Edit reply' : 'Reply'}
+                  </button>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500 text-sm">No reviews yet.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useUserStore, hasRole, ROLE_LABELS } from '../../stores/userStore';
+import { PlayerRole } from '../../types/playerProfile';
+import { ReasonDialog } from '../ReasonDialog';
+
+/**
+ * Props for the RoleManager component
+ */
+export interface RoleManagerProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * A role change waiting for the admin to give a reason
+ */
+interface PendingChange {
+  title: string;
+  confirmLabel: string;
+  apply: (reason: string) => void;
+}
+
+/**
+ * Roles admins can grant and revoke, in display order
+ */
+const MANAGED_ROLES = [
+  PlayerRole.REGULAR,
+  PlayerRole.BUYER,
+  PlayerRole.SELLER,
+  PlayerRole.SERVICE_PROVIDER,
+  PlayerRole.ADMIN
+];
+
+/**
+ * Admin tool for granting and revoking roles, approving role requests and
+ * choosing whether service providers need approval. Each change asks for a
+ * reason for the audit log.
+ *
+ * @param props - The component props
+ * @returns A table of users and their roles
+ */
+export const RoleManager: React.FC<RoleManagerProps> = ({ className = '' }) => {
+  const {
+    profiles,
+    grantRole,
+    revokeRole,
+    roleError,
+    requireServiceProviderApproval,
+    setRequireServiceProviderApproval
+  } = useUserStore();
+  const [filter, setFilter] = useState('');
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  
+  const confirmGrant = (userId: string, name: string, role: PlayerRole, isApproval = false) => {
+    setPendingChange({
+      title: isApproval ? `Approve ${name} as ${ROLE_LABELS[role]}` : `Grant ${ROLE_LABELS[role]} to ${name}`,
+      confirmLabel: isApproval ? 'Approve' : 'Grant role',
+      apply: reason => grantRole(userId, role, reason)
+    });
+  };
+  
+  const confirmRevoke = (userId: string, name: string, role: PlayerRole, isDecline = false) => {
+    setPendingChange({
+      title: isDecline ? `Decline ${name}'s request to be ${ROLE_LABELS[role]}` : `Revoke ${ROLE_LABELS[role]} from ${name}`,
+      confirmLabel: isDecline ? 'Decline' : 'Revoke role',
+      apply: reason => revokeRole(userId, role, reason)
+    });
+  };
+
+  const pendingRequests = profiles.flatMap(profile =>
+    (profile.pendingRoles || []).map(role => ({ profile, role }))
+  );
+  const normalizedFilter = filter.trim().toLowerCase();
+  const visibleProfiles = profiles
+    .filter(profile => profile.name.toLowerCase().includes(normalizedFilter))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className={className}>
+      <h2 className="text-xl font-semibold mb-4">Roles</h2>
+
+      {roleError && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4 rounded">
+          <p>{roleError}</p>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm mb-6">
+        <input
+          type="checkbox"
+          checked={requireServiceProviderApproval}
+          onChange={(e) => {
+            const required = e.target.checked;
+            setPendingChange({
+              title: required ? 'Require approval for service providers' : 'Stop requiring approval for service providers',
+              confirmLabel: 'Save setting',
+              apply: reason => setRequireServiceProviderApproval(required, reason)
+            });
+          }}
+        />
+        Service providers need admin approval
+      </label>
+
+      {pendingRequests.length > 0 && (
+        <div className="mb-6">
+          <h3 className="font-medium mb-2">Pending requests</h3>
+          <ul className="space-y-2">
+            {pendingRequests.map(({ profile, role }) => (
+              <li key={`${profile.id}-${role}`} className="flex justify-between items-center p-2 bg-yellow-50 rounded">
+                <span className="text-sm">
+                  <Link to={`/u/${encodeURIComponent(profile.name)}`} className="font-medium text-blue-600 hover:underline">
+                    {profile.name}
+                  </Link>
+                  {' '}wants to be a {ROLE_LABELS[role]}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => confirmGrant(profile.id, profile.name, role, true)}
+                    className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => confirmRevoke(profile.id, profile.name, role, true)}
+                    className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter users"
+        className="w-full p-2 border border-gray-300 rounded mb-3 text-sm"
+      />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2 pr-4">User</th>
+              {MANAGED_ROLES.map(role => (
+                <th key={role} className="py-2 px-2 text-center">{ROLE_LABELS[role]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleProfiles.map(profile => (
+              <tr key={profile.id} className="border-b last:border-0">
+                <td className="py-2 pr-4">
+                  <Link to={`/u/${encodeURIComponent(profile.name)}`} className="text-blue-600 hover:underline">
+                    {profile.name}
+                  </Link>
+                </td>
+                {MANAGED_ROLES.map(role => {
+                  const isHeld = hasRole(profile, role);
+                  return (
+                    <td key={role} className="py-2 px-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={isHeld}
+                        onChange={() => isHeld
+                          ? confirmRevoke(profile.id, profile.name, role)
+                          : confirmGrant(profile.id, profile.name, role)
+                        }
+                        aria-label={`${ROLE_LABELS[role]} role for ${profile.name}`}
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {pendingChange && (
+        <ReasonDialog
+          title={pendingChange.title}
+          confirmLabel={pendingChange.confirmLabel}
+          onConfirm={(reason) => {
+            pendingChange.apply(reason);
+            setPendingChange(null);
+          }}
+          onCancel={() => setPendingChange(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { useUserStore, hasRole, SELF_SERVICE_ROLES, ROLE_LABELS } from '../../stores/userStore';
+import { PlayerRole } from '../../types/playerProfile';
+
+/**
+ * Props for the RoleSettings component
+ */
+export interface RoleSettingsProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * What each self-service role unlocks
+ */
+const ROLE_DESCRIPTIONS: Partial<Record<PlayerRole, string>> = {
+  [PlayerRole.SELLER]: 'Post items for sale and get the seller tools',
+  [PlayerRole.SERVICE_PROVIDER]: 'Offer services such as coaching or game mastering'
+};
+
+/**
+ * Lets the current user take on or give up the roles they can choose
+ * themselves, showing any that are waiting for admin approval
+ *
+ * @param props - The component props
+ * @returns A list of self-service roles with their current state
+ */
+export const RoleSettings: React.FC<RoleSettingsProps> = ({ className = '' }) => {
+  const { getCurrentUser, requestRole, leaveRole, roleError, requireServiceProviderApproval } = useUserStore();
+  const currentUser = getCurrentUser();
+
+  if (!currentUser) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      <h3 className="text-lg font-semibold mb-2">Roles</h3>
+
+      {roleError && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-3 rounded">
+          <p>{roleError}</p>
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {SELF_SERVICE_ROLES.map(role => {
+          const isHeld = hasRole(currentUser, role);
+          const isPending = (currentUser.pendingRoles || []).includes(role);
+          const needsApproval = role === PlayerRole.SERVICE_PROVIDER && requireServiceProviderApproval;
+
+          return (
+            <li key={role} className="flex justify-between items-center gap-4">
+              <div>
+                <p className="font-medium">{ROLE_LABELS[role]}</p>
+                <p className="text-sm text-gray-500">
+                  {ROLE_DESCRIPTIONS[role]}
+                  {needsApproval && !isHeld && ' (needs admin approval)'}
+                </p>
+              </div>
+              {isHeld ? (
+                <button
+                  type="button"
+                  onClick={() => leaveRole(role)}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-100 shrink-0"
+                >
+                  Give up role
+                </button>
+              ) : isPending ? (
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-sm text-yellow-700">Awaiting approval</span>
+                  <button
+                    type="button"
+                    onClick={() => leaveRole(role)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Withdraw
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => requestRole(role)}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 shrink-0"
+                >
+                  {needsApproval ? 'Request role' : 'Take on role'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
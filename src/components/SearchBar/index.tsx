@@ -1,4 +1,6 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import searchQuery, { QueryError, QUERY_FIELDS } from '../../modules/searchQuery';
+import { Suggestion, SuggestionKind } from '../../modules/searchSuggestions';
 
 /**
  * Props for the SearchBar component
@@ -12,6 +14,22 @@ export interface SearchBarProps {
    * Handler for when the search query changes
    */
   onSearch?: (query: string) => void;
+  /**
+   * Query to show in the input; the input follows it when it changes
+   */
+  initialValue?: string;
+  /**
+   * Suggestions for a partly typed query. Without it no dropdown is shown.
+   */
+  getSuggestions?: (input: string) => Suggestion[];
+  /**
+   * Handler for when a tag or seller suggestion is chosen, to apply it as a filter
+   */
+  onSelectFilter?: (kind: 'tag' | 'seller', value: string) => void;
+  /**
+   * Handler for clearing the recent searches shown in the dropdown
+   */
+  onClearRecent?: () => void;
   /**
    * Optional CSS class names to apply to the component
    */
@@ -19,42 +37,264 @@ export interface SearchBarProps {
 }
 
 /**
- * A search input component with search button
- * 
+ * Split the query into plain and erroneous stretches for highlighting
+ */
+const highlightErrors = (query: string, errors: QueryError[]) => {
+  const parts: { text: string; error?: string }[] = [];
+  let position = 0;
+
+  [...errors].sort((a, b) => a.start - b.start).forEach(error => {
+    if (error.start < position) return;
+    if (error.start > position) parts.push({ text: query.slice(position, error.start) });
+    parts.push({ text: query.slice(error.start, error.end), error: error.message });
+    position = error.end;
+  });
+
+  if (position < query.length) parts.push({ text: query.slice(position) });
+  return parts;
+};
+
+/** Headings for each group of suggestions */
+const SUGGESTION_HEADINGS: Record<SuggestionKind, string> = {
+  recent: 'Recent searches',
+  title: 'Listings',
+  tag: 'Tags',
+  seller: 'Sellers'
+};
+
+/**
+ * A search input component with search button. Understands the marketplace
+ * query syntax (phrases, exclusions and `field:value` filters) and points out
+ * the parts of a query it can't read before it's sent. Given a source of
+ * suggestions it offers completions as the user types, which can be picked
+ * with the mouse or the arrow keys and Enter.
+ *
  * @param props - The component props
  * @returns A search bar component
  */
-export const SearchBar: React.FC<SearchBarProps> = ({ 
-  placeholder = 'Search for games, cards, or services...', 
+export const SearchBar: React.FC<SearchBarProps> = ({
+  placeholder = 'Search for games, cards, or services...',
   onSearch,
+  initialValue = '',
+  getSuggestions,
+  onSelectFilter,
+  onClearRecent,
   className = ''
 }) => {
-  const [query, setQuery] = useState('');
+  const [query, setQuery] = useState(initialValue);
+  const [showHelp, setShowHelp] = useState(false);
+  const [showErrors, setShowErrors] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const { errors } = useMemo(() => searchQuery.parseQuery(query), [query]);
+  const suggestions = useMemo(
+    () => (showSuggestions && getSuggestions ? getSuggestions(query) : []),
+    [showSuggestions, getSuggestions, query]
+  );
+
+  // Follow the query when the page changes it, e.g. when a search is cleared
+  useEffect(() => {
+    setQuery(initialValue);
+  }, [initialValue]);
+
+  const submit = (value: string) => {
+    if (searchQuery.parseQuery(value).errors.length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    setShowSuggestions(false);
+    if (onSearch) {
+      onSearch(value);
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (onSearch) {
-      onSearch(query);
+    submit(query);
+  };
+
+  const handleChange = (value: string) => {
+    setQuery(value);
+    setShowSuggestions(true);
+    setHighlighted(-1);
+    // Errors show once the user pauses on a finished word, not mid-typing
+    setShowErrors(/\s$/.test(value));
+  };
+
+  // Tags and sellers become filters; everything else is searched for
+  const chooseSuggestion = (suggestion: Suggestion) => {
+    if ((suggestion.kind === 'tag' || suggestion.kind === 'seller') && onSelectFilter) {
+      onSelectFilter(suggestion.kind, suggestion.value);
     }
+    setQuery(suggestion.query);
+    setHighlighted(-1);
+    submit(suggestion.query);
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setShowSuggestions(false);
+      setHighlighted(-1);
+      return;
+    }
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!showSuggestions) {
+        setShowSuggestions(true);
+        return;
+      }
+      if (suggestions.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      // Wraps round, passing through "nothing highlighted" at the ends
+      setHighlighted(current => {
+        const next = current + step;
+        if (next >= suggestions.length) return -1;
+        if (next < -1) return suggestions.length - 1;
+        return next;
+      });
+      return;
+    }
+    if (e.key === 'Enter' && highlighted >= 0 && highlighted < suggestions.length) {
+      e.preventDefault();
+      chooseSuggestion(suggestions[highlighted]);
+    }
+  };
+
+  const handleBlur = () => {
+    setShowErrors(true);
+    setShowSuggestions(false);
+    setHighlighted(-1);
+  };
+
+  const visibleErrors = showErrors ? errors : [];
+
   return (
-    <form onSubmit={handleSubmit} className={`flex w-full ${className}`}>
-      <input
-        type="text"
-        value={query}
-        onChange={(e) => setQuery(e.target.value)}
-        placeholder={placeholder}
-        className="flex-grow p-2 border border-gray-300 rounded-l focus:outline-none focus:ring-2 focus:ring-blue-500"
-        aria-label="Search"
-      />
-      <button
-        type="submit"
-        className="bg-blue-600 text-white px-4 py-2 rounded-r hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
-        aria-label="Submit search"
-      >
-        Search
-      </button>
-    </form>
+    <div className={className}>
+      <form onSubmit={handleSubmit} className="relative flex w-full">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => handleChange(e.target.value)}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={handleBlur}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          className={`flex-grow p-2 border rounded-l focus:outline-none focus:ring-2 ${
+            visibleErrors.length > 0 ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-blue-500'
+          }`}
+          aria-label="Search"
+          aria-invalid={visibleErrors.length > 0}
+          aria-describedby={visibleErrors.length > 0 ? 'searchQueryErrors' : undefined}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+          aria-controls="searchSuggestions"
+          aria-activedescendant={highlighted >= 0 ? `searchSuggestion-${highlighted}` : undefined}
+          autoComplete="off"
+        />
+        <button
+          type="button"
+          onClick={() => setShowHelp(!showHelp)}
+          className="px-3 border-y border-gray-300 bg-gray-50 text-gray-600 hover:bg-gray-100"
+          aria-label="Search syntax help"
+          aria-expanded={showHelp}
+        >
+          ?
+        </button>
+        <button
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded-r hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Submit search"
+        >
+          Search
+        </button>
+
+        {/* Mouse presses keep focus in the input, so choosing doesn't blur and close the list first */}
+        {suggestions.length > 0 && (
+          <ul
+            id="searchSuggestions"
+            role="listbox"
+            className="absolute left-0 right-0 top-full mt-1 z-20 bg-white border border-gray-200 rounded shadow-lg max-h-96 overflow-y-auto text-sm"
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            {suggestions.map((suggestion, index) => (
+              <React.Fragment key={`${suggestion.kind}-${suggestion.value}`}>
+                {(index === 0 || suggestions[index - 1].kind !== suggestion.kind) && (
+                  <li role="presentation" className="px-3 pt-2 pb-1 text-xs font-semibold uppercase text-gray-400 flex justify-between">
+                    {SUGGESTION_HEADINGS[suggestion.kind]}
+                    {suggestion.kind === 'recent' && onClearRecent && (
+                      <button
+                        type="button"
+                        onClick={onClearRecent}
+                        className="normal-case font-normal text-blue-600 hover:text-blue-800"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </li>
+                )}
+                <li
+                  id={`searchSuggestion-${index}`}
+                  role="option"
+                  aria-selected={index === highlighted}
+                  onClick={() => chooseSuggestion(suggestion)}
+                  onMouseEnter={() => setHighlighted(index)}
+                  className={`px-3 py-2 cursor-pointer flex justify-between gap-2 ${
+                    index === highlighted ? 'bg-blue-50 text-blue-800' : 'text-gray-700'
+                  }`}
+                >
+                  <span className="truncate">
+                    {suggestion.kind === 'tag' && '#'}
+                    {suggestion.label}
+                  </span>
+                  {suggestion.count !== undefined && (
+                    <span className="text-gray-400 whitespace-nowrap">
+                      {suggestion.count} {suggestion.count === 1 ? 'listing' : 'listings'}
+                    </span>
+                  )}
+                </li>
+              </React.Fragment>
+            ))}
+          </ul>
+        )}
+      </form>
+
+      {visibleErrors.length > 0 && (
+        <div id="searchQueryErrors" className="mt-2 text-sm" role="alert">
+          <p className="font-mono whitespace-pre-wrap break-all">
+            {highlightErrors(query, visibleErrors).map((part, index) =>
+              part.error ? (
+                <mark key={index} title={part.error} className="bg-red-100 text-red-800 underline decoration-wavy decoration-red-500">
+                  {part.text}
+                </mark>
+              ) : (
+                <span key={index} className="text-gray-500">{part.text}</span>
+              )
+            )}
+          </p>
+          <ul className="mt-1 text-red-700">
+            {visibleErrors.map(error => (
+              <li key={`${error.start}-${error.end}`}>{error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {showHelp && (
+        <div className="mt-2 p-3 bg-gray-50 border rounded text-sm text-gray-700">
+          <p className="mb-2">
+            Use <code>"quotes"</code> for an exact phrase and <code>-word</code> to leave something out. Narrow results with:
+          </p>
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+            {QUERY_FIELDS.map(field => (
+              <li key={field.field}>
+                <code className="text-blue-700">{field.example}</code>
+                <span className="text-gray-500"> – {field.description}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
   );
 };
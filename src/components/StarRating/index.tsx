@@ -0,0 +1,48 @@
+import React from 'react';
+import { MAX_RATING } from '../../stores/reviewStore';
+
+/**
+ * Props for the StarRating component
+ */
+export interface StarRatingProps {
+  /**
+   * Rating to show, from 0 to 5. Averages are rounded to the nearest star.
+   */
+  rating: number;
+  /**
+   * Number of reviews behind the rating; shown after the stars when given
+   */
+  count?: number;
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * A read-only row of stars for a rating, e.g. a seller's average
+ *
+ * @param props - The component props
+ * @returns Filled and empty stars with the numeric rating
+ */
+export const StarRating: React.FC<StarRatingProps> = ({ rating, count, className = '' }) => {
+  if (count === 0) {
+    return <span className={`text-sm text-gray-400 ${className}`}>No reviews yet</span>;
+  }
+
+  const filled = Math.round(rating);
+  const label = `${rating.toFixed(1)} out of ${MAX_RATING} stars`;
+
+  return (
+    <span className={`inline-flex items-center text-sm ${className}`} title={label} aria-label={label}>
+      <span className="text-yellow-500" aria-hidden="true">
+        {'★'.repeat(filled)}
+        <span className="text-gray-300">{'★'.repeat(MAX_RATING - filled)}</span>
+      </span>
+      <span className="ml-1 text-gray-600">
+        {rating.toFixed(1)}
+        {count !== undefined && ` (${count})`}
+      </span>
+    </span>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import imageStorage from '../../modules/imageStorage';
+
+/**
+ * Props for the SyncedImage component
+ */
+export interface SyncedImageProps {
+  /**
+   * Image URL, either a regular URL or a `synced-file://` URL from image storage
+   */
+  src: string;
+  /**
+   * Alternative text for the image
+   */
+  alt: string;
+  /**
+   * Optional CSS class names to apply to the image
+   */
+  className?: string;
+}
+
+/**
+ * How often to look for a blob that hasn't synced from a peer yet
+ */
+const RETRY_INTERVAL_MS = 2000;
+const MAX_RETRIES = 15;
+
+/**
+ * An image that can render photos kept in the synced file system. Regular
+ * URLs pass straight through; synced images show a placeholder until their
+ * blob is available locally.
+ *
+ * @param props - The component props
+ * @returns An img element, or a placeholder while the image loads
+ */
+export const SyncedImage: React.FC<SyncedImageProps> = ({ src, alt, className = '' }) => {
+  const [resolvedSrc, setResolvedSrc] = useState<string | null>(
+    imageStorage.isSyncedImageUrl(src) ? null : src
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    let retries = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const resolve = async () => {
+      const url = await imageStorage.resolveImageUrl(src);
+      if (cancelled) return;
+
+      if (url) {
+        setResolvedSrc(url);
+      } else if (retries < MAX_RETRIES) {
+        // The blob may still be on its way from another peer
+        retries += 1;
+        timer = setTimeout(resolve, RETRY_INTERVAL_MS);
+      }
+    };
+
+    setResolvedSrc(imageStorage.isSyncedImageUrl(src) ? null : src);
+    resolve();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [src]);
+
+  if (!resolvedSrc) {
+    return (
+      <div className={`bg-gray-100 animate-pulse flex items-center justify-center ${className}`} aria-label={alt}>
+        <span className="text-gray-400 text-xs">Loading image…</span>
+      </div>
+    );
+  }
+
+  return <img src={resolvedSrc} alt={alt} className={className} />;
+};
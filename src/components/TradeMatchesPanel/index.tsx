@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { useUserStore } from '../../stores/userStore';
+import { useListingStore } from '../../stores/listingStore';
+import tradeMatching, { TradeMatch } from '../../modules/tradeMatching';
+
+/**
+ * Props for the TradeMatchesPanel component
+ */
+export interface TradeMatchesPanelProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+/**
+ * Split a comma separated input into a clean list
+ */
+const parseList = (value: string) => {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+};
+
+/**
+ * Describe a match from the current user's point of view
+ */
+const describeMatch = (match: TradeMatch, userId: string) => {
+  const giving = match.legs.find(leg => leg.fromUserId === userId);
+  const receiving = match.legs.find(leg => leg.toUserId === userId);
+
+  return {
+    give: giving ? giving.items.map(item => item.label).join(', ') : '',
+    get: receiving ? receiving.items.map(item => item.label).join(', ') : '',
+    partners: match.legs
+      .filter(leg => leg.fromUserId !== userId)
+      .map(leg => leg.fromUserName)
+  };
+};
+
+/**
+ * A sidebar panel that edits the current user's have and want lists and
+ * shows the trade matches found for them
+ *
+ * @param props - The component props
+ * @returns A panel listing direct swaps and multi-party trade cycles
+ */
+export const TradeMatchesPanel: React.FC<TradeMatchesPanelProps> = ({ className = '' }) => {
+  const { profiles, getCurrentUser, updateProfileDetails } = useUserStore();
+  const { listings } = useListingStore();
+  const currentUser = getCurrentUser();
+  const [isEditing, setIsEditing] = useState(false);
+  const [haveInput, setHaveInput] = useState('');
+  const [wantInput, setWantInput] = useState('');
+
+  const matches = useMemo(() => {
+    if (!currentUser) return [];
+    return tradeMatching.findTradeMatchesForUser(currentUser.id, { users: profiles, listings }, { maxResults: 10 });
+  }, [currentUser?.id, profiles, listings]);
+
+  if (!currentUser) {
+    return null;
+  }
+
+  const handleStartEditing = () => {
+    setHaveInput((currentUser.haveList || []).join(', '));
+    setWantInput((currentUser.wantList || []).join(', '));
+    setIsEditing(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateProfileDetails(currentUser.id, {
+      haveList: parseList(haveInput),
+      wantList: parseList(wantInput)
+    });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="font-medium text-sm">Trade Matches</h3>
+        {!isEditing && (
+          <button
+            type="button"
+            onClick={handleStartEditing}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            Edit lists
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <form onSubmit={handleSave} className="space-y-2">
+          <label className="block text-xs text-gray-600">
+            I have
+            <input
+              type="text"
+              value={haveInput}
+              onChange={(e) => setHaveInput(e.target.value)}
+              className="w-full p-1 border border-gray-300 rounded text-sm"
+              placeholder="e.g. Catan, Zelda"
+            />
+          </label>
+          <label className="block text-xs text-gray-600">
+            I want
+            <input
+              type="text"
+              value={wantInput}
+              onChange={(e) => setWantInput(e.target.value)}
+              className="w-full p-1 border border-gray-300 rounded text-sm"
+              placeholder="e.g. Gloomhaven"
+            />
+          </label>
+          <div className="flex gap-2">
+            <button type="submit" className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : matches.length > 0 ? (
+        <ul className="space-y-2">
+          {matches.map(match => {
+            const { give, get, partners } = describeMatch(match, currentUser.id);
+            return (
+              <li key={match.id} className="text-xs bg-white border rounded p-2">
+                <p className="font-medium">
+                  {match.kind === 'direct'
+                    ? `Swap with ${partners[0]}`
+                    : `${match.participantIds.length}-way trade with ${partners.join(', ')}`}
+                </p>
+                <p className="text-gray-600">You give: {give}</p>
+                <p className="text-gray-600">You get: {get}</p>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">
+          No matches yet. Add items to your have and want lists, or create trade and wanted listings.
+        </p>
+      )}
+    </div>
+  );
+};
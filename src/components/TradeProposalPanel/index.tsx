@@ -0,0 +1,444 @@
+import React, { useState } from 'react';
+import { Listing, useListingStore } from '../../stores/listingStore';
+import { useUserStore } from '../../stores/userStore';
+import {
+  useTradeStore,
+  TradeProposal,
+  TradeProposalStatus,
+  TradeTerms,
+  TradeEvent,
+  isTradeOpen,
+  isTradeAwaitingResponseFrom
+} from '../../stores/tradeStore';
+import money from '../../modules/money';
+
+/**
+ * Props for the TradeProposalPanel component
+ */
+export interface TradeProposalPanelProps {
+  /**
+   * The TRADE listing proposals are sent against
+   */
+  listing: Listing;
+}
+
+/**
+ * Props for the terms editor used to propose and counter trades
+ */
+interface TradeTermsEditorProps {
+  /**
+   * Listings the proposer can put into the trade
+   */
+  proposerListings: Listing[];
+  /**
+   * Listings the recipient can put into the trade. Omitted when proposing,
+   * since a new proposal always targets the listing being viewed.
+   */
+  recipientListings?: Listing[];
+  /**
+   * Terms to start from when countering
+   */
+  initialTerms: TradeTerms;
+  /**
+   * Whether the current user is the proposer, used for "you"/"they" labels
+   */
+  isProposer: boolean;
+  /**
+   * Currency cash amounts are entered in, taken from the target listing
+   */
+  currency: string;
+  submitLabel: string;
+  isLoading: boolean;
+  onSubmit: (terms: TradeTerms, message?: string) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Get a readable label and colour for a proposal status
+ */
+const getStatusBadge = (status: TradeProposalStatus) => {
+  switch (status) {
+    case TradeProposalStatus.PENDING:
+      return { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' };
+    case TradeProposalStatus.COUNTERED:
+      return { label: 'Countered', className: 'bg-blue-100 text-blue-800' };
+    case TradeProposalStatus.ACCEPTED:
+      return { label: 'Accepted', className: 'bg-green-100 text-green-800' };
+    case TradeProposalStatus.DECLINED:
+      return { label: 'Declined', className: 'bg-red-100 text-red-800' };
+    case TradeProposalStatus.WITHDRAWN:
+      return { label: 'Withdrawn', className: 'bg-gray-200 text-gray-700' };
+  }
+};
+
+/**
+ * Past-tense verbs for the proposal history
+ */
+const EVENT_VERBS: Record<TradeEvent['type'], string> = {
+  propose: 'proposed',
+  counter: 'countered',
+  accept: 'accepted',
+  decline: 'declined',
+  withdraw: 'withdrew'
+};
+
+/**
+ * Checkbox list and cash inputs for building one side of a trade
+ */
+const TradeTermsEditor: React.FC<TradeTermsEditorProps> = ({
+  proposerListings,
+  recipientListings,
+  initialTerms,
+  isProposer,
+  currency,
+  submitLabel,
+  isLoading,
+  onSubmit,
+  onCancel
+}) => {
+  const [terms, setTerms] = useState<TradeTerms>(initialTerms);
+  const [proposerCash, setProposerCash] = useState(initialTerms.proposerCash ? initialTerms.proposerCash.toString() : '');
+  const [recipientCash, setRecipientCash] = useState(initialTerms.recipientCash ? initialTerms.recipientCash.toString() : '');
+  const [message, setMessage] = useState('');
+
+  const toggleListing = (side: 'proposerListingIds' | 'recipientListingIds', listingId: string) => {
+    setTerms(prev => ({
+      ...prev,
+      [side]: prev[side].includes(listingId)
+        ? prev[side].filter(id => id !== listingId)
+        : [...prev[side], listingId]
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      ...terms,
+      proposerCash: parseFloat(proposerCash) || 0,
+      recipientCash: parseFloat(recipientCash) || 0
+    }, message.trim() || undefined);
+  };
+
+  const renderSide = (
+    title: string,
+    listings: Listing[],
+    side: 'proposerListingIds' | 'recipientListingIds',
+    cash: string,
+    setCash: (value: string) => void
+  ) => (
+    <div className="flex-1">
+      <h4 className="text-sm font-medium text-gray-700 mb-1">{title}</h4>
+      {listings.length > 0 ? (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {listings.map(listing => (
+            <label key={listing.id} className="flex items-center text-sm">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={terms[side].includes(listing.id)}
+                onChange={() => toggleListing(side, listing.id)}
+              />
+              {listing.title}
+            </label>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No active listings to add.</p>
+      )}
+      <div className="relative mt-2">
+        <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-500">{money.getCurrencySymbol(currency)}</span>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={cash}
+          onChange={(e) => setCash(e.target.value)}
+          className="w-full pl-7 p-2 border border-gray-300 rounded text-sm"
+          placeholder="Add cash (optional)"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 border rounded p-3 bg-gray-50">
+      <div className="flex flex-col sm:flex-row gap-4">
+        {renderSide(
+          isProposer ? 'You give' : 'They give',
+          proposerListings,
+          'proposerListingIds',
+          proposerCash,
+          setProposerCash
+        )}
+        {recipientListings && renderSide(
+          isProposer ? 'You get' : 'You give',
+          recipientListings,
+          'recipientListingIds',
+          recipientCash,
+          setRecipientCash
+        )}
+      </div>
+      {!recipientListings && (
+        <div className="relative">
+          <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-500">{money.getCurrencySymbol(currency)}</span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={recipientCash}
+            onChange={(e) => setRecipientCash(e.target.value)}
+            className="w-full pl-7 p-2 border border-gray-300 rounded text-sm"
+            placeholder="Cash you want from the other side (optional)"
+          />
+        </div>
+      )}
+      <input
+        type="text"
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        className="w-full p-2 border border-gray-300 rounded text-sm"
+        placeholder="Message (optional)"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          disabled={isLoading}
+        >
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+/**
+ * A single trade proposal with its terms, history and available actions
+ */
+const TradeProposalCard: React.FC<{ proposal: TradeProposal; currentUserId: string; currency: string }> = ({
+  proposal,
+  currentUserId,
+  currency
+}) => {
+  const { getListingById, getListingsBySeller } = useListingStore();
+  const { counterTrade, acceptTrade, declineTrade, withdrawTrade, isLoading } = useTradeStore();
+  const [isCountering, setIsCountering] = useState(false);
+
+  const badge = getStatusBadge(proposal.status);
+  const isProposer = proposal.proposerId === currentUserId;
+  const canRespond = isTradeAwaitingResponseFrom(proposal, currentUserId);
+  const canWithdraw = isProposer && isTradeOpen(proposal);
+
+  const describeSide = (listingIds: string[], cash: number) => {
+    const titles = listingIds.map(id => getListingById(id)?.title || 'Removed listing');
+    if (cash > 0) titles.push(money.formatAmount(money.toMinorUnits(cash, currency), currency));
+    return titles.length > 0 ? titles.join(', ') : 'Nothing';
+  };
+
+  const activeListingsOf = (sellerId: string) =>
+    getListingsBySeller(sellerId).filter(listing => listing.status === 'active');
+
+  const handleCounter = async (terms: TradeTerms, message?: string) => {
+    const updated = await counterTrade(proposal.id, terms, message);
+    if (updated) setIsCountering(false);
+  };
+
+  return (
+    <div className="border rounded p-3">
+      <div className="flex justify-between items-center">
+        <span className="font-medium">
+          {isProposer ? `Your proposal to ${proposal.recipientName}` : `Proposal from ${proposal.proposerName}`}
+        </span>
+        <span className={`text-xs px-2 py-1 rounded ${badge.className}`}>{badge.label}</span>
+      </div>
+
+      <div className="mt-2 text-sm grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div>
+          <span className="text-gray-500">{proposal.proposerName} gives: </span>
+          {describeSide(proposal.terms.proposerListingIds, proposal.terms.proposerCash)}
+        </div>
+        <div>
+          <span className="text-gray-500">{proposal.recipientName} gives: </span>
+          {describeSide(proposal.terms.recipientListingIds, proposal.terms.recipientCash)}
+        </div>
+      </div>
+
+      <ul className="mt-2 space-y-1 text-xs text-gray-500">
+        {proposal.history.map(event => (
+          <li key={event.id}>
+            {new Date(event.createdAt).toLocaleString()} · {event.actorName} {EVENT_VERBS[event.type]}
+            {event.message && <span className="italic"> "{event.message}"</span>}
+          </li>
+        ))}
+      </ul>
+
+      {(canRespond || canWithdraw) && !isCountering && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {canRespond && (
+            <>
+              <button
+                type="button"
+                onClick={() => acceptTrade(proposal.id)}
+                className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                disabled={isLoading}
+              >
+                Accept
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsCountering(true)}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                disabled={isLoading}
+              >
+                Counter
+              </button>
+              <button
+                type="button"
+                onClick={() => declineTrade(proposal.id)}
+                className="px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600"
+                disabled={isLoading}
+              >
+                Decline
+              </button>
+            </>
+          )}
+          {canWithdraw && (
+            <button
+              type="button"
+              onClick={() => withdrawTrade(proposal.id)}
+              className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+              disabled={isLoading}
+            >
+              Withdraw
+            </button>
+          )}
+        </div>
+      )}
+
+      {isCountering && (
+        <div className="mt-3">
+          <TradeTermsEditor
+            proposerListings={activeListingsOf(proposal.proposerId)}
+            recipientListings={activeListingsOf(proposal.recipientId)}
+            initialTerms={proposal.terms}
+            isProposer={isProposer}
+            currency={currency}
+            submitLabel="Send Counter-proposal"
+            isLoading={isLoading}
+            onSubmit={handleCounter}
+            onCancel={() => setIsCountering(false)}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Trade proposals for a TRADE listing. The listing owner sees every proposal
+ * that involves the listing, other users see their own and can propose a new bundle.
+ *
+ * @param props - The component props
+ * @returns The trade proposals section of a listing
+ */
+export const TradeProposalPanel: React.FC<TradeProposalPanelProps> = ({ listing }) => {
+  const { getCurrentUser } = useUserStore();
+  const { getListingsBySeller } = useListingStore();
+  const { getProposalsForListing, proposeTrade, isLoading, error } = useTradeStore();
+  const [isProposing, setIsProposing] = useState(false);
+  const currentUser = getCurrentUser();
+
+  if (!currentUser) {
+    return (
+      <p className="text-sm text-gray-500">Log in to propose a trade for this listing.</p>
+    );
+  }
+
+  const isOwner = currentUser.id === listing.sellerId;
+  const proposals = getProposalsForListing(listing.id)
+    .filter(proposal => proposal.proposerId === currentUser.id || proposal.recipientId === currentUser.id)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  const hasOpenProposal = proposals.some(proposal =>
+    proposal.proposerId === currentUser.id &&
+    proposal.targetListingId === listing.id &&
+    isTradeOpen(proposal)
+  );
+  const myActiveListings = getListingsBySeller(currentUser.id)
+    .filter(l => l.status === 'active');
+  const canPropose = !isOwner && listing.status === 'active' && !hasOpenProposal;
+
+  const handlePropose = async (terms: TradeTerms, message?: string) => {
+    try {
+      await proposeTrade(listing.id, {
+        proposerListingIds: terms.proposerListingIds,
+        proposerCash: terms.proposerCash,
+        recipientCash: terms.recipientCash
+      }, message);
+      setIsProposing(false);
+    } catch (err) {
+      // The store keeps the error message for display
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="p-3 bg-red-100 border-l-4 border-red-500 text-red-700 text-sm">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {proposals.length > 0 ? (
+        proposals.map(proposal => (
+          <TradeProposalCard
+            key={proposal.id}
+            proposal={proposal}
+            currentUserId={currentUser.id}
+            currency={listing.price.currency}
+          />
+        ))
+      ) : (
+        <p className="text-sm text-gray-500">
+          {isOwner ? 'No trade proposals yet.' : 'You have not proposed a trade yet.'}
+        </p>
+      )}
+
+      {canPropose && (
+        isProposing ? (
+          <TradeTermsEditor
+            proposerListings={myActiveListings}
+            initialTerms={{
+              proposerListingIds: [],
+              recipientListingIds: [listing.id],
+              proposerCash: 0,
+              recipientCash: 0
+            }}
+            isProposer={true}
+            currency={listing.price.currency}
+            submitLabel="Send Proposal"
+            isLoading={isLoading}
+            onSubmit={handlePropose}
+            onCancel={() => setIsProposing(false)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsProposing(true)}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Propose a Trade
+          </button>
+        )
+      )}
+    </div>
+  );
+};
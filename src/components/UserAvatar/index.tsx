@@ -0,0 +1,46 @@
+import React from 'react';
+import { SyncedImage } from '../SyncedImage';
+
+/**
+ * Props for the UserAvatar component
+ */
+export interface UserAvatarProps {
+  /**
+   * The user's name, whose initial is shown when there's no picture
+   */
+  name: string;
+  /**
+   * URL of the user's profile picture
+   */
+  imageUrl?: string;
+  /**
+   * Tailwind size classes for the avatar
+   */
+  sizeClassName?: string;
+}
+
+/**
+ * A round profile picture, falling back to the user's initial
+ *
+ * @param props - The component props
+ * @returns The user's avatar
+ */
+export const UserAvatar: React.FC<UserAvatarProps> = ({
+  name,
+  imageUrl,
+  sizeClassName = 'w-10 h-10'
+}) => {
+  if (imageUrl) {
+    return (
+      <div className={`${sizeClassName} rounded-full overflow-hidden shrink-0`}>
+        <SyncedImage src={imageUrl} alt={name} className="w-full h-full object-cover" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${sizeClassName} rounded-full bg-blue-500 text-white flex items-center justify-center shrink-0`}>
+      {name.charAt(0).toUpperCase()}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useUserStore, UserProfile, getActiveRestriction } from '../../stores/userStore';
+import { ReasonDialog } from '../ReasonDialog';
+
+/**
+ * Props for the UserModerationTable component
+ */
+export interface UserModerationTableProps {
+  /**
+   * Optional CSS class names to apply to the component
+   */
+  className?: string;
+}
+
+type UserAction = 'suspend' | 'ban' | 'reinstate';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Suspension lengths admins can pick from
+ */
+const SUSPENSION_OPTIONS = [
+  { label: '1 day', value: DAY },
+  { label: '3 days', value: 3 * DAY },
+  { label: '7 days', value: 7 * DAY },
+  { label: '30 days', value: 30 * DAY }
+];
+
+/**
+ * Describe an account's standing for the status column
+ */
+const describeStanding = (profile: UserProfile) => {
+  const restriction = getActiveRestriction(profile);
+  if (!restriction) return { label: 'Active', className: 'text-green-700' };
+  if (restriction.type === 'banned') return { label: 'Banned', className: 'text-red-700' };
+  return {
+    label: `Suspended until ${new Date(restriction.until!).toLocaleDateString()}`,
+    className: 'text-yellow-700'
+  };
+};
+
+/**
+ * Admin table of every user, with search and suspend, ban and reinstate actions
+ *
+ * @param props - The component props
+ * @returns A searchable table of users
+ */
+export const UserModerationTable: React.FC<UserModerationTableProps> = ({ className = '' }) => {
+  const { profiles, getCurrentUser, suspendUser, banUser, reinstateUser, moderationError } = useUserStore();
+  const currentUser = getCurrentUser();
+  const [query, setQuery] = useState('');
+  const [pending, setPending] = useState<{ profile: UserProfile; action: UserAction } | null>(null);
+  const [suspensionLength, setSuspensionLength] = useState(SUSPENSION_OPTIONS[2].value);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleProfiles = profiles
+    .filter(profile => profile.name.toLowerCase().includes(normalizedQuery))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleConfirm = (reason: string) => {
+    if (!pending) return;
+    const { profile, action } = pending;
+
+    if (action === 'suspend') {
+      suspendUser(profile.id, reason, Date.now() + suspensionLength);
+    } else if (action === 'ban') {
+      banUser(profile.id, reason);
+    } else {
+      reinstateUser(profile.id, reason);
+    }
+    setPending(null);
+  };
+
+  const dialogTitles: Record<UserAction, string> = {
+    suspend: 'Suspend',
+    ban: 'Ban',
+    reinstate: 'Reinstate'
+  };
+
+  return (
+    <div className={className}>
+      <h2 className="text-xl font-semibold mb-4">Users</h2>
+
+      {moderationError && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-3 mb-4 rounded">
+          <p>{moderationError}</p>
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by username"
+        className="w-full p-2 border border-gray-300 rounded mb-3 text-sm"
+      />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2 pr-4">User</th>
+              <th className="py-2 pr-4">Joined</th>
+              <th className="py-2 pr-4">Status</th>
+              <th className="py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleProfiles.map(profile => {
+              const standing = describeStanding(profile);
+              const isRestricted = Boolean(getActiveRestriction(profile));
+              const isSelf = profile.id === currentUser?.id;
+
+              return (
+                <tr key={profile.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4">
+                    <Link to={`/u/${encodeURIComponent(profile.name)}`} className="text-blue-600 hover:underline">
+                      {profile.name}
+                    </Link>
+                    {profile.isAdmin && <span className="ml-2 text-xs text-gray-500">admin</span>}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-600">{new Date(profile.createdAt).toLocaleDateString()}</td>
+                  <td className={`py-2 pr-4 ${standing.className}`} title={profile.restriction?.reason}>
+                    {standing.label}
+                  </td>
+                  <td className="py-2 text-right space-x-2 whitespace-nowrap">
+                    {isRestricted ? (
+                      <button
+                        type="button"
+                        onClick={() => setPending({ profile, action: 'reinstate' })}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Reinstate
+                      </button>
+                    ) : !isSelf && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => setPending({ profile, action: 'suspend' })}
+                          className="text-yellow-700 hover:text-yellow-900"
+                        >
+                          Suspend
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setPending({ profile, action: 'ban' })}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Ban
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {pending && (
+        <ReasonDialog
+          title={`${dialogTitles[pending.action]} ${pending.profile.name}`}
+          confirmLabel={dialogTitles[pending.action]}
+          isDestructive={pending.action !== 'reinstate'}
+          onConfirm={handleConfirm}
+          onCancel={() => setPending(null)}
+        >
+          {pending.action === 'suspend' && (
+            <label className="block text-sm font-medium text-gray-700">
+              Suspend for
+              <select
+                value={suspensionLength}
+                onChange={(e) => setSuspensionLength(Number(e.target.value))}
+                className="w-full p-2 border border-gray-300 rounded mt-1"
+              >
+                {SUSPENSION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </ReasonDialog>
+      )}
+    </div>
+  );
+};
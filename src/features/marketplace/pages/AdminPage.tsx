@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useUserStore } from '../../../stores/userStore';
+import { RoleManager } from '../../../components/RoleManager';
+import { UserModerationTable } from '../../../components/UserModerationTable';
+import { ListingModerationTable } from '../../../components/ListingModerationTable';
+import { AuditLogView } from '../../../components/AuditLogView';
+import { ReportQueue } from '../../../components/ReportQueue';
+
+type AdminTab = 'users' | 'listings' | 'reports' | 'roles' | 'audit';
+
+const TABS: { id: AdminTab; label: string }[] = [
+  { id: 'users', label: 'Users' },
+  { id: 'listings', label: 'Listings' },
+  { id: 'reports', label: 'Reports' },
+  { id: 'roles', label: 'Roles' },
+  { id: 'audit', label: 'Audit Log' }
+];
+
+/**
+ * Admin console at /admin. Only admins see the tools.
+ */
+export const AdminPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { isCurrentUserAdmin } = useUserStore();
+  const [activeTab, setActiveTab] = useState<AdminTab>('users');
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => navigate('/')}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              ← Marketplace
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">Admin</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!isCurrentUserAdmin() ? (
+          <div className="bg-white rounded-lg shadow p-6 text-gray-600">
+            This page is only available to admins. <Link to="/" className="text-blue-600 hover:underline">Back to the marketplace</Link>
+          </div>
+        ) : (
+          <>
+            <nav className="flex gap-2 mb-6">
+              {TABS.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`px-4 py-2 text-sm rounded-md ${
+                    activeTab === tab.id ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </nav>
+
+            {activeTab === 'users' && <UserModerationTable className="bg-white rounded-lg shadow p-6" />}
+            {activeTab === 'listings' && <ListingModerationTable className="bg-white rounded-lg shadow p-6" />}
+            {activeTab === 'reports' && <ReportQueue className="bg-white rounded-lg shadow p-6" />}
+            {activeTab === 'roles' && <RoleManager className="bg-white rounded-lg shadow p-6" />}
+            {activeTab === 'audit' && <AuditLogView className="bg-white rounded-lg shadow p-6" />}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ListingCard } from '../components/ListingCard';
 import { Listing } from '../types/marketplace.types';
 
+type GenreSort = 'default' | 'price_asc' | 'price_desc' | 'rating';
+
 export const GenreExplorerPage: React.FC = () => {
   const { genre } = useParams<{ genre: string }>();
   const navigate = useNavigate();
+  const [sortBy, setSortBy] = useState<GenreSort>('default');
   
   const getMockListings = (genre: string): Listing[] => {
     switch(genre?.toLowerCase()) {
@@ -57,6 +60,16 @@ export const GenreExplorerPage: React.FC = () => {
   };
 
   const mockListings = getMockListings(genre || '');
+  
+  // These listings carry no dates, so the default order stands in for most recent
+  const sortedListings = [...mockListings].sort((a, b) => {
+    switch (sortBy) {
+      case 'price_asc': return a.price - b.price;
+      case 'price_desc': return b.price - a.price;
+      case 'rating': return b.seller.rating - a.seller.rating;
+      default: return 0;
+    }
+  });
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -79,11 +92,16 @@ export const GenreExplorerPage: React.FC = () => {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-6">
           <div className="flex space-x-4">
-            <select className="rounded-md border-gray-300">
-              <option>Sort by</option>
-              <option>Price: Low to High</option>
-              <option>Price: High to Low</option>
-              <option>Most Recent</option>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as GenreSort)}
+              className="rounded-md border-gray-300"
+              aria-label="Sort by"
+            >
+              <option value="default">Sort by: Most Recent</option>
+              <option value="price_asc">Price: Low to High</option>
+              <option value="price_desc">Price: High to Low</option>
+              <option value="rating">Seller rating</option>
             </select>
             <select className="rounded-md border-gray-300">
               <option>All Types</option>
@@ -94,7 +112,7 @@ export const GenreExplorerPage: React.FC = () => {
         </div>
 
         <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
-          {mockListings.map((listing) => (
+          {sortedListings.map((listing) => (
             <ListingCard key={listing.id} listing={listing} />
           ))}
         </div>
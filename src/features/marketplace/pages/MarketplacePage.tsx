@@ -1,28 +1,37 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { CategoryCard } from '../types/marketplace.types';
 import { Sidebar } from '../../../components/Sidebar';
 import { FilterPanel } from '../../../components/FilterPanel';
 import { SearchBar } from '../../../components/SearchBar';
 import { ItemCard } from '../../../components/ItemCard';
+import { Pagination } from '../../../components/Pagination';
 import { AuthSidebar } from '../../../components/AuthSidebar';
 import { AuthenticatedSidebar } from '../../../components/AuthenticatedSidebar';
-import { useUserStore } from '../../../stores/userStore';
-import { useListingStore, Listing, ItemCategory, ServiceCategory, ListingType, ItemCondition } from '../../../stores/listingStore';
+import { useUserStore, UserProfile, roundCoordinate } from '../../../stores/userStore';
+import { useListingStore, Listing, ListingPrice, ItemCategory, ServiceCategory, ListingType } from '../../../stores/listingStore';
 import { ListingDetailModal } from '../../../components/ListingDetailModal';
 import { ListingCreationModal } from '../../../components/ListingCreationModal';
+import { CurrencySelector } from '../../../components/CurrencySelector';
+import { useExchangeRateStore } from '../../../stores/exchangeRateStore';
+import { useDisplayCurrencyStore } from '../../../stores/displayCurrencyStore';
+import { useListingVerificationStore } from '../../../stores/listingVerificationStore';
+import { useReportStore } from '../../../stores/reportStore';
+import { useReviewStore } from '../../../stores/reviewStore';
+import { useModerationStore } from '../../../stores/moderationStore';
+import { useOfferStore } from '../../../stores/offerStore';
+import { useTradeStore } from '../../../stores/tradeStore';
+import { useSearchIndexStore } from '../../../stores/searchIndexStore';
+import { useSearchHistoryStore } from '../../../stores/searchHistoryStore';
+import reputation, { ReputationLevel } from '../../../modules/reputation';
+import searchQueryParser from '../../../modules/searchQuery';
+import searchSuggestions from '../../../modules/searchSuggestions';
+import listingSort, { SortOption, SORT_OPTIONS } from '../../../modules/listingSort';
+import marketplaceUrl, { MarketplaceFilters, MarketplaceView } from '../../../modules/marketplaceUrl';
+import money from '../../../modules/money';
 
-// Define filter interface
-interface MarketplaceFilters {
-  categories: string[];
-  priceRange: {
-    min: number | null;
-    max: number | null;
-  };
-  location: string;
-  sellerTypes: string[];
-  condition?: string;
-}
+// Listings shown on each page of results
+const PAGE_SIZE = 24;
 
 const categories: CategoryCard[] = [
   {
@@ -53,47 +62,142 @@ const categories: CategoryCard[] = [
  */
 export const MarketplacePage: React.FC = () => {
   const navigate = useNavigate();
-  const [searchQuery, setSearchQuery] = useState('');
-  const { getCurrentUser, isLoading: isUserLoading } = useUserStore();
-  const { listings, getActiveListings, isLoading: isListingsLoading } = useListingStore();
+  
+  // The search, filters, sort order and page live in the URL, so views can be
+  // bookmarked, shared and returned to with the back button
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = useMemo(() => marketplaceUrl.decodeView(searchParams), [searchParams]);
+  const { query: searchQuery, filters, sort: sortBy, page } = view;
+  const { profiles, getCurrentUser, isLoading: isUserLoading } = useUserStore();
+  const { listings, getActiveListings, getListingById, isLoading: isListingsLoading } = useListingStore();
   const [showLoading, setShowLoading] = useState(false);
+  const { baseCurrency, rates } = useExchangeRateStore();
+  const { getDisplayCurrency } = useDisplayCurrencyStore();
+  const displayCurrency = getDisplayCurrency();
+  const { getVerification } = useListingVerificationStore();
+  // getActiveListings hides reported listings, so re-render when reports change
+  useReportStore();
+  const { reviews, getRatingSummary } = useReviewStore();
+  const { auditLog } = useModerationStore();
+  const { offersByListing } = useOfferStore();
+  const { proposals } = useTradeStore();
+  const reputations = useMemo(
+    () => reputation.computeAllReputations({
+      users: profiles,
+      listings,
+      reviews,
+      auditLog,
+      offers: Object.values(offersByListing).flat(),
+      trades: proposals
+    }),
+    [profiles, listings, reviews, auditLog, offersByListing, proposals]
+  );
   
-  // Add filter state
-  const [filters, setFilters] = useState<MarketplaceFilters>({
-    categories: [],
-    priceRange: {
-      min: null,
-      max: null
-    },
-    location: '',
-    sellerTypes: []
-  });
+  // Convert a listing price into the viewer's display currency, null when no rate is known
+  const toDisplayPrice = useCallback((price: ListingPrice) => {
+    return money.convertPrice(price, displayCurrency, { baseCurrency, rates });
+  }, [displayCurrency, baseCurrency, rates]);
+  
+  // Price filters stay in the currency they were set in, so a shared link
+  // shows the same listings whatever the viewer's display currency
+  const priceCurrency = filters.currency || displayCurrency;
+  const toFilterPrice = useCallback((price: ListingPrice) => {
+    return money.convertPrice(price, priceCurrency, { baseCurrency, rates });
+  }, [priceCurrency, baseCurrency, rates]);
+  
+  // Navigate to a changed view. Changing anything but the page goes back to
+  // the first page. Changes made together build on each other rather than on
+  // the URL the page last rendered with
+  const latestView = useRef(view);
+  latestView.current = view;
+  const updateView = (changes: Partial<MarketplaceView>) => {
+    const next = { ...latestView.current, page: 1, ...changes };
+    const needsCurrency = marketplaceUrl.needsCurrency(next);
+    next.filters = { ...next.filters, currency: needsCurrency ? next.filters.currency || displayCurrency : undefined };
+    
+    latestView.current = next;
+    const params = marketplaceUrl.encodeView(next);
+    if (params.toString() !== searchParams.toString()) {
+      setSearchParams(params);
+    }
+  };
   
-  // State for the listing detail modal
-  const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
+  const setSearchQuery = (query: string) => updateView({ query });
+  const setFilters = (update: React.SetStateAction<MarketplaceFilters>) => {
+    updateView({ filters: typeof update === 'function' ? update(latestView.current.filters) : update });
+  };
+  const setSortBy = (sort: SortOption) => updateView({ sort });
+  const setPage = (newPage: number) => updateView({ page: newPage });
+  
+  // Links that filter or sort by price without saying which currency, such as
+  // ones typed by hand, get the viewer's display currency written in, so the
+  // URL always reproduces what the page shows
+  useEffect(() => {
+    if (!view.filters.currency && marketplaceUrl.needsCurrency(view)) {
+      const withCurrency = { ...view, filters: { ...view.filters, currency: displayCurrency } };
+      latestView.current = withCurrency;
+      setSearchParams(marketplaceUrl.encodeView(withCurrency), { replace: true });
+    }
+  }, [view, displayCurrency, setSearchParams]);
+  const mainRef = useRef<HTMLElement>(null);
+  
+  // State for the listing detail modal. Only the id is kept so the modal
+  // always shows the latest copy of the listing from the store
+  const [selectedListingId, setSelectedListingId] = useState<string | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  const selectedListing = selectedListingId ? getListingById(selectedListingId) : undefined;
   
   // State for the listing creation modal
   const [showListingModal, setShowListingModal] = useState(false);
   
   // Get current user for conditional rendering
   const currentUser = getCurrentUser();
-  const activeListings = getActiveListings();
+  // Listings whose signatures don't check out have been tampered with. Ones
+  // that can't be checked, being unsigned or signed with a key this client
+  // doesn't trust yet, are shown as unverified after the verified ones.
+  const activeListings = getActiveListings().filter(listing => getVerification(listing.id) !== 'invalid');
+  const isUnverified = (listing: Listing) => getVerification(listing.id) !== 'verified';
   
-  // Filter listings based on search query and filters
-  const getFilteredListings = () => {
-    let result = activeListings;
-    
-    // Apply search query filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      result = result.filter(listing => 
-        listing.title.toLowerCase().includes(query) || 
-        listing.shortDescription.toLowerCase().includes(query) || 
-        listing.sellerName.toLowerCase().includes(query) ||
-        listing.tags.some(tag => tag.toLowerCase().includes(query))
-      );
-    }
+  // Parse the search box's query language into text, phrases and qualifiers
+  const parsedQuery = useMemo(() => searchQueryParser.parseQuery(searchQuery), [searchQuery]);
+  
+  // Relevance of each listing to the search text, from the full-text index.
+  // Phrase words are looked up too, then checked word for word
+  const { version: searchIndexVersion, searchListings } = useSearchIndexStore();
+  const searchScores = useMemo(() => {
+    const text = [parsedQuery.text, ...parsedQuery.phrases].join(' ').trim();
+    if (!text) return null;
+    return new Map(searchListings(text).map(result => [result.id, result.score]));
+  }, [parsedQuery, searchIndexVersion, searchListings]);
+  
+  // Suggestions for the search box, from the listings on show and the user's own history
+  const { getRecentSearches, recordSearch, clearHistory } = useSearchHistoryStore();
+  const recentSearches = getRecentSearches();
+  const getSuggestions = useCallback((input: string) => {
+    return searchSuggestions.suggest(input, {
+      listings: activeListings,
+      recentSearches,
+      rankListings: text => searchListings(text, { limit: 20 }).map(result => result.id)
+    });
+  }, [activeListings, recentSearches, searchListings, searchIndexVersion]);
+  
+  // The query's qualifiers, applied with the same predicates as the filter panel
+  const queryFilters: MarketplaceFilters = {
+    categories: [],
+    priceRange: parsedQuery.priceRange,
+    location: '',
+    sellerTypes: [],
+    trustedSellersOnly: false,
+    listingTypes: parsedQuery.listingTypes,
+    conditions: parsedQuery.conditions,
+    sellers: parsedQuery.sellers,
+    tags: parsedQuery.tags,
+    platforms: parsedQuery.platforms
+  };
+  
+  // Narrow listings down to those matching a set of filters
+  const applyFilters = (candidates: Listing[], filters: MarketplaceFilters) => {
+    let result = candidates;
     
     // Apply category filters
     if (filters.categories.length > 0) {
@@ -120,8 +224,10 @@ export const MarketplacePage: React.FC = () => {
     // Apply price range filter
     if (filters.priceRange.min !== null || filters.priceRange.max !== null) {
       result = result.filter(listing => {
-        const price = parseFloat(listing.price);
-        if (isNaN(price)) return false;
+        // Listings without a figure (negotiable) or without a known rate can't be placed in a range
+        const filterPrice = toFilterPrice(listing.price);
+        if (!filterPrice || filterPrice.amountMinor === null) return false;
+        const price = money.toMajorUnits(filterPrice.amountMinor, priceCurrency);
         
         // Check min price if it exists
         if (filters.priceRange.min !== null && price < filters.priceRange.min) {
@@ -171,12 +277,89 @@ export const MarketplacePage: React.FC = () => {
       });
     }
     
+    // Apply trusted seller filter
+    if (filters.trustedSellersOnly) {
+      result = result.filter(listing => reputations[listing.sellerId]?.level === ReputationLevel.TRUSTED);
+    }
+    
+    // Apply listing type filters
+    if (filters.listingTypes && filters.listingTypes.length > 0) {
+      result = result.filter(listing => filters.listingTypes!.includes(listing.listingType));
+    }
+    
+    // Apply condition filters
+    if (filters.conditions && filters.conditions.length > 0) {
+      result = result.filter(listing => listing.condition && filters.conditions!.includes(listing.condition));
+    }
+    
+    // Apply seller, tag and platform filters
+    if (filters.sellers && filters.sellers.length > 0) {
+      result = result.filter(listing => filters.sellers!.some(seller => searchQueryParser.matchesSeller(listing, seller)));
+    }
+    
+    if (filters.tags && filters.tags.length > 0) {
+      result = result.filter(listing => filters.tags!.some(tag => searchQueryParser.matchesTag(listing, tag)));
+    }
+    
+    if (filters.platforms && filters.platforms.length > 0) {
+      result = result.filter(listing => filters.platforms!.some(platform => searchQueryParser.matchesPlatform(listing, platform)));
+    }
+    
     return result;
   };
   
+  // Distance is measured from the coordinates on the viewer's profile to the
+  // seller's. Profiles only publish rounded coordinates, and any exact ones
+  // not yet migrated are rounded here too, so distances are approximate.
+  const toCoarseCoordinates = (profile?: UserProfile | null) => profile?.latitude !== undefined && profile.longitude !== undefined
+    ? { latitude: roundCoordinate(profile.latitude), longitude: roundCoordinate(profile.longitude) }
+    : null;
+  const viewerCoordinates = toCoarseCoordinates(currentUser);
+  const profilesById = useMemo(() => new Map(profiles.map(profile => [profile.id, profile])), [profiles]);
+  
+  // Filter listings based on search query and filters
+  const getFilteredListings = () => {
+    let result = activeListings;
+    
+    // Apply search query filter
+    if (searchScores) {
+      result = result.filter(listing => searchScores.has(listing.id));
+    }
+    result = result.filter(listing => searchQueryParser.matchesText(listing, parsedQuery));
+    
+    result = applyFilters(applyFilters(result, filters), queryFilters);
+    
+    const sorted = listingSort.sortListings(result, sortBy, {
+      relevance: searchScores,
+      priceOf: listing => toFilterPrice(listing.price)?.amountMinor ?? null,
+      distanceOf: listing => {
+        const sellerCoordinates = toCoarseCoordinates(profilesById.get(listing.sellerId));
+        if (listing.isRemote || !viewerCoordinates || !sellerCoordinates) {
+          return null;
+        }
+        return listingSort.distanceKm(viewerCoordinates, sellerCoordinates);
+      },
+      ratingOf: listing => getRatingSummary(listing.sellerId)
+    });
+    
+    // Unverified listings go after the verified ones, keeping the sort within each
+    return [...sorted.filter(listing => !isUnverified(listing)), ...sorted.filter(isUnverified)];
+  };
+  
   // Get filtered listings
   const filteredListings = getFilteredListings();
   
+  // Only the current page of results is rendered. The page is clamped in
+  // case the results shrank while it was open
+  const pageCount = Math.max(1, Math.ceil(filteredListings.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pagedListings = filteredListings.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+  
+  const handlePageChange = (newPage: number) => {
+    setPage(newPage);
+    mainRef.current?.scrollTo({ top: 0 });
+  };
+  
   // Handle loading state with a timeout to prevent infinite loading
   useEffect(() => {
     if (isUserLoading || isListingsLoading) {
@@ -203,6 +386,7 @@ export const MarketplacePage: React.FC = () => {
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
+    recordSearch(query);
     console.log('Search query:', query);
   };
   
@@ -221,17 +405,18 @@ export const MarketplacePage: React.FC = () => {
     }));
   };
   
+  // Apply a tag or seller picked from the search suggestions
+  const handleSelectFilter = (kind: 'tag' | 'seller', value: string) => {
+    setFilters(prev => {
+      const key = kind === 'tag' ? 'tags' : 'sellers';
+      const current = prev[key] || [];
+      return current.includes(value) ? prev : { ...prev, [key]: [...current, value] };
+    });
+  };
+  
   // Reset all filters
   const handleResetFilters = () => {
-    setFilters({
-      categories: [],
-      priceRange: {
-        min: null,
-        max: null
-      },
-      location: '',
-      sellerTypes: []
-    });
+    setFilters(marketplaceUrl.createEmptyFilters());
   };
   
   // Handle item click to show the detail modal
@@ -241,7 +426,7 @@ export const MarketplacePage: React.FC = () => {
     
     // If found, show the detail modal
     if (listing) {
-      setSelectedListing(listing);
+      setSelectedListingId(listing.id);
       setShowDetailModal(true);
     }
   };
@@ -249,7 +434,7 @@ export const MarketplacePage: React.FC = () => {
   // Close the detail modal
   const handleCloseDetailModal = () => {
     setShowDetailModal(false);
-    setSelectedListing(null);
+    setSelectedListingId(null);
   };
 
   // Handle opening the listing creation modal
@@ -274,18 +459,26 @@ export const MarketplacePage: React.FC = () => {
           onFilterChange={handleFilterChange} 
           currentFilters={filters}
           listings={activeListings}
+          displayCurrency={priceCurrency}
+          toDisplayPrice={toFilterPrice}
         />
       </Sidebar>
 
       {/* Main Content Area */}
-      <main className="flex-1 p-6 overflow-y-auto">
-        <h1 className="text-2xl font-bold mb-6">Gaming Marketplace</h1>
+      <main ref={mainRef} className="flex-1 p-6 overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl font-bold">Gaming Marketplace</h1>
+          <CurrencySelector />
+        </div>
         
         {/* Search Bar */}
         <SearchBar 
           onSearch={handleSearch} 
           className="mb-8"
           initialValue={searchQuery}
+          getSuggestions={getSuggestions}
+          onSelectFilter={handleSelectFilter}
+          onClearRecent={clearHistory}
         />
         
         {/* Active filter pills */}
@@ -293,7 +486,10 @@ export const MarketplacePage: React.FC = () => {
           filters.priceRange.min !== null || 
           filters.priceRange.max !== null || 
           filters.location || 
-          filters.sellerTypes.length > 0) && (
+          filters.sellerTypes.length > 0 ||
+          filters.trustedSellersOnly ||
+          (filters.tags && filters.tags.length > 0) ||
+          (filters.sellers && filters.sellers.length > 0)) && (
           <div className="mb-4 flex flex-wrap gap-2">
             {filters.categories.map(category => (
               <div key={category} className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm flex items-center">
@@ -313,9 +509,11 @@ export const MarketplacePage: React.FC = () => {
             {(filters.priceRange.min !== null || filters.priceRange.max !== null) && (
               <div className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm flex items-center">
                 Price: 
-                {filters.priceRange.min !== null ? `$${filters.priceRange.min}` : '$0'} 
+                {' '}{money.formatAmount(money.toMinorUnits(filters.priceRange.min ?? 0, priceCurrency), priceCurrency)}
                 {' - '} 
-                {filters.priceRange.max !== null ? `$${filters.priceRange.max}` : 'Any'}
+                {filters.priceRange.max !== null 
+                  ? money.formatAmount(money.toMinorUnits(filters.priceRange.max, priceCurrency), priceCurrency) 
+                  : 'Any'}
                 <button 
                   onClick={() => setFilters(prev => ({
                     ...prev, 
@@ -358,6 +556,51 @@ export const MarketplacePage: React.FC = () => {
               </div>
             ))}
             
+            {filters.trustedSellersOnly && (
+              <div className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm flex items-center">
+                Trusted sellers only
+                <button 
+                  onClick={() => setFilters(prev => ({
+                    ...prev, 
+                    trustedSellersOnly: false
+                  }))}
+                  className="ml-2 text-blue-600 hover:text-blue-800"
+                >
+                  ×
+                </button>
+              </div>
+            )}
+            
+            {filters.tags?.map(tag => (
+              <div key={`tag-${tag}`} className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm flex items-center">
+                Tag: {tag}
+                <button 
+                  onClick={() => setFilters(prev => ({
+                    ...prev, 
+                    tags: prev.tags?.filter(t => t !== tag)
+                  }))}
+                  className="ml-2 text-blue-600 hover:text-blue-800"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            
+            {filters.sellers?.map(seller => (
+              <div key={`seller-${seller}`} className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm flex items-center">
+                Seller: {seller}
+                <button 
+                  onClick={() => setFilters(prev => ({
+                    ...prev, 
+                    sellers: prev.sellers?.filter(s => s !== seller)
+                  }))}
+                  className="ml-2 text-blue-600 hover:text-blue-800"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            
             <button
               onClick={handleResetFilters}
               className="text-blue-600 hover:text-blue-800 text-sm underline"
@@ -367,6 +610,38 @@ export const MarketplacePage: React.FC = () => {
           </div>
         )}
         
+        {/* Sort order and result count */}
+        {!showLoading && filteredListings.length > 0 && (
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+            <Pagination
+              page={currentPage}
+              pageSize={PAGE_SIZE}
+              totalItems={filteredListings.length}
+              onPageChange={handlePageChange}
+              className="flex-1"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Sort by
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as SortOption)}
+                className="p-1 border border-gray-300 rounded"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option
+                    key={option.value}
+                    value={option.value}
+                    disabled={option.value === 'distance' && !viewerCoordinates}
+                  >
+                    {option.label}
+                    {option.value === 'distance' && !viewerCoordinates && ' (add your location to your profile)'}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+        
         {/* Items Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {showLoading ? (
@@ -383,17 +658,21 @@ export const MarketplacePage: React.FC = () => {
               </div>
             ))
           ) : filteredListings.length > 0 ? (
-            // Show filtered listings from store
-            filteredListings.map(listing => (
+            // Show the current page of filtered listings from store
+            pagedListings.map(listing => (
               <ItemCard
                 key={listing.id}
                 itemId={listing.id}
                 title={listing.title}
-                price={parseFloat(listing.price) || 0}
-                imageUrl={listing.images.length > 0 ? listing.images[0].url : 'https://placehold.co/300x200?text=No+Image'}
+                price={listing.price}
+                convertedPrice={toDisplayPrice(listing.price)}
+                images={listing.images}
                 seller={listing.sellerName}
+                sellerRating={getRatingSummary(listing.sellerId)}
+                sellerReputation={reputations[listing.sellerId]}
                 description={listing.shortDescription}
                 location={listing.isRemote ? 'Remote/Online' : listing.location}
+                isUnverified={isUnverified(listing)}
                 onClick={() => handleItemClick(listing.id)}
               />
             ))
@@ -458,6 +737,16 @@ export const MarketplacePage: React.FC = () => {
             </div>
           )}
         </div>
+        
+        {pageCount > 1 && !showLoading && (
+          <Pagination
+            page={currentPage}
+            pageSize={PAGE_SIZE}
+            totalItems={filteredListings.length}
+            onPageChange={handlePageChange}
+            className="mt-6"
+          />
+        )}
       </main>
 
       {/* Right Sidebar - Auth */}
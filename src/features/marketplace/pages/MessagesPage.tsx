@@ -0,0 +1,63 @@
+import React from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useUserStore } from '../../../stores/userStore';
+import { useMessageStore, isThreadParticipant } from '../../../stores/messageStore';
+import { ConversationList } from '../../../components/ConversationList';
+import { MessageThreadView } from '../../../components/MessageThreadView';
+
+/**
+ * Messages page showing the user's conversations, and the selected
+ * conversation when routed at /messages/:threadId
+ */
+export const MessagesPage: React.FC = () => {
+  const { threadId } = useParams<{ threadId: string }>();
+  const navigate = useNavigate();
+  const { getCurrentUser } = useUserStore();
+  const { getThreadById } = useMessageStore();
+  const currentUser = getCurrentUser();
+
+  const thread = threadId ? getThreadById(threadId) : undefined;
+  const canViewThread = Boolean(thread && currentUser && isThreadParticipant(thread, currentUser.id));
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => navigate('/')}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              ← Marketplace
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">Messages</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!currentUser ? (
+          <div className="bg-white rounded-lg shadow p-6 text-gray-600">
+            <Link to="/" className="text-blue-600 hover:underline">Log in</Link> to see your messages.
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow flex h-[70vh]">
+            <div className={`w-full md:w-80 md:border-r overflow-y-auto ${threadId ? 'hidden md:block' : ''}`}>
+              <ConversationList userId={currentUser.id} activeThreadId={threadId} />
+            </div>
+
+            <div className={`flex-1 ${threadId ? '' : 'hidden md:flex md:items-center md:justify-center'}`}>
+              {thread && canViewThread ? (
+                <MessageThreadView thread={thread} currentUserId={currentUser.id} />
+              ) : threadId ? (
+                <div className="p-6 text-gray-500">This conversation doesn't exist or isn't yours.</div>
+              ) : (
+                <p className="text-gray-500">Select a conversation</p>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useUserStore } from '../../../stores/userStore';
+import { ProfileEditForm } from '../../../components/ProfileEditForm';
+import { RoleSettings } from '../../../components/RoleSettings';
+import { PendingReviews } from '../../../components/PendingReviews';
+
+/**
+ * My Profile page, where the logged-in user edits their public profile
+ */
+export const ProfilePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { getCurrentUser } = useUserStore();
+  const currentUser = getCurrentUser();
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => navigate('/')}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              ← Marketplace
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">My Profile</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!currentUser ? (
+          <div className="bg-white rounded-lg shadow p-6 text-gray-600">
+            <Link to="/" className="text-blue-600 hover:underline">Log in</Link> to edit your profile.
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold">{currentUser.name}</h2>
+                <Link
+                  to={`/u/${encodeURIComponent(currentUser.name)}`}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  View public profile
+                </Link>
+              </div>
+              {/* Keyed so the form picks up the profile again when switching users */}
+              <ProfileEditForm key={currentUser.id} profile={currentUser} />
+            </div>
+            
+            <PendingReviews className="bg-white rounded-lg shadow p-6 mb-6" />
+            
+            <RoleSettings className="bg-white rounded-lg shadow p-6" />
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
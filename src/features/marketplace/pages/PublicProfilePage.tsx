@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useUserStore } from '../../../stores/userStore';
+import { useListingStore } from '../../../stores/listingStore';
+import { useExchangeRateStore } from '../../../stores/exchangeRateStore';
+import { useDisplayCurrencyStore } from '../../../stores/displayCurrencyStore';
+import { useListingVerificationStore } from '../../../stores/listingVerificationStore';
+import { useReportStore } from '../../../stores/reportStore';
+import { useReviewStore } from '../../../stores/reviewStore';
+import { useModerationStore } from '../../../stores/moderationStore';
+import { useOfferStore } from '../../../stores/offerStore';
+import { useTradeStore } from '../../../stores/tradeStore';
+import { useContactStore, ProfileContacts } from '../../../stores/contactStore';
+import { ItemCard } from '../../../components/ItemCard';
+import { ListingDetailModal } from '../../../components/ListingDetailModal';
+import { UserAvatar } from '../../../components/UserAvatar';
+import { ReportDialog } from '../../../components/ReportDialog';
+import { StarRating } from '../../../components/StarRating';
+import { ReviewList } from '../../../components/ReviewList';
+import { ReputationBreakdown } from '../../../components/ReputationBreakdown';
+import reputation from '../../../modules/reputation';
+import money from '../../../modules/money';
+
+/**
+ * Public, read-only profile page at /u/:username showing a user's details
+ * and their active listings
+ */
+export const PublicProfilePage: React.FC = () => {
+  const { username = '' } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const { profiles, getProfileByName, getCurrentUser } = useUserStore();
+  const { listings, getListingsBySeller, getListingById } = useListingStore();
+  const { baseCurrency, rates } = useExchangeRateStore();
+  const { getDisplayCurrency } = useDisplayCurrencyStore();
+  const { getVerification } = useListingVerificationStore();
+  const { hasReported, isHiddenPendingReview } = useReportStore();
+  const { reviews, getRatingSummary } = useReviewStore();
+  const { auditLog } = useModerationStore();
+  const { offersByListing } = useOfferStore();
+  const { proposals } = useTradeStore();
+  const { sealedProfileContacts, profileReveals, getOwnProfileContacts, getRevealedProfileContacts } = useContactStore();
+  const [contactDetails, setContactDetails] = useState<ProfileContacts | null>(null);
+  const [selectedListingId, setSelectedListingId] = useState<string | null>(null);
+  const [isReporting, setIsReporting] = useState(false);
+
+  const profile = getProfileByName(username);
+  const currentUser = getCurrentUser();
+  const displayCurrency = getDisplayCurrency();
+  const rating = profile ? getRatingSummary(profile.id) : undefined;
+  const profileReputation = useMemo(
+    () => profile ? reputation.computeReputation(profile.id, {
+      users: profiles,
+      listings,
+      reviews,
+      auditLog,
+      offers: Object.values(offersByListing).flat(),
+      trades: proposals
+    }) : null,
+    [profile, profiles, listings, reviews, auditLog, offersByListing, proposals]
+  );
+  const selectedListing = selectedListingId ? getListingById(selectedListingId) : undefined;
+
+  const activeListings = profile
+    ? getListingsBySeller(profile.id).filter(listing =>
+        listing.status === 'active' &&
+        getVerification(listing.id) !== 'invalid' &&
+        !isHiddenPendingReview(listing.id)
+      )
+    : [];
+  const location = profile
+    ? [profile.city, profile.stateProvince, profile.country].filter(Boolean).join(', ')
+    : '';
+  const contacts = contactDetails
+    ? [contactDetails.email, contactDetails.primaryContact, ...(contactDetails.additionalContacts || [])].filter(Boolean)
+    : [];
+
+  // Contact details are sealed, and only readable by the owner and the users
+  // they've been revealed to
+  const isOwnProfile = Boolean(profile && currentUser?.id === profile.id);
+  const sealedForViewer = profile && currentUser
+    ? isOwnProfile ? sealedProfileContacts[profile.id] : profileReveals[profile.id]?.[currentUser.id]
+    : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!profile || !sealedForViewer) {
+      setContactDetails(null);
+      return;
+    }
+
+    const decrypt = isOwnProfile ? getOwnProfileContacts() : getRevealedProfileContacts(profile.id);
+    decrypt.then(result => {
+      if (!cancelled) setContactDetails(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile?.id, isOwnProfile, sealedForViewer, getOwnProfileContacts, getRevealedProfileContacts]);
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => navigate('/')}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              ← Marketplace
+            </button>
+            <h1 className="text-2xl font-bold text-gray-900">{profile ? profile.name : 'Profile'}</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!profile ? (
+          <div className="bg-white rounded-lg shadow p-6 text-gray-600">
+            No user named "{username}" was found.
+          </div>
+        ) : (
+          <>
+            <section className="bg-white rounded-lg shadow p-6 mb-8">
+              <div className="flex items-start gap-4">
+                <UserAvatar name={profile.name} imageUrl={profile.profileImageUrl} sizeClassName="w-20 h-20 text-3xl" />
+                <div className="flex-1">
+                  <div className="flex justify-between items-start">
+                    <h2 className="text-xl font-semibold">{profile.name}</h2>
+                    {currentUser?.id === profile.id && (
+                      <button
+                        onClick={() => navigate('/profile')}
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        Edit profile
+                      </button>
+                    )}
+                    {currentUser && currentUser.id !== profile.id && (
+                      hasReported(profile.id, currentUser.id) ? (
+                        <span className="text-sm text-gray-500">Reported</span>
+                      ) : (
+                        <button
+                          onClick={() => setIsReporting(true)}
+                          className="text-sm text-red-600 hover:underline"
+                        >
+                          Report user
+                        </button>
+                      )
+                    )}
+                  </div>
+                  {rating && <StarRating rating={rating.average} count={rating.count} />}
+                  {location && <p className="text-sm text-gray-600">{location}</p>}
+                  <p className="text-sm text-gray-500">
+                    Member since {new Date(profile.createdAt).toLocaleDateString()}
+                  </p>
+                  {profile.bio && (
+                    <p className="mt-3 text-gray-700 whitespace-pre-line">{profile.bio}</p>
+                  )}
+                  {contacts.length > 0 && (
+                    <div className="mt-3">
+                      <h3 className="text-sm font-medium text-gray-700">Contact</h3>
+                      <ul className="text-sm text-gray-600">
+                        {contacts.map(contact => (
+                          <li key={contact}>{contact}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </div>
+              {profileReputation && (
+                <ReputationBreakdown reputation={profileReputation} className="mt-6 border-t pt-4" />
+              )}
+            </section>
+
+            <h2 className="text-xl font-semibold mb-4">Active Listings</h2>
+            {activeListings.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {activeListings.map(listing => (
+                  <ItemCard
+                    key={listing.id}
+                    itemId={listing.id}
+                    title={listing.title}
+                    price={listing.price}
+                    convertedPrice={money.convertPrice(listing.price, displayCurrency, { baseCurrency, rates })}
+                    images={listing.images}
+                    seller={listing.sellerName}
+                    sellerRating={rating}
+                    sellerReputation={profileReputation}
+                    description={listing.shortDescription}
+                    location={listing.isRemote ? 'Remote/Online' : listing.location}
+                    isUnverified={getVerification(listing.id) !== 'verified'}
+                    onClick={() => setSelectedListingId(listing.id)}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500">{profile.name} has no active listings.</p>
+            )}
+
+            <ReviewList userId={profile.id} className="bg-white rounded-lg shadow p-6 mt-8" />
+          </>
+        )}
+      </main>
+
+      {selectedListing && (
+        <ListingDetailModal
+          listing={selectedListing}
+          onClose={() => setSelectedListingId(null)}
+        />
+      )}
+
+      {profile && isReporting && (
+        <ReportDialog
+          targetType="user"
+          targetId={profile.id}
+          targetName={profile.name}
+          onClose={() => setIsReporting(false)}
+        />
+      )}
+    </div>
+  );
+};
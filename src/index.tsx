@@ -3,11 +3,20 @@ import "./index.css";
 import { createRoot } from "react-dom/client";
 import { BrowserRouter } from "react-router-dom";
 import App from "./App";
-import { configureSyncEngine, setDocIdPrefix, mapDocId } from "@tonk/keepsync";
+import {
+  configureSyncEngine,
+  configureSyncedFileSystem,
+  setDocIdPrefix,
+  mapDocId,
+} from "@tonk/keepsync";
 import {
   registerServiceWorker,
   unregisterServiceWorker,
 } from "./serviceWorkerRegistration";
+import { startContactSync } from "./stores/contactStore";
+import { startListingVerification } from "./stores/listingVerificationStore";
+import { startSessionWatch } from "./stores/sessionStore";
+import { startSearchIndex } from "./stores/searchIndexStore";
 
 // Service worker logic based on environment
 if (process.env.NODE_ENV === "production") {
@@ -27,6 +36,21 @@ configureSyncEngine({
   onError: (error) => console.error("Sync error:", error),
 });
 
+// Listing photos are stored as blobs and synced alongside the documents
+configureSyncedFileSystem({ docId: "marketplace-images" });
+
+// Restore this device's session, and end it when it expires or is revoked
+startSessionWatch();
+
+// Seal contact details for buyers as they qualify under each listing's policy
+startContactSync();
+
+// Sign our own listings and check everyone else's signatures as they sync
+startListingVerification();
+
+// Index listings for full-text search, updating as the listings document changes
+startSearchIndex();
+
 const container = document.getElementById("root");
 if (!container) throw new Error("Failed to find the root element");
 const root = createRoot(container);
@@ -0,0 +1,135 @@
+/**
+ * Admin setup Module
+ *
+ * Talks to the app server to use the one-time setup token it prints on
+ * startup while no admin exists. Setting up the first admin is three steps:
+ * claim the token, which reserves setup for this client; create the account;
+ * then complete the setup, after which the server never accepts the token or
+ * issues a new one. A client that fails part way releases its claim so setup
+ * can be tried again.
+ *
+ * The server remembers which account became the first admin and its signing
+ * key, so clients can trust that admin without relying on synced profiles.
+ */
+import { createModule, createFunction } from '../core/module';
+
+// Types
+
+/** The first admin account, as recorded by the server */
+export interface InitialAdmin {
+  adminId: string;
+  adminKeyId: string;
+}
+
+// Configuration
+
+const CLAIM_URL = '/api/admin-setup/claim';
+const COMPLETE_URL = '/api/admin-setup/complete';
+const RELEASE_URL = '/api/admin-setup/release';
+const ADMIN_URL = '/api/admin-setup/admin';
+
+// Error classes
+
+export class AdminSetupError extends Error {
+  constructor(
+    message: string,
+    public rawError?: unknown
+  ) {
+    super(message);
+    this.name = 'AdminSetupError';
+  }
+}
+
+// Helper functions
+
+/**
+ * Post JSON to the setup API, turning network failures and error responses
+ * into AdminSetupErrors
+ */
+const post = async (url: string, body: unknown, fallbackError: string) => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  } catch (error) {
+    throw new AdminSetupError('Could not reach the server to verify the setup token', error);
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new AdminSetupError(result?.error || fallbackError);
+  }
+  return result;
+};
+
+// Main functions
+
+export const claimSetupTokenFn = createFunction(
+  'claimSetupToken',
+  'Claims the one-time admin setup token printed by the server, returning the claim id',
+  async (token: string): Promise<string> => {
+    const result = await post(CLAIM_URL, { token: token.trim() }, 'The setup token was not accepted');
+    if (typeof result?.claimId !== 'string') {
+      throw new AdminSetupError('The server did not return a setup claim');
+    }
+    return result.claimId;
+  }
+);
+
+export const completeSetupFn = createFunction(
+  'completeSetup',
+  'Tells the server the admin account and its signing key were created, using up the setup token',
+  async (token: string, claimId: string, adminId: string, adminKeyId: string): Promise<void> => {
+    await post(COMPLETE_URL, { token: token.trim(), claimId, adminId, adminKeyId }, 'The server did not accept the admin setup');
+  }
+);
+
+export const releaseClaimFn = createFunction(
+  'releaseClaim',
+  'Gives up a setup claim after a failed attempt, so setup can be retried',
+  async (claimId: string): Promise<void> => {
+    await post(RELEASE_URL, { claimId }, 'Could not release the setup claim');
+  }
+);
+
+export const getInitialAdminFn = createFunction(
+  'getInitialAdmin',
+  'Asks the server which account was set up as the first admin, or null if none has been',
+  async (): Promise<InitialAdmin | null> => {
+    let response: Response;
+    try {
+      response = await fetch(ADMIN_URL);
+    } catch (error) {
+      throw new AdminSetupError('Could not reach the server to look up the admin', error);
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok || typeof result?.adminId !== 'string' || typeof result?.adminKeyId !== 'string') {
+      throw new AdminSetupError(result?.error || 'The server did not return the admin');
+    }
+    return { adminId: result.adminId, adminKeyId: result.adminKeyId };
+  }
+);
+
+// Module implementation
+
+const adminSetup = createModule<{
+  claimSetupToken: typeof claimSetupTokenFn.fn;
+  completeSetup: typeof completeSetupFn.fn;
+  releaseClaim: typeof releaseClaimFn.fn;
+  getInitialAdmin: typeof getInitialAdminFn.fn;
+}>([
+  claimSetupTokenFn,
+  completeSetupFn,
+  releaseClaimFn,
+  getInitialAdminFn
+]);
+
+export default adminSetup;
@@ -0,0 +1,253 @@
+/**
+ * Encryption Module
+ *
+ * Public-key encryption for data that lives in synced documents but must only
+ * be readable by specific users. Every synced document is readable by every
+ * peer, so private fields are sealed to a recipient's public key with
+ * ECDH (P-256) and AES-GCM using WebCrypto.
+ *
+ * Each user has one key pair, shared between their devices through their key
+ * vault. The public key is published on their profile. Devices used to make
+ * their own key pairs, so a device also keeps the older private keys it has
+ * held, to open anything sealed to them.
+ */
+import { createModule, createFunction } from '../core/module';
+
+// Types
+
+/** A key pair in JWK form, ready to store */
+export interface EncryptionKeyPair {
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}
+
+/** Data sealed to one recipient's public key */
+export interface SealedMessage {
+  /** Public half of the one-off key used for this message */
+  ephemeralPublicKey: JsonWebKey;
+  /** Base64-encoded AES-GCM nonce */
+  iv: string;
+  /** Base64-encoded ciphertext */
+  ciphertext: string;
+}
+
+// Configuration
+
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const AES_PARAMS: AesKeyGenParams = { name: 'AES-GCM', length: 256 };
+const KEY_STORAGE_PREFIX = 'encryption-keys:';
+const PREVIOUS_KEYS_STORAGE_PREFIX = 'encryption-keys-previous:';
+
+// Error classes
+
+export class EncryptionError extends Error {
+  constructor(
+    message: string,
+    public rawError?: unknown
+  ) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+// Helper functions
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  array.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Derive the AES key shared between a private key and the other side's public key
+ */
+const deriveSharedKey = async (privateKey: CryptoKey, publicKey: CryptoKey, usage: KeyUsage) => {
+  return crypto.subtle.deriveKey(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    AES_PARAMS,
+    false,
+    [usage]
+  );
+};
+
+const importPublicKey = (jwk: JsonWebKey) => {
+  return crypto.subtle.importKey('jwk', jwk, ECDH_PARAMS, true, []);
+};
+
+const importPrivateKey = (jwk: JsonWebKey) => {
+  return crypto.subtle.importKey('jwk', jwk, ECDH_PARAMS, false, ['deriveKey']);
+};
+
+// Main functions
+
+export const generateKeyPairFn = createFunction(
+  'generateKeyPair',
+  'Generates a new encryption key pair',
+  async (): Promise<EncryptionKeyPair> => {
+    const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveKey']);
+    const [publicKey, privateKey] = await Promise.all([
+      crypto.subtle.exportKey('jwk', keyPair.publicKey),
+      crypto.subtle.exportKey('jwk', keyPair.privateKey)
+    ]);
+    return { publicKey, privateKey };
+  }
+);
+
+export const getKeyIdFn = createFunction(
+  'getKeyId',
+  'Gets a short fingerprint identifying a public key',
+  async (publicKey: JsonWebKey): Promise<string> => {
+    const data = new TextEncoder().encode(`${publicKey.crv}:${publicKey.x}:${publicKey.y}`);
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest).slice(0, 8))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+);
+
+export const sealFn = createFunction(
+  'seal',
+  'Encrypts text so only the holder of the matching private key can read it',
+  async (recipientPublicKey: JsonWebKey, plaintext: string): Promise<SealedMessage> => {
+    try {
+      const recipientKey = await importPublicKey(recipientPublicKey);
+      const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveKey']);
+      const aesKey = await deriveSharedKey(ephemeral.privateKey, recipientKey, 'encrypt');
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        aesKey,
+        new TextEncoder().encode(plaintext)
+      );
+
+      return {
+        ephemeralPublicKey: await crypto.subtle.exportKey('jwk', ephemeral.publicKey),
+        iv: toBase64(iv),
+        ciphertext: toBase64(ciphertext)
+      };
+    } catch (error) {
+      throw new EncryptionError('Failed to encrypt data', error);
+    }
+  }
+);
+
+export const openFn = createFunction(
+  'open',
+  'Decrypts a sealed message with the recipient private key',
+  async (sealed: SealedMessage, privateKey: JsonWebKey): Promise<string> => {
+    try {
+      const ownKey = await importPrivateKey(privateKey);
+      const ephemeralKey = await importPublicKey(sealed.ephemeralPublicKey);
+      const aesKey = await deriveSharedKey(ownKey, ephemeralKey, 'decrypt');
+
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+        aesKey,
+        fromBase64(sealed.ciphertext)
+      );
+
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      throw new EncryptionError('Failed to decrypt data', error);
+    }
+  }
+);
+
+export const loadKeyPairFn = createFunction(
+  'loadKeyPair',
+  'Loads the key pair stored on this device for a user',
+  (userId: string): EncryptionKeyPair | null => {
+    const stored = localStorage.getItem(`${KEY_STORAGE_PREFIX}${userId}`);
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored) as EncryptionKeyPair;
+    } catch (e) {
+      return null;
+    }
+  }
+);
+
+export const saveKeyPairFn = createFunction(
+  'saveKeyPair',
+  'Stores a key pair for a user on this device',
+  (userId: string, keyPair: EncryptionKeyPair): void => {
+    localStorage.setItem(`${KEY_STORAGE_PREFIX}${userId}`, JSON.stringify(keyPair));
+  }
+);
+
+export const loadPreviousKeyPairsFn = createFunction(
+  'loadPreviousKeyPairs',
+  'Loads the older key pairs stored on this device for a user',
+  (userId: string): EncryptionKeyPair[] => {
+    try {
+      return JSON.parse(localStorage.getItem(`${PREVIOUS_KEYS_STORAGE_PREFIX}${userId}`) || '[]');
+    } catch (e) {
+      return [];
+    }
+  }
+);
+
+export const savePreviousKeyPairsFn = createFunction(
+  'savePreviousKeyPairs',
+  'Stores a user\'s older key pairs on this device',
+  (userId: string, keyPairs: EncryptionKeyPair[]): void => {
+    localStorage.setItem(`${PREVIOUS_KEYS_STORAGE_PREFIX}${userId}`, JSON.stringify(keyPairs));
+  }
+);
+
+export const openWithStoredKeysFn = createFunction(
+  'openWithStoredKeys',
+  'Decrypts a message sealed to a user with any of their key pairs stored on this device, or returns null',
+  async (userId: string, sealed: SealedMessage): Promise<string | null> => {
+    const current = loadKeyPairFn.fn(userId);
+    const keyPairs = [...(current ? [current] : []), ...loadPreviousKeyPairsFn.fn(userId)];
+
+    for (const keyPair of keyPairs) {
+      try {
+        return await openFn.fn(sealed, keyPair.privateKey);
+      } catch (error) {
+        // Sealed to another of the user's keys
+      }
+    }
+    return null;
+  }
+);
+
+// Module implementation
+
+const encryption = createModule<{
+  generateKeyPair: typeof generateKeyPairFn.fn;
+  getKeyId: typeof getKeyIdFn.fn;
+  seal: typeof sealFn.fn;
+  open: typeof openFn.fn;
+  loadKeyPair: typeof loadKeyPairFn.fn;
+  saveKeyPair: typeof saveKeyPairFn.fn;
+  loadPreviousKeyPairs: typeof loadPreviousKeyPairsFn.fn;
+  savePreviousKeyPairs: typeof savePreviousKeyPairsFn.fn;
+  openWithStoredKeys: typeof openWithStoredKeysFn.fn;
+}>([
+  generateKeyPairFn,
+  getKeyIdFn,
+  sealFn,
+  openFn,
+  loadKeyPairFn,
+  saveKeyPairFn,
+  loadPreviousKeyPairsFn,
+  savePreviousKeyPairsFn,
+  openWithStoredKeysFn
+]);
+
+export default encryption;
@@ -0,0 +1,214 @@
+/**
+ * Image storage Module
+ *
+ * Persists listing photos as binary blobs in the keepsync synced file system.
+ * Blobs live in IndexedDB, so images keep working offline, and keepsync
+ * fetches missing blobs from peers when the file document syncs.
+ *
+ * Stored images are addressed by a stable, content-hashed URL of the form
+ * `synced-file://<hash>`. Browsers can't load that scheme directly, so
+ * `resolveImageUrl` turns it into an object URL for rendering.
+ */
+import { createModule, createFunction } from '../core/module';
+import { addFile, getFile } from '@tonk/keepsync';
+
+// Types
+
+/** Options for client-side resizing and compression */
+export interface ImageProcessingOptions {
+  /** Longest side of the stored image in pixels */
+  maxDimension: number;
+  /** Encoder quality between 0 and 1 */
+  quality: number;
+  /** Output MIME type */
+  mimeType: 'image/jpeg' | 'image/webp';
+}
+
+/** Result of storing an image */
+export interface StoredImage {
+  /** Stable URL to save on the listing */
+  url: string;
+  /** Content hash of the stored blob */
+  hash: string;
+  /** Size of the stored blob in bytes */
+  size: number;
+}
+
+// Configuration
+
+export const SYNCED_IMAGE_PREFIX = 'synced-file://';
+
+/** Largest file users may pick, before compression */
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const DEFAULT_OPTIONS: ImageProcessingOptions = {
+  maxDimension: 1600,
+  quality: 0.82,
+  mimeType: 'image/jpeg'
+};
+
+/** Processing options for the small thumbnails shown on listing cards */
+export const THUMBNAIL_OPTIONS: Partial<ImageProcessingOptions> = {
+  maxDimension: 400,
+  quality: 0.7
+};
+
+// Error classes
+
+export class ImageStorageError extends Error {
+  constructor(
+    message: string,
+    public rawError?: unknown
+  ) {
+    super(message);
+    this.name = 'ImageStorageError';
+  }
+}
+
+// Module state
+
+/** Object URLs already created for stored blobs, keyed by hash */
+const objectUrlCache = new Map<string, string>();
+
+// Helper functions
+
+/**
+ * Draw an image onto a canvas no larger than maxDimension and encode it
+ */
+const resizeImage = async (file: File, options: ImageProcessingOptions): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new ImageStorageError('Your browser cannot process images');
+  }
+
+  // JPEG has no alpha channel, so paint transparent areas white instead of black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new ImageStorageError('Failed to compress image')),
+      options.mimeType,
+      options.quality
+    );
+  });
+};
+
+/**
+ * Get the file extension for an output MIME type
+ */
+const extensionFor = (mimeType: string) => mimeType === 'image/webp' ? 'webp' : 'jpg';
+
+// Main functions
+
+export const isSyncedImageUrlFn = createFunction(
+  'isSyncedImageUrl',
+  'Checks whether a URL points at an image in the synced file system',
+  (url: string): boolean => url.startsWith(SYNCED_IMAGE_PREFIX)
+);
+
+export const prepareImageFn = createFunction(
+  'prepareImage',
+  'Resizes and compresses an image file in the browser before it is stored',
+  async (file: File, options: Partial<ImageProcessingOptions> = {}): Promise<File> => {
+    const resolved = { ...DEFAULT_OPTIONS, ...options };
+
+    if (!file.type.startsWith('image/')) {
+      throw new ImageStorageError(`"${file.name}" is not an image`);
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      throw new ImageStorageError(`"${file.name}" is larger than 10MB`);
+    }
+
+    try {
+      const blob = await resizeImage(file, resolved);
+      const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+      return new File([blob], `${baseName}.${extensionFor(resolved.mimeType)}`, {
+        type: resolved.mimeType,
+        lastModified: Date.now()
+      });
+    } catch (error) {
+      if (error instanceof ImageStorageError) throw error;
+      throw new ImageStorageError(`Could not read "${file.name}" as an image`, error);
+    }
+  }
+);
+
+export const storeImageFn = createFunction(
+  'storeImage',
+  'Compresses an image and stores it in the synced file system, returning its stable URL',
+  async (file: File, options: Partial<ImageProcessingOptions> = {}): Promise<StoredImage> => {
+    const prepared = await prepareImageFn.fn(file, options);
+
+    let metadata;
+    try {
+      metadata = await addFile(prepared);
+    } catch (error) {
+      throw new ImageStorageError('Failed to save image', error);
+    }
+
+    if (!metadata) {
+      throw new ImageStorageError('Image storage is not available yet, please try again');
+    }
+
+    return {
+      url: `${SYNCED_IMAGE_PREFIX}${metadata.hash}`,
+      hash: metadata.hash,
+      size: metadata.size
+    };
+  }
+);
+
+export const resolveImageUrlFn = createFunction(
+  'resolveImageUrl',
+  'Turns a stored image URL into one the browser can render, or null if the blob has not arrived yet',
+  async (url: string): Promise<string | null> => {
+    if (!isSyncedImageUrlFn.fn(url)) {
+      return url;
+    }
+
+    const hash = url.slice(SYNCED_IMAGE_PREFIX.length);
+    const cached = objectUrlCache.get(hash);
+    if (cached) {
+      return cached;
+    }
+
+    const blob = await getFile(hash);
+    if (!blob) {
+      return null;
+    }
+
+    const objectUrl = URL.createObjectURL(blob);
+    objectUrlCache.set(hash, objectUrl);
+    return objectUrl;
+  }
+);
+
+// Module implementation
+
+const imageStorage = createModule<{
+  isSyncedImageUrl: typeof isSyncedImageUrlFn.fn;
+  prepareImage: typeof prepareImageFn.fn;
+  storeImage: typeof storeImageFn.fn;
+  resolveImageUrl: typeof resolveImageUrlFn.fn;
+}>([
+  isSyncedImageUrlFn,
+  prepareImageFn,
+  storeImageFn,
+  resolveImageUrlFn
+]);
+
+export default imageStorage;
@@ -0,0 +1,209 @@
+/**
+ * Key vault Module
+ *
+ * Keeps a user's private keys encrypted with their password, so every device
+ * they log in on ends up with the same keys instead of making its own. The
+ * vault is stored in a synced document; it's wrapped with AES-GCM under a key
+ * derived from the password with PBKDF2, so peers can't read it without the
+ * password. Like the password hashes, it can be attacked offline by guessing
+ * passwords, and a weak password gives the keys away. The vault also holds a
+ * random secret that keys for other purposes, such as report tags, are
+ * derived from.
+ */
+import { createModule, createFunction } from '../core/module';
+import { SigningKeyPair } from '../signing';
+import { EncryptionKeyPair } from '../encryption';
+import { PBKDF2_ITERATIONS } from '../passwordHashing';
+
+// Types
+
+/** The private keys a user shares between their devices */
+export interface VaultKeys {
+  signing: SigningKeyPair;
+  /** Missing from vaults made before encryption keys were shared */
+  encryption?: EncryptionKeyPair;
+  /** Encryption keys the user's devices made before sharing one */
+  previousEncryption?: EncryptionKeyPair[];
+  /** Base64-encoded random secret that other keys are derived from with HKDF; missing from older vaults */
+  secret?: string;
+}
+
+/** Keys encrypted with a password-derived key */
+export interface WrappedKeys {
+  algorithm: 'PBKDF2-SHA256-AES-GCM';
+  iterations: number;
+  /** Base64-encoded random salt */
+  salt: string;
+  /** Base64-encoded AES-GCM nonce */
+  iv: string;
+  /** Base64-encoded encrypted keys */
+  ciphertext: string;
+}
+
+// Configuration
+
+const SALT_BYTES = 16;
+const SECRET_BYTES = 32;
+const SECRET_STORAGE_PREFIX = 'vault-secret:';
+
+// Error classes
+
+export class KeyVaultError extends Error {
+  constructor(
+    message: string,
+    public rawError?: unknown
+  ) {
+    super(message);
+    this.name = 'KeyVaultError';
+  }
+}
+
+// Helper functions
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  array.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Derive the AES key that wraps the vault from the password
+ */
+const deriveWrappingKey = async (password: string, salt: Uint8Array, iterations: number, usage: KeyUsage) => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+};
+
+// Main functions
+
+export const wrapKeysFn = createFunction(
+  'wrapKeys',
+  'Encrypts a user\'s private keys with their password',
+  async (keys: VaultKeys, password: string): Promise<WrappedKeys> => {
+    try {
+      const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const key = await deriveWrappingKey(password, salt, PBKDF2_ITERATIONS, 'encrypt');
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(JSON.stringify(keys))
+      );
+
+      return {
+        algorithm: 'PBKDF2-SHA256-AES-GCM',
+        iterations: PBKDF2_ITERATIONS,
+        salt: toBase64(salt),
+        iv: toBase64(iv),
+        ciphertext: toBase64(ciphertext)
+      };
+    } catch (error) {
+      throw new KeyVaultError('Failed to lock the key vault', error);
+    }
+  }
+);
+
+export const unwrapKeysFn = createFunction(
+  'unwrapKeys',
+  'Decrypts a user\'s private keys with their password',
+  async (wrapped: WrappedKeys, password: string): Promise<VaultKeys> => {
+    if (wrapped.algorithm !== 'PBKDF2-SHA256-AES-GCM') {
+      throw new KeyVaultError(`Unknown key vault format: ${wrapped.algorithm}`);
+    }
+
+    try {
+      const key = await deriveWrappingKey(password, fromBase64(wrapped.salt), wrapped.iterations, 'decrypt');
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+        key,
+        fromBase64(wrapped.ciphertext)
+      );
+      return JSON.parse(new TextDecoder().decode(plaintext)) as VaultKeys;
+    } catch (error) {
+      throw new KeyVaultError('Failed to unlock the key vault', error);
+    }
+  }
+);
+
+export const generateSecretFn = createFunction(
+  'generateSecret',
+  'Makes a random secret for a user\'s vault',
+  (): string => toBase64(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)))
+);
+
+export const loadSecretFn = createFunction(
+  'loadSecret',
+  'Loads the vault secret stored on this device for a user',
+  (userId: string): string | null => localStorage.getItem(`${SECRET_STORAGE_PREFIX}${userId}`)
+);
+
+export const saveSecretFn = createFunction(
+  'saveSecret',
+  'Stores a user\'s vault secret on this device',
+  (userId: string, secret: string): void => {
+    localStorage.setItem(`${SECRET_STORAGE_PREFIX}${userId}`, secret);
+  }
+);
+
+export const deriveHmacKeyFn = createFunction(
+  'deriveHmacKey',
+  'Derives an HMAC key for one purpose from a vault secret with HKDF, so keys for different purposes are unrelated',
+  async (secret: string, purpose: string): Promise<CryptoKey> => {
+    try {
+      const keyMaterial = await crypto.subtle.importKey('raw', fromBase64(secret), 'HKDF', false, ['deriveKey']);
+
+      return await crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(purpose) },
+        keyMaterial,
+        { name: 'HMAC', hash: 'SHA-256', length: 256 },
+        false,
+        ['sign']
+      );
+    } catch (error) {
+      throw new KeyVaultError('Failed to derive a key from the vault secret', error);
+    }
+  }
+);
+
+// Module implementation
+
+const keyVault = createModule<{
+  wrapKeys: typeof wrapKeysFn.fn;
+  unwrapKeys: typeof unwrapKeysFn.fn;
+  generateSecret: typeof generateSecretFn.fn;
+  loadSecret: typeof loadSecretFn.fn;
+  saveSecret: typeof saveSecretFn.fn;
+  deriveHmacKey: typeof deriveHmacKeyFn.fn;
+}>([
+  wrapKeysFn,
+  unwrapKeysFn,
+  generateSecretFn,
+  loadSecretFn,
+  saveSecretFn,
+  deriveHmacKeyFn
+]);
+
+export default keyVault;
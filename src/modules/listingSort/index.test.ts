@@ -0,0 +1,85 @@
+import listingSort from './index';
+import { Listing } from '../../stores/listingStore';
+import {
+  ListingType,
+  ItemCategory,
+  PricingUnit,
+  ContactRevealPolicy
+} from '../../types/listing';
+
+const createListing = (id: string, createdAt: number): Listing => ({
+  id,
+  createdAt,
+  updatedAt: createdAt,
+  sellerId: `seller-${id}`,
+  sellerName: `Seller ${id}`,
+  title: `Listing ${id}`,
+  shortDescription: '',
+  detailedDescription: '',
+  listingType: ListingType.SELL,
+  category: ItemCategory.VIDEO_GAME,
+  price: { amountMinor: null, currency: 'USD', unit: PricingUnit.NEGOTIABLE, orBestOffer: false },
+  location: '',
+  isRemote: false,
+  contactRevealPolicy: ContactRevealPolicy.ON_MESSAGE,
+  tags: [],
+  images: [],
+  status: 'active'
+});
+
+// a is the oldest, c the newest
+const listings = [createListing('a', 1), createListing('b', 2), createListing('c', 3)];
+const idsOf = (sorted: Listing[]) => sorted.map(listing => listing.id);
+
+describe('sortListings', () => {
+  it('puts the newest first', () => {
+    expect(idsOf(listingSort.sortListings(listings, 'newest'))).toEqual(['c', 'b', 'a']);
+  });
+
+  it('does not change the listings it is given', () => {
+    listingSort.sortListings(listings, 'newest');
+    expect(idsOf(listings)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('ranks by relevance, falling back to newest without a search', () => {
+    const relevance = new Map([['a', 2], ['b', 5]]);
+    expect(idsOf(listingSort.sortListings(listings, 'relevance', { relevance }))).toEqual(['b', 'a', 'c']);
+    expect(idsOf(listingSort.sortListings(listings, 'relevance'))).toEqual(['c', 'b', 'a']);
+  });
+
+  it('sorts by price both ways, with unpriced listings last', () => {
+    const prices: Record<string, number | null> = { a: 500, b: null, c: 100 };
+    const priceOf = (listing: Listing) => prices[listing.id];
+    expect(idsOf(listingSort.sortListings(listings, 'price_asc', { priceOf }))).toEqual(['c', 'a', 'b']);
+    expect(idsOf(listingSort.sortListings(listings, 'price_desc', { priceOf }))).toEqual(['a', 'c', 'b']);
+  });
+
+  it('sorts by distance, with unknown distances last', () => {
+    const distances: Record<string, number | null> = { a: 12, b: 3, c: null };
+    const distanceOf = (listing: Listing) => distances[listing.id];
+    expect(idsOf(listingSort.sortListings(listings, 'distance', { distanceOf }))).toEqual(['b', 'a', 'c']);
+  });
+
+  it('sorts by seller rating, then by number of reviews, with unrated sellers last', () => {
+    const ratings: Record<string, { average: number; count: number }> = {
+      a: { average: 4.5, count: 2 },
+      b: { average: 0, count: 0 },
+      c: { average: 4.5, count: 10 }
+    };
+    const ratingOf = (listing: Listing) => ratings[listing.id];
+    expect(idsOf(listingSort.sortListings(listings, 'rating', { ratingOf }))).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('distanceKm', () => {
+  it('is zero between a point and itself', () => {
+    const berlin = { latitude: 52.52, longitude: 13.405 };
+    expect(listingSort.distanceKm(berlin, berlin)).toBe(0);
+  });
+
+  it('measures great-circle distances', () => {
+    const berlin = { latitude: 52.52, longitude: 13.405 };
+    const paris = { latitude: 48.8566, longitude: 2.3522 };
+    expect(listingSort.distanceKm(berlin, paris)).toBeCloseTo(878, -1);
+  });
+});
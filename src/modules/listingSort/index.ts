@@ -0,0 +1,138 @@
+/**
+ * Listing Sort Module
+ *
+ * Orders marketplace listings by relevance, age, price, distance or seller
+ * rating. Listings missing what they're sorted by (no price, no known
+ * location, no ratings yet) go after the rest rather than being dropped, and
+ * ties fall back to newest first so the order is stable between renders.
+ *
+ * Listings have no coordinates of their own, so distance is measured between
+ * the viewer's and the seller's profile coordinates. Profiles only publish
+ * rounded coordinates, so distances are approximate to about 10 km.
+ */
+import { createModule, createFunction } from '../core/module';
+import { Listing } from '../../stores/listingStore';
+
+// Types
+
+/** The ways listings can be sorted */
+export type SortOption = 'relevance' | 'newest' | 'price_asc' | 'price_desc' | 'distance' | 'rating';
+
+/** A point on the globe, in degrees */
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/** What a sort needs to know beyond the listings themselves */
+export interface SortContext {
+  /** Search relevance by listing id, when there's a search */
+  relevance?: Map<string, number> | null;
+  /** A listing's price in a single currency, or null when it has none */
+  priceOf?: (listing: Listing) => number | null;
+  /** How far away a listing is, in kilometres, or null when unknown */
+  distanceOf?: (listing: Listing) => number | null;
+  /** The seller's average rating and number of reviews */
+  ratingOf?: (listing: Listing) => { average: number; count: number };
+}
+
+// Configuration
+
+/** Labels for the sort dropdown, in the order they're offered */
+export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'price_asc', label: 'Price: Low to High' },
+  { value: 'price_desc', label: 'Price: High to Low' },
+  { value: 'distance', label: 'Distance: Nearest first' },
+  { value: 'rating', label: 'Seller rating' }
+];
+
+const EARTH_RADIUS_KM = 6371;
+
+// Helper functions
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Compare two possibly-missing numbers, putting missing ones last
+ */
+const compareKnown = (a: number | null, b: number | null, direction: 1 | -1) => {
+  if (a === null || b === null) {
+    return a === null ? (b === null ? 0 : 1) : -1;
+  }
+  return (a - b) * direction;
+};
+
+// Main functions
+
+export const distanceKmFn = createFunction(
+  'distanceKm',
+  'Returns the great-circle distance between two points in kilometres',
+  (from: Coordinates, to: Coordinates): number => {
+    const dLatitude = toRadians(to.latitude - from.latitude);
+    const dLongitude = toRadians(to.longitude - from.longitude);
+    const a = Math.sin(dLatitude / 2) ** 2 +
+      Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLongitude / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+);
+
+export const sortListingsFn = createFunction(
+  'sortListings',
+  'Returns a sorted copy of the listings, with listings missing the sort key last',
+  (listings: Listing[], option: SortOption, context: SortContext = {}): Listing[] => {
+    const newestFirst = (a: Listing, b: Listing) => b.createdAt - a.createdAt || a.id.localeCompare(b.id);
+    let compare: (a: Listing, b: Listing) => number;
+
+    switch (option) {
+      case 'relevance': {
+        // Without a search there's nothing to rank by, so newest is the best match
+        const relevance = context.relevance;
+        compare = relevance
+          ? (a, b) => compareKnown(relevance.get(a.id) ?? null, relevance.get(b.id) ?? null, -1)
+          : () => 0;
+        break;
+      }
+      case 'price_asc':
+      case 'price_desc': {
+        const prices = new Map(listings.map(listing => [listing.id, context.priceOf?.(listing) ?? null]));
+        const direction = option === 'price_asc' ? 1 : -1;
+        compare = (a, b) => compareKnown(prices.get(a.id)!, prices.get(b.id)!, direction);
+        break;
+      }
+      case 'distance': {
+        const distances = new Map(listings.map(listing => [listing.id, context.distanceOf?.(listing) ?? null]));
+        compare = (a, b) => compareKnown(distances.get(a.id)!, distances.get(b.id)!, 1);
+        break;
+      }
+      case 'rating': {
+        // Unrated sellers last, then best average, then the more reviewed
+        const ratings = new Map(listings.map(listing => [listing.id, context.ratingOf?.(listing) ?? { average: 0, count: 0 }]));
+        compare = (a, b) => {
+          const x = ratings.get(a.id)!;
+          const y = ratings.get(b.id)!;
+          return compareKnown(x.count ? x.average : null, y.count ? y.average : null, -1) || y.count - x.count;
+        };
+        break;
+      }
+      case 'newest':
+      default:
+        compare = () => 0;
+    }
+
+    return [...listings].sort((a, b) => compare(a, b) || newestFirst(a, b));
+  }
+);
+
+// Module implementation
+
+const listingSort = createModule<{
+  distanceKm: typeof distanceKmFn.fn;
+  sortListings: typeof sortListingsFn.fn;
+}>([
+  distanceKmFn,
+  sortListingsFn
+]);
+
+export default listingSort;
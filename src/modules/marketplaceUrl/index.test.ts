@@ -0,0 +1,73 @@
+import marketplaceUrl, { MarketplaceView } from './index';
+import { ListingType, ItemCondition } from '../../types/listing';
+
+const createView = (changes: Partial<MarketplaceView> = {}): MarketplaceView => ({
+  query: '',
+  filters: marketplaceUrl.createEmptyFilters(),
+  sort: 'relevance',
+  page: 1,
+  ...changes
+});
+
+describe('encodeView', () => {
+  it('leaves defaults out of the URL', () => {
+    expect(marketplaceUrl.encodeView(createView()).toString()).toBe('');
+  });
+
+  it('repeats list parameters without duplicates', () => {
+    const view = createView({
+      filters: { ...marketplaceUrl.createEmptyFilters(), categories: ['action', 'action', 'strategy'] }
+    });
+    expect(marketplaceUrl.encodeView(view).getAll('category')).toEqual(['action', 'strategy']);
+  });
+});
+
+describe('decodeView', () => {
+  it('gives back the view that was encoded', () => {
+    const view = createView({
+      query: 'zelda',
+      filters: {
+        ...marketplaceUrl.createEmptyFilters(),
+        categories: ['action'],
+        priceRange: { min: 10, max: 50 },
+        currency: 'EUR',
+        trustedSellersOnly: true,
+        listingTypes: [ListingType.TRADE],
+        conditions: [ItemCondition.LIKE_NEW],
+        tags: ['rpg']
+      },
+      sort: 'price_asc',
+      page: 2
+    });
+    expect(marketplaceUrl.decodeView(marketplaceUrl.encodeView(view))).toEqual(view);
+  });
+
+  it('drops values it cannot read', () => {
+    const view = marketplaceUrl.decodeView(new URLSearchParams('min=cheap&max=-5&currency=euros&sort=best&page=0&type=steal'));
+    expect(view).toEqual(createView());
+  });
+});
+
+describe('needsCurrency', () => {
+  it('is false for views without prices', () => {
+    expect(marketplaceUrl.needsCurrency(createView({ query: 'zelda', sort: 'newest' }))).toBe(false);
+  });
+
+  it('is true for price filters, price qualifiers and price sorts', () => {
+    const priceRange = { min: 10, max: null };
+    expect(marketplaceUrl.needsCurrency(createView({
+      filters: { ...marketplaceUrl.createEmptyFilters(), priceRange }
+    }))).toBe(true);
+    expect(marketplaceUrl.needsCurrency(createView({ query: 'zelda price:<50' }))).toBe(true);
+    expect(marketplaceUrl.needsCurrency(createView({ sort: 'price_asc' }))).toBe(true);
+    expect(marketplaceUrl.needsCurrency(createView({ sort: 'price_desc' }))).toBe(true);
+  });
+
+  it('keeps the currency of a price sort in the URL', () => {
+    const view = createView({
+      filters: { ...marketplaceUrl.createEmptyFilters(), currency: 'USD' },
+      sort: 'price_desc'
+    });
+    expect(marketplaceUrl.encodeView(view).get('currency')).toBe('USD');
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Marketplace URL Module
+ *
+ * Converts what the marketplace is showing (the search, filters, sort order
+ * and page) to and from URL query parameters, so a view can be bookmarked,
+ * shared and returned to with the back button:
+ *
+ *   /?q=zelda&category=action&min=10&max=50&currency=EUR&type=trade&sort=price_asc&page=2
+ *
+ * Defaults are left out of the URL, lists repeat their parameter, and
+ * decoding what was encoded always gives back the same view. Values that
+ * can't be read (a hand-edited price, an unknown sort) are dropped rather
+ * than guessed at.
+ *
+ * Prices mean different things in different currencies, so whenever the view
+ * filters or sorts by price the URL records the currency, even when it's the
+ * viewer's own display currency, since whoever opens the link may have
+ * another.
+ */
+import { createModule, createFunction } from '../core/module';
+import { ListingType, ItemCondition } from '../../types/listing';
+import { SortOption, SORT_OPTIONS } from '../listingSort';
+import searchQuery from '../searchQuery';
+
+// Types
+
+/** The marketplace's filters */
+export interface MarketplaceFilters {
+  categories: string[];
+  priceRange: {
+    min: number | null;
+    max: number | null;
+  };
+  /** Currency the price range is in; the viewer's display currency when unset */
+  currency?: string;
+  location: string;
+  sellerTypes: string[];
+  trustedSellersOnly: boolean;
+  // Set from search query qualifiers and search suggestions
+  listingTypes?: ListingType[];
+  conditions?: ItemCondition[];
+  sellers?: string[];
+  tags?: string[];
+  platforms?: string[];
+}
+
+/** Everything that decides which listings the marketplace shows, and in what order */
+export interface MarketplaceView {
+  query: string;
+  filters: MarketplaceFilters;
+  sort: SortOption;
+  page: number;
+}
+
+// Configuration
+
+export const DEFAULT_SORT: SortOption = 'relevance';
+
+/** Sort orders that compare prices */
+const PRICE_SORTS: SortOption[] = ['price_asc', 'price_desc'];
+
+/** URL parameter names */
+const PARAMS = {
+  query: 'q',
+  category: 'category',
+  min: 'min',
+  max: 'max',
+  currency: 'currency',
+  location: 'location',
+  sellerType: 'sellerType',
+  trusted: 'trusted',
+  listingType: 'type',
+  condition: 'condition',
+  seller: 'seller',
+  tag: 'tag',
+  platform: 'platform',
+  sort: 'sort',
+  page: 'page'
+};
+
+// Helper functions
+
+/**
+ * Read a non-negative number, or null if the parameter is missing or isn't one
+ */
+const readNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+/**
+ * Read every value of a repeated parameter that's one of the allowed values
+ */
+const readAllowed = <T extends string>(params: URLSearchParams, name: string, allowed: readonly T[]): T[] => {
+  return params.getAll(name).filter((value): value is T => (allowed as readonly string[]).includes(value));
+};
+
+/**
+ * Read every non-empty value of a repeated parameter, without duplicates
+ */
+const readAll = (params: URLSearchParams, name: string): string[] => {
+  return [...new Set(params.getAll(name).filter(value => value.trim() !== ''))];
+};
+
+// Main functions
+
+export const createEmptyFiltersFn = createFunction(
+  'createEmptyFilters',
+  'Returns filters that let every listing through',
+  (): MarketplaceFilters => ({
+    categories: [],
+    priceRange: { min: null, max: null },
+    location: '',
+    sellerTypes: [],
+    trustedSellersOnly: false
+  })
+);
+
+export const decodeViewFn = createFunction(
+  'decodeView',
+  'Reads a marketplace view from URL query parameters, ignoring anything unreadable',
+  (params: URLSearchParams): MarketplaceView => {
+    const filters = createEmptyFiltersFn.fn();
+
+    filters.categories = readAll(params, PARAMS.category);
+    filters.priceRange = {
+      min: readNumber(params.get(PARAMS.min)),
+      max: readNumber(params.get(PARAMS.max))
+    };
+    const currency = params.get(PARAMS.currency);
+    if (currency && /^[A-Z]{3}$/.test(currency)) filters.currency = currency;
+    filters.location = params.get(PARAMS.location) || '';
+    filters.sellerTypes = readAllowed(params, PARAMS.sellerType, ['individual', 'service']);
+    filters.trustedSellersOnly = params.get(PARAMS.trusted) === '1';
+
+    // Optional lists are only set when the URL has them, as they are in the page
+    const listingTypes = readAllowed(params, PARAMS.listingType, Object.values(ListingType));
+    const conditions = readAllowed(params, PARAMS.condition, Object.values(ItemCondition));
+    const sellers = readAll(params, PARAMS.seller);
+    const tags = readAll(params, PARAMS.tag);
+    const platforms = readAll(params, PARAMS.platform);
+    if (listingTypes.length > 0) filters.listingTypes = listingTypes;
+    if (conditions.length > 0) filters.conditions = conditions;
+    if (sellers.length > 0) filters.sellers = sellers;
+    if (tags.length > 0) filters.tags = tags;
+    if (platforms.length > 0) filters.platforms = platforms;
+
+    const sort = readAllowed(params, PARAMS.sort, SORT_OPTIONS.map(option => option.value))[0] || DEFAULT_SORT;
+    const page = readNumber(params.get(PARAMS.page));
+
+    return {
+      query: params.get(PARAMS.query) || '',
+      filters,
+      sort,
+      page: page !== null && Number.isInteger(page) && page >= 1 ? page : 1
+    };
+  }
+);
+
+export const encodeViewFn = createFunction(
+  'encodeView',
+  'Writes a marketplace view as URL query parameters, leaving out defaults',
+  (view: MarketplaceView): URLSearchParams => {
+    const params = new URLSearchParams();
+    const { filters } = view;
+    const appendAll = (name: string, values: string[] = []) => {
+      [...new Set(values)].forEach(value => params.append(name, value));
+    };
+
+    if (view.query.trim()) params.set(PARAMS.query, view.query);
+    appendAll(PARAMS.category, filters.categories);
+    if (filters.priceRange.min !== null) params.set(PARAMS.min, String(filters.priceRange.min));
+    if (filters.priceRange.max !== null) params.set(PARAMS.max, String(filters.priceRange.max));
+    if (filters.currency) params.set(PARAMS.currency, filters.currency);
+    if (filters.location) params.set(PARAMS.location, filters.location);
+    appendAll(PARAMS.sellerType, filters.sellerTypes);
+    if (filters.trustedSellersOnly) params.set(PARAMS.trusted, '1');
+    appendAll(PARAMS.listingType, filters.listingTypes);
+    appendAll(PARAMS.condition, filters.conditions);
+    appendAll(PARAMS.seller, filters.sellers);
+    appendAll(PARAMS.tag, filters.tags);
+    appendAll(PARAMS.platform, filters.platforms);
+    if (view.sort !== DEFAULT_SORT) params.set(PARAMS.sort, view.sort);
+    if (view.page > 1) params.set(PARAMS.page, String(view.page));
+
+    return params;
+  }
+);
+
+export const needsCurrencyFn = createFunction(
+  'needsCurrency',
+  'Checks whether a view filters or sorts by price, so its URL has to say which currency prices are in',
+  (view: MarketplaceView): boolean => {
+    const { priceRange } = view.filters;
+    const queryPrice = searchQuery.parseQuery(view.query).priceRange;
+
+    return PRICE_SORTS.includes(view.sort) ||
+      [priceRange.min, priceRange.max, queryPrice.min, queryPrice.max].some(bound => bound !== null);
+  }
+);
+
+// Module implementation
+
+const marketplaceUrl = createModule<{
+  createEmptyFilters: typeof createEmptyFiltersFn.fn;
+  decodeView: typeof decodeViewFn.fn;
+  encodeView: typeof encodeViewFn.fn;
+  needsCurrency: typeof needsCurrencyFn.fn;
+}>([
+  createEmptyFiltersFn,
+  decodeViewFn,
+  encodeViewFn,
+  needsCurrencyFn
+]);
+
+export default marketplaceUrl;
@@ -0,0 +1,61 @@
+import money from './index';
+import { PricingUnit } from '../../types/listing';
+
+describe('parseLegacyPrice', () => {
+  const amountOf = (text: string) => money.parseLegacyPrice(text).amountMinor;
+
+  it.each([
+    ['1,200.50', 120050],
+    ['1.200,50', 120050],
+    ['1.200', 120000],
+    ['1,200', 120000],
+    ['12,5', 1250],
+    ['1 200', 120000],
+    ['19.99', 1999],
+    ['1.200.000', 120000000],
+    ['0.500', 50],
+    ['$20', 2000]
+  ])('reads %s', (text, amountMinor) => {
+    expect(amountOf(text)).toBe(amountMinor);
+  });
+
+  it('picks up the currency from symbols and words', () => {
+    expect(money.parseLegacyPrice('€15').currency).toBe('EUR');
+    expect(money.parseLegacyPrice('15 pounds').currency).toBe('GBP');
+    expect(money.parseLegacyPrice('CA$15').currency).toBe('CAD');
+    expect(money.parseLegacyPrice('15').currency).toBe('USD');
+  });
+
+  it('reads pricing units and best offers', () => {
+    expect(money.parseLegacyPrice('$20/hr')).toEqual({
+      amountMinor: 2000,
+      currency: 'USD',
+      unit: PricingUnit.PER_HOUR,
+      orBestOffer: false
+    });
+    expect(money.parseLegacyPrice('50 OBO').orBestOffer).toBe(true);
+    expect(money.parseLegacyPrice('Free').unit).toBe(PricingUnit.FREE);
+    expect(money.parseLegacyPrice('make an offer')).toMatchObject({ amountMinor: null, unit: PricingUnit.NEGOTIABLE });
+  });
+});
+
+describe('minor units', () => {
+  it('uses each currency\'s decimals', () => {
+    expect(money.toMinorUnits(19.99, 'USD')).toBe(1999);
+    expect(money.toMinorUnits(500, 'JPY')).toBe(500);
+    expect(money.toMajorUnits(1999, 'EUR')).toBe(19.99);
+  });
+});
+
+describe('convertAmount', () => {
+  const table = { baseCurrency: 'USD', rates: { EUR: 0.5, JPY: 100 } };
+
+  it('converts through the base currency', () => {
+    expect(money.convertAmount(1000, 'EUR', 'JPY', table)).toBe(2000);
+    expect(money.convertAmount(1000, 'USD', 'EUR', table)).toBe(500);
+  });
+
+  it('returns null when a rate is missing', () => {
+    expect(money.convertAmount(1000, 'GBP', 'USD', table)).toBeNull();
+  });
+});
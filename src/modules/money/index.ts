@@ -0,0 +1,250 @@
+/**
+ * Money Module
+ *
+ * Converts between the structured `ListingPrice` stored on listings and the
+ * strings users read and type. Amounts are kept in minor units (cents) so
+ * they never pick up floating point drift in the synced document.
+ *
+ * Conversions between currencies use the admin-maintained rate table from
+ * the exchange rate store; there is no live rate service.
+ */
+import { createModule, createFunction } from '../core/module';
+import { ListingPrice } from '../../stores/listingStore';
+import { PricingUnit } from '../../types/listing';
+import { ExchangeRateTable } from '../../stores/exchangeRateStore';
+
+// Types
+
+/** A currency users can price listings in */
+export interface CurrencyInfo {
+  /** ISO 4217 code */
+  code: string;
+  /** Symbol shown in inputs */
+  symbol: string;
+  /** Number of digits after the decimal point */
+  decimals: number;
+}
+
+// Configuration
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', symbol: '$', decimals: 2 },
+  { code: 'EUR', symbol: '€', decimals: 2 },
+  { code: 'GBP', symbol: '£', decimals: 2 },
+  { code: 'CAD', symbol: 'CA$', decimals: 2 },
+  { code: 'AUD', symbol: 'A$', decimals: 2 },
+  { code: 'JPY', symbol: '¥', decimals: 0 }
+];
+
+// Helper functions
+
+/** Symbols and words that identify a currency in a free-text price */
+const CURRENCY_HINTS: Array<[RegExp, string]> = [
+  [/€|\beur\b|\beuros?\b/i, 'EUR'],
+  [/£|\bgbp\b|\bpounds?\b/i, 'GBP'],
+  [/¥|\bjpy\b|\byen\b/i, 'JPY'],
+  [/ca\$|\bcad\b/i, 'CAD'],
+  [/a\$|\baud\b/i, 'AUD'],
+  [/\$|\busd\b|\bdollars?\b/i, 'USD']
+];
+
+const getCurrencyInfo = (code: string): CurrencyInfo => {
+  return SUPPORTED_CURRENCIES.find(currency => currency.code === code) ||
+    { code, symbol: code, decimals: 2 };
+};
+
+/**
+ * Pull the first number out of a free-text price, accepting "1,200.50",
+ * "1.200,50" and "1 200" styles. When both separators appear the last one is
+ * the decimal point; a lone separator followed by exactly three digits, or
+ * one that repeats, groups thousands.
+ */
+const extractNumber = (text: string): number | null => {
+  const match = text.match(/\d(?:[\d.,]|\s(?=\d{3}(?!\d)))*/);
+  if (!match) return null;
+
+  let raw = match[0].replace(/\s/g, '').replace(/[.,]$/, '');
+  const decimalIndex = Math.max(raw.lastIndexOf('.'), raw.lastIndexOf(','));
+
+  if (decimalIndex !== -1) {
+    const separator = raw[decimalIndex];
+    const other = separator === '.' ? ',' : '.';
+    const isRepeated = raw.indexOf(separator) !== decimalIndex;
+    const groupsThousands = !raw.includes(other) && (
+      isRepeated || (/^[1-9]\d{0,2}$/.test(raw.slice(0, decimalIndex)) && raw.length - decimalIndex - 1 === 3)
+    );
+
+    raw = raw.split(other).join('');
+    raw = groupsThousands
+      ? raw.split(separator).join('')
+      : raw.slice(0, raw.lastIndexOf(separator)).split(separator).join('') + '.' + raw.slice(raw.lastIndexOf(separator) + 1);
+  }
+
+  const value = parseFloat(raw);
+  return isNaN(value) ? null : value;
+};
+
+// Main functions
+
+export const getCurrencySymbolFn = createFunction(
+  'getCurrencySymbol',
+  'Gets the symbol shown next to amount inputs for a currency',
+  (currency: string): string => getCurrencyInfo(currency).symbol
+);
+
+export const toMinorUnitsFn = createFunction(
+  'toMinorUnits',
+  'Converts a major-unit amount such as 19.99 into minor units such as 1999',
+  (amount: number, currency: string = DEFAULT_CURRENCY): number => {
+    return Math.round(amount * Math.pow(10, getCurrencyInfo(currency).decimals));
+  }
+);
+
+export const toMajorUnitsFn = createFunction(
+  'toMajorUnits',
+  'Converts a minor-unit amount such as 1999 into major units such as 19.99',
+  (amountMinor: number, currency: string = DEFAULT_CURRENCY): number => {
+    return amountMinor / Math.pow(10, getCurrencyInfo(currency).decimals);
+  }
+);
+
+export const formatAmountFn = createFunction(
+  'formatAmount',
+  'Formats a minor-unit amount with its currency symbol',
+  (amountMinor: number, currency: string = DEFAULT_CURRENCY): string => {
+    const { decimals } = getCurrencyInfo(currency);
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals
+    }).format(toMajorUnitsFn.fn(amountMinor, currency));
+  }
+);
+
+export const formatPriceFn = createFunction(
+  'formatPrice',
+  'Formats a listing price for display, including its pricing unit',
+  (price: ListingPrice): string => {
+    if (price.unit === PricingUnit.FREE) {
+      return 'Free';
+    }
+
+    if (price.amountMinor === null) {
+      return 'Negotiable';
+    }
+
+    let label = formatAmountFn.fn(price.amountMinor, price.currency);
+
+    if (price.unit === PricingUnit.PER_HOUR) {
+      label += '/hr';
+    } else if (price.unit === PricingUnit.PER_SESSION) {
+      label += '/session';
+    } else if (price.unit === PricingUnit.NEGOTIABLE) {
+      label += ' (negotiable)';
+    }
+
+    if (price.orBestOffer) {
+      label += ' OBO';
+    }
+
+    return label;
+  }
+);
+
+export const parseLegacyPriceFn = createFunction(
+  'parseLegacyPrice',
+  'Parses a free-text price such as "$20/hr", "Free" or "50 OBO" into a ListingPrice',
+  (text: string): ListingPrice => {
+    const value = (text || '').trim();
+    const lower = value.toLowerCase();
+
+    const currency = CURRENCY_HINTS.find(([pattern]) => pattern.test(value))?.[1] || DEFAULT_CURRENCY;
+    const amount = extractNumber(value);
+    const orBestOffer = /\bobo\b|or best offer|\bono\b/.test(lower);
+
+    let unit = PricingUnit.FIXED;
+    if (/\bfree\b/.test(lower) || amount === 0) {
+      unit = PricingUnit.FREE;
+    } else if (/\/\s*h(ou)?r\b|\/\s*h\b|per\s+h(ou)?r|hourly|an hour/.test(lower)) {
+      unit = PricingUnit.PER_HOUR;
+    } else if (/\/\s*session|per\s+session/.test(lower)) {
+      unit = PricingUnit.PER_SESSION;
+    } else if (/negotiable|\bneg\b|make an offer/.test(lower) || amount === null) {
+      unit = PricingUnit.NEGOTIABLE;
+    }
+
+    return {
+      amountMinor: unit === PricingUnit.FREE
+        ? 0
+        : amount === null ? null : toMinorUnitsFn.fn(amount, currency),
+      currency,
+      unit,
+      orBestOffer
+    };
+  }
+);
+
+export const getRateFn = createFunction(
+  'getRate',
+  'Gets how many units of a currency one unit of the base currency buys',
+  (currency: string, table: ExchangeRateTable): number | null => {
+    if (currency === table.baseCurrency) return 1;
+    return table.rates[currency] ?? null;
+  }
+);
+
+export const convertAmountFn = createFunction(
+  'convertAmount',
+  'Converts a minor-unit amount between currencies, or returns null when a rate is missing',
+  (amountMinor: number, from: string, to: string, table: ExchangeRateTable): number | null => {
+    if (from === to) return amountMinor;
+
+    const fromRate = getRateFn.fn(from, table);
+    const toRate = getRateFn.fn(to, table);
+    if (fromRate === null || toRate === null) return null;
+
+    const major = toMajorUnitsFn.fn(amountMinor, from) / fromRate * toRate;
+    return toMinorUnitsFn.fn(major, to);
+  }
+);
+
+export const convertPriceFn = createFunction(
+  'convertPrice',
+  'Converts a listing price into another currency, or returns null when a rate is missing',
+  (price: ListingPrice, to: string, table: ExchangeRateTable): ListingPrice | null => {
+    if (price.currency === to) return price;
+    if (price.amountMinor === null) return { ...price, currency: to };
+
+    const amountMinor = convertAmountFn.fn(price.amountMinor, price.currency, to, table);
+    return amountMinor === null ? null : { ...price, amountMinor, currency: to };
+  }
+);
+
+// Module implementation
+
+const money = createModule<{
+  getCurrencySymbol: typeof getCurrencySymbolFn.fn;
+  toMinorUnits: typeof toMinorUnitsFn.fn;
+  toMajorUnits: typeof toMajorUnitsFn.fn;
+  formatAmount: typeof formatAmountFn.fn;
+  formatPrice: typeof formatPriceFn.fn;
+  parseLegacyPrice: typeof parseLegacyPriceFn.fn;
+  getRate: typeof getRateFn.fn;
+  convertAmount: typeof convertAmountFn.fn;
+  convertPrice: typeof convertPriceFn.fn;
+}>([
+  getCurrencySymbolFn,
+  toMinorUnitsFn,
+  toMajorUnitsFn,
+  formatAmountFn,
+  formatPriceFn,
+  parseLegacyPriceFn,
+  getRateFn,
+  convertAmountFn,
+  convertPriceFn
+]);
+
+export default money;
@@ -0,0 +1,137 @@
+/**
+ * Password hashing Module
+ *
+ * Salted PBKDF2 password hashing using WebCrypto. Records carry their own
+ * algorithm parameters so the work factor can be raised later and older
+ * records upgraded on the next successful login.
+ */
+import { createModule, createFunction } from '../core/module';
+
+// Types
+
+/** A stored password hash with the parameters needed to verify it */
+export interface PasswordRecord {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  /** Base64-encoded random salt, unique per user */
+  salt: string;
+  /** Base64-encoded derived key */
+  hash: string;
+}
+
+// Configuration
+
+/** Work factor for new hashes, following current OWASP guidance for PBKDF2-SHA256 */
+export const PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+// Helper functions
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  array.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Derive a key from a password with PBKDF2
+ */
+const deriveHash = async (password: string, salt: Uint8Array, iterations: number) => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    HASH_BITS
+  );
+
+  return new Uint8Array(bits);
+};
+
+// Main functions
+
+export const constantTimeEqualFn = createFunction(
+  'constantTimeEqual',
+  'Compares two byte arrays or strings without exiting early on the first difference',
+  (a: Uint8Array | string, b: Uint8Array | string): boolean => {
+    const left = typeof a === 'string' ? new TextEncoder().encode(a) : a;
+    const right = typeof b === 'string' ? new TextEncoder().encode(b) : b;
+    const length = Math.max(left.length, right.length);
+
+    let difference = left.length ^ right.length;
+    for (let i = 0; i < length; i++) {
+      difference |= (left[i] ?? 0) ^ (right[i] ?? 0);
+    }
+
+    return difference === 0;
+  }
+);
+
+export const hashPasswordFn = createFunction(
+  'hashPassword',
+  'Hashes a password with a fresh random salt',
+  async (password: string): Promise<PasswordRecord> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await deriveHash(password, salt, PBKDF2_ITERATIONS);
+
+    return {
+      algorithm: 'PBKDF2-SHA256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+      hash: toBase64(hash)
+    };
+  }
+);
+
+export const verifyPasswordFn = createFunction(
+  'verifyPassword',
+  'Checks a password against a stored password record',
+  async (password: string, record: PasswordRecord): Promise<boolean> => {
+    if (record.algorithm !== 'PBKDF2-SHA256') {
+      return false;
+    }
+
+    const hash = await deriveHash(password, fromBase64(record.salt), record.iterations);
+    return constantTimeEqualFn.fn(hash, fromBase64(record.hash));
+  }
+);
+
+export const needsRehashFn = createFunction(
+  'needsRehash',
+  'Checks whether a password record was made with a weaker work factor than current',
+  (record: PasswordRecord): boolean => record.iterations < PBKDF2_ITERATIONS
+);
+
+// Module implementation
+
+const passwordHashing = createModule<{
+  constantTimeEqual: typeof constantTimeEqualFn.fn;
+  hashPassword: typeof hashPasswordFn.fn;
+  verifyPassword: typeof verifyPasswordFn.fn;
+  needsRehash: typeof needsRehashFn.fn;
+}>([
+  constantTimeEqualFn,
+  hashPasswordFn,
+  verifyPasswordFn,
+  needsRehashFn
+]);
+
+export default passwordHashing;
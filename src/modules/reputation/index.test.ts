@@ -0,0 +1,210 @@
+import reputation, { ReputationInput, ReputationLevel } from './index';
+import { Listing } from '../../stores/listingStore';
+import { UserProfile } from '../../stores/userStore';
+import { Review } from '../../stores/reviewStore';
+import { AuditEntry } from '../../stores/moderationStore';
+import { Offer } from '../../stores/offerStore';
+import { TradeProposal } from '../../stores/tradeStore';
+import { ListingType, ItemCategory, PricingUnit, ContactRevealPolicy } from '../../types/listing';
+import { PlayerRole } from '../../types/playerProfile';
+import { ModerationAction } from '../../types/moderation';
+import { OfferStatus } from '../../types/offer';
+import { TradeProposalStatus } from '../../types/trade';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1000 * DAY;
+
+const createUser = (id: string, ageDays: number, changes: Partial<UserProfile> = {}): UserProfile => ({
+  id,
+  name: id,
+  createdAt: NOW - ageDays * DAY,
+  ...changes
+});
+
+const createSoldListing = (id: string, sellerId: string, listingType = ListingType.SELL): Listing => ({
+  id,
+  createdAt: 0,
+  updatedAt: 0,
+  sellerId,
+  sellerName: sellerId,
+  title: `Listing ${id}`,
+  shortDescription: '',
+  detailedDescription: '',
+  listingType,
+  category: ItemCategory.VIDEO_GAME,
+  price: { amountMinor: 1000, currency: 'USD', unit: PricingUnit.FIXED, orBestOffer: false },
+  location: '',
+  isRemote: false,
+  contactRevealPolicy: ContactRevealPolicy.ON_MESSAGE,
+  tags: [],
+  images: [],
+  status: 'sold'
+});
+
+const createAcceptedOffer = (listing: Listing, buyerId: string): Offer => ({
+  id: `offer-${listing.id}`,
+  listingId: listing.id,
+  buyerId,
+  buyerName: buyerId,
+  sellerId: listing.sellerId,
+  amount: 1000,
+  status: OfferStatus.ACCEPTED,
+  lastActorId: listing.sellerId,
+  history: [],
+  createdAt: 0,
+  updatedAt: 0,
+  expiresAt: 0
+});
+
+const createReview = (revieweeId: string, rating: number, index: number): Review => ({
+  id: `review-${revieweeId}-${index}`,
+  listingId: `listing-${index}`,
+  listingTitle: '',
+  reviewerId: `buyer-${index}`,
+  reviewerName: '',
+  revieweeId,
+  rating,
+  comment: '',
+  createdAt: 0
+});
+
+const createAuditEntry = (action: ModerationAction, changes: Partial<AuditEntry>): AuditEntry => ({
+  id: `audit-${action}`,
+  action,
+  adminId: 'admin',
+  adminName: 'admin',
+  targetType: 'listing',
+  targetId: '',
+  targetName: '',
+  reason: '',
+  createdAt: 0,
+  ...changes
+});
+
+const createInput = (changes: Partial<ReputationInput> = {}): ReputationInput => ({
+  users: [],
+  listings: [],
+  reviews: [],
+  auditLog: [],
+  offers: [],
+  trades: [],
+  ...changes
+});
+
+// A seller with a year's history, enough sales and top reviews to be trusted
+const createTrustedSeller = (changes: Partial<UserProfile> = {}, listingType = ListingType.SELL) => {
+  const listings = ['1', '2', '3'].map(id => createSoldListing(id, 'seller', listingType));
+  return createInput({
+    users: [createUser('seller', 365, changes), createUser('buyer', 365)],
+    listings,
+    offers: listings.map(listing => createAcceptedOffer(listing, 'buyer')),
+    reviews: Array.from({ length: 10 }, (_, index) => createReview('seller', 5, index))
+  });
+};
+
+const pointsFor = (input: ReputationInput, label: string) => {
+  return reputation.computeReputation('seller', input, NOW)!.factors.find(factor => factor.label === label)!.points;
+};
+
+describe('computeReputation', () => {
+  it('returns null for unknown users', () => {
+    expect(reputation.computeReputation('nobody', createInput(), NOW)).toBeNull();
+  });
+
+  it('starts new users at the new level with only age points', () => {
+    const result = reputation.computeReputation('seller', createInput({ users: [createUser('seller', 0)] }), NOW)!;
+    expect(result.score).toBe(0);
+    expect(result.level).toBe(ReputationLevel.NEW);
+    expect(result.notes).toHaveLength(1);
+  });
+
+  it('only counts sales backed by an accepted offer or trade', () => {
+    const listing = createSoldListing('1', 'seller');
+    const users = [createUser('seller', 60), createUser('buyer', 60)];
+
+    const withoutBuyer = createInput({ users, listings: [listing] });
+    expect(pointsFor(withoutBuyer, 'Completed sales')).toBe(0);
+    expect(reputation.computeReputation('seller', withoutBuyer, NOW)!.level).toBe(ReputationLevel.NEW);
+
+    const withOffer = createInput({ users, listings: [listing], offers: [createAcceptedOffer(listing, 'buyer')] });
+    expect(pointsFor(withOffer, 'Completed sales')).toBeGreaterThan(0);
+    expect(reputation.computeReputation('seller', withOffer, NOW)!.level).toBe(ReputationLevel.ESTABLISHED);
+  });
+
+  it('counts listings on both sides of an accepted trade', () => {
+    const own = createSoldListing('1', 'seller', ListingType.TRADE);
+    const theirs = createSoldListing('2', 'buyer', ListingType.TRADE);
+    const trade: TradeProposal = {
+      id: 'trade',
+      targetListingId: own.id,
+      proposerId: 'buyer',
+      proposerName: 'buyer',
+      recipientId: 'seller',
+      recipientName: 'seller',
+      terms: { proposerListingIds: [theirs.id], recipientListingIds: [own.id], proposerCash: 0, recipientCash: 0 },
+      status: TradeProposalStatus.ACCEPTED,
+      lastActorId: 'seller',
+      history: [],
+      createdAt: 0,
+      updatedAt: 0
+    };
+    const input = createInput({
+      users: [createUser('seller', 60), createUser('buyer', 60)],
+      listings: [own, theirs],
+      trades: [trade]
+    });
+
+    const reputations = reputation.computeAllReputations(input, NOW);
+    expect(reputations.seller.level).toBe(ReputationLevel.ESTABLISHED);
+    expect(reputations.buyer.level).toBe(ReputationLevel.ESTABLISHED);
+  });
+
+  it('trusts sellers with a long history of well-reviewed sales', () => {
+    const result = reputation.computeReputation('seller', createTrustedSeller(), NOW)!;
+    expect(result.score).toBe(75);
+    expect(result.level).toBe(ReputationLevel.TRUSTED);
+    expect(result.notes).toEqual([]);
+  });
+
+  it('scores reviews around a neutral three stars', () => {
+    const input = createTrustedSeller();
+    input.reviews = input.reviews.map(review => ({ ...review, rating: 1 }));
+    expect(pointsFor(input, 'Reviews')).toBe(-50);
+
+    input.reviews = input.reviews.map(review => ({ ...review, rating: 3 }));
+    expect(pointsFor(input, 'Reviews')).toBe(0);
+  });
+
+  it('takes points off for moderation, forgiving restored listings', () => {
+    const input = createTrustedSeller();
+    input.auditLog = [
+      createAuditEntry(ModerationAction.SUSPEND_USER, { targetType: 'user', targetId: 'seller' }),
+      createAuditEntry(ModerationAction.DEACTIVATE_LISTING, { subjectUserId: 'seller' })
+    ];
+    expect(pointsFor(input, 'Moderation history')).toBe(-30);
+
+    input.auditLog.push(createAuditEntry(ModerationAction.RESTORE_LISTING, { subjectUserId: 'seller' }));
+    expect(pointsFor(input, 'Moderation history')).toBe(-20);
+  });
+
+  it('never trusts a banned account', () => {
+    const restriction = { type: 'banned' as const, reason: 'spam', restrictedBy: 'admin', restrictedAt: 0 };
+    const result = reputation.computeReputation('seller', createTrustedSeller({ restriction }), NOW)!;
+    expect(result.level).toBe(ReputationLevel.ESTABLISHED);
+  });
+
+  it('verifies trusted service providers who have completed a service', () => {
+    const roles = [PlayerRole.SERVICE_PROVIDER];
+    expect(reputation.computeReputation('seller', createTrustedSeller({ roles }, ListingType.OFFER_SERVICE), NOW)!
+      .isVerifiedServiceProvider).toBe(true);
+    expect(reputation.computeReputation('seller', createTrustedSeller({ roles }), NOW)!
+      .isVerifiedServiceProvider).toBe(false);
+    expect(reputation.computeReputation('seller', createTrustedSeller({}, ListingType.OFFER_SERVICE), NOW)!
+      .isVerifiedServiceProvider).toBe(false);
+  });
+
+  it('gives the same result for the same history and time', () => {
+    const input = createTrustedSeller();
+    expect(reputation.computeAllReputations(input, NOW)).toEqual(reputation.computeAllReputations(input, NOW));
+  });
+});
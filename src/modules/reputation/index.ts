@@ -0,0 +1,305 @@
+/**
+ * Reputation Module
+ *
+ * Turns a user's marketplace history into a score from 0 to 100 and a badge
+ * level. The score is built from four parts (account age, completed sales,
+ * review average and moderation history) and each part is returned with the
+ * points it contributed, so the UI can explain exactly how a score came about.
+ * The same history and the same `now` always give the same result.
+ *
+ * Only sales backed by an accepted offer or trade count, so marking a listing
+ * sold without a buyer earns nothing.
+ */
+import { createModule, createFunction } from '../core/module';
+import { Listing } from '../../stores/listingStore';
+import { UserProfile } from '../../stores/userStore';
+import { Review } from '../../stores/reviewStore';
+import { AuditEntry } from '../../stores/moderationStore';
+import { Offer } from '../../stores/offerStore';
+import { TradeProposal } from '../../stores/tradeStore';
+import { ListingType } from '../../types/listing';
+import { PlayerRole, hasRole, getActiveRestriction } from '../../types/playerProfile';
+import { ModerationAction } from '../../types/moderation';
+import { OfferStatus } from '../../types/offer';
+import { TradeProposalStatus, getTradeListingIds } from '../../types/trade';
+
+// Types
+
+/** Badge levels, lowest first */
+export enum ReputationLevel {
+  NEW = 'new',
+  ESTABLISHED = 'established',
+  TRUSTED = 'trusted'
+}
+
+export const REPUTATION_LEVEL_LABELS: Record<ReputationLevel, string> = {
+  [ReputationLevel.NEW]: 'New trader',
+  [ReputationLevel.ESTABLISHED]: 'Established trader',
+  [ReputationLevel.TRUSTED]: 'Trusted'
+};
+
+/** One part of the score and how many points it added or took away */
+export interface ReputationFactor {
+  label: string;
+  points: number;
+  /** Most the part can add */
+  maxPoints: number;
+  /** Plain-language account of the numbers behind the points */
+  detail: string;
+}
+
+/** A user's reputation and how it was worked out */
+export interface Reputation {
+  userId: string;
+  score: number;
+  level: ReputationLevel;
+  /** Trusted, holds the service provider role and has completed a service */
+  isVerifiedServiceProvider: boolean;
+  factors: ReputationFactor[];
+  /** Why the user isn't at a higher level, when something holds them back */
+  notes: string[];
+}
+
+/** Input data for the reputation calculation */
+export interface ReputationInput {
+  users: UserProfile[];
+  listings: Listing[];
+  reviews: Review[];
+  auditLog: AuditEntry[];
+  offers: Offer[];
+  trades: TradeProposal[];
+}
+
+/** The parts of a user's history the score is built from */
+interface UserHistory {
+  /** Own listings sold to a buyer through an accepted offer or trade */
+  sales: Listing[];
+  ratings: number[];
+  restrictions: number;
+  takedowns: number;
+  restores: number;
+}
+
+// Helper functions
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Points available from each part of the score */
+const AGE_POINTS = 20;
+const SALES_POINTS = 30;
+const REVIEW_POINTS = 50;
+
+/** Account age, completed sales and reviews that earn the full points */
+const FULL_AGE_DAYS = 365;
+const FULL_SALES = 20;
+const FULL_REVIEW_COUNT = 10;
+
+/** Points lost per moderation action against the user */
+const RESTRICTION_PENALTY = 20;
+const TAKEDOWN_PENALTY = 10;
+
+/** What it takes to reach each level */
+export const REPUTATION_THRESHOLDS = {
+  establishedMinAgeDays: 30,
+  establishedMinSales: 1,
+  trustedMinScore: 60,
+  trustedMinSales: 3,
+  trustedMinAverage: 4
+};
+
+/** Listing types where the owner is the one selling something */
+const SALE_TYPES = [ListingType.SELL, ListingType.TRADE, ListingType.OFFER_SERVICE];
+
+const SERVICE_TYPES = [ListingType.OFFER_SERVICE];
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Sort the listings, reviews and audit log into each user's history in a
+ * single pass over each, so scoring every user doesn't rescan everything
+ */
+const groupHistory = (input: ReputationInput): Map<string, UserHistory> => {
+  const histories = new Map<string, UserHistory>();
+  const historyOf = (userId: string) => {
+    let history = histories.get(userId);
+    if (!history) {
+      history = { sales: [], ratings: [], restrictions: 0, takedowns: 0, restores: 0 };
+      histories.set(userId, history);
+    }
+    return history;
+  };
+
+  // Who agreed a deal on each listing
+  const dealParties = new Map<string, Set<string>>();
+  const addParty = (listingId: string, userId: string) => {
+    const parties = dealParties.get(listingId) || new Set<string>();
+    parties.add(userId);
+    dealParties.set(listingId, parties);
+  };
+  input.offers.forEach(offer => {
+    if (offer.status === OfferStatus.ACCEPTED && offer.buyerId !== offer.sellerId) {
+      addParty(offer.listingId, offer.sellerId);
+    }
+  });
+  input.trades.forEach(proposal => {
+    if (proposal.status === TradeProposalStatus.ACCEPTED && proposal.proposerId !== proposal.recipientId) {
+      getTradeListingIds(proposal.terms).forEach(listingId => {
+        addParty(listingId, proposal.proposerId);
+        addParty(listingId, proposal.recipientId);
+      });
+    }
+  });
+
+  input.listings.forEach(listing => {
+    if (listing.status === 'sold' &&
+        SALE_TYPES.includes(listing.listingType) &&
+        dealParties.get(listing.id)?.has(listing.sellerId)) {
+      historyOf(listing.sellerId).sales.push(listing);
+    }
+  });
+
+  input.reviews.forEach(review => {
+    historyOf(review.revieweeId).ratings.push(review.rating);
+  });
+
+  // Suspensions and bans of the account, and takedowns of their listings
+  // that weren't later reversed
+  input.auditLog.forEach(entry => {
+    if (entry.targetType === 'user' &&
+        (entry.action === ModerationAction.SUSPEND_USER || entry.action === ModerationAction.BAN_USER)) {
+      historyOf(entry.targetId).restrictions++;
+    } else if (entry.subjectUserId) {
+      if (entry.action === ModerationAction.DEACTIVATE_LISTING || entry.action === ModerationAction.REMOVE_LISTING) {
+        historyOf(entry.subjectUserId).takedowns++;
+      } else if (entry.action === ModerationAction.RESTORE_LISTING) {
+        historyOf(entry.subjectUserId).restores++;
+      }
+    }
+  });
+
+  return histories;
+};
+
+const EMPTY_HISTORY: UserHistory = { sales: [], ratings: [], restrictions: 0, takedowns: 0, restores: 0 };
+
+/**
+ * Work out one user's reputation
+ */
+const buildReputation = (profile: UserProfile, history: UserHistory, now: number): Reputation => {
+  const { sales: soldListings, ratings, restrictions } = history;
+  const takedowns = Math.max(0, history.takedowns - history.restores);
+  const average = ratings.length > 0
+    ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+    : 0;
+  const ageDays = Math.max(0, Math.floor((now - profile.createdAt) / DAY));
+
+  // Reviews score around a neutral 3 stars, weighted by how many there are
+  const reviewWeight = Math.min(ratings.length, FULL_REVIEW_COUNT) / FULL_REVIEW_COUNT;
+  const reviewPoints = ratings.length > 0
+    ? Math.round(((average - 3) / 2) * REVIEW_POINTS * reviewWeight)
+    : 0;
+
+  const factors: ReputationFactor[] = [
+    {
+      label: 'Account age',
+      points: Math.round(Math.min(ageDays, FULL_AGE_DAYS) / FULL_AGE_DAYS * AGE_POINTS),
+      maxPoints: AGE_POINTS,
+      detail: `Member for ${plural(ageDays, 'day')}; full points after ${FULL_AGE_DAYS}`
+    },
+    {
+      label: 'Completed sales',
+      points: Math.round(Math.min(soldListings.length, FULL_SALES) / FULL_SALES * SALES_POINTS),
+      maxPoints: SALES_POINTS,
+      detail: `${plural(soldListings.length, 'listing')} sold or completed with a buyer; full points at ${FULL_SALES}`
+    },
+    {
+      label: 'Reviews',
+      points: reviewPoints,
+      maxPoints: REVIEW_POINTS,
+      detail: ratings.length > 0
+        ? `${average.toFixed(1)} stars from ${plural(ratings.length, 'review')}; 3 stars is neutral and full weight comes at ${FULL_REVIEW_COUNT} reviews`
+        : 'No reviews yet'
+    },
+    {
+      label: 'Moderation history',
+      points: -(restrictions * RESTRICTION_PENALTY + takedowns * TAKEDOWN_PENALTY),
+      maxPoints: 0,
+      detail: restrictions + takedowns > 0
+        ? `Suspended or banned ${plural(restrictions, 'time')}; ${plural(takedowns, 'listing')} taken down by admins`
+        : 'No admin actions against this account'
+    }
+  ];
+
+  const total = factors.reduce((sum, factor) => sum + factor.points, 0);
+  const score = Math.max(0, Math.min(100, total));
+
+  const notes: string[] = [];
+  let level = ReputationLevel.NEW;
+
+  if (ageDays >= REPUTATION_THRESHOLDS.establishedMinAgeDays &&
+      soldListings.length >= REPUTATION_THRESHOLDS.establishedMinSales) {
+    level = ReputationLevel.ESTABLISHED;
+  } else {
+    notes.push(`Established traders have been members for ${REPUTATION_THRESHOLDS.establishedMinAgeDays} days and completed a sale`);
+  }
+
+  if (level === ReputationLevel.ESTABLISHED) {
+    const isRestricted = Boolean(getActiveRestriction(profile));
+    if (isRestricted) {
+      notes.push('Accounts that are suspended or banned can\'t be trusted');
+    } else if (score < REPUTATION_THRESHOLDS.trustedMinScore ||
+        soldListings.length < REPUTATION_THRESHOLDS.trustedMinSales ||
+        average < REPUTATION_THRESHOLDS.trustedMinAverage) {
+      notes.push(
+        `Trusted traders have a score of ${REPUTATION_THRESHOLDS.trustedMinScore}+, ` +
+        `${REPUTATION_THRESHOLDS.trustedMinSales}+ completed sales and ` +
+        `${REPUTATION_THRESHOLDS.trustedMinAverage}+ stars on average`
+      );
+    } else {
+      level = ReputationLevel.TRUSTED;
+    }
+  }
+
+  const hasCompletedService = soldListings.some(listing => SERVICE_TYPES.includes(listing.listingType));
+  const isVerifiedServiceProvider = level === ReputationLevel.TRUSTED &&
+    hasRole(profile, PlayerRole.SERVICE_PROVIDER) &&
+    hasCompletedService;
+
+  return { userId: profile.id, score, level, isVerifiedServiceProvider, factors, notes };
+};
+
+// Main functions
+
+export const computeReputationFn = createFunction(
+  'computeReputation',
+  'Works out a single user\'s reputation score, level and breakdown',
+  (userId: string, input: ReputationInput, now: number = Date.now()): Reputation | null => {
+    const profile = input.users.find(user => user.id === userId);
+    return profile ? buildReputation(profile, groupHistory(input).get(profile.id) || EMPTY_HISTORY, now) : null;
+  }
+);
+
+export const computeAllReputationsFn = createFunction(
+  'computeAllReputations',
+  'Works out every user\'s reputation, keyed by user id',
+  (input: ReputationInput, now: number = Date.now()): Record<string, Reputation> => {
+    const histories = groupHistory(input);
+    const reputations: Record<string, Reputation> = {};
+    input.users.forEach(user => {
+      reputations[user.id] = buildReputation(user, histories.get(user.id) || EMPTY_HISTORY, now);
+    });
+    return reputations;
+  }
+);
+
+// Module implementation
+
+const reputation = createModule<{
+  computeReputation: typeof computeReputationFn.fn;
+  computeAllReputations: typeof computeAllReputationsFn.fn;
+}>([
+  computeReputationFn,
+  computeAllReputationsFn
+]);
+
+export default reputation;
@@ -0,0 +1,73 @@
+import search, { SearchIndex } from './index';
+
+const createIndex = (): SearchIndex => {
+  const index = search.createIndex({ title: 3, description: 1 });
+  search.addDocument(index, {
+    id: 'zelda',
+    fields: { title: 'The Legend of Zelda', description: 'Open world adventure on the Switch' }
+  });
+  search.addDocument(index, {
+    id: 'pokemon',
+    fields: { title: 'Pokémon Red', description: 'Catch them all' }
+  });
+  search.addDocument(index, {
+    id: 'catan',
+    fields: { title: 'Catan', description: 'Board game about trading, inspired by an adventure' }
+  });
+  return index;
+};
+
+const idsFor = (index: SearchIndex, query: string, options = {}) => {
+  return search.search(index, query, options).map(result => result.id);
+};
+
+describe('tokenize', () => {
+  it('folds case and accents and splits on punctuation', () => {
+    expect(search.tokenize('Pokémon: RED-version')).toEqual(['pokemon', 'red', 'version']);
+  });
+});
+
+describe('search', () => {
+  it('matches every term of the query', () => {
+    const index = createIndex();
+    expect(idsFor(index, 'adventure')).toEqual(expect.arrayContaining(['zelda', 'catan']));
+    expect(idsFor(index, 'adventure switch')).toEqual(['zelda']);
+  });
+
+  it('ranks title hits above description hits', () => {
+    const index = createIndex();
+    search.addDocument(index, { id: 'adventure-time', fields: { title: 'Adventure Time', description: 'Cartoon' } });
+    expect(idsFor(index, 'adventure')[0]).toBe('adventure-time');
+  });
+
+  it('matches accents, prefixes and typos', () => {
+    const index = createIndex();
+    expect(idsFor(index, 'pokemon')).toEqual(['pokemon']);
+    expect(idsFor(index, 'zel')).toEqual(['zelda']);
+    expect(idsFor(index, 'zeldda')).toEqual(['zelda']);
+  });
+
+  it('can turn prefix and fuzzy matching off', () => {
+    const index = createIndex();
+    expect(idsFor(index, 'zel', { prefix: false })).toEqual([]);
+    expect(idsFor(index, 'zeldda', { fuzzy: false })).toEqual([]);
+  });
+
+  it('limits the number of results', () => {
+    expect(idsFor(createIndex(), 'adventure', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('follows documents being replaced and removed', () => {
+    const index = createIndex();
+    search.addDocument(index, { id: 'zelda', fields: { title: 'Metroid', description: 'Space adventure' } });
+    expect(idsFor(index, 'zelda')).toEqual([]);
+    expect(idsFor(index, 'metroid')).toEqual(['zelda']);
+
+    search.removeDocument(index, 'zelda');
+    expect(idsFor(index, 'metroid')).toEqual([]);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(idsFor(createIndex(), '  ')).toEqual([]);
+  });
+});
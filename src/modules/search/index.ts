@@ -0,0 +1,367 @@
+/**
+ * Search Module
+ *
+ * An in-memory inverted index for full-text search. Documents are sets of
+ * named text fields; each field has a weight, so a hit in a title can count
+ * for more than a hit in a long description. Text is folded to lowercase
+ * ASCII-ish tokens ("Pokémon" matches "pokemon") before indexing.
+ *
+ * Queries match every term, allowing each term to match exactly, as the
+ * start of a longer word, or within a small edit distance to tolerate typos
+ * ("zeldda" finds "zelda"). Results are ranked with BM25, discounted for
+ * prefix and fuzzy matches.
+ *
+ * Documents can be added and removed one at a time, so an index can follow a
+ * synced document without being rebuilt.
+ */
+import { createModule, createFunction } from '../core/module';
+
+// Types
+
+/** Something to index: an id and its text, by field name */
+export interface SearchDocument {
+  id: string;
+  fields: Record<string, string | string[]>;
+}
+
+/** A ranked search hit */
+export interface SearchResult {
+  id: string;
+  score: number;
+  /** Index words each query term matched in this document */
+  matches: Record<string, string>;
+}
+
+/** Options for a search */
+export interface SearchOptions {
+  /** Let terms match the start of longer words. Defaults to true. */
+  prefix?: boolean;
+  /** Let terms match words a typo or two away. Defaults to true. */
+  fuzzy?: boolean;
+  /** Return at most this many results. Defaults to all. */
+  limit?: number;
+}
+
+interface IndexedDocument {
+  /** Field-weighted count of each word in the document */
+  terms: Map<string, number>;
+  /** Field-weighted number of words, for length normalisation */
+  length: number;
+}
+
+/**
+ * The index itself. Treat it as opaque and change it only through this module.
+ */
+export interface SearchIndex {
+  fieldWeights: Record<string, number>;
+  /** Word -> document id -> field-weighted count */
+  postings: Map<string, Map<string, number>>;
+  documents: Map<string, IndexedDocument>;
+  totalLength: number;
+  /** Words grouped by length, so fuzzy matching only compares plausible words */
+  termsByLength: Map<number, Set<string>>;
+  /** All words in order, for prefix lookups. Rebuilt on demand after words are added or dropped. */
+  sortedTerms: string[] | null;
+}
+
+// Configuration
+
+/** BM25 parameters */
+const K1 = 1.2;
+const B = 0.75;
+
+/** How much a non-exact match is worth compared with an exact one */
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHTS = [1, 0.6, 0.35];
+
+/** Shortest term that may match as a prefix or fuzzily */
+const MIN_PREFIX_LENGTH = 2;
+const MIN_FUZZY_LENGTH = 4;
+
+/** Words a single prefix may expand to, to keep short prefixes cheap */
+const MAX_PREFIX_EXPANSIONS = 50;
+
+// Helper functions
+
+/**
+ * Lowercase text and strip accents, so "Pokémon" and "POKEMON" compare equal
+ */
+const foldText = (text: string) => {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/æ/g, 'ae')
+    .replace(/ø/g, 'o');
+};
+
+/**
+ * Split text into folded words
+ */
+const tokenize = (text: string): string[] => {
+  return foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+};
+
+/**
+ * Number of edits (insert, delete, substitute, swap neighbours) between two
+ * words, or `max + 1` as soon as it's clear the distance is more than `max`
+ */
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * BM25 weight of a word that appears in `matching` of `total` documents
+ */
+const inverseDocumentFrequency = (total: number, matching: number) => {
+  return Math.log(1 + (total - matching + 0.5) / (matching + 0.5));
+};
+
+/**
+ * Edits a term may be away from a word and still match it fuzzily
+ */
+const allowedEdits = (term: string) => {
+  if (term.length < MIN_FUZZY_LENGTH) return 0;
+  return term.length >= 8 ? 2 : 1;
+};
+
+const addTerm = (index: SearchIndex, term: string) => {
+  const bucket = index.termsByLength.get(term.length) || new Set<string>();
+  bucket.add(term);
+  index.termsByLength.set(term.length, bucket);
+  index.sortedTerms = null;
+};
+
+const dropTerm = (index: SearchIndex, term: string) => {
+  index.termsByLength.get(term.length)?.delete(term);
+  index.sortedTerms = null;
+};
+
+/**
+ * Find the first position in a sorted list at or after a value
+ */
+const lowerBound = (sorted: string[], value: string) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * Find every index word a query term can match, with how much each is worth
+ */
+const expandTerm = (index: SearchIndex, term: string, options: Required<Omit<SearchOptions, 'limit'>>) => {
+  const expansions = new Map<string, number>();
+
+  if (index.postings.has(term)) {
+    expansions.set(term, 1);
+  }
+
+  if (options.prefix && term.length >= MIN_PREFIX_LENGTH) {
+    if (!index.sortedTerms) {
+      index.sortedTerms = [...index.postings.keys()].sort();
+    }
+    const sorted = index.sortedTerms;
+    for (let i = lowerBound(sorted, term), found = 0; i < sorted.length && found < MAX_PREFIX_EXPANSIONS; i++) {
+      const word = sorted[i];
+      if (!word.startsWith(term)) break;
+      if (word !== term) {
+        // Closer in length is a better match
+        expansions.set(word, PREFIX_WEIGHT * (term.length / word.length + 1) / 2);
+        found++;
+      }
+    }
+  }
+
+  const maxEdits = options.fuzzy ? allowedEdits(term) : 0;
+  for (let length = term.length - maxEdits; maxEdits > 0 && length <= term.length + maxEdits; length++) {
+    index.termsByLength.get(length)?.forEach(word => {
+      if (expansions.has(word)) return;
+      const distance = editDistance(term, word, maxEdits);
+      if (distance > 0 && distance <= maxEdits) {
+        expansions.set(word, FUZZY_WEIGHTS[distance]);
+      }
+    });
+  }
+
+  return expansions;
+};
+
+// Main functions
+
+export const createIndexFn = createFunction(
+  'createIndex',
+  'Creates an empty search index with the given field weights',
+  (fieldWeights: Record<string, number>): SearchIndex => ({
+    fieldWeights,
+    postings: new Map(),
+    documents: new Map(),
+    totalLength: 0,
+    termsByLength: new Map(),
+    sortedTerms: null
+  })
+);
+
+export const removeDocumentFn = createFunction(
+  'removeDocument',
+  'Removes a document from the index, if present',
+  (index: SearchIndex, id: string): void => {
+    const document = index.documents.get(id);
+    if (!document) return;
+
+    document.terms.forEach((_, term) => {
+      const posting = index.postings.get(term);
+      if (!posting) return;
+      posting.delete(id);
+      if (posting.size === 0) {
+        index.postings.delete(term);
+        dropTerm(index, term);
+      }
+    });
+
+    index.totalLength -= document.length;
+    index.documents.delete(id);
+  }
+);
+
+export const addDocumentFn = createFunction(
+  'addDocument',
+  'Adds a document to the index, replacing any earlier version with the same id',
+  (index: SearchIndex, document: SearchDocument): void => {
+    removeDocumentFn.fn(index, document.id);
+
+    const terms = new Map<string, number>();
+    let length = 0;
+
+    Object.entries(document.fields).forEach(([field, value]) => {
+      const weight = index.fieldWeights[field] ?? 1;
+      const text = Array.isArray(value) ? value.join(' ') : value;
+      tokenize(text).forEach(term => {
+        terms.set(term, (terms.get(term) || 0) + weight);
+        length += weight;
+      });
+    });
+
+    terms.forEach((count, term) => {
+      let posting = index.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        index.postings.set(term, posting);
+        addTerm(index, term);
+      }
+      posting.set(document.id, count);
+    });
+
+    index.documents.set(document.id, { terms, length });
+    index.totalLength += length;
+  }
+);
+
+export const searchFn = createFunction(
+  'search',
+  'Finds the documents matching every term of a query, best match first',
+  (index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] => {
+    const queryTerms = [...new Set(tokenize(query))];
+    const documentCount = index.documents.size;
+    if (queryTerms.length === 0 || documentCount === 0) return [];
+
+    const resolved = { prefix: options.prefix ?? true, fuzzy: options.fuzzy ?? true };
+    const averageLength = index.totalLength / documentCount;
+    let results: Map<string, SearchResult> | null = null;
+
+    // Score one term at a time, keeping only documents that matched every term so far
+    for (const queryTerm of queryTerms) {
+      const best = new Map<string, { score: number; word: string }>();
+
+      // A rare lookalike word shouldn't outrank the word that was actually typed,
+      // so expansions are never rarer than the term itself
+      const exactPosting = index.postings.get(queryTerm);
+      const maxIdf = exactPosting ? inverseDocumentFrequency(documentCount, exactPosting.size) : Infinity;
+
+      expandTerm(index, queryTerm, resolved).forEach((matchWeight, word) => {
+        const posting = index.postings.get(word)!;
+        const idf = Math.min(maxIdf, inverseDocumentFrequency(documentCount, posting.size));
+
+        posting.forEach((count, id) => {
+          if (results && !results.has(id)) return;
+          const length = index.documents.get(id)!.length;
+          const tf = (count * (K1 + 1)) / (count + K1 * (1 - B + B * length / averageLength));
+          const score = idf * tf * matchWeight;
+          const current = best.get(id);
+          if (!current || score > current.score) {
+            best.set(id, { score, word });
+          }
+        });
+      });
+
+      const next = new Map<string, SearchResult>();
+      best.forEach(({ score, word }, id) => {
+        const previous: SearchResult | undefined = results?.get(id);
+        next.set(id, {
+          id,
+          score: (previous?.score || 0) + score,
+          matches: { ...previous?.matches, [queryTerm]: word }
+        });
+      });
+
+      results = next;
+      if (results.size === 0) return [];
+    }
+
+    const ranked = [...results!.values()].sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+    return options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+  }
+);
+
+export const tokenizeFn = createFunction(
+  'tokenize',
+  'Splits text into the lowercase, accent-free words the index uses',
+  (text: string): string[] => tokenize(text)
+);
+
+// Module implementation
+
+const search = createModule<{
+  createIndex: typeof createIndexFn.fn;
+  addDocument: typeof addDocumentFn.fn;
+  removeDocument: typeof removeDocumentFn.fn;
+  search: typeof searchFn.fn;
+  tokenize: typeof tokenizeFn.fn;
+}>([
+  createIndexFn,
+  addDocumentFn,
+  removeDocumentFn,
+  searchFn,
+  tokenizeFn
+]);
+
+export default search;
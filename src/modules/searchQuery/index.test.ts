@@ -0,0 +1,101 @@
+import searchQuery from './index';
+import { Listing } from '../../stores/listingStore';
+import {
+  ListingType,
+  ItemCategory,
+  ItemCondition,
+  PricingUnit,
+  ContactRevealPolicy
+} from '../../types/listing';
+
+const createListing = (changes: Partial<Listing> = {}): Listing => ({
+  id: 'listing-1',
+  createdAt: 0,
+  updatedAt: 0,
+  sellerId: 'user-1',
+  sellerName: 'Bob Smith',
+  title: 'The Legend of Zelda: Breath of the Wild',
+  shortDescription: 'Nintendo Switch game',
+  detailedDescription: 'Complete in box, barely played',
+  listingType: ListingType.SELL,
+  category: ItemCategory.VIDEO_GAME,
+  price: { amountMinor: 4000, currency: 'USD', unit: PricingUnit.FIXED, orBestOffer: false },
+  condition: ItemCondition.LIKE_NEW,
+  location: 'Berlin',
+  isRemote: false,
+  contactRevealPolicy: ContactRevealPolicy.ON_MESSAGE,
+  tags: ['RPG', 'Pokémon'],
+  images: [],
+  status: 'active',
+  ...changes
+});
+
+describe('parseQuery', () => {
+  it('separates words, phrases, exclusions and qualifiers', () => {
+    const parsed = searchQuery.parseQuery('zelda "breath of the wild" -broken seller:bob tag:rpg platform:Switch');
+    expect(parsed.text).toBe('zelda');
+    expect(parsed.phrases).toEqual(['breath of the wild']);
+    expect(parsed.excludes).toEqual(['broken']);
+    expect(parsed.sellers).toEqual(['bob']);
+    expect(parsed.tags).toEqual(['rpg']);
+    expect(parsed.platforms).toEqual(['switch']);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it('reads listing types and conditions by their other names', () => {
+    const parsed = searchQuery.parseQuery('type:wanted type:service condition:likenew condition:parts');
+    expect(parsed.listingTypes).toEqual([ListingType.BUY, ListingType.OFFER_SERVICE]);
+    expect(parsed.conditions).toEqual([ItemCondition.LIKE_NEW, ItemCondition.FOR_PARTS]);
+  });
+
+  it.each([
+    ['price:<=50', { min: null, max: 50 }],
+    ['price:>=10', { min: 10, max: null }],
+    ['price:10..50', { min: 10, max: 50 }],
+    ['price:..50', { min: null, max: 50 }],
+    ['price:>=10 price:<=50 price:<=30', { min: 10, max: 30 }]
+  ])('reads %s', (input, priceRange) => {
+    expect(searchQuery.parseQuery(input).priceRange).toEqual(priceRange);
+  });
+
+  it('keeps strict price bounds a cent in', () => {
+    expect(searchQuery.parseQuery('price:>10 price:<50').priceRange).toEqual({ min: 10.01, max: 49.99 });
+  });
+
+  it('reports what it cannot read with its position', () => {
+    const input = 'zelda colour:red price:cheap';
+    const { errors } = searchQuery.parseQuery(input);
+    expect(errors).toHaveLength(2);
+    expect(input.slice(errors[0].start, errors[0].end)).toBe('colour:red');
+    expect(input.slice(errors[1].start, errors[1].end)).toBe('price:cheap');
+  });
+
+  it('never throws on unfinished input', () => {
+    expect(() => searchQuery.parseQuery('"unclosed phrase seller: -')).not.toThrow();
+  });
+});
+
+describe('matching', () => {
+  const listing = createListing();
+
+  it('needs every phrase and none of the exclusions', () => {
+    expect(searchQuery.matchesText(listing, searchQuery.parseQuery('"breath of the wild"'))).toBe(true);
+    expect(searchQuery.matchesText(listing, searchQuery.parseQuery('"wild breath"'))).toBe(false);
+    expect(searchQuery.matchesText(listing, searchQuery.parseQuery('-played'))).toBe(false);
+  });
+
+  it('matches sellers by the start of their name', () => {
+    expect(searchQuery.matchesSeller(listing, 'bob')).toBe(true);
+    expect(searchQuery.matchesSeller(listing, 'smith')).toBe(false);
+  });
+
+  it('matches tags ignoring case and accents', () => {
+    expect(searchQuery.matchesTag(listing, 'pokemon')).toBe(true);
+    expect(searchQuery.matchesTag(listing, 'rp')).toBe(false);
+  });
+
+  it('matches platforms by their other names', () => {
+    expect(searchQuery.matchesPlatform(createListing({ title: 'Mario Kart for Nintendo Switch' }), 'switch')).toBe(true);
+    expect(searchQuery.matchesPlatform(listing, 'ps5')).toBe(false);
+  });
+});
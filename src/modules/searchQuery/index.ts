@@ -0,0 +1,365 @@
+/**
+ * Search Query Module
+ *
+ * Parses the marketplace search box's small query language:
+ *
+ *   zelda "breath of the wild" -broken seller:bob tag:rpg type:trade
+ *   condition:like_new price:<50 platform:switch
+ *
+ * Plain words go to the full-text index, quoted phrases must appear word for
+ * word, `-word` and `-"a phrase"` exclude listings, and `field:value`
+ * qualifiers narrow results the way the filter panel does. Repeating a
+ * qualifier matches any of its values.
+ *
+ * Parsing never throws. Anything it can't make sense of is reported as an
+ * error with its position in the input, so the search bar can highlight it.
+ */
+import { createModule, createFunction } from '../core/module';
+import { Listing } from '../../stores/listingStore';
+import { ListingType, ItemCondition } from '../../types/listing';
+import search from '../search';
+
+// Types
+
+/** A problem with part of the query, by character position */
+export interface QueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+/** The qualifiers the query language understands */
+export type QueryField = 'seller' | 'tag' | 'type' | 'condition' | 'price' | 'platform';
+
+/** A parsed query */
+export interface ParsedQuery {
+  /** Plain words, for the full-text index */
+  text: string;
+  /** Quoted phrases that must all appear */
+  phrases: string[];
+  /** Words and phrases that must not appear */
+  excludes: string[];
+  sellers: string[];
+  tags: string[];
+  listingTypes: ListingType[];
+  conditions: ItemCondition[];
+  platforms: string[];
+  priceRange: {
+    min: number | null;
+    max: number | null;
+  };
+  errors: QueryError[];
+}
+
+// Configuration
+
+/** Qualifier names, with a short description and example for the help text */
+export const QUERY_FIELDS: { field: QueryField; example: string; description: string }[] = [
+  { field: 'seller', example: 'seller:bob', description: 'Listings by a seller' },
+  { field: 'tag', example: 'tag:rpg', description: 'Listings with a tag' },
+  { field: 'type', example: 'type:trade', description: 'sell, buy, trade, service or request' },
+  { field: 'condition', example: 'condition:like_new', description: 'new, like_new, good, fair or for_parts' },
+  { field: 'price', example: 'price:<50', description: 'Price in your currency: <50, >=10 or 10..50' },
+  { field: 'platform', example: 'platform:switch', description: 'Games and gear for a platform' }
+];
+
+/** Words accepted for each listing type */
+const TYPE_ALIASES: Record<string, ListingType> = {
+  sell: ListingType.SELL,
+  sale: ListingType.SELL,
+  buy: ListingType.BUY,
+  wanted: ListingType.BUY,
+  trade: ListingType.TRADE,
+  service: ListingType.OFFER_SERVICE,
+  offer_service: ListingType.OFFER_SERVICE,
+  request: ListingType.REQUEST_SERVICE,
+  request_service: ListingType.REQUEST_SERVICE
+};
+
+/** Words accepted for each condition */
+const CONDITION_ALIASES: Record<string, ItemCondition> = {
+  new: ItemCondition.NEW,
+  like_new: ItemCondition.LIKE_NEW,
+  likenew: ItemCondition.LIKE_NEW,
+  good: ItemCondition.GOOD,
+  fair: ItemCondition.FAIR,
+  for_parts: ItemCondition.FOR_PARTS,
+  parts: ItemCondition.FOR_PARTS
+};
+
+/**
+ * Other names each platform goes by in titles and tags. Listings have no
+ * platform field, so `platform:` looks for any of these.
+ */
+export const PLATFORM_ALIASES: Record<string, string[]> = {
+  switch: ['switch', 'nintendo switch'],
+  ps5: ['ps5', 'playstation 5'],
+  ps4: ['ps4', 'playstation 4'],
+  xbox: ['xbox', 'xbox series x', 'xbox series s', 'xbox one'],
+  pc: ['pc', 'steam', 'windows'],
+  '3ds': ['3ds', 'nintendo 3ds'],
+  wii: ['wii', 'wii u']
+};
+
+// Helper functions
+
+interface RawToken {
+  text: string;
+  start: number;
+  end: number;
+  quoted: boolean;
+  negated: boolean;
+  field?: string;
+}
+
+/**
+ * Split the input into words, quoted phrases and qualifiers, keeping positions
+ */
+const lex = (input: string, errors: QueryError[]): RawToken[] => {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    // A qualifier name, if the word continues with `name:`
+    let field: string | undefined;
+    const fieldMatch = /^([a-zA-Z]+):/.exec(input.slice(i));
+    if (fieldMatch) {
+      field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    const valueStart = i;
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ start: i, end: input.length, message: 'This quote is never closed' });
+        tokens.push({ text: input.slice(i + 1), start, end: input.length, quoted: true, negated, field });
+        break;
+      }
+      tokens.push({ text: input.slice(i + 1, close), start, end: close + 1, quoted: true, negated, field });
+      i = close + 1;
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) i++;
+      tokens.push({ text: input.slice(valueStart, i), start, end: i, quoted: false, negated, field });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Read a price qualifier value: `<50`, `<=50`, `>10`, `>=10` or `10..50`
+ */
+const parsePrice = (value: string): { min: number | null; max: number | null } | null => {
+  const number = (text: string) => {
+    const parsed = Number(text);
+    return text.trim() !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  };
+
+  const range = /^(\d*\.?\d*)\.\.(\d*\.?\d*)$/.exec(value);
+  if (range) {
+    const min = range[1] ? number(range[1]) : null;
+    const max = range[2] ? number(range[2]) : null;
+    if ((range[1] && min === null) || (range[2] && max === null) || (min === null && max === null)) return null;
+    if (min !== null && max !== null && min > max) return null;
+    return { min, max };
+  }
+
+  const comparison = /^(<=|>=|<|>)(.+)$/.exec(value);
+  if (comparison) {
+    const amount = number(comparison[2]);
+    if (amount === null) return null;
+    // Prices are compared with whole cents, so strict bounds are a cent in
+    return comparison[1].startsWith('<')
+      ? { min: null, max: comparison[1] === '<' ? amount - 0.01 : amount }
+      : { min: comparison[1] === '>' ? amount + 0.01 : amount, max: null };
+  }
+
+  return null;
+};
+
+const normalizeValue = (value: string) => value.trim().toLowerCase().replace(/-/g, '_');
+
+/**
+ * Fold text into a space-separated run of index words, padded so whole-word
+ * runs can be found with `includes`
+ */
+const foldWords = (text: string) => ` ${search.tokenize(text).join(' ')} `;
+
+/**
+ * Check whether folded text contains a word or phrase as whole words
+ */
+const containsWords = (foldedText: string, words: string) => {
+  const needle = foldWords(words);
+  return needle.trim() !== '' && foldedText.includes(needle);
+};
+
+/**
+ * All of a listing's searchable text, folded
+ */
+const foldListing = (listing: Listing) => foldWords([
+  listing.title,
+  listing.tags.join(' '),
+  listing.sellerName,
+  listing.shortDescription,
+  listing.detailedDescription
+].join(' '));
+
+// Main functions
+
+export const parseQueryFn = createFunction(
+  'parseQuery',
+  'Parses a marketplace search query into text, phrases, exclusions and qualifiers',
+  (input: string): ParsedQuery => {
+    const errors: QueryError[] = [];
+    const parsed: ParsedQuery = {
+      text: '',
+      phrases: [],
+      excludes: [],
+      sellers: [],
+      tags: [],
+      listingTypes: [],
+      conditions: [],
+      platforms: [],
+      priceRange: { min: null, max: null },
+      errors
+    };
+    const words: string[] = [];
+
+    lex(input, errors).forEach(token => {
+      const value = token.text.trim();
+      const fail = (message: string) => errors.push({ start: token.start, end: token.end, message });
+
+      if (!token.field) {
+        if (!value) return;
+        if (token.negated) parsed.excludes.push(value);
+        else if (token.quoted) parsed.phrases.push(value);
+        else words.push(value);
+        return;
+      }
+
+      const field = token.field as QueryField;
+      if (!QUERY_FIELDS.some(known => known.field === field)) {
+        fail(`Unknown filter "${token.field}:". Try ${QUERY_FIELDS.map(known => `${known.field}:`).join(', ')}`);
+        return;
+      }
+      if (token.negated) {
+        fail('Only words and phrases can be excluded with "-"');
+        return;
+      }
+      if (!value) {
+        fail(`"${field}:" needs a value, e.g. ${QUERY_FIELDS.find(known => known.field === field)!.example}`);
+        return;
+      }
+
+      switch (field) {
+        case 'seller':
+          parsed.sellers.push(value);
+          break;
+        case 'tag':
+          parsed.tags.push(value);
+          break;
+        case 'platform':
+          parsed.platforms.push(value.toLowerCase());
+          break;
+        case 'type': {
+          const type = TYPE_ALIASES[normalizeValue(value)];
+          if (type) parsed.listingTypes.push(type);
+          else fail(`Unknown listing type "${value}". Use sell, buy, trade, service or request`);
+          break;
+        }
+        case 'condition': {
+          const condition = CONDITION_ALIASES[normalizeValue(value)];
+          if (condition) parsed.conditions.push(condition);
+          else fail(`Unknown condition "${value}". Use new, like_new, good, fair or for_parts`);
+          break;
+        }
+        case 'price': {
+          const range = parsePrice(value.replace(/\s/g, ''));
+          if (!range) {
+            fail(`Can't read price "${value}". Use price:<50, price:>=10 or price:10..50`);
+          } else {
+            // Several price qualifiers narrow the range together
+            const { min, max } = parsed.priceRange;
+            parsed.priceRange = {
+              min: range.min === null ? min : Math.max(min ?? range.min, range.min),
+              max: range.max === null ? max : Math.min(max ?? range.max, range.max)
+            };
+          }
+          break;
+        }
+      }
+    });
+
+    parsed.text = words.join(' ');
+    return parsed;
+  }
+);
+
+export const matchesTextFn = createFunction(
+  'matchesText',
+  'Checks a listing contains every quoted phrase and none of the excluded words',
+  (listing: Listing, query: ParsedQuery): boolean => {
+    if (query.phrases.length === 0 && query.excludes.length === 0) return true;
+    const text = foldListing(listing);
+    return query.phrases.every(phrase => containsWords(text, phrase)) &&
+      !query.excludes.some(exclude => containsWords(text, exclude));
+  }
+);
+
+export const matchesSellerFn = createFunction(
+  'matchesSeller',
+  'Checks a listing is by a seller whose name starts with the given value',
+  (listing: Listing, seller: string): boolean => {
+    return foldWords(listing.sellerName).startsWith(foldWords(seller).trimEnd());
+  }
+);
+
+export const matchesTagFn = createFunction(
+  'matchesTag',
+  'Checks a listing has a tag, ignoring case and accents',
+  (listing: Listing, tag: string): boolean => {
+    const wanted = foldWords(tag);
+    return listing.tags.some(listingTag => foldWords(listingTag) === wanted);
+  }
+);
+
+export const matchesPlatformFn = createFunction(
+  'matchesPlatform',
+  'Checks a listing\'s title or tags mention a platform or one of its other names',
+  (listing: Listing, platform: string): boolean => {
+    const names = PLATFORM_ALIASES[platform.toLowerCase()] || [platform];
+    const text = foldWords(`${listing.title} ${listing.tags.join(' ')}`);
+    return names.some(name => containsWords(text, name));
+  }
+);
+
+// Module implementation
+
+const searchQuery = createModule<{
+  parseQuery: typeof parseQueryFn.fn;
+  matchesText: typeof matchesTextFn.fn;
+  matchesSeller: typeof matchesSellerFn.fn;
+  matchesTag: typeof matchesTagFn.fn;
+  matchesPlatform: typeof matchesPlatformFn.fn;
+}>([
+  parseQueryFn,
+  matchesTextFn,
+  matchesSellerFn,
+  matchesTagFn,
+  matchesPlatformFn
+]);
+
+export default searchQuery;
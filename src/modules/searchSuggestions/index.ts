@@ -0,0 +1,191 @@
+/**
+ * Search Suggestions Module
+ *
+ * Works out what to offer under the search box as the user types: their own
+ * recent searches, titles of matching listings, popular tags and seller
+ * names. Suggestions complete the word being typed and leave the rest of the
+ * query alone, so `type:trade zel` can become `type:trade "Zelda"`.
+ *
+ * Tag and seller suggestions carry the query with the typed word taken out,
+ * since choosing one applies a filter instead of searching for the word.
+ */
+import { createModule, createFunction } from '../core/module';
+import { Listing } from '../../stores/listingStore';
+import search from '../search';
+
+// Types
+
+/** What a suggestion is for */
+export type SuggestionKind = 'recent' | 'title' | 'tag' | 'seller';
+
+/** Something to offer under the search box */
+export interface Suggestion {
+  kind: SuggestionKind;
+  /** Text to show */
+  label: string;
+  /** The tag or seller name to filter on, or the suggested search */
+  value: string;
+  /** What the search box should hold once the suggestion is chosen */
+  query: string;
+  /** Listings with this tag or from this seller */
+  count?: number;
+}
+
+/** Where suggestions come from */
+export interface SuggestionSources {
+  /** Listings to suggest titles, tags and sellers from */
+  listings: Listing[];
+  /** The user's recent searches, newest first */
+  recentSearches: string[];
+  /** Ids of the listings matching some text, best match first */
+  rankListings?: (text: string) => string[];
+}
+
+// Configuration
+
+/** Most suggestions of each kind to offer */
+const LIMITS: Record<SuggestionKind, number> = {
+  recent: 3,
+  title: 5,
+  tag: 4,
+  seller: 3
+};
+
+/** Query words that already say what kind of suggestion is wanted */
+const FILTER_PREFIX = /^(tag|seller):(.*)$/i;
+
+/** A qualifier that's kept as-is when the rest of the query is completed */
+const QUALIFIER = /^-?[a-zA-Z]+:/;
+
+// Helper functions
+
+const fold = (text: string) => search.tokenize(text).join(' ');
+
+/**
+ * Split the input into the words before the cursor and the one being typed.
+ * The last word is empty when the input ends with a space.
+ */
+const splitInput = (input: string) => {
+  const words = input.match(/-?(?:[a-zA-Z]+:)?"[^"]*"?|\S+/g) || [];
+  if (words.length === 0 || /\s$/.test(input)) {
+    return { before: words, current: '' };
+  }
+  return { before: words.slice(0, -1), current: words[words.length - 1] };
+};
+
+/**
+ * Quote a listing title so it's searched as a phrase, and any colons or
+ * dashes in it aren't read as query syntax
+ */
+const asPhrase = (title: string) => `"${title.replace(/"/g, '').trim()}"`;
+
+/**
+ * Count how many listings have each tag or seller, keyed by folded text,
+ * keeping the first spelling seen for display
+ */
+const countValues = (listings: Listing[], valuesOf: (listing: Listing) => string[]) => {
+  const counts = new Map<string, { label: string; count: number }>();
+  listings.forEach(listing => {
+    new Set(valuesOf(listing).map(value => value.trim()).filter(Boolean)).forEach(value => {
+      const key = fold(value);
+      if (!key) return;
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { label: value, count: 1 });
+    });
+  });
+  return counts;
+};
+
+/**
+ * The most common values whose folded text, or one of its words, starts with
+ * the given prefix
+ */
+const topMatches = (
+  counts: Map<string, { label: string; count: number }>,
+  prefix: string,
+  limit: number
+) => {
+  return [...counts.entries()]
+    .filter(([key]) => !prefix || key.startsWith(prefix) || key.split(' ').some(word => word.startsWith(prefix)))
+    .sort(([a, x], [b, y]) => y.count - x.count || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([, entry]) => entry);
+};
+
+// Main functions
+
+export const suggestFn = createFunction(
+  'suggest',
+  'Suggests recent searches, listing titles, tags and sellers for a partly typed query',
+  (input: string, sources: SuggestionSources): Suggestion[] => {
+    const { before, current } = splitInput(input);
+    const rest = before.join(' ');
+    const suggestions: Suggestion[] = [];
+
+    const filterSuggestions = (kind: 'tag' | 'seller', prefix: string, limit: number) => {
+      const counts = countValues(sources.listings, listing =>
+        kind === 'tag' ? listing.tags : [listing.sellerName]
+      );
+      topMatches(counts, fold(prefix), limit).forEach(({ label, count }) => {
+        suggestions.push({ kind, label, value: label, query: rest, count });
+      });
+    };
+
+    // `tag:` and `seller:` ask for one kind of suggestion only
+    const filterPrefix = FILTER_PREFIX.exec(current);
+    if (filterPrefix) {
+      const kind = filterPrefix[1].toLowerCase() as 'tag' | 'seller';
+      filterSuggestions(kind, filterPrefix[2].replace(/"/g, ''), LIMITS.tag + LIMITS.seller);
+      return suggestions;
+    }
+
+    // Recent searches that start with what's been typed, or the latest ones
+    const typed = input.trim().toLowerCase();
+    sources.recentSearches
+      .filter(entry => entry.toLowerCase().startsWith(typed) && entry.toLowerCase() !== typed)
+      .slice(0, LIMITS.recent)
+      .forEach(entry => suggestions.push({ kind: 'recent', label: entry, value: entry, query: entry }));
+
+    // Titles of the best matching listings, keeping the query's qualifiers
+    const qualifiers = [...before, current].filter(word => QUALIFIER.test(word));
+    const text = [...before, current].filter(word => !QUALIFIER.test(word) && !word.startsWith('-')).join(' ');
+    if (fold(text) && sources.rankListings) {
+      const listingsById = new Map(sources.listings.map(listing => [listing.id, listing]));
+      const titles = new Set<string>();
+      for (const id of sources.rankListings(text)) {
+        const listing = listingsById.get(id);
+        if (!listing || titles.has(fold(listing.title))) continue;
+        titles.add(fold(listing.title));
+        suggestions.push({
+          kind: 'title',
+          label: listing.title,
+          value: listing.title,
+          query: [...qualifiers, asPhrase(listing.title)].join(' ')
+        });
+        if (titles.size >= LIMITS.title) break;
+      }
+    }
+
+    // Popular tags and sellers for the word being typed, or the most popular
+    // tags when nothing's been typed yet
+    if (fold(current) && !QUALIFIER.test(current) && !current.startsWith('-')) {
+      filterSuggestions('tag', current, LIMITS.tag);
+      filterSuggestions('seller', current, LIMITS.seller);
+    } else if (!typed) {
+      filterSuggestions('tag', '', LIMITS.tag);
+    }
+
+    return suggestions;
+  }
+);
+
+// Module implementation
+
+const searchSuggestions = createModule<{
+  suggest: typeof suggestFn.fn;
+}>([
+  suggestFn
+]);
+
+export default searchSuggestions;
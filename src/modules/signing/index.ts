@@ -0,0 +1,287 @@
+/**
+ * Signing Module
+ *
+ * Digital signatures for data written to synced documents. Any peer can write
+ * to a synced document, so records that only their owner may change carry an
+ * ECDSA (P-256, SHA-256) signature that every client can check against the
+ * owner's published public key.
+ *
+ * Payloads are serialised with `canonicalize` so that signer and verifier
+ * produce the same bytes regardless of key order.
+ *
+ * Published keys are just as writable as anything else, so a client only
+ * trusts the first key it sees for a user, plus keys that an already trusted
+ * key of the same user has endorsed.
+ */
+import { createModule, createFunction } from '../core/module';
+
+// Types
+
+/** A signing key pair in JWK form, with the fingerprint used to refer to it */
+export interface SigningKeyPair {
+  keyId: string;
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+}
+
+/** One key's statement that another key belongs to the same user */
+export interface KeyEndorsement {
+  /** The endorsing key */
+  keyId: string;
+  value: string;
+}
+
+/** A public key as published for other clients to verify against */
+export interface PublishedKey {
+  keyId: string;
+  publicKey: JsonWebKey;
+  endorsements?: KeyEndorsement[];
+}
+
+// Configuration
+
+const ECDSA_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const KEY_STORAGE_PREFIX = 'signing-keys:';
+const PINNED_KEYS_STORAGE_KEY = 'pinned-signing-keys';
+
+// Error classes
+
+export class SigningError extends Error {
+  constructor(
+    message: string,
+    public rawError?: unknown
+  ) {
+    super(message);
+    this.name = 'SigningError';
+  }
+}
+
+// Helper functions
+
+const toBase64 = (bytes: ArrayBuffer) => {
+  let binary = '';
+  new Uint8Array(bytes).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Fingerprint a public key as a short hex string
+ */
+const fingerprint = async (publicKey: JsonWebKey) => {
+  const data = new TextEncoder().encode(`${publicKey.crv}:${publicKey.x}:${publicKey.y}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * What an endorsement signs: the endorsed key, tied to its owner
+ */
+const endorsementPayload = (userId: string, key: PublishedKey) => ({
+  userId,
+  keyId: key.keyId,
+  publicKey: { crv: key.publicKey.crv, x: key.publicKey.x, y: key.publicKey.y }
+});
+
+const loadPinnedKeys = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(PINNED_KEYS_STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+// Main functions
+
+export const canonicalizeFn = createFunction(
+  'canonicalize',
+  'Serialises a value as JSON with object keys sorted, so equal values give equal strings',
+  (value: unknown): string => {
+    const normalise = (input: unknown): unknown => {
+      if (Array.isArray(input)) {
+        return input.map(normalise);
+      }
+      if (input && typeof input === 'object') {
+        return Object.keys(input as Record<string, unknown>)
+          .sort()
+          .filter(key => (input as Record<string, unknown>)[key] !== undefined)
+          .reduce<Record<string, unknown>>((result, key) => {
+            result[key] = normalise((input as Record<string, unknown>)[key]);
+            return result;
+          }, {});
+      }
+      return input;
+    };
+
+    return JSON.stringify(normalise(value));
+  }
+);
+
+export const generateKeyPairFn = createFunction(
+  'generateKeyPair',
+  'Generates a new signing key pair',
+  async (): Promise<SigningKeyPair> => {
+    const keyPair = await crypto.subtle.generateKey(ECDSA_PARAMS, true, ['sign', 'verify']);
+    const [publicKey, privateKey] = await Promise.all([
+      crypto.subtle.exportKey('jwk', keyPair.publicKey),
+      crypto.subtle.exportKey('jwk', keyPair.privateKey)
+    ]);
+    return { keyId: await fingerprint(publicKey), publicKey, privateKey };
+  }
+);
+
+export const signFn = createFunction(
+  'sign',
+  'Signs a payload with a private key, returning a base64 signature',
+  async (privateKey: JsonWebKey, payload: unknown): Promise<string> => {
+    try {
+      const key = await crypto.subtle.importKey('jwk', privateKey, ECDSA_PARAMS, false, ['sign']);
+      const signature = await crypto.subtle.sign(
+        SIGN_PARAMS,
+        key,
+        new TextEncoder().encode(canonicalizeFn.fn(payload))
+      );
+      return toBase64(signature);
+    } catch (error) {
+      throw new SigningError('Failed to sign data', error);
+    }
+  }
+);
+
+export const verifyFn = createFunction(
+  'verify',
+  'Checks a base64 signature over a payload against a public key',
+  async (publicKey: JsonWebKey, payload: unknown, signature: string): Promise<boolean> => {
+    try {
+      const key = await crypto.subtle.importKey('jwk', publicKey, ECDSA_PARAMS, false, ['verify']);
+      return await crypto.subtle.verify(
+        SIGN_PARAMS,
+        key,
+        fromBase64(signature),
+        new TextEncoder().encode(canonicalizeFn.fn(payload))
+      );
+    } catch (error) {
+      // Malformed keys or signatures simply don't verify
+      return false;
+    }
+  }
+);
+
+export const loadKeyPairFn = createFunction(
+  'loadKeyPair',
+  'Loads the signing key pair stored on this device for a user',
+  (userId: string): SigningKeyPair | null => {
+    const stored = localStorage.getItem(`${KEY_STORAGE_PREFIX}${userId}`);
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored) as SigningKeyPair;
+    } catch (e) {
+      return null;
+    }
+  }
+);
+
+export const saveKeyPairFn = createFunction(
+  'saveKeyPair',
+  'Stores a signing key pair for a user on this device',
+  (userId: string, keyPair: SigningKeyPair): void => {
+    localStorage.setItem(`${KEY_STORAGE_PREFIX}${userId}`, JSON.stringify(keyPair));
+  }
+);
+
+export const endorseKeyFn = createFunction(
+  'endorseKey',
+  'Signs a statement that a key belongs to the same user as the signing key',
+  async (userId: string, signer: SigningKeyPair, key: PublishedKey): Promise<KeyEndorsement> => ({
+    keyId: signer.keyId,
+    value: await signFn.fn(signer.privateKey, endorsementPayload(userId, key))
+  })
+);
+
+export const getTrustedKeysFn = createFunction(
+  'getTrustedKeys',
+  'Works out which of a user\'s published keys to trust: the pinned key and keys it endorses, directly or in turn',
+  async (userId: string, published: PublishedKey[], pinnedKeyId: string | null): Promise<Set<string>> => {
+    const trusted = new Set<string>();
+    if (!pinnedKeyId || !published.some(key => key.keyId === pinnedKeyId)) {
+      return trusted;
+    }
+    trusted.add(pinnedKeyId);
+
+    const keysById = new Map(published.map(key => [key.keyId, key]));
+    let added = true;
+    while (added) {
+      added = false;
+      for (const key of published) {
+        if (trusted.has(key.keyId)) continue;
+
+        for (const endorsement of key.endorsements || []) {
+          const endorser = keysById.get(endorsement.keyId);
+          if (!endorser || !trusted.has(endorser.keyId)) continue;
+
+          if (await verifyFn.fn(endorser.publicKey, endorsementPayload(userId, key), endorsement.value)) {
+            trusted.add(key.keyId);
+            added = true;
+            break;
+          }
+        }
+      }
+    }
+
+    return trusted;
+  }
+);
+
+export const loadPinnedKeyIdFn = createFunction(
+  'loadPinnedKeyId',
+  'Loads the id of the first key this client saw for a user',
+  (userId: string): string | null => loadPinnedKeys()[userId] || null
+);
+
+export const pinKeyIdFn = createFunction(
+  'pinKeyId',
+  'Remembers on this client the first key seen for a user',
+  (userId: string, keyId: string): void => {
+    localStorage.setItem(PINNED_KEYS_STORAGE_KEY, JSON.stringify({ ...loadPinnedKeys(), [userId]: keyId }));
+  }
+);
+
+// Module implementation
+
+const signing = createModule<{
+  canonicalize: typeof canonicalizeFn.fn;
+  generateKeyPair: typeof generateKeyPairFn.fn;
+  sign: typeof signFn.fn;
+  verify: typeof verifyFn.fn;
+  loadKeyPair: typeof loadKeyPairFn.fn;
+  saveKeyPair: typeof saveKeyPairFn.fn;
+  endorseKey: typeof endorseKeyFn.fn;
+  getTrustedKeys: typeof getTrustedKeysFn.fn;
+  loadPinnedKeyId: typeof loadPinnedKeyIdFn.fn;
+  pinKeyId: typeof pinKeyIdFn.fn;
+}>([
+  canonicalizeFn,
+  generateKeyPairFn,
+  signFn,
+  verifyFn,
+  loadKeyPairFn,
+  saveKeyPairFn,
+  endorseKeyFn,
+  getTrustedKeysFn,
+  loadPinnedKeyIdFn,
+  pinKeyIdFn
+]);
+
+export default signing;
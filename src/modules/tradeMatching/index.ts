@@ -0,0 +1,326 @@
+/**
+ * Trade matching Module
+ *
+ * Connects what users have with what other users want. Haves come from a
+ * user's have list and their active TRADE listings, wants come from their
+ * want list and their active BUY listings. The engine builds a "who can give
+ * to whom" graph and finds direct two-way swaps as well as longer trade
+ * cycles (A gives to B, B gives to C, C gives to A).
+ */
+import { createModule, createFunction } from '../core/module';
+import { Listing, ListingType } from '../../stores/listingStore';
+import { UserProfile } from '../../stores/userStore';
+
+// Types
+
+/** Something a user has or wants */
+export interface TradeItem {
+  /** Text shown to users, e.g. a game title */
+  label: string;
+  /** Listing the item comes from, when it isn't a free-text list entry */
+  listingId?: string;
+}
+
+/** One hop of a trade: a user hands items to the next user in the cycle */
+export interface TradeMatchLeg {
+  fromUserId: string;
+  fromUserName: string;
+  toUserId: string;
+  toUserName: string;
+  /** Items the giver has that the receiver wants */
+  items: TradeItem[];
+}
+
+/** A closed trade loop in which every participant gives and receives something */
+export interface TradeMatch {
+  /** Stable id derived from the participants, so results can be keyed across renders */
+  id: string;
+  kind: 'direct' | 'cycle';
+  participantIds: string[];
+  legs: TradeMatchLeg[];
+}
+
+/** Input data for the matching engine */
+export interface TradeMatchInput {
+  users: UserProfile[];
+  listings: Listing[];
+}
+
+/** Options for the matching engine */
+export interface TradeMatchOptions {
+  /** Longest cycle to look for, counted in participants. Defaults to 4. */
+  maxCycleLength?: number;
+  /** Stop after this many matches. Defaults to 50. */
+  maxResults?: number;
+}
+
+// Helper functions
+
+const DEFAULT_OPTIONS: Required<TradeMatchOptions> = {
+  maxCycleLength: 4,
+  maxResults: 50
+};
+
+/** Words that carry no meaning when comparing titles */
+const STOP_WORDS = new Set(['the', 'a', 'an', 'of', 'and', 'for', 'to', 'in', 'on', 'edition']);
+
+interface IndexedItem extends TradeItem {
+  userId: string;
+  tokens: string[];
+}
+
+interface Inventory {
+  userId: string;
+  userName: string;
+  haves: IndexedItem[];
+  wants: IndexedItem[];
+}
+
+/**
+ * Split a label into lowercase comparison tokens
+ */
+const tokenize = (label: string): string[] => {
+  return label
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOP_WORDS.has(token));
+};
+
+/**
+ * Gather each user's haves and wants from their lists and active listings
+ */
+const buildInventories = ({ users, listings }: TradeMatchInput): Map<string, Inventory> => {
+  const inventories = new Map<string, Inventory>();
+
+  const getInventory = (userId: string, userName: string) => {
+    let inventory = inventories.get(userId);
+    if (!inventory) {
+      inventory = { userId, userName, haves: [], wants: [] };
+      inventories.set(userId, inventory);
+    }
+    return inventory;
+  };
+
+  const addItem = (list: IndexedItem[], userId: string, item: TradeItem) => {
+    const tokens = tokenize(item.label);
+    if (tokens.length > 0) {
+      list.push({ ...item, userId, tokens });
+    }
+  };
+
+  users.forEach(user => {
+    const inventory = getInventory(user.id, user.name);
+    (user.haveList || []).forEach(label => addItem(inventory.haves, user.id, { label }));
+    (user.wantList || []).forEach(label => addItem(inventory.wants, user.id, { label }));
+  });
+
+  listings
+    .filter(listing => listing.status === 'active')
+    .forEach(listing => {
+      const inventory = getInventory(listing.sellerId, listing.sellerName);
+      const item = { label: listing.title, listingId: listing.id };
+
+      if (listing.listingType === ListingType.TRADE) {
+        addItem(inventory.haves, listing.sellerId, item);
+      } else if (listing.listingType === ListingType.BUY) {
+        addItem(inventory.wants, listing.sellerId, item);
+      }
+    });
+
+  return inventories;
+};
+
+/**
+ * Build the directed "can give to" graph. A want matches a have when every
+ * token of the want appears in the have, so "zelda" matches
+ * "Legend of Zelda: Breath of the Wild".
+ */
+const buildGraph = (inventories: Map<string, Inventory>): Map<string, Map<string, TradeMatchLeg>> => {
+  // Index haves by token so each want only checks plausible candidates
+  const havesByToken = new Map<string, IndexedItem[]>();
+  inventories.forEach(inventory => {
+    inventory.haves.forEach(have => {
+      new Set(have.tokens).forEach(token => {
+        const bucket = havesByToken.get(token) || [];
+        bucket.push(have);
+        havesByToken.set(token, bucket);
+      });
+    });
+  });
+
+  const graph = new Map<string, Map<string, TradeMatchLeg>>();
+
+  inventories.forEach(receiver => {
+    receiver.wants.forEach(want => {
+      // Start from the rarest token to keep the candidate list short
+      const candidates = want.tokens
+        .map(token => havesByToken.get(token) || [])
+        .reduce((shortest, bucket) => bucket.length < shortest.length ? bucket : shortest);
+
+      candidates.forEach(have => {
+        if (have.userId === receiver.userId) return;
+        if (!want.tokens.every(token => have.tokens.includes(token))) return;
+
+        const giver = inventories.get(have.userId)!;
+        const edges = graph.get(giver.userId) || new Map<string, TradeMatchLeg>();
+        const leg = edges.get(receiver.userId) || {
+          fromUserId: giver.userId,
+          fromUserName: giver.userName,
+          toUserId: receiver.userId,
+          toUserName: receiver.userName,
+          items: []
+        };
+
+        if (!leg.items.some(item => item.label === have.label && item.listingId === have.listingId)) {
+          leg.items.push({ label: have.label, listingId: have.listingId });
+        }
+
+        edges.set(receiver.userId, leg);
+        graph.set(giver.userId, edges);
+      });
+    });
+  });
+
+  return graph;
+};
+
+/**
+ * Find every cycle in the graph up to the configured length. Each cycle is
+ * only reported once, starting from its smallest user id.
+ */
+const findCycles = (
+  graph: Map<string, Map<string, TradeMatchLeg>>,
+  options: Required<TradeMatchOptions>
+): TradeMatch[] => {
+  const matches: TradeMatch[] = [];
+  const startIds = Array.from(graph.keys()).sort();
+
+  for (const startId of startIds) {
+    const path: string[] = [startId];
+
+    const visit = (userId: string): boolean => {
+      const edges = graph.get(userId);
+      if (!edges) return false;
+
+      for (const nextId of Array.from(edges.keys()).sort()) {
+        if (nextId === startId && path.length >= 2) {
+          const legs = path.map((id, index) =>
+            graph.get(id)!.get(path[(index + 1) % path.length])!
+          );
+          matches.push({
+            id: path.join('>'),
+            kind: path.length === 2 ? 'direct' : 'cycle',
+            participantIds: [...path],
+            legs
+          });
+          if (matches.length >= options.maxResults) return true;
+          continue;
+        }
+
+        if (nextId <= startId || path.includes(nextId) || path.length >= options.maxCycleLength) {
+          continue;
+        }
+
+        path.push(nextId);
+        if (visit(nextId)) return true;
+        path.pop();
+      }
+
+      return false;
+    };
+
+    if (visit(startId)) break;
+  }
+
+  // Direct swaps are the easiest to arrange, so show them first
+  return matches.sort((a, b) => a.participantIds.length - b.participantIds.length);
+};
+
+/**
+ * Find the cycles one user takes part in, up to the configured length. The
+ * search only walks out from that user, shortest cycles first, and stops as
+ * soon as it has enough, so its cost doesn't grow with the rest of the graph.
+ */
+const findCyclesThrough = (
+  graph: Map<string, Map<string, TradeMatchLeg>>,
+  userId: string,
+  options: Required<TradeMatchOptions>
+): TradeMatch[] => {
+  const matches: TradeMatch[] = [];
+  if (!graph.has(userId)) return matches;
+
+  const path: string[] = [userId];
+
+  // Cycles are found one length at a time, so direct swaps come first
+  const visit = (length: number): boolean => {
+    const edges = graph.get(path[path.length - 1]);
+    if (!edges) return false;
+
+    if (path.length === length) {
+      if (!edges.has(userId)) return false;
+      const legs = path.map((id, index) =>
+        graph.get(id)!.get(path[(index + 1) % path.length])!
+      );
+      matches.push({
+        id: path.join('>'),
+        kind: path.length === 2 ? 'direct' : 'cycle',
+        participantIds: [...path],
+        legs
+      });
+      return matches.length >= options.maxResults;
+    }
+
+    for (const nextId of Array.from(edges.keys()).sort()) {
+      if (nextId === userId || path.includes(nextId)) continue;
+
+      path.push(nextId);
+      if (visit(length)) return true;
+      path.pop();
+    }
+
+    return false;
+  };
+
+  for (let length = 2; length <= options.maxCycleLength; length++) {
+    if (visit(length)) break;
+  }
+
+  return matches;
+};
+
+// Main functions
+
+export const findTradeMatchesFn = createFunction(
+  'findTradeMatches',
+  'Finds direct swaps and multi-party trade cycles among all users',
+  (input: TradeMatchInput, options: TradeMatchOptions = {}): TradeMatch[] => {
+    const resolved = { ...DEFAULT_OPTIONS, ...options };
+    const graph = buildGraph(buildInventories(input));
+    return findCycles(graph, resolved);
+  }
+);
+
+export const findTradeMatchesForUserFn = createFunction(
+  'findTradeMatchesForUser',
+  'Finds the trade matches a single user takes part in',
+  (userId: string, input: TradeMatchInput, options: TradeMatchOptions = {}): TradeMatch[] => {
+    const resolved = { ...DEFAULT_OPTIONS, ...options };
+    const graph = buildGraph(buildInventories(input));
+
+    return findCyclesThrough(graph, userId, resolved);
+  }
+);
+
+// Module implementation
+
+const tradeMatching = createModule<{
+  findTradeMatches: typeof findTradeMatchesFn.fn;
+  findTradeMatchesForUser: typeof findTradeMatchesForUserFn.fn;
+}>([
+  findTradeMatchesFn,
+  findTradeMatchesForUserFn
+]);
+
+export default tradeMatching;
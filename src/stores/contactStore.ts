@@ -0,0 +1,501 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import { useUserStore, UserProfile } from './userStore';
+import { useListingStore, Listing, ContactRevealPolicy } from './listingStore';
+import { useMessageStore, hasExchangedMessages, isThreadParticipant } from './messageStore';
+import { useOfferStore, OfferStatus } from './offerStore';
+import { useTradeStore, TradeProposalStatus } from './tradeStore';
+import encryption, { SealedMessage, EncryptionKeyPair } from '../modules/encryption';
+
+/**
+ * A listing's contact details sealed to one buyer
+ */
+export interface ContactReveal {
+  sealed: SealedMessage;
+  /** Fingerprint of the buyer key the details were sealed to */
+  recipientKeyId: string;
+  revealedAt: number;
+}
+
+/**
+ * The contact details on a user's profile
+ */
+export interface ProfileContacts {
+  email?: string;
+  primaryContact?: string;
+  additionalContacts?: string[];
+}
+
+/**
+ * Store state interface
+ *
+ * Contact details are never stored in plain text. The seller's copy is sealed
+ * to their own public key, and each buyer who qualifies under the listing's
+ * reveal policy gets a copy sealed to theirs. Revealing needs the seller's
+ * private key, so reveals are written whenever the seller is online.
+ *
+ * Profile contact details work the same way, keyed by user, and are revealed
+ * to the users someone has messaged or made a deal with.
+ *
+ * Every device a user logs in on shares their key pair, from their key vault.
+ */
+interface ContactState {
+  sealedContacts: Record<string, SealedMessage>;
+  reveals: Record<string, Record<string, ContactReveal>>;
+  sealedProfileContacts: Record<string, SealedMessage>;
+  profileReveals: Record<string, Record<string, ContactReveal>>;
+  isLoading: boolean;
+  error: string | null;
+
+  // Selectors
+  hasContactReveal: (listingId: string, userId: string) => boolean;
+
+  // Actions
+  setContactInfo: (listingId: string, contactInfo: string) => Promise<boolean>;
+  getOwnContactInfo: (listingId: string) => Promise<string | null>;
+  getRevealedContactInfo: (listingId: string) => Promise<string | null>;
+  revealPendingContacts: () => Promise<void>;
+  sealLegacyContactInfo: (listingId: string, sellerId: string, contactInfo: string) => Promise<boolean>;
+  setProfileContacts: (contacts: ProfileContacts) => Promise<boolean>;
+  getOwnProfileContacts: () => Promise<ProfileContacts | null>;
+  getRevealedProfileContacts: (userId: string) => Promise<ProfileContacts | null>;
+  sealLegacyProfileContacts: (userId: string, contacts: ProfileContacts) => Promise<boolean>;
+}
+
+/**
+ * Readable labels for each reveal policy, in the order they are offered to sellers
+ */
+export const CONTACT_REVEAL_POLICY_LABELS: Record<ContactRevealPolicy, string> = {
+  [ContactRevealPolicy.ON_MESSAGE]: "After they message me about this listing and I've replied",
+  [ContactRevealPolicy.ON_ACCEPTED_DEAL]: 'Only after I accept their offer or trade',
+  [ContactRevealPolicy.MESSAGES_ONLY]: 'Never, keep it to in-app messages'
+};
+
+/**
+ * Get a listing's reveal policy, defaulting for listings made before policies existed
+ */
+export const getContactRevealPolicy = (listing: Listing) => {
+  return listing.contactRevealPolicy || ContactRevealPolicy.ON_MESSAGE;
+};
+
+/**
+ * Load the current user's key pair, which is unlocked from their key vault at
+ * login. A device holding a different key than the published one, e.g. one
+ * still logged in from before devices shared keys, never replaces it, since
+ * the user's other devices couldn't open what's sealed to it.
+ */
+const getOwnKeyPair = (user: UserProfile): EncryptionKeyPair => {
+  const stored = encryption.loadKeyPair(user.id);
+
+  if (!stored || (user.encryptionPublicKey && user.encryptionPublicKey.x !== stored.publicKey.x)) {
+    throw new Error('Log in again on this device to use your contact details');
+  }
+  return stored;
+};
+
+/**
+ * Find the users who may see a listing's contact details under its reveal policy
+ */
+const getEligibleBuyerIds = async (listing: Listing) => {
+  const policy = getContactRevealPolicy(listing);
+  const buyerIds = new Set<string>();
+
+  if (policy === ContactRevealPolicy.MESSAGES_ONLY) {
+    return buyerIds;
+  }
+
+  if (policy === ContactRevealPolicy.ON_MESSAGE) {
+    const threads = useMessageStore.getState().threads.filter(thread => thread.listingId === listing.id);
+    for (const thread of threads) {
+      if (await hasExchangedMessages(thread)) buyerIds.add(thread.buyerId);
+    }
+  }
+
+  // An accepted deal qualifies under both remaining policies
+  useOfferStore.getState().getOffersForListing(listing.id)
+    .filter(offer => offer.status === OfferStatus.ACCEPTED)
+    .forEach(offer => buyerIds.add(offer.buyerId));
+
+  useTradeStore.getState().getProposalsForListing(listing.id)
+    .filter(proposal => proposal.status === TradeProposalStatus.ACCEPTED)
+    .forEach(proposal => {
+      buyerIds.add(proposal.proposerId === listing.sellerId ? proposal.recipientId : proposal.proposerId);
+    });
+
+  buyerIds.delete(listing.sellerId);
+  return buyerIds;
+};
+
+/**
+ * Find the users who may see someone's profile contact details: anyone they
+ * have exchanged messages or made an accepted deal with
+ */
+const getProfileContactRecipientIds = async (userId: string) => {
+  const recipientIds = new Set<string>();
+
+  const threads = useMessageStore.getState().threads.filter(thread => isThreadParticipant(thread, userId));
+  for (const thread of threads) {
+    if (await hasExchangedMessages(thread)) {
+      recipientIds.add(thread.buyerId === userId ? thread.sellerId : thread.buyerId);
+    }
+  }
+
+  Object.values(useOfferStore.getState().offersByListing).flat()
+    .filter(offer => offer.status === OfferStatus.ACCEPTED)
+    .forEach(offer => {
+      if (offer.buyerId === userId) recipientIds.add(offer.sellerId);
+      if (offer.sellerId === userId) recipientIds.add(offer.buyerId);
+    });
+
+  useTradeStore.getState().proposals
+    .filter(proposal => proposal.status === TradeProposalStatus.ACCEPTED)
+    .forEach(proposal => {
+      if (proposal.proposerId === userId) recipientIds.add(proposal.recipientId);
+      if (proposal.recipientId === userId) recipientIds.add(proposal.proposerId);
+    });
+
+  recipientIds.delete(userId);
+  return recipientIds;
+};
+
+/**
+ * Work out the reveals one sealed copy should have, sealing the details to
+ * anyone new. Existing reveals are kept while the recipient's key is unchanged.
+ */
+const updateReveals = async (
+  existing: Record<string, ContactReveal>,
+  recipientIds: Set<string>,
+  profiles: UserProfile[],
+  openOwnCopy: () => Promise<string | null>
+) => {
+  const next: Record<string, ContactReveal> = {};
+  let changed = false;
+  let plaintext: string | null | undefined;
+
+  for (const recipientId of recipientIds) {
+    const publicKey = profiles.find(profile => profile.id === recipientId)?.encryptionPublicKey;
+    if (!publicKey) continue;
+
+    const keyId = await encryption.getKeyId(publicKey);
+    if (existing[recipientId]?.recipientKeyId === keyId) {
+      next[recipientId] = existing[recipientId];
+      continue;
+    }
+
+    // Only decrypt the owner's copy when there is someone new to reveal to
+    if (plaintext === undefined) {
+      plaintext = await openOwnCopy();
+    }
+    if (plaintext === null) break;
+
+    next[recipientId] = {
+      sealed: await encryption.seal(publicKey, plaintext),
+      recipientKeyId: keyId,
+      revealedAt: Date.now()
+    };
+    changed = true;
+  }
+
+  // Reveals for users who no longer qualify are dropped
+  if (Object.keys(existing).some(recipientId => !next[recipientId])) {
+    changed = true;
+  }
+
+  return { next, changed };
+};
+
+/**
+ * Read profile contact details from their sealed form
+ */
+const parseProfileContacts = (plaintext: string | null): ProfileContacts | null => {
+  if (plaintext === null) return null;
+
+  try {
+    return JSON.parse(plaintext) as ProfileContacts;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Create the contact store
+ */
+export const useContactStore = create<ContactState>(
+  sync(
+    (set, get) => ({
+      sealedContacts: {},
+      reveals: {},
+      sealedProfileContacts: {},
+      profileReveals: {},
+      isLoading: false,
+      error: null,
+
+      // Selectors
+      hasContactReveal: (listingId, userId) => {
+        return Boolean(get().reveals[listingId]?.[userId]);
+      },
+
+      // Actions
+      setContactInfo: async (listingId, contactInfo) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const currentUser = useUserStore.getState().getCurrentUser();
+
+          if (!currentUser) {
+            throw new Error('You must be logged in to set contact details');
+          }
+
+          // New listings are sealed before they are added, so the listing may not exist yet
+          const listing = useListingStore.getState().getListingById(listingId);
+          if (listing && listing.sellerId !== currentUser.id) {
+            throw new Error('You can only set contact details on your own listings');
+          }
+
+          const keyPair = getOwnKeyPair(currentUser);
+          const sealed = await encryption.seal(keyPair.publicKey, contactInfo.trim());
+
+          // Drop existing reveals so buyers get the new details on the next pass
+          set(state => {
+            const { [listingId]: _previous, ...reveals } = state.reveals;
+            return {
+              sealedContacts: { ...state.sealedContacts, [listingId]: sealed },
+              reveals,
+              isLoading: false
+            };
+          });
+
+          console.log('Updated contact details for listing:', listingId);
+
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to save contact details';
+          console.error('Error saving contact details:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          return false;
+        }
+      },
+
+      getOwnContactInfo: async (listingId) => {
+        const currentUser = useUserStore.getState().getCurrentUser();
+        const sealed = get().sealedContacts[listingId];
+
+        if (!currentUser || !sealed) {
+          return null;
+        }
+
+        return encryption.openWithStoredKeys(currentUser.id, sealed);
+      },
+
+      getRevealedContactInfo: async (listingId) => {
+        const currentUser = useUserStore.getState().getCurrentUser();
+        const reveal = currentUser ? get().reveals[listingId]?.[currentUser.id] : undefined;
+
+        if (!currentUser || !reveal) {
+          return null;
+        }
+
+        return encryption.openWithStoredKeys(currentUser.id, reveal.sealed);
+      },
+
+      revealPendingContacts: async () => {
+        const currentUser = useUserStore.getState().getCurrentUser();
+        if (!currentUser) return;
+
+        const { profiles } = useUserStore.getState();
+        const ownListings = useListingStore.getState().getListingsBySeller(currentUser.id);
+        const updates: Record<string, Record<string, ContactReveal>> = {};
+        let changed = false;
+
+        for (const listing of ownListings) {
+          if (!get().sealedContacts[listing.id]) continue;
+
+          const result = await updateReveals(
+            get().reveals[listing.id] || {},
+            await getEligibleBuyerIds(listing),
+            profiles,
+            () => get().getOwnContactInfo(listing.id)
+          );
+          updates[listing.id] = result.next;
+          changed = changed || result.changed;
+        }
+
+        if (get().sealedProfileContacts[currentUser.id]) {
+          const result = await updateReveals(
+            get().profileReveals[currentUser.id] || {},
+            await getProfileContactRecipientIds(currentUser.id),
+            profiles,
+            () => encryption.openWithStoredKeys(currentUser.id, get().sealedProfileContacts[currentUser.id])
+          );
+          if (result.changed) {
+            set(state => ({ profileReveals: { ...state.profileReveals, [currentUser.id]: result.next } }));
+            console.log('Updated profile contact reveals');
+          }
+        }
+
+        if (!changed) return;
+
+        set(state => ({ reveals: { ...state.reveals, ...updates } }));
+        console.log('Updated contact reveals');
+      },
+
+      // Sealing only needs the seller's public key, so any client can move
+      // plain-text details off an old listing without waiting for the seller
+      sealLegacyContactInfo: async (listingId, sellerId, contactInfo) => {
+        if (get().sealedContacts[listingId]) {
+          return true;
+        }
+
+        const seller = useUserStore.getState().profiles.find(profile => profile.id === sellerId);
+        if (!seller?.encryptionPublicKey) {
+          return false;
+        }
+
+        const sealed = await encryption.seal(seller.encryptionPublicKey, contactInfo.trim());
+        set(state => ({
+          sealedContacts: { ...state.sealedContacts, [listingId]: sealed }
+        }));
+        return true;
+      },
+
+      setProfileContacts: async (contacts) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const currentUser = useUserStore.getState().getCurrentUser();
+
+          if (!currentUser) {
+            throw new Error('You must be logged in to set contact details');
+          }
+
+          const keyPair = getOwnKeyPair(currentUser);
+          const sealed = await encryption.seal(keyPair.publicKey, JSON.stringify(contacts));
+
+          // Drop existing reveals so other users get the new details on the next pass
+          set(state => {
+            const { [currentUser.id]: _previous, ...profileReveals } = state.profileReveals;
+            return {
+              sealedProfileContacts: { ...state.sealedProfileContacts, [currentUser.id]: sealed },
+              profileReveals,
+              isLoading: false
+            };
+          });
+
+          console.log('Updated profile contact details');
+
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to save contact details';
+          console.error('Error saving contact details:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          return false;
+        }
+      },
+
+      getOwnProfileContacts: async () => {
+        const currentUser = useUserStore.getState().getCurrentUser();
+        const sealed = currentUser ? get().sealedProfileContacts[currentUser.id] : undefined;
+
+        if (!currentUser || !sealed) {
+          return null;
+        }
+
+        return parseProfileContacts(await encryption.openWithStoredKeys(currentUser.id, sealed));
+      },
+
+      getRevealedProfileContacts: async (userId) => {
+        const currentUser = useUserStore.getState().getCurrentUser();
+        const reveal = currentUser ? get().profileReveals[userId]?.[currentUser.id] : undefined;
+
+        if (!currentUser || !reveal) {
+          return null;
+        }
+
+        return parseProfileContacts(await encryption.openWithStoredKeys(currentUser.id, reveal.sealed));
+      },
+
+      // Like listing details, any client can seal an old profile's details
+      // to its owner's public key
+      sealLegacyProfileContacts: async (userId, contacts) => {
+        if (get().sealedProfileContacts[userId]) {
+          return true;
+        }
+
+        const owner = useUserStore.getState().profiles.find(profile => profile.id === userId);
+        if (!owner?.encryptionPublicKey) {
+          return false;
+        }
+
+        const sealed = await encryption.seal(owner.encryptionPublicKey, JSON.stringify(contacts));
+        set(state => ({
+          sealedProfileContacts: { ...state.sealedProfileContacts, [userId]: sealed }
+        }));
+        return true;
+      }
+    }),
+    {
+      docId: "marketplace-contacts",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Contact sync initialization error:", error);
+      }
+    }
+  )
+);
+
+/**
+ * Keep legacy contact details and reveals up to date as the documents
+ * they depend on change. Runs are serialised and coalesced since they're async.
+ */
+let isSyncingContacts = false;
+let hasPendingSync = false;
+
+const syncContacts = async () => {
+  if (isSyncingContacts) {
+    hasPendingSync = true;
+    return;
+  }
+
+  isSyncingContacts = true;
+  try {
+    await useListingStore.getState().migrateLegacyContactInfo();
+    await useUserStore.getState().migrateLegacyProfileContacts();
+    if (useUserStore.getState().getCurrentUser()) {
+      await useContactStore.getState().revealPendingContacts();
+    }
+  } catch (error) {
+    console.error('Error syncing contact details:', error);
+  } finally {
+    isSyncingContacts = false;
+    if (hasPendingSync) {
+      hasPendingSync = false;
+      syncContacts();
+    }
+  }
+};
+
+/**
+ * Start watching the stores contact reveals depend on. Called once at startup,
+ * after every store has been created, since the stores import each other.
+ */
+export const startContactSync = () => {
+  useUserStore.subscribe((state, prev) => {
+    if (state.activeProfileId !== prev.activeProfileId || state.profiles !== prev.profiles) {
+      syncContacts();
+    }
+  });
+  useListingStore.subscribe((state, prev) => {
+    if (state.listings !== prev.listings) syncContacts();
+  });
+  useMessageStore.subscribe((state, prev) => {
+    if (state.threads !== prev.threads) syncContacts();
+  });
+  useOfferStore.subscribe((state, prev) => {
+    if (state.offersByListing !== prev.offersByListing) syncContacts();
+  });
+  useTradeStore.subscribe((state, prev) => {
+    if (state.proposals !== prev.proposals) syncContacts();
+  });
+
+  syncContacts();
+};
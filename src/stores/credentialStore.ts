@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import passwordHashing, { PasswordRecord } from '../modules/passwordHashing';
+import { WrappedKeys } from '../modules/keyVault';
+
+/**
+ * Store state interface
+ *
+ * Password hashes live in their own document, apart from the public profiles
+ * every view reads. This does not keep them secret: there is no server to
+ * check passwords, so the document syncs to every peer, and anyone with a
+ * copy can try guesses against the hashes offline for as long as they like.
+ * Salting and a slow KDF only make each guess expensive; a weak password can
+ * still be cracked. Treat this as a login check between honest peers, not as
+ * protection of the passwords themselves.
+ *
+ * Each user's key vault sits alongside their password hash, wrapped with the
+ * same password, and is exposed to the same offline guessing.
+ */
+interface CredentialState {
+  credentials: Record<string, PasswordRecord>;
+  keyVaults: Record<string, WrappedKeys>;
+
+  // Selectors
+  hasCredential: (userId: string) => boolean;
+
+  // Actions
+  setPassword: (userId: string, password: string) => Promise<void>;
+  verifyPassword: (userId: string, password: string) => Promise<boolean>;
+  setKeyVault: (userId: string, vault: WrappedKeys) => void;
+  removeCredential: (userId: string) => void;
+}
+
+/**
+ * Create the credential store
+ */
+export const useCredentialStore = create<CredentialState>(
+  sync(
+    (set, get) => ({
+      credentials: {},
+      keyVaults: {},
+
+      // Selectors
+      hasCredential: (userId) => {
+        return Boolean(get().credentials[userId]);
+      },
+
+      // Actions
+      setPassword: async (userId, password) => {
+        const record = await passwordHashing.hashPassword(password);
+        set(state => ({
+          credentials: { ...state.credentials, [userId]: record }
+        }));
+      },
+
+      verifyPassword: async (userId, password) => {
+        const record = get().credentials[userId];
+        if (!record) return false;
+
+        const isMatch = await passwordHashing.verifyPassword(password, record);
+
+        // Raise the work factor on old records while we have the password
+        if (isMatch && passwordHashing.needsRehash(record)) {
+          await get().setPassword(userId, password);
+        }
+
+        return isMatch;
+      },
+
+      setKeyVault: (userId, vault) => {
+        set(state => ({
+          keyVaults: { ...state.keyVaults, [userId]: vault }
+        }));
+      },
+
+      removeCredential: (userId) => {
+        set(state => {
+          const { [userId]: _removed, ...credentials } = state.credentials;
+          const { [userId]: _removedVault, ...keyVaults } = state.keyVaults;
+          return { credentials, keyVaults };
+        });
+      }
+    }),
+    {
+      docId: "player-finder-credentials",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Credential sync initialization error:", error);
+      }
+    }
+  )
+);
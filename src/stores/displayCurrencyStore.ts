@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { useUserStore } from './userStore';
+import { DEFAULT_CURRENCY } from '../modules/money';
+
+/**
+ * Store state interface
+ *
+ * The display currency is a per-viewer preference, so unlike most stores this
+ * one is not synced. Guests keep it in localStorage, logged-in users also get
+ * it saved on their profile so it follows them to other devices.
+ */
+interface DisplayCurrencyState {
+  localCurrency: string;
+
+  // Selectors
+  getDisplayCurrency: () => string;
+
+  // Actions
+  setDisplayCurrency: (currency: string) => void;
+}
+
+const STORAGE_KEY = "display-currency";
+
+/**
+ * Create the display currency store
+ */
+export const useDisplayCurrencyStore = create<DisplayCurrencyState>((set, get) => ({
+  localCurrency: localStorage.getItem(STORAGE_KEY) || DEFAULT_CURRENCY,
+
+  getDisplayCurrency: () => {
+    const currentUser = useUserStore.getState().getCurrentUser();
+    return currentUser?.displayCurrency || get().localCurrency;
+  },
+
+  setDisplayCurrency: (currency) => {
+    localStorage.setItem(STORAGE_KEY, currency);
+    set({ localCurrency: currency });
+
+    const userStore = useUserStore.getState();
+    const currentUser = userStore.getCurrentUser();
+    if (currentUser) {
+      userStore.updateProfileDetails(currentUser.id, { displayCurrency: currency });
+    }
+  }
+}));
@@ -0,0 +1,116 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import { useUserStore } from './userStore';
+
+/**
+ * Exchange rates maintained by admins. Each rate is how many units of the
+ * currency one unit of the base currency buys.
+ */
+export interface ExchangeRateTable {
+  baseCurrency: string;
+  rates: Record<string, number>;
+}
+
+/**
+ * Store state interface
+ */
+interface ExchangeRateState extends ExchangeRateTable {
+  updatedAt: number | null;
+  updatedBy: string | null;
+  error: string | null;
+
+  // Actions
+  setRate: (currency: string, rate: number) => boolean;
+  removeRate: (currency: string) => boolean;
+}
+
+/**
+ * Check that the current user may edit the rate table
+ */
+const requireAdmin = () => {
+  const userStore = useUserStore.getState();
+  const currentUser = userStore.getCurrentUser();
+
+  if (!currentUser || !userStore.isCurrentUserAdmin()) {
+    throw new Error('Only administrators can change exchange rates');
+  }
+
+  return currentUser;
+};
+
+/**
+ * Create the exchange rate store
+ */
+export const useExchangeRateStore = create<ExchangeRateState>(
+  sync(
+    (set, get) => ({
+      baseCurrency: 'USD',
+      rates: {},
+      updatedAt: null,
+      updatedBy: null,
+      error: null,
+
+      setRate: (currency, rate) => {
+        try {
+          const currentUser = requireAdmin();
+
+          if (currency === get().baseCurrency) {
+            throw new Error('The base currency always has a rate of 1');
+          }
+
+          if (!(rate > 0) || !isFinite(rate)) {
+            throw new Error('Exchange rates must be positive numbers');
+          }
+
+          set(state => ({
+            rates: { ...state.rates, [currency]: rate },
+            updatedAt: Date.now(),
+            updatedBy: currentUser.name,
+            error: null
+          }));
+
+          console.log(`Set exchange rate ${get().baseCurrency}/${currency} to ${rate}`);
+
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to set exchange rate';
+          console.error('Error setting exchange rate:', errorMessage);
+          set({ error: errorMessage });
+          return false;
+        }
+      },
+
+      removeRate: (currency) => {
+        try {
+          const currentUser = requireAdmin();
+
+          set(state => {
+            const { [currency]: _removed, ...rates } = state.rates;
+            return {
+              rates,
+              updatedAt: Date.now(),
+              updatedBy: currentUser.name,
+              error: null
+            };
+          });
+
+          console.log(`Removed exchange rate for ${currency}`);
+
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to remove exchange rate';
+          console.error('Error removing exchange rate:', errorMessage);
+          set({ error: errorMessage });
+          return false;
+        }
+      }
+    }),
+    {
+      docId: "marketplace-exchange-rates",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Exchange rate sync initialization error:", error);
+      }
+    }
+  )
+);
@@ -1,60 +1,87 @@
 import { create } from 'zustand';
 import { sync } from '@tonk/keepsync';
-import { useUserStore } from './userStore';
+import { useUserStore, UserProfile, hasRole, ROLE_LABELS, getTrustedSigningKeys, getTrustedAdminIds } from './userStore';
+import { useOfferStore } from './offerStore';
+import { useTradeStore } from './tradeStore';
+import money from '../modules/money';
+import imageStorage, { THUMBNAIL_OPTIONS } from '../modules/imageStorage';
+import { useContactStore } from './contactStore';
+import signing from '../modules/signing';
+import { PlayerRole } from '../types/playerProfile';
+import { useModerationStore, ModerationAction } from './moderationStore';
+import { useReportStore } from './reportStore';
+import {
+  ListingType,
+  ItemCategory,
+  ServiceCategory,
+  ItemCondition,
+  PricingUnit,
+  ContactRevealPolicy
+} from '../types/listing';
+
+// The enums live with the other shared types so pure modules can use them
+// without loading the store
+export { ListingType, ItemCategory, ServiceCategory, ItemCondition, PricingUnit, ContactRevealPolicy };
 
 /**
- * Enum for listing types
+ * Structured listing price
  */
-export enum ListingType {
-  SELL = 'sell',
-  BUY = 'buy',
-  TRADE = 'trade',
-  OFFER_SERVICE = 'offer_service',
-  REQUEST_SERVICE = 'request_service'
+export interface ListingPrice {
+  amountMinor: number | null;  // Amount in minor units (e.g. cents), null when negotiable with no figure
+  currency: string;            // ISO 4217 currency code
+  unit: PricingUnit;
+  orBestOffer: boolean;
 }
 
 /**
- * Enum for item categories
+ * Interface for image data
  */
-export enum ItemCategory {
-  VIDEO_GAME = 'video_game',
-  BOARD_GAME = 'board_game',
-  CONSOLE = 'console',
-  ACCESSORY = 'accessory',
-  COLLECTIBLE = 'collectible',
-  OTHER = 'other'
+export interface ListingImage {
+  id: string;
+  url: string;
+  /** Small version of the image for cards, missing on images added by URL */
+  thumbnailUrl?: string;
+  isPrimary: boolean;
 }
 
 /**
- * Enum for service categories
+ * An image in a gallery being edited. Images already on the listing keep their
+ * id and URLs, new images carry either the uploaded file or a direct URL.
+ * The order of the gallery is the order the images are shown in.
  */
-export enum ServiceCategory {
-  COACHING = 'coaching',
-  GAME_MASTER = 'game_master',
-  MEDIATION = 'mediation',
-  OTHER = 'other'
+export interface GalleryImage {
+  id: string;
+  isPrimary: boolean;
+  file?: File;
+  url?: string;
+  thumbnailUrl?: string;
 }
 
 /**
- * Enum for item conditions
+ * A signature over part of a listing, made with one of the signer's published keys
  */
-export enum ItemCondition {
-  NEW = 'new',
-  LIKE_NEW = 'like_new',
-  GOOD = 'good',
-  FAIR = 'fair',
-  FOR_PARTS = 'for_parts'
+export interface ListingSignature {
+  signerId: string;
+  keyId: string;
+  signedAt: number;
+  value: string;
 }
 
 /**
- * Interface for image data
+ * Why and by whom an admin took a listing down
  */
-export interface ListingImage {
-  id: string;
-  url: string;
-  isPrimary: boolean;
+export interface ListingModeration {
+  reason: string;
+  moderatedBy: string;
+  moderatedAt: number;
 }
 
+/**
+ * Result of checking a listing's signatures. 'untrusted' signatures check out
+ * against a key the seller published that this client doesn't trust yet.
+ */
+export type ListingVerification = 'verified' | 'unsigned' | 'untrusted' | 'invalid';
+
 /**
  * Main listing interface
  */
@@ -69,14 +96,17 @@ export interface Listing {
   detailedDescription: string;
   listingType: ListingType;
   category: ItemCategory | ServiceCategory;
-  price: string;
+  price: ListingPrice;
   condition?: ItemCondition;
   location: string;
   isRemote: boolean;
-  contactInfo: string;
+  contactRevealPolicy: ContactRevealPolicy;  // Contact details themselves are sealed in the contact store
   tags: string[];
   images: ListingImage[];
   status: 'active' | 'pending' | 'sold' | 'inactive';
+  moderation?: ListingModeration;      // Set while an admin has taken the listing down
+  signature?: ListingSignature;        // Over the content, always by the seller
+  statusSignature?: ListingSignature;  // Over the status, by the seller or a buyer reserving it
 }
 
 /**
@@ -88,11 +118,12 @@ export interface ListingFormData {
   title: string;
   shortDescription: string;
   detailedDescription: string;
-  price: string;
+  price: ListingPrice;
   condition?: ItemCondition;
   location: string;
   isRemote: boolean;
   contactInfo: string;
+  contactRevealPolicy: ContactRevealPolicy;
   tags: string;
 }
 
@@ -110,29 +141,88 @@ interface ListingState {
   getActiveListings: () => Listing[];
   
   // Actions
-  createListing: (formData: ListingFormData, imageFiles: File[]) => Promise<Listing>;
-  updateListing: (id: string, formData: Partial<ListingFormData>, imageFiles?: File[]) => Promise<Listing | null>;
+  createListing: (formData: ListingFormData, gallery: GalleryImage[]) => Promise<Listing>;
+  updateListing: (id: string, formData: Partial<ListingFormData>, gallery?: GalleryImage[]) => Promise<Listing | null>;
   deleteListing: (id: string) => Promise<boolean>;
   setListingStatus: (id: string, status: Listing['status']) => Promise<boolean>;
+  reserveListings: (ids: string[]) => Promise<boolean>;
+  
+  // Admin actions, which skip the seller-only checks and are recorded with a reason
+  adminDeactivateListing: (id: string, reason: string) => Promise<boolean>;
+  adminRestoreListing: (id: string, reason: string) => Promise<boolean>;
+  adminRemoveListing: (id: string, reason: string) => Promise<boolean>;
+  migrateLegacyPrices: () => void;
+  migrateLegacyContactInfo: () => Promise<void>;
 }
 
+/**
+ * Listing as it may still exist in older documents, before prices were
+ * structured and contact details were moved out of the public listing
+ */
+type LegacyListing = Omit<Listing, 'price'> & { price: ListingPrice | string; contactInfo?: string };
+
+/**
+ * Roles needed to post each kind of listing. Types not listed are open to everyone.
+ */
+export const LISTING_TYPE_ROLES: Partial<Record<ListingType, PlayerRole>> = {
+  [ListingType.SELL]: PlayerRole.SELLER,
+  [ListingType.OFFER_SERVICE]: PlayerRole.SERVICE_PROVIDER
+};
+
+/**
+ * Check that a user may post a listing of the given type, throwing if not
+ */
+const assertCanPost = (profile: UserProfile, listingType: ListingType) => {
+  const requiredRole = LISTING_TYPE_ROLES[listingType];
+  if (requiredRole && !hasRole(profile, requiredRole)) {
+    throw new Error(`You need the ${ROLE_LABELS[requiredRole]} role for this kind of listing. You can take it on from your profile.`);
+  }
+};
+
 /**
  * Generate a random ID
  */
 const generateId = () => Math.random().toString(36).substring(2, 15);
 
 /**
- * Create a mock URL for an image file
+ * Get the image to show for a listing: the primary image, or the first one
  */
-const createMockImageUrl = (file: File) => {
-  // Check if this file has a custom URL attached (used for direct image URLs)
-  if ('customUrl' in file) {
-    return (file as any).customUrl;
-  }
+export const getPrimaryImage = (images: ListingImage[]): ListingImage | undefined => {
+  return images.find(image => image.isPrimary) ?? images[0];
+};
+
+/**
+ * Turn an edited gallery into listing images. New uploads are compressed and
+ * stored in the synced file system along with a thumbnail, and exactly one
+ * image ends up primary.
+ */
+const resolveGallery = async (gallery: GalleryImage[]): Promise<ListingImage[]> => {
+  const images = await Promise.all(
+    gallery.map(async (item): Promise<ListingImage | null> => {
+      if (item.file) {
+        const [stored, thumbnail] = await Promise.all([
+          imageStorage.storeImage(item.file),
+          imageStorage.storeImage(item.file, THUMBNAIL_OPTIONS)
+        ]);
+        return { id: item.id, url: stored.url, thumbnailUrl: thumbnail.url, isPrimary: item.isPrimary };
+      }
+      
+      const url = item.url?.trim();
+      if (!url) return null;
+      
+      return {
+        id: item.id,
+        url,
+        ...(item.thumbnailUrl ? { thumbnailUrl: item.thumbnailUrl } : {}),
+        isPrimary: item.isPrimary
+      };
+    })
+  );
+  
+  const resolved = images.filter((image): image is ListingImage => image !== null);
+  const primaryIndex = Math.max(0, resolved.findIndex(image => image.isPrimary));
   
-  // In a real app, this would upload to a server and return a URL
-  // For now, we'll just use a mock URL based on the file name
-  return `https://placehold.co/300x200?text=${encodeURIComponent(file.name)}`;
+  return resolved.map((image, index) => ({ ...image, isPrimary: index === primaryIndex }));
 };
 
 /**
@@ -150,6 +240,147 @@ const createDefaultImage = (): ListingImage => {
   };
 };
 
+/**
+ * Check whether a user has agreed a deal on a listing, through an accepted
+ * offer or trade, that lets them reserve it even though they don't own it
+ */
+const hasAgreedDeal = (listingId: string, userId: string) => {
+  return useOfferStore.getState().hasAcceptedOffer(listingId, userId) ||
+    useTradeStore.getState().hasAcceptedTrade(listingId, userId);
+};
+
+/**
+ * Get the parts of a listing covered by the seller's content signature. Fields
+ * are picked explicitly so stray properties on old documents don't matter.
+ */
+const getSignedContent = (listing: Listing) => ({
+  id: listing.id,
+  createdAt: listing.createdAt,
+  sellerId: listing.sellerId,
+  sellerName: listing.sellerName,
+  title: listing.title,
+  shortDescription: listing.shortDescription,
+  detailedDescription: listing.detailedDescription,
+  listingType: listing.listingType,
+  category: listing.category,
+  price: listing.price,
+  condition: listing.condition,
+  location: listing.location,
+  isRemote: listing.isRemote,
+  contactRevealPolicy: listing.contactRevealPolicy || ContactRevealPolicy.ON_MESSAGE,
+  tags: listing.tags,
+  images: listing.images
+});
+
+/**
+ * Get the part of a listing covered by the status signature
+ */
+const getSignedStatus = (listing: Listing) => ({
+  listingId: listing.id,
+  status: listing.status
+});
+
+/**
+ * Sign a payload as the current user with this device's key
+ */
+const signAsCurrentUser = async (payload: unknown): Promise<ListingSignature> => {
+  const userStore = useUserStore.getState();
+  const keyPair = await userStore.getSigningKey();
+  const signerId = userStore.getCurrentUser()!.id;
+  const signedAt = Date.now();
+  
+  return {
+    signerId,
+    keyId: keyPair.keyId,
+    signedAt,
+    value: await signing.sign(keyPair.privateKey, { payload, signerId, signedAt })
+  };
+};
+
+/**
+ * Check a signature against the key its signer published, and whether this
+ * client trusts that key
+ */
+const checkSignature = async (signature: ListingSignature, payload: unknown): Promise<ListingVerification> => {
+  const signer = useUserStore.getState().profiles.find(profile => profile.id === signature.signerId);
+  const key = signer?.signingKeys?.find(published => published.keyId === signature.keyId);
+  
+  if (!signer || !key) {
+    return 'invalid';
+  }
+  
+  const isValid = await signing.verify(
+    key.publicKey,
+    { payload, signerId: signature.signerId, signedAt: signature.signedAt },
+    signature.value
+  );
+  if (!isValid) {
+    return 'invalid';
+  }
+  
+  return (await getTrustedSigningKeys(signer)).has(key.keyId) ? 'verified' : 'untrusted';
+};
+
+/**
+ * Verify that a listing's content was signed by its seller, and its status by
+ * the seller, a trusted admin, or someone with an agreed deal who reserved it
+ */
+export const verifyListing = async (listing: Listing): Promise<ListingVerification> => {
+  if (!listing.signature && !listing.statusSignature) {
+    return 'unsigned';
+  }
+  
+  // Signing always covers both, so one without the other was tampered with
+  if (!listing.signature || !listing.statusSignature) {
+    return 'invalid';
+  }
+  
+  if (listing.signature.signerId !== listing.sellerId) {
+    return 'invalid';
+  }
+  
+  const statusSigner = listing.statusSignature.signerId;
+  const isReservation = listing.status === 'pending' && hasAgreedDeal(listing.id, statusSigner);
+  // Admin rights come from signed grants, since anyone can set isAdmin on a profile
+  const isModeration = (await getTrustedAdminIds()).has(statusSigner);
+  if (statusSigner !== listing.sellerId && !isReservation && !isModeration) {
+    return 'invalid';
+  }
+  
+  const results = await Promise.all([
+    checkSignature(listing.signature, getSignedContent(listing)),
+    checkSignature(listing.statusSignature, getSignedStatus(listing))
+  ]);
+  
+  if (results.includes('invalid')) return 'invalid';
+  if (results.includes('untrusted')) return 'untrusted';
+  return 'verified';
+};
+
+/**
+ * Check that the current user is an admin who has given a reason for acting on
+ * a listing, throwing if not
+ */
+const getModerationTarget = (id: string, reason: string) => {
+  const userStore = useUserStore.getState();
+  const admin = userStore.getCurrentUser();
+  
+  if (!admin || !userStore.isCurrentUserAdmin()) {
+    throw new Error('Only admins can moderate listings');
+  }
+  
+  if (!reason.trim()) {
+    throw new Error('Please give a reason');
+  }
+  
+  const listing = useListingStore.getState().getListingById(id);
+  if (!listing) {
+    throw new Error('Listing not found');
+  }
+  
+  return { admin, listing };
+};
+
 /**
  * Create the listing store
  */
@@ -169,12 +400,16 @@ export const useListingStore = create<ListingState>(
         return get().listings.filter(listing => listing.sellerId === sellerId);
       },
       
+      // Listings with enough reports are held back until an admin reviews them
       getActiveListings: () => {
-        return get().listings.filter(listing => listing.status === 'active');
+        const { isHiddenPendingReview } = useReportStore.getState();
+        return get().listings.filter(listing =>
+          listing.status === 'active' && !isHiddenPendingReview(listing.id)
+        );
       },
       
       // Actions
-      createListing: async (formData, imageFiles) => {
+      createListing: async (formData, gallery) => {
         set({ isLoading: true, error: null });
         
         try {
@@ -184,33 +419,32 @@ export const useListingStore = create<ListingState>(
             throw new Error('You must be logged in to create a listing');
           }
           
+          assertCanPost(currentUser, formData.listingType);
+          
           // Convert tags string to array
           const tagsArray = formData.tags
             ? formData.tags.split(',').map(tag => tag.trim()).filter(Boolean)
             : [];
           
-          // Create mock image URLs (in a real app, this would upload to a server)
-          let images: ListingImage[] = [];
-          
-          if (imageFiles && imageFiles.length > 0) {
-            images = await Promise.all(
-              imageFiles.map(async (file, index) => {
-                const url = createMockImageUrl(file);
-                return {
-                  id: generateId(),
-                  url,
-                  isPrimary: index === 0
-                };
-              })
-            );
-          } else {
+          // Compress and store uploaded photos so they work offline and sync to peers
+          let images = await resolveGallery(gallery ?? []);
+          
+          if (images.length === 0) {
             // Add a default image if none provided
             images = [createDefaultImage()];
           }
           
+          // Seal the contact details before the listing becomes visible
+          const listingId = generateId();
+          const contactSaved = await useContactStore.getState().setContactInfo(listingId, formData.contactInfo);
+          
+          if (!contactSaved) {
+            throw new Error(useContactStore.getState().error || 'Failed to save contact details');
+          }
+          
           // Create new listing
           const newListing: Listing = {
-            id: generateId(),
+            id: listingId,
             createdAt: Date.now(),
             updatedAt: Date.now(),
             sellerId: currentUser.id,
@@ -224,12 +458,15 @@ export const useListingStore = create<ListingState>(
             condition: formData.condition,
             location: formData.location,
             isRemote: formData.isRemote,
-            contactInfo: formData.contactInfo,
+            contactRevealPolicy: formData.contactRevealPolicy,
             tags: tagsArray,
             images: images,
             status: 'active'
           };
           
+          newListing.signature = await signAsCurrentUser(getSignedContent(newListing));
+          newListing.statusSignature = await signAsCurrentUser(getSignedStatus(newListing));
+          
           // Add to listings
           set(state => ({
             listings: [...state.listings, newListing],
@@ -247,7 +484,7 @@ export const useListingStore = create<ListingState>(
         }
       },
       
-      updateListing: async (id, formData, imageFiles = []) => {
+      updateListing: async (id, formData, gallery) => {
         set({ isLoading: true, error: null });
         
         try {
@@ -269,6 +506,11 @@ export const useListingStore = create<ListingState>(
             throw new Error('You can only update your own listings');
           }
           
+          // Existing listings can still be edited, but not turned into a type the user can't post
+          if (formData.listingType && formData.listingType !== listing.listingType) {
+            assertCanPost(currentUser, formData.listingType);
+          }
+          
           // Process tags if provided
           let tagsArray = listing.tags;
           if (formData.tags !== undefined) {
@@ -278,37 +520,33 @@ export const useListingStore = create<ListingState>(
               .filter(Boolean);
           }
           
-          // Process new images if provided
-          let updatedImages = [...listing.images];
-          
-          if (imageFiles.length > 0) {
-            const newImages: ListingImage[] = await Promise.all(
-              imageFiles.map(async (file) => {
-                const url = createMockImageUrl(file);
-                return {
-                  id: generateId(),
-                  url,
-                  isPrimary: false
-                };
-              })
-            );
-            
-            updatedImages = [...updatedImages, ...newImages];
+          // A gallery replaces the listing's images, keeping its order, primary
+          // image and removals
+          const updatedImages = gallery ? await resolveGallery(gallery) : listing.images;
+          
+          // Contact details are sealed separately and never stored on the listing
+          const { contactInfo, ...details } = formData;
+          if (contactInfo !== undefined) {
+            const contactSaved = await useContactStore.getState().setContactInfo(id, contactInfo);
             
-            // Ensure there's a primary image
-            if (!updatedImages.some(img => img.isPrimary) && updatedImages.length > 0) {
-              updatedImages[0].isPrimary = true;
+            if (!contactSaved) {
+              throw new Error(useContactStore.getState().error || 'Failed to save contact details');
             }
           }
           
           // Update the listing
           const updatedListing: Listing = {
             ...listing,
-            ...formData,
+            ...details,
             tags: tagsArray,
             images: updatedImages,
             updatedAt: Date.now()
           };
+          updatedListing.signature = await signAsCurrentUser(getSignedContent(updatedListing));
+          if (!updatedListing.statusSignature) {
+            // Listings from before signing get their status signed on their first edit
+            updatedListing.statusSignature = await signAsCurrentUser(getSignedStatus(updatedListing));
+          }
           
           // Update in state
           set(state => ({
@@ -385,15 +623,26 @@ export const useListingStore = create<ListingState>(
             throw new Error('Listing not found');
           }
           
-          // Verify ownership
-          if (listing.sellerId !== currentUser.id) {
+          // Verify ownership, or that the user is reserving an available listing
+          // through a deal that's still agreed. Buyers can't undo a relisting
+          // or a sale by the seller.
+          const isReservedByDeal = status === 'pending' &&
+            listing.status === 'active' &&
+            hasAgreedDeal(id, currentUser.id);
+          
+          if (listing.sellerId !== currentUser.id && !isReservedByDeal) {
             throw new Error('You can only update your own listings');
           }
           
-          // Update status
+          if (listing.moderation && status !== 'inactive') {
+            throw new Error(`This listing was taken down by an admin: ${listing.moderation.reason}`);
+          }
+          
+          // Update status, signed so other clients can tell who changed it
+          const statusSignature = await signAsCurrentUser(getSignedStatus({ ...listing, status }));
           set(state => ({
             listings: state.listings.map(l => 
-              l.id === id ? { ...l, status, updatedAt: Date.now() } : l
+              l.id === id ? { ...l, status, statusSignature, updatedAt: Date.now() } : l
             ),
             isLoading: false
           }));
@@ -407,6 +656,221 @@ export const useListingStore = create<ListingState>(
           set({ error: errorMessage, isLoading: false });
           return false;
         }
+      },
+      
+      reserveListings: async (ids) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const currentUser = useUserStore.getState().getCurrentUser();
+          
+          if (!currentUser) {
+            throw new Error('You must be logged in to reserve listings');
+          }
+          
+          // Validate every listing before touching any of them
+          ids.forEach(id => {
+            const listing = get().getListingById(id);
+            
+            if (!listing) {
+              throw new Error('Listing not found');
+            }
+            
+            if (listing.status !== 'active') {
+              throw new Error(`"${listing.title}" is no longer available`);
+            }
+            
+            if (listing.sellerId !== currentUser.id && !hasAgreedDeal(id, currentUser.id)) {
+              throw new Error(`You are not allowed to reserve "${listing.title}"`);
+            }
+          });
+          
+          // Sign every status change first, then reserve them all in a single
+          // update so peers never see a partial trade
+          const signatures: Record<string, ListingSignature> = {};
+          for (const id of ids) {
+            signatures[id] = await signAsCurrentUser({ listingId: id, status: 'pending' });
+          }
+          
+          const now = Date.now();
+          set(state => ({
+            listings: state.listings.map(l => 
+              ids.includes(l.id)
+                ? { ...l, status: 'pending', statusSignature: signatures[l.id], updatedAt: now }
+                : l
+            ),
+            isLoading: false
+          }));
+          
+          console.log('Reserved listings:', ids);
+          
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to reserve listings';
+          console.error('Error reserving listings:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          return false;
+        }
+      },
+      
+      adminDeactivateListing: async (id, reason) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const { admin, listing } = getModerationTarget(id, reason);
+          
+          const statusSignature = await signAsCurrentUser(getSignedStatus({ ...listing, status: 'inactive' }));
+          const moderation: ListingModeration = {
+            reason: reason.trim(),
+            moderatedBy: admin.id,
+            moderatedAt: Date.now()
+          };
+          set(state => ({
+            listings: state.listings.map(l => 
+              l.id === id ? { ...l, status: 'inactive', statusSignature, moderation, updatedAt: Date.now() } : l
+            ),
+            isLoading: false
+          }));
+          
+          useModerationStore.getState().recordAction({
+            action: ModerationAction.DEACTIVATE_LISTING,
+            targetType: 'listing',
+            targetId: id,
+            targetName: listing.title,
+            subjectUserId: listing.sellerId,
+            reason
+          });
+          
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to deactivate listing';
+          console.error('Error deactivating listing:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          return false;
+        }
+      },
+      
+      adminRestoreListing: async (id, reason) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const { listing } = getModerationTarget(id, reason);
+          
+          if (!listing.moderation) {
+            throw new Error('This listing has not been taken down');
+          }
+          
+          // Lift the lock and put the listing back up
+          const statusSignature = await signAsCurrentUser(getSignedStatus({ ...listing, status: 'active' }));
+          set(state => ({
+            listings: state.listings.map(l => {
+              if (l.id !== id) return l;
+              const { moderation: _lifted, ...rest } = l;
+              return { ...rest, status: 'active', statusSignature, updatedAt: Date.now() };
+            }),
+            isLoading: false
+          }));
+          
+          useModerationStore.getState().recordAction({
+            action: ModerationAction.RESTORE_LISTING,
+            targetType: 'listing',
+            targetId: id,
+            targetName: listing.title,
+            subjectUserId: listing.sellerId,
+            reason
+          });
+          
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to restore listing';
+          console.error('Error restoring listing:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          return false;
+        }
+      },
+      
+      adminRemoveListing: async (id, reason) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const { listing } = getModerationTarget(id, reason);
+          
+          set(state => ({
+            listings: state.listings.filter(l => l.id !== id),
+            isLoading: false
+          }));
+          
+          useModerationStore.getState().recordAction({
+            action: ModerationAction.REMOVE_LISTING,
+            targetType: 'listing',
+            targetId: id,
+            targetName: listing.title,
+            subjectUserId: listing.sellerId,
+            reason,
+            details: `Seller: ${listing.sellerName}`
+          });
+          
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to remove listing';
+          console.error('Error removing listing:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          return false;
+        }
+      },
+      
+      migrateLegacyPrices: () => {
+        const listings = get().listings as LegacyListing[];
+        
+        if (!listings.some(listing => typeof listing.price === 'string')) {
+          return;
+        }
+        
+        set({
+          listings: listings.map(listing =>
+            typeof listing.price === 'string'
+              ? { ...listing, price: money.parseLegacyPrice(listing.price) }
+              : listing as Listing
+          )
+        });
+        
+        console.log('Migrated legacy listing prices');
+      },
+      
+      migrateLegacyContactInfo: async () => {
+        // Any client moves plain-text details out of the public listing as
+        // soon as it sees them, rather than leaving them readable until the
+        // seller is next online
+        const legacy = (get().listings as LegacyListing[]).filter(listing => listing.contactInfo !== undefined);
+        
+        let moved = 0;
+        
+        for (const listing of legacy) {
+          // Details stay on the listing until they're sealed, so listings whose
+          // seller hasn't published a key yet are retried once they have
+          if (listing.contactInfo?.trim()) {
+            try {
+              const sealed = await useContactStore.getState().sealLegacyContactInfo(listing.id, listing.sellerId, listing.contactInfo);
+              if (!sealed) continue;
+            } catch (error) {
+              console.error(`Error sealing contact details for listing ${listing.id}:`, error);
+              continue;
+            }
+          }
+          
+          moved++;
+          set(state => ({
+            listings: (state.listings as LegacyListing[]).map(l => {
+              if (l.id !== listing.id) return l;
+              const { contactInfo: _contactInfo, ...rest } = l;
+              return { ...rest, contactRevealPolicy: ContactRevealPolicy.ON_MESSAGE };
+            }) as Listing[]
+          }));
+        }
+        
+        if (moved > 0) {
+          console.log('Moved legacy contact details into the contact store');
+        }
       }
     }),
     {
@@ -418,3 +882,10 @@ export const useListingStore = create<ListingState>(
     }
   )
 );
+
+// Upgrade free-text prices whenever they arrive from the synced document
+useListingStore.subscribe(state => {
+  if ((state.listings as LegacyListing[]).some(listing => typeof listing.price === 'string')) {
+    state.migrateLegacyPrices();
+  }
+});
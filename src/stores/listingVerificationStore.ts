@@ -0,0 +1,138 @@
+import { create } from 'zustand';
+import { useListingStore, verifyListing, ListingVerification } from './listingStore';
+import { useUserStore } from './userStore';
+import { useOfferStore } from './offerStore';
+import { useTradeStore } from './tradeStore';
+import signing from '../modules/signing';
+
+/**
+ * A verification result, along with the listing contents it was computed for
+ */
+interface VerificationResult {
+  key: string;
+  result: ListingVerification;
+}
+
+/**
+ * Store state interface
+ *
+ * Verification is computed by each client for itself, so this store is not
+ * synced. Results are kept per listing and only recomputed when the listing
+ * changes, or when the keys and deals it's checked against do.
+ *
+ * The client also remembers which listings it has seen signed. Listings are
+ * only ever signed, never unsigned, so one of those turning up without its
+ * signatures has been tampered with and counts as invalid.
+ */
+interface ListingVerificationState {
+  results: Record<string, VerificationResult>;
+
+  // Selectors
+  getVerification: (listingId: string) => ListingVerification | null;
+
+  // Actions
+  verifyListings: (force?: boolean) => Promise<void>;
+}
+
+const SIGNED_LISTINGS_STORAGE_KEY = 'signed-listings';
+
+const loadSignedListingIds = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(SIGNED_LISTINGS_STORAGE_KEY) || '[]'));
+  } catch (e) {
+    return new Set();
+  }
+};
+
+/**
+ * Create the listing verification store
+ */
+export const useListingVerificationStore = create<ListingVerificationState>((set, get) => ({
+  results: {},
+
+  // Selectors
+  getVerification: (listingId) => {
+    return get().results[listingId]?.result || null;
+  },
+
+  // Actions
+  verifyListings: async (force = false) => {
+    const { listings } = useListingStore.getState();
+    const previous = get().results;
+    const results: Record<string, VerificationResult> = {};
+    const signedIds = loadSignedListingIds();
+    const signedCount = signedIds.size;
+
+    for (const listing of listings) {
+      const key = signing.canonicalize(listing);
+      const cached = previous[listing.id];
+      if (cached && cached.key === key && !force) {
+        results[listing.id] = cached;
+        continue;
+      }
+
+      let result = await verifyListing(listing);
+      if (result === 'unsigned' && signedIds.has(listing.id)) {
+        result = 'invalid';
+      } else if (listing.signature || listing.statusSignature) {
+        signedIds.add(listing.id);
+      }
+      results[listing.id] = { key, result };
+    }
+
+    if (signedIds.size !== signedCount) {
+      localStorage.setItem(SIGNED_LISTINGS_STORAGE_KEY, JSON.stringify([...signedIds]));
+    }
+    set({ results });
+  }
+}));
+
+/**
+ * Verify every listing. Runs are serialised and coalesced since they're async.
+ */
+let isVerifying = false;
+let pendingRun: { force: boolean } | null = null;
+
+const runVerification = async (force = false) => {
+  if (isVerifying) {
+    pendingRun = { force: force || Boolean(pendingRun?.force) };
+    return;
+  }
+
+  isVerifying = true;
+  try {
+    await useListingVerificationStore.getState().verifyListings(force);
+  } catch (error) {
+    console.error('Error verifying listings:', error);
+  } finally {
+    isVerifying = false;
+    if (pendingRun) {
+      const next = pendingRun;
+      pendingRun = null;
+      runVerification(next.force);
+    }
+  }
+};
+
+/**
+ * Start watching the stores listing verification depends on. Called once at
+ * startup, after every store has been created, since the stores import each other.
+ */
+export const startListingVerification = () => {
+  useListingStore.subscribe((state, prev) => {
+    if (state.listings !== prev.listings) runVerification();
+  });
+  useUserStore.subscribe((state, prev) => {
+    if (state.activeProfileId !== prev.activeProfileId || state.profiles !== prev.profiles) {
+      runVerification(true);
+    }
+  });
+  useOfferStore.subscribe((state, prev) => {
+    if (state.offersByListing !== prev.offersByListing) runVerification(true);
+  });
+  useTradeStore.subscribe((state, prev) => {
+    if (state.proposals !== prev.proposals) runVerification(true);
+  });
+
+  runVerification();
+};
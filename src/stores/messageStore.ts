@@ -0,0 +1,518 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import { useUserStore, UserProfile, getTrustedSigningKeys } from './userStore';
+import { useListingStore } from './listingStore';
+import encryption, { SealedMessage } from '../modules/encryption';
+import signing from '../modules/signing';
+
+/**
+ * Interface for a single message in a conversation. The body is sealed to
+ * each participant along with the sender's signature, so only the two of
+ * them can read it or check who wrote it.
+ */
+export interface Message {
+  id: string;
+  senderId: string;
+  senderName: string;
+  /** Sealed copies of the body, keyed by participant user ID */
+  sealedBody?: Record<string, SealedMessage>;
+  /** Plain-text body of messages sent before bodies were sealed */
+  body?: string;
+  createdAt: number;
+}
+
+/**
+ * The sender's signature over a message, kept inside its sealed body
+ */
+export interface MessageSignature {
+  keyId: string;
+  value: string;
+}
+
+/**
+ * A message body as one of the participants reads it
+ */
+export interface OpenedMessage {
+  body: string;
+  /** Whether its sender signed it with a key this client trusts for them */
+  isVerified: boolean;
+}
+
+/**
+ * A conversation between a buyer and the seller about one listing
+ */
+export interface MessageThread {
+  id: string;
+  listingId: string;
+  listingTitle: string;
+  buyerId: string;
+  buyerName: string;
+  sellerId: string;
+  sellerName: string;
+  messages: Message[];
+  /** When each participant last read the thread, keyed by user ID */
+  lastReadAt: Record<string, number>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Longest message that can be sent
+ */
+export const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Store state interface
+ */
+interface MessageState {
+  threads: MessageThread[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Selectors
+  getThreadById: (threadId: string) => MessageThread | undefined;
+  getThreadsForUser: (userId: string) => MessageThread[];
+  getThreadForListing: (listingId: string, buyerId: string) => MessageThread | undefined;
+  getUnreadCount: (threadId: string, userId: string) => number;
+  getTotalUnreadCount: (userId: string) => number;
+
+  // Actions
+  startThread: (listingId: string, body: string) => Promise<MessageThread>;
+  sendMessage: (threadId: string, body: string) => Promise<Message | null>;
+  markThreadRead: (threadId: string) => void;
+  openMessage: (thread: MessageThread, message: Message) => Promise<OpenedMessage | null>;
+  migrateLegacyMessages: () => Promise<void>;
+}
+
+/**
+ * What is sealed to each participant. Legacy messages sealed by other
+ * clients have no signature.
+ */
+interface SealedBody {
+  body: string;
+  signature?: MessageSignature;
+}
+
+/**
+ * Generate a random ID
+ */
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+/**
+ * Check whether a user is one of the two people in a thread
+ */
+export const isThreadParticipant = (thread: MessageThread, userId: string) => {
+  return thread.buyerId === userId || thread.sellerId === userId;
+};
+
+/**
+ * Get the name of the other person in a thread
+ */
+export const getOtherParticipantName = (thread: MessageThread, userId: string) => {
+  return thread.buyerId === userId ? thread.sellerName : thread.buyerName;
+};
+
+/**
+ * Check whether both people in a thread have written something in it, which
+ * is what counts as messaging about a listing when revealing contact details.
+ * Only messages the current user can open and verify count, so it must be
+ * one of the participants.
+ */
+export const hasExchangedMessages = async (thread: MessageThread) => {
+  const { openMessage } = useMessageStore.getState();
+  const opened = await Promise.all(thread.messages.map(message => openMessage(thread, message)));
+  const hasWritten = (userId: string) => thread.messages.some((message, index) =>
+    message.senderId === userId && opened[index]?.isVerified && opened[index]!.body.trim().length > 0
+  );
+  return hasWritten(thread.buyerId) && hasWritten(thread.sellerId);
+};
+
+/**
+ * Count the messages in a thread sent by someone else since the user last read it
+ */
+const countUnread = (thread: MessageThread, userId: string) => {
+  const lastReadAt = thread.lastReadAt[userId] || 0;
+  return thread.messages.filter(message =>
+    message.senderId !== userId && message.createdAt > lastReadAt
+  ).length;
+};
+
+/**
+ * Validate and tidy up a message body
+ */
+const cleanMessageBody = (body: string) => {
+  const trimmed = body.trim();
+
+  if (!trimmed) {
+    throw new Error('Message cannot be empty');
+  }
+
+  if (trimmed.length > MAX_MESSAGE_LENGTH) {
+    throw new Error(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  return trimmed;
+};
+
+/**
+ * Get the parts of a message covered by its sender's signature, tying the body
+ * to the thread and the people in it
+ */
+const getSignedMessage = (thread: MessageThread, message: Pick<Message, 'id' | 'senderId' | 'createdAt'>, body: string) => ({
+  threadId: thread.id,
+  listingId: thread.listingId,
+  buyerId: thread.buyerId,
+  sellerId: thread.sellerId,
+  messageId: message.id,
+  senderId: message.senderId,
+  createdAt: message.createdAt,
+  body
+});
+
+/**
+ * Seal a message body to both people in a thread, or return null if either
+ * hasn't published an encryption key yet
+ */
+const sealToParticipants = async (thread: MessageThread, content: SealedBody) => {
+  const { profiles } = useUserStore.getState();
+  const sealed: Record<string, SealedMessage> = {};
+
+  for (const userId of [thread.buyerId, thread.sellerId]) {
+    const publicKey = profiles.find(profile => profile.id === userId)?.encryptionPublicKey;
+    if (!publicKey) return null;
+    sealed[userId] = await encryption.seal(publicKey, JSON.stringify(content));
+  }
+  return sealed;
+};
+
+/**
+ * Write a message from the current user, signed with their key and sealed to
+ * both people in the thread
+ */
+const createMessage = async (thread: MessageThread, sender: UserProfile, body: string): Promise<Message> => {
+  const message = {
+    id: generateId(),
+    senderId: sender.id,
+    senderName: sender.name,
+    createdAt: Date.now()
+  };
+
+  const keyPair = await useUserStore.getState().getSigningKey();
+  const signature: MessageSignature = {
+    keyId: keyPair.keyId,
+    value: await signing.sign(keyPair.privateKey, getSignedMessage(thread, message, body))
+  };
+
+  const sealedBody = await sealToParticipants(thread, { body, signature });
+  if (!sealedBody) {
+    throw new Error(`${getOtherParticipantName(thread, sender.id)} can't receive messages until they next log in`);
+  }
+  return { ...message, sealedBody };
+};
+
+/**
+ * Check a message was signed by its sender with a key this client trusts for them
+ */
+const verifyMessage = async (thread: MessageThread, message: Message, content: SealedBody) => {
+  if (!content.signature || !isThreadParticipant(thread, message.senderId)) {
+    return false;
+  }
+
+  const sender = useUserStore.getState().profiles.find(profile => profile.id === message.senderId);
+  const key = sender?.signingKeys?.find(published => published.keyId === content.signature!.keyId);
+  if (!sender || !key) {
+    return false;
+  }
+
+  const isValid = await signing.verify(
+    key.publicKey,
+    getSignedMessage(thread, message, content.body),
+    content.signature.value
+  );
+  return isValid && (await getTrustedSigningKeys(sender)).has(key.keyId);
+};
+
+// Decrypted message bodies, keyed by reader and sealed copy, so re-rendering a
+// thread doesn't decrypt every message again
+const openedBodies = new Map<string, Promise<SealedBody | null>>();
+
+const openSealedBody = (userId: string, sealed: SealedMessage) => {
+  const cacheKey = `${userId}:${sealed.ciphertext}`;
+  let opened = openedBodies.get(cacheKey);
+
+  if (!opened) {
+    opened = encryption.openWithStoredKeys(userId, sealed).then(plaintext => {
+      try {
+        return plaintext === null ? null : JSON.parse(plaintext) as SealedBody;
+      } catch (error) {
+        return null;
+      }
+    });
+    openedBodies.set(cacheKey, opened);
+  }
+  return opened;
+};
+
+// Only one legacy message migration runs at a time, since sealing is async
+let isMigratingMessages = false;
+
+/**
+ * Check whether any message in the threads still has a plain-text body
+ */
+const hasLegacyMessages = (threads: MessageThread[]) => {
+  return threads.some(thread => thread.messages.some(message => message.body !== undefined));
+};
+
+/**
+ * Create the message store
+ */
+export const useMessageStore = create<MessageState>(
+  sync(
+    (set, get) => ({
+      threads: [],
+      isLoading: false,
+      error: null,
+
+      // Selectors
+      getThreadById: (threadId) => {
+        return get().threads.find(thread => thread.id === threadId);
+      },
+
+      getThreadsForUser: (userId) => {
+        return get().threads
+          .filter(thread => isThreadParticipant(thread, userId))
+          .sort((a, b) => b.updatedAt - a.updatedAt);
+      },
+
+      getThreadForListing: (listingId, buyerId) => {
+        return get().threads.find(thread =>
+          thread.listingId === listingId && thread.buyerId === buyerId
+        );
+      },
+
+      getUnreadCount: (threadId, userId) => {
+        const thread = get().getThreadById(threadId);
+        return thread ? countUnread(thread, userId) : 0;
+      },
+
+      getTotalUnreadCount: (userId) => {
+        return get().getThreadsForUser(userId)
+          .reduce((total, thread) => total + countUnread(thread, userId), 0);
+      },
+
+      // Actions
+      startThread: async (listingId, body) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const currentUser = useUserStore.getState().getCurrentUser();
+
+          if (!currentUser) {
+            throw new Error('You must be logged in to message a seller');
+          }
+
+          const listing = useListingStore.getState().getListingById(listingId);
+
+          if (!listing) {
+            throw new Error('Listing not found');
+          }
+
+          if (listing.sellerId === currentUser.id) {
+            throw new Error('You cannot message yourself about your own listing');
+          }
+
+          // Conversations always open with a message, so an empty thread
+          // never counts as having contacted the seller
+          const cleanBody = cleanMessageBody(body);
+
+          // Reuse the conversation if the buyer already has one about this listing
+          const existing = get().getThreadForListing(listingId, currentUser.id);
+          if (existing) {
+            set({ isLoading: false });
+            if (!await get().sendMessage(existing.id, cleanBody)) {
+              throw new Error(get().error || 'Failed to send message');
+            }
+            return get().getThreadById(existing.id) || existing;
+          }
+
+          const now = Date.now();
+          const thread: MessageThread = {
+            id: generateId(),
+            listingId,
+            listingTitle: listing.title,
+            buyerId: currentUser.id,
+            buyerName: currentUser.name,
+            sellerId: listing.sellerId,
+            sellerName: listing.sellerName,
+            messages: [],
+            lastReadAt: { [currentUser.id]: now },
+            createdAt: now,
+            updatedAt: now
+          };
+          thread.messages.push(await createMessage(thread, currentUser, cleanBody));
+
+          set(state => ({
+            threads: [...state.threads, thread],
+            isLoading: false
+          }));
+
+          console.log('Started message thread:', thread);
+
+          return thread;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to start conversation';
+          console.error('Error starting conversation:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          throw error;
+        }
+      },
+
+      sendMessage: async (threadId, body) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const currentUser = useUserStore.getState().getCurrentUser();
+
+          if (!currentUser) {
+            throw new Error('You must be logged in to send a message');
+          }
+
+          const thread = get().getThreadById(threadId);
+
+          if (!thread) {
+            throw new Error('Conversation not found');
+          }
+
+          if (!isThreadParticipant(thread, currentUser.id)) {
+            throw new Error('You are not part of this conversation');
+          }
+
+          const message = await createMessage(thread, currentUser, cleanMessageBody(body));
+          const now = message.createdAt;
+
+          set(state => ({
+            threads: state.threads.map(t =>
+              t.id === threadId
+                ? {
+                    ...t,
+                    messages: [...t.messages, message],
+                    lastReadAt: { ...t.lastReadAt, [currentUser.id]: now },
+                    updatedAt: now
+                  }
+                : t
+            ),
+            isLoading: false
+          }));
+
+          console.log('Sent message in thread:', threadId);
+
+          return message;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
+          console.error('Error sending message:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          return null;
+        }
+      },
+
+      markThreadRead: (threadId) => {
+        const currentUser = useUserStore.getState().getCurrentUser();
+        const thread = get().getThreadById(threadId);
+
+        if (!currentUser || !thread || !isThreadParticipant(thread, currentUser.id)) {
+          return;
+        }
+
+        // Skip the write when there is nothing new, so viewing a thread doesn't churn the document
+        if (countUnread(thread, currentUser.id) === 0) {
+          return;
+        }
+
+        set(state => ({
+          threads: state.threads.map(t =>
+            t.id === threadId
+              ? { ...t, lastReadAt: { ...t.lastReadAt, [currentUser.id]: Date.now() } }
+              : t
+          )
+        }));
+      },
+
+      openMessage: async (thread, message) => {
+        if (message.body !== undefined) {
+          return { body: message.body, isVerified: false };
+        }
+
+        const currentUser = useUserStore.getState().getCurrentUser();
+        const sealed = currentUser ? message.sealedBody?.[currentUser.id] : undefined;
+        if (!currentUser || !sealed) {
+          return null;
+        }
+
+        const content = await openSealedBody(currentUser.id, sealed);
+        if (!content || typeof content.body !== 'string') {
+          return null;
+        }
+        return { body: content.body, isVerified: await verifyMessage(thread, message, content) };
+      },
+
+      // Any client seals the bodies of older messages to both participants and
+      // removes them from the public document. They stay unsigned, since only
+      // their senders could sign them. Messages to someone without a published
+      // key yet are left until they have one.
+      migrateLegacyMessages: async () => {
+        if (isMigratingMessages) return;
+        isMigratingMessages = true;
+
+        try {
+          const sealedBodies: Record<string, Record<string, SealedMessage>> = {};
+          for (const thread of get().threads) {
+            for (const message of thread.messages) {
+              if (message.body === undefined) continue;
+
+              const sealedBody = await sealToParticipants(thread, { body: message.body });
+              if (sealedBody) {
+                sealedBodies[`${thread.id}:${message.id}`] = sealedBody;
+              }
+            }
+          }
+
+          const count = Object.keys(sealedBodies).length;
+          if (count === 0) return;
+
+          // Applied to the threads as they are now, in case messages arrived meanwhile
+          set(state => ({
+            threads: state.threads.map(thread => ({
+              ...thread,
+              messages: thread.messages.map(message => {
+                const sealedBody = sealedBodies[`${thread.id}:${message.id}`];
+                if (!sealedBody) return message;
+                const { body: _body, ...rest } = message;
+                return { ...rest, sealedBody };
+              })
+            }))
+          }));
+
+          console.log('Sealed', count, 'legacy messages to their participants');
+        } catch (error) {
+          console.error('Error migrating legacy messages:', error);
+        } finally {
+          isMigratingMessages = false;
+        }
+      }
+    }),
+    {
+      docId: "marketplace-messages",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Message sync initialization error:", error);
+      }
+    }
+  )
+);
+
+// Seal plain-text messages whenever they arrive from the synced document
+useMessageStore.subscribe(state => {
+  if (hasLegacyMessages(state.threads)) {
+    state.migrateLegacyMessages();
+  }
+});
@@ -0,0 +1,111 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import { useUserStore } from './userStore';
+import { ModerationAction } from '../types/moderation';
+
+// The enum lives with the other shared types so pure modules can use it
+// without loading the store
+export { ModerationAction };
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  [ModerationAction.SUSPEND_USER]: 'Suspended user',
+  [ModerationAction.BAN_USER]: 'Banned user',
+  [ModerationAction.REINSTATE_USER]: 'Reinstated user',
+  [ModerationAction.GRANT_ROLE]: 'Granted role',
+  [ModerationAction.REVOKE_ROLE]: 'Revoked role',
+  [ModerationAction.CHANGE_SETTING]: 'Changed setting',
+  [ModerationAction.DEACTIVATE_LISTING]: 'Deactivated listing',
+  [ModerationAction.RESTORE_LISTING]: 'Restored listing',
+  [ModerationAction.REMOVE_LISTING]: 'Removed listing',
+  [ModerationAction.RESOLVE_REPORTS]: 'Resolved reports about',
+  [ModerationAction.DISMISS_REPORTS]: 'Dismissed reports about',
+  [ModerationAction.ESCALATE_REPORTS]: 'Escalated reports about'
+};
+
+/**
+ * One admin action, with who did it, to what, and why
+ */
+export interface AuditEntry {
+  id: string;
+  action: ModerationAction;
+  adminId: string;
+  adminName: string;
+  targetType: 'user' | 'listing' | 'setting';
+  targetId: string;
+  targetName: string;
+  subjectUserId?: string;  // User the action counts against, e.g. a listing's seller
+  reason: string;
+  details?: string;
+  createdAt: number;
+}
+
+/**
+ * Store state interface
+ */
+interface ModerationState {
+  auditLog: AuditEntry[];
+
+  // Selectors
+  getEntriesForTarget: (targetId: string) => AuditEntry[];
+
+  // Actions
+  recordAction: (entry: Pick<AuditEntry, 'action' | 'targetType' | 'targetId' | 'targetName' | 'subjectUserId' | 'reason' | 'details'>) => AuditEntry;
+}
+
+/**
+ * Generate a random ID
+ */
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+/**
+ * Create the moderation store
+ */
+export const useModerationStore = create<ModerationState>(
+  sync(
+    (set, get) => ({
+      auditLog: [],
+
+      // Selectors
+      getEntriesForTarget: (targetId) => {
+        return get().auditLog.filter(entry => entry.targetId === targetId);
+      },
+
+      // Actions
+      recordAction: (entry) => {
+        const admin = useUserStore.getState().getCurrentUser();
+        if (!admin) {
+          throw new Error('You must be logged in to record an admin action');
+        }
+
+        const reason = entry.reason.trim();
+        if (!reason) {
+          throw new Error('A reason is required for every admin action');
+        }
+
+        const auditEntry: AuditEntry = {
+          ...entry,
+          id: generateId(),
+          adminId: admin.id,
+          adminName: admin.name,
+          reason,
+          createdAt: Date.now()
+        };
+
+        // Newest first
+        set(state => ({
+          auditLog: [auditEntry, ...state.auditLog]
+        }));
+
+        console.log('Recorded admin action:', auditEntry.action, auditEntry.targetName);
+        return auditEntry;
+      }
+    }),
+    {
+      docId: "marketplace-moderation",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Moderation sync initialization error:", error);
+      }
+    }
+  )
+);
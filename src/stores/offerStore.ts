@@ -0,0 +1,475 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import { useUserStore } from './userStore';
+import { useListingStore } from './listingStore';
+import { OfferStatus } from '../types/offer';
+
+// The enum lives with the other shared types so pure modules can use it
+// without loading the store
+export { OfferStatus };
+
+/**
+ * Interface for a single entry in an offer thread
+ */
+export interface OfferEvent {
+  id: string;
+  type: 'offer' | 'counter' | 'accept' | 'reject' | 'withdraw' | 'expire';
+  actorId: string;
+  actorName: string;
+  amount?: number;
+  message?: string;
+  createdAt: number;
+}
+
+/**
+ * Main offer interface
+ */
+export interface Offer {
+  id: string;
+  listingId: string;
+  buyerId: string;
+  buyerName: string;
+  sellerId: string;
+  amount: number;
+  status: OfferStatus;
+  lastActorId: string;
+  history: OfferEvent[];
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Allowed status transitions for an offer
+ */
+const OFFER_TRANSITIONS: Record<OfferStatus, OfferStatus[]> = {
+  [OfferStatus.PENDING]: [
+    OfferStatus.COUNTERED,
+    OfferStatus.ACCEPTED,
+    OfferStatus.REJECTED,
+    OfferStatus.WITHDRAWN,
+    OfferStatus.EXPIRED
+  ],
+  [OfferStatus.COUNTERED]: [
+    OfferStatus.COUNTERED,
+    OfferStatus.ACCEPTED,
+    OfferStatus.REJECTED,
+    OfferStatus.WITHDRAWN,
+    OfferStatus.EXPIRED
+  ],
+  [OfferStatus.ACCEPTED]: [],
+  [OfferStatus.REJECTED]: [],
+  [OfferStatus.WITHDRAWN]: [],
+  [OfferStatus.EXPIRED]: []
+};
+
+/**
+ * How long an offer stays open after the last offer or counter-offer
+ */
+export const OFFER_EXPIRY_MS = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Store state interface
+ */
+interface OfferState {
+  offersByListing: Record<string, Offer[]>;
+  isLoading: boolean;
+  error: string | null;
+
+  // Selectors
+  getOffersForListing: (listingId: string) => Offer[];
+  getOfferById: (offerId: string) => Offer | undefined;
+  getOpenOfferForBuyer: (listingId: string, buyerId: string) => Offer | undefined;
+  hasAcceptedOffer: (listingId: string, userId: string) => boolean;
+
+  // Actions
+  makeOffer: (listingId: string, amount: number, message?: string) => Promise<Offer>;
+  counterOffer: (offerId: string, amount: number, message?: string) => Promise<Offer | null>;
+  acceptOffer: (offerId: string) => Promise<boolean>;
+  rejectOffer: (offerId: string, message?: string) => Promise<boolean>;
+  withdrawOffer: (offerId: string) => Promise<boolean>;
+  expireStaleOffers: () => void;
+}
+
+/**
+ * Generate a random ID
+ */
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+/**
+ * Check whether an offer can still be acted on
+ */
+export const isOfferOpen = (offer: Offer) => {
+  return OFFER_TRANSITIONS[offer.status].length > 0 && offer.expiresAt > Date.now();
+};
+
+/**
+ * Check whether it is the given user's turn to respond to an offer
+ */
+export const isAwaitingResponseFrom = (offer: Offer, userId: string) => {
+  return isOfferOpen(offer) &&
+    (userId === offer.buyerId || userId === offer.sellerId) &&
+    offer.lastActorId !== userId;
+};
+
+/**
+ * Apply a status transition to an offer, validating it against the state machine
+ */
+const transitionOffer = (
+  offer: Offer,
+  status: OfferStatus,
+  event: Omit<OfferEvent, 'id' | 'createdAt'>
+): Offer => {
+  if (!OFFER_TRANSITIONS[offer.status].includes(status)) {
+    throw new Error(`Cannot move an offer from ${offer.status} to ${status}`);
+  }
+
+  const now = Date.now();
+  return {
+    ...offer,
+    status,
+    amount: event.amount ?? offer.amount,
+    lastActorId: event.actorId,
+    history: [...offer.history, { ...event, id: generateId(), createdAt: now }],
+    updatedAt: now,
+    expiresAt: status === OfferStatus.COUNTERED ? now + OFFER_EXPIRY_MS : offer.expiresAt
+  };
+};
+
+/**
+ * Create the offer store
+ */
+export const useOfferStore = create<OfferState>(
+  sync(
+    (set, get) => {
+      /**
+       * Replace a single offer inside the listing-keyed collection
+       */
+      const saveOffer = (offer: Offer) => {
+        set(state => ({
+          offersByListing: {
+            ...state.offersByListing,
+            [offer.listingId]: (state.offersByListing[offer.listingId] || []).map(o =>
+              o.id === offer.id ? offer : o
+            )
+          }
+        }));
+      };
+
+      /**
+       * Look up an offer the current user is a party to, after expiring stale ones
+       */
+      const getOfferForParty = (offerId: string) => {
+        const currentUser = useUserStore.getState().getCurrentUser();
+
+        if (!currentUser) {
+          throw new Error('You must be logged in to respond to an offer');
+        }
+
+        get().expireStaleOffers();
+        const offer = get().getOfferById(offerId);
+
+        if (!offer) {
+          throw new Error('Offer not found');
+        }
+
+        if (offer.buyerId !== currentUser.id && offer.sellerId !== currentUser.id) {
+          throw new Error('You are not part of this offer');
+        }
+
+        return { offer, currentUser };
+      };
+
+      return {
+        offersByListing: {},
+        isLoading: false,
+        error: null,
+
+        // Selectors
+        getOffersForListing: (listingId) => {
+          return get().offersByListing[listingId] || [];
+        },
+
+        getOfferById: (offerId) => {
+          return Object.values(get().offersByListing)
+            .flat()
+            .find(offer => offer.id === offerId);
+        },
+
+        getOpenOfferForBuyer: (listingId, buyerId) => {
+          return get().getOffersForListing(listingId).find(offer =>
+            offer.buyerId === buyerId && isOfferOpen(offer)
+          );
+        },
+
+        hasAcceptedOffer: (listingId, userId) => {
+          return get().getOffersForListing(listingId).some(offer =>
+            offer.status === OfferStatus.ACCEPTED &&
+            (offer.buyerId === userId || offer.sellerId === userId)
+          );
+        },
+
+        // Actions
+        makeOffer: async (listingId, amount, message) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const currentUser = useUserStore.getState().getCurrentUser();
+
+            if (!currentUser) {
+              throw new Error('You must be logged in to make an offer');
+            }
+
+            const listing = useListingStore.getState().getListingById(listingId);
+
+            if (!listing || listing.status !== 'active') {
+              throw new Error('This listing is not accepting offers');
+            }
+
+            if (listing.sellerId === currentUser.id) {
+              throw new Error('You cannot make an offer on your own listing');
+            }
+
+            if (!(amount > 0)) {
+              throw new Error('Please enter an offer amount greater than zero');
+            }
+
+            get().expireStaleOffers();
+
+            if (get().getOpenOfferForBuyer(listingId, currentUser.id)) {
+              throw new Error('You already have an open offer on this listing');
+            }
+
+            const now = Date.now();
+            const newOffer: Offer = {
+              id: generateId(),
+              listingId,
+              buyerId: currentUser.id,
+              buyerName: currentUser.name,
+              sellerId: listing.sellerId,
+              amount,
+              status: OfferStatus.PENDING,
+              lastActorId: currentUser.id,
+              history: [{
+                id: generateId(),
+                type: 'offer',
+                actorId: currentUser.id,
+                actorName: currentUser.name,
+                amount,
+                message,
+                createdAt: now
+              }],
+              createdAt: now,
+              updatedAt: now,
+              expiresAt: now + OFFER_EXPIRY_MS
+            };
+
+            set(state => ({
+              offersByListing: {
+                ...state.offersByListing,
+                [listingId]: [...(state.offersByListing[listingId] || []), newOffer]
+              },
+              isLoading: false
+            }));
+
+            console.log('Created new offer:', newOffer);
+
+            return newOffer;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to make offer';
+            console.error('Error making offer:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+          }
+        },
+
+        counterOffer: async (offerId, amount, message) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const { offer, currentUser } = getOfferForParty(offerId);
+
+            if (!isAwaitingResponseFrom(offer, currentUser.id)) {
+              throw new Error('You are waiting for the other party to respond');
+            }
+
+            if (!(amount > 0)) {
+              throw new Error('Please enter a counter-offer amount greater than zero');
+            }
+
+            const updatedOffer = transitionOffer(offer, OfferStatus.COUNTERED, {
+              type: 'counter',
+              actorId: currentUser.id,
+              actorName: currentUser.name,
+              amount,
+              message
+            });
+
+            saveOffer(updatedOffer);
+            set({ isLoading: false });
+
+            console.log('Countered offer:', updatedOffer);
+
+            return updatedOffer;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to counter offer';
+            console.error('Error countering offer:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            return null;
+          }
+        },
+
+        acceptOffer: async (offerId) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const { offer, currentUser } = getOfferForParty(offerId);
+
+            if (!isAwaitingResponseFrom(offer, currentUser.id)) {
+              throw new Error('You are waiting for the other party to respond');
+            }
+
+            const listing = useListingStore.getState().getListingById(offer.listingId);
+
+            if (!listing || listing.status !== 'active') {
+              throw new Error('This listing is no longer available');
+            }
+
+            const acceptedOffer = transitionOffer(offer, OfferStatus.ACCEPTED, {
+              type: 'accept',
+              actorId: currentUser.id,
+              actorName: currentUser.name
+            });
+
+            saveOffer(acceptedOffer);
+
+            const reserved = await useListingStore.getState().setListingStatus(offer.listingId, 'pending');
+
+            if (!reserved) {
+              // Roll the offer back so the thread doesn't claim a deal the listing doesn't reflect
+              saveOffer(offer);
+              throw new Error(useListingStore.getState().error || 'Failed to reserve the listing');
+            }
+
+            // Any other open offers on the listing can no longer be honoured
+            set(state => ({
+              offersByListing: {
+                ...state.offersByListing,
+                [offer.listingId]: state.offersByListing[offer.listingId].map(o =>
+                  o.id !== offer.id && isOfferOpen(o)
+                    ? transitionOffer(o, OfferStatus.REJECTED, {
+                        type: 'reject',
+                        actorId: currentUser.id,
+                        actorName: currentUser.name,
+                        message: 'Another offer was accepted'
+                      })
+                    : o
+                )
+              },
+              isLoading: false
+            }));
+
+            console.log('Accepted offer:', offerId);
+
+            return true;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to accept offer';
+            console.error('Error accepting offer:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            return false;
+          }
+        },
+
+        rejectOffer: async (offerId, message) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const { offer, currentUser } = getOfferForParty(offerId);
+
+            if (!isAwaitingResponseFrom(offer, currentUser.id)) {
+              throw new Error('You are waiting for the other party to respond');
+            }
+
+            saveOffer(transitionOffer(offer, OfferStatus.REJECTED, {
+              type: 'reject',
+              actorId: currentUser.id,
+              actorName: currentUser.name,
+              message
+            }));
+            set({ isLoading: false });
+
+            console.log('Rejected offer:', offerId);
+
+            return true;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to reject offer';
+            console.error('Error rejecting offer:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            return false;
+          }
+        },
+
+        withdrawOffer: async (offerId) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const { offer, currentUser } = getOfferForParty(offerId);
+
+            if (offer.buyerId !== currentUser.id) {
+              throw new Error('Only the buyer can withdraw an offer');
+            }
+
+            saveOffer(transitionOffer(offer, OfferStatus.WITHDRAWN, {
+              type: 'withdraw',
+              actorId: currentUser.id,
+              actorName: currentUser.name
+            }));
+            set({ isLoading: false });
+
+            console.log('Withdrew offer:', offerId);
+
+            return true;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to withdraw offer';
+            console.error('Error withdrawing offer:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            return false;
+          }
+        },
+
+        expireStaleOffers: () => {
+          const now = Date.now();
+          const hasStale = Object.values(get().offersByListing).some(offers =>
+            offers.some(offer => OFFER_TRANSITIONS[offer.status].length > 0 && offer.expiresAt <= now)
+          );
+
+          if (!hasStale) return;
+
+          set(state => ({
+            offersByListing: Object.fromEntries(
+              Object.entries(state.offersByListing).map(([listingId, offers]) => [
+                listingId,
+                offers.map(offer =>
+                  OFFER_TRANSITIONS[offer.status].length > 0 && offer.expiresAt <= now
+                    ? transitionOffer(offer, OfferStatus.EXPIRED, {
+                        type: 'expire',
+                        actorId: offer.lastActorId,
+                        actorName: 'System'
+                      })
+                    : offer
+                )
+              ])
+            )
+          }));
+        }
+      };
+    },
+    {
+      docId: "marketplace-offers",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Offer sync initialization error:", error);
+      }
+    }
+  )
+);
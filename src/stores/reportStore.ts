@@ -0,0 +1,504 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import { useUserStore, getTrustedAdminIds } from './userStore';
+import { useListingStore } from './listingStore';
+import { useModerationStore, ModerationAction } from './moderationStore';
+import encryption, { SealedMessage } from '../modules/encryption';
+import keyVault from '../modules/keyVault';
+
+/**
+ * Why a listing or user was reported
+ */
+export enum ReportReason {
+  SCAM = 'scam',
+  COUNTERFEIT = 'counterfeit',
+  INAPPROPRIATE = 'inappropriate',
+  SPAM = 'spam',
+  HARASSMENT = 'harassment',
+  OTHER = 'other'
+}
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  [ReportReason.SCAM]: 'Scam or fraud',
+  [ReportReason.COUNTERFEIT]: 'Counterfeit item',
+  [ReportReason.INAPPROPRIATE]: 'Inappropriate content',
+  [ReportReason.SPAM]: 'Spam',
+  [ReportReason.HARASSMENT]: 'Harassment',
+  [ReportReason.OTHER]: 'Something else'
+};
+
+/**
+ * Where a report is in the review queue. Open and escalated reports still
+ * need an admin; resolved and dismissed ones are done.
+ */
+export enum ReportStatus {
+  OPEN = 'open',
+  ESCALATED = 'escalated',
+  RESOLVED = 'resolved',
+  DISMISSED = 'dismissed'
+}
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  [ReportStatus.OPEN]: 'Open',
+  [ReportStatus.ESCALATED]: 'Escalated',
+  [ReportStatus.RESOLVED]: 'Resolved',
+  [ReportStatus.DISMISSED]: 'Dismissed'
+};
+
+export type ReportTargetType = 'listing' | 'user';
+
+/**
+ * A user's report about a listing or another user. Reports sync to every
+ * user, so who made one and what they wrote are sealed to the admins.
+ */
+export interface Report {
+  id: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetName: string;
+  /** Keyed hash of the reporter and target, so reporters can be counted without being named */
+  reporterTag: string;
+  reason: ReportReason;
+  /** The report's ReportDetails, sealed to each admin's key, keyed by admin ID */
+  sealedDetails: Record<string, SealedMessage>;
+  status: ReportStatus;
+  createdAt: number;
+  reviewedBy?: string;
+  reviewedAt?: number;
+  reviewNote?: string;
+}
+
+/**
+ * What only admins can read about a report
+ */
+export interface ReportDetails {
+  reporterId: string;
+  reporterName: string;
+  details: string;
+}
+
+/**
+ * Reports about one listing or user, grouped for the review queue
+ */
+export interface ReportGroup {
+  targetType: ReportTargetType;
+  targetId: string;
+  targetName: string;
+  reports: Report[];
+  isEscalated: boolean;
+}
+
+export const DEFAULT_AUTO_HIDE_THRESHOLD = 3;
+
+/**
+ * Longest report description that can be sent
+ */
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+/**
+ * Store state interface
+ */
+interface ReportState {
+  reports: Report[];
+  autoHideThreshold: number;  // Distinct reports that hide a listing until it's reviewed
+  isLoading: boolean;
+  error: string | null;
+
+  // Selectors
+  getPendingReports: (targetId: string) => Report[];
+  getReviewQueue: () => ReportGroup[];
+  hasReported: (targetId: string, userId: string) => boolean;
+  isHiddenPendingReview: (listingId: string) => boolean;
+
+  // Actions
+  submitReport: (targetType: ReportTargetType, targetId: string, reason: ReportReason, details: string) => Promise<Report>;
+  openReportDetails: (report: Report) => Promise<ReportDetails | null>;
+  reviewReports: (targetId: string, status: ReportStatus, note: string) => boolean;
+  setAutoHideThreshold: (threshold: number, reason: string) => boolean;
+  migrateLegacyReports: () => Promise<void>;
+}
+
+/**
+ * Report as it may still exist in older documents, before reporters and
+ * details were sealed
+ */
+type LegacyReport = Omit<Report, 'reporterTag' | 'sealedDetails'> & {
+  reporterTag?: string;
+  sealedDetails?: Record<string, SealedMessage>;
+  reporterId?: string;
+  reporterName?: string;
+  details?: string;
+};
+
+/**
+ * Generate a random ID
+ */
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+/**
+ * Where this device remembers the tags of the reports each user made
+ */
+const REPORT_TAGS_STORAGE_PREFIX = 'report-tags:';
+
+/**
+ * Work out a user's tag for a target: an HMAC of the target keyed with a key
+ * derived from the secret in their key vault. Every device they log in on has
+ * the same secret, so the tag is the same wherever they report from, but
+ * nobody else can link it to them.
+ */
+const getReporterTag = async (userId: string, targetId: string) => {
+  const secret = keyVault.loadSecret(userId);
+  if (!secret) {
+    throw new Error('Log in again on this device to report something');
+  }
+
+  const key = await keyVault.deriveHmacKey(secret, 'report-tag');
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`report:${targetId}`));
+  return Array.from(new Uint8Array(mac), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Load the report tags this device remembers for a user, keyed by target ID
+ */
+const loadOwnReportTags = (userId: string): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(`${REPORT_TAGS_STORAGE_PREFIX}${userId}`) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const saveOwnReportTag = (userId: string, targetId: string, tag: string) => {
+  const tags = { ...loadOwnReportTags(userId), [targetId]: tag };
+  localStorage.setItem(`${REPORT_TAGS_STORAGE_PREFIX}${userId}`, JSON.stringify(tags));
+};
+
+/**
+ * Seal a report's details to every trusted admin with a published key. Admin
+ * rights come from signed grants, since anyone can set isAdmin on their own
+ * profile. Admins who join later can't read reports made before them.
+ */
+const sealToAdmins = async (details: ReportDetails) => {
+  const sealed: Record<string, SealedMessage> = {};
+  const adminIds = await getTrustedAdminIds();
+  const admins = useUserStore.getState().profiles.filter(profile =>
+    adminIds.has(profile.id) && profile.encryptionPublicKey
+  );
+
+  for (const admin of admins) {
+    sealed[admin.id] = await encryption.seal(admin.encryptionPublicKey!, JSON.stringify(details));
+  }
+  return sealed;
+};
+
+/**
+ * Check whether a report still carries its reporter or details in plain text
+ */
+const isLegacyReport = (report: LegacyReport) => {
+  return report.reporterTag === undefined || report.reporterId !== undefined || report.details !== undefined;
+};
+
+// Only one legacy report migration runs at a time, since sealing is async
+let isMigratingReports = false;
+
+/**
+ * Check whether a report still needs an admin to look at it
+ */
+const isPending = (report: Report) => {
+  return report.status === ReportStatus.OPEN || report.status === ReportStatus.ESCALATED;
+};
+
+/**
+ * Audit log action for each review outcome
+ */
+const REVIEW_ACTIONS: Partial<Record<ReportStatus, ModerationAction>> = {
+  [ReportStatus.RESOLVED]: ModerationAction.RESOLVE_REPORTS,
+  [ReportStatus.DISMISSED]: ModerationAction.DISMISS_REPORTS,
+  [ReportStatus.ESCALATED]: ModerationAction.ESCALATE_REPORTS
+};
+
+/**
+ * Create the report store
+ */
+export const useReportStore = create<ReportState>(
+  sync(
+    (set, get) => ({
+      reports: [],
+      autoHideThreshold: DEFAULT_AUTO_HIDE_THRESHOLD,
+      isLoading: false,
+      error: null,
+
+      // Selectors
+      getPendingReports: (targetId) => {
+        return get().reports.filter(report => report.targetId === targetId && isPending(report));
+      },
+
+      getReviewQueue: () => {
+        const groups: Record<string, ReportGroup> = {};
+
+        get().reports.filter(isPending).forEach(report => {
+          const group = groups[report.targetId] ??= {
+            targetType: report.targetType,
+            targetId: report.targetId,
+            targetName: report.targetName,
+            reports: [],
+            isEscalated: false
+          };
+          group.reports.push(report);
+          group.isEscalated = group.isEscalated || report.status === ReportStatus.ESCALATED;
+        });
+
+        // Escalated first, then the most reported
+        return Object.values(groups).sort((a, b) =>
+          Number(b.isEscalated) - Number(a.isEscalated) || b.reports.length - a.reports.length
+        );
+      },
+
+      // Only knows about reports made from this device; submitting checks
+      // reports made from the user's other devices too
+      hasReported: (targetId, userId) => {
+        const tag = loadOwnReportTags(userId)[targetId];
+        return Boolean(tag) && get().reports.some(report =>
+          report.targetId === targetId && report.reporterTag === tag && isPending(report)
+        );
+      },
+
+      isHiddenPendingReview: (listingId) => {
+        const reporters = new Set(
+          get().getPendingReports(listingId).map(report => report.reporterTag)
+        );
+        return reporters.size >= get().autoHideThreshold;
+      },
+
+      // Actions
+      submitReport: async (targetType, targetId, reason, details) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const currentUser = useUserStore.getState().getCurrentUser();
+
+          if (!currentUser) {
+            throw new Error('You must be logged in to report something');
+          }
+
+          let targetName: string;
+          if (targetType === 'listing') {
+            const listing = useListingStore.getState().getListingById(targetId);
+            if (!listing) {
+              throw new Error('Listing not found');
+            }
+            if (listing.sellerId === currentUser.id) {
+              throw new Error("You can't report your own listing");
+            }
+            targetName = listing.title;
+          } else {
+            const profile = useUserStore.getState().profiles.find(p => p.id === targetId);
+            if (!profile) {
+              throw new Error('User not found');
+            }
+            if (profile.id === currentUser.id) {
+              throw new Error("You can't report yourself");
+            }
+            targetName = profile.name;
+          }
+
+          // One open report per person, so a single user can't hide a listing alone
+          const reporterTag = await getReporterTag(currentUser.id, targetId);
+          if (get().getPendingReports(targetId).some(report => report.reporterTag === reporterTag)) {
+            saveOwnReportTag(currentUser.id, targetId, reporterTag);
+            throw new Error("You've already reported this. An admin will review it.");
+          }
+
+          const trimmedDetails = details.trim();
+          if (reason === ReportReason.OTHER && !trimmedDetails) {
+            throw new Error('Please describe the problem');
+          }
+
+          if (trimmedDetails.length > MAX_REPORT_DETAILS_LENGTH) {
+            throw new Error(`Please keep the description under ${MAX_REPORT_DETAILS_LENGTH} characters`);
+          }
+
+          const report: Report = {
+            id: generateId(),
+            targetType,
+            targetId,
+            targetName,
+            reporterTag,
+            reason,
+            sealedDetails: await sealToAdmins({
+              reporterId: currentUser.id,
+              reporterName: currentUser.name,
+              details: trimmedDetails
+            }),
+            status: ReportStatus.OPEN,
+            createdAt: Date.now()
+          };
+
+          set(state => ({
+            reports: [...state.reports, report],
+            isLoading: false
+          }));
+          saveOwnReportTag(currentUser.id, targetId, reporterTag);
+
+          console.log('Submitted report:', report.id);
+          return report;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to submit report';
+          console.error('Error submitting report:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          throw error;
+        }
+      },
+
+      openReportDetails: async (report) => {
+        const currentUser = useUserStore.getState().getCurrentUser();
+        const sealed = currentUser ? report.sealedDetails?.[currentUser.id] : undefined;
+
+        if (!currentUser || !sealed) {
+          return null;
+        }
+
+        const plaintext = await encryption.openWithStoredKeys(currentUser.id, sealed);
+        try {
+          return plaintext === null ? null : JSON.parse(plaintext) as ReportDetails;
+        } catch (error) {
+          return null;
+        }
+      },
+
+      reviewReports: (targetId, status, note) => {
+        set({ error: null });
+
+        const userStore = useUserStore.getState();
+        const admin = userStore.getCurrentUser();
+        if (!admin || !userStore.isCurrentUserAdmin()) {
+          set({ error: 'Only admins can review reports' });
+          return false;
+        }
+
+        const action = REVIEW_ACTIONS[status];
+        if (!action) {
+          set({ error: 'Reports can only be resolved, dismissed or escalated' });
+          return false;
+        }
+
+        if (!note.trim()) {
+          set({ error: 'Please give a reason' });
+          return false;
+        }
+
+        const pending = get().getPendingReports(targetId);
+        if (pending.length === 0) {
+          set({ error: 'There are no open reports for this' });
+          return false;
+        }
+
+        const now = Date.now();
+        set(state => ({
+          reports: state.reports.map(report =>
+            report.targetId === targetId && isPending(report)
+              ? { ...report, status, reviewedBy: admin.id, reviewedAt: now, reviewNote: note.trim() }
+              : report
+          )
+        }));
+
+        useModerationStore.getState().recordAction({
+          action,
+          targetType: pending[0].targetType,
+          targetId,
+          targetName: pending[0].targetName,
+          reason: note,
+          details: `${pending.length} report${pending.length === 1 ? '' : 's'}`
+        });
+
+        return true;
+      },
+
+      setAutoHideThreshold: (threshold, reason) => {
+        set({ error: null });
+
+        if (!useUserStore.getState().isCurrentUserAdmin()) {
+          set({ error: 'Only admins can change report settings' });
+          return false;
+        }
+
+        if (!Number.isInteger(threshold) || threshold < 1) {
+          set({ error: 'The threshold must be a whole number of at least 1' });
+          return false;
+        }
+
+        if (!reason.trim()) {
+          set({ error: 'Please give a reason' });
+          return false;
+        }
+
+        set({ autoHideThreshold: threshold });
+        useModerationStore.getState().recordAction({
+          action: ModerationAction.CHANGE_SETTING,
+          targetType: 'setting',
+          targetId: 'autoHideThreshold',
+          targetName: 'Report auto-hide threshold',
+          reason,
+          details: `${threshold} report${threshold === 1 ? '' : 's'}`
+        });
+
+        return true;
+      },
+
+      // Any client seals the reporters and details of older reports to the
+      // admins and removes them from the public document. Their reporters
+      // can't be tagged by anyone else, so each gets a tag of its own; they
+      // were already one open report per reporter.
+      migrateLegacyReports: async () => {
+        if (isMigratingReports) return;
+        isMigratingReports = true;
+
+        try {
+          const legacy = (get().reports as LegacyReport[]).filter(isLegacyReport);
+          if (legacy.length === 0) return;
+
+          const sealedFields: Record<string, Pick<Report, 'reporterTag' | 'sealedDetails'>> = {};
+          for (const report of legacy) {
+            sealedFields[report.id] = {
+              reporterTag: report.reporterTag || `legacy-${report.id}`,
+              sealedDetails: report.sealedDetails || await sealToAdmins({
+                reporterId: report.reporterId || '',
+                reporterName: report.reporterName || '',
+                details: report.details || ''
+              })
+            };
+          }
+
+          // Applied to the reports as they are now, in case they were reviewed meanwhile
+          set(state => ({
+            reports: (state.reports as LegacyReport[]).map(report => {
+              if (!sealedFields[report.id]) return report;
+              const { reporterId: _reporterId, reporterName: _reporterName, details: _details, ...rest } = report;
+              return { ...rest, ...sealedFields[report.id] };
+            }) as Report[]
+          }));
+
+          console.log('Sealed', legacy.length, 'legacy reports to admins');
+        } catch (error) {
+          console.error('Error migrating legacy reports:', error);
+        } finally {
+          isMigratingReports = false;
+        }
+      }
+    }),
+    {
+      docId: "marketplace-reports",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Report sync initialization error:", error);
+      }
+    }
+  )
+);
+
+// Seal plain-text reports whenever they arrive from the synced document
+useReportStore.subscribe(state => {
+  if ((state.reports as LegacyReport[]).some(isLegacyReport)) {
+    state.migrateLegacyReports();
+  }
+});
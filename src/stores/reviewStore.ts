@@ -0,0 +1,292 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import { useUserStore } from './userStore';
+import { useListingStore, Listing } from './listingStore';
+import { useOfferStore, OfferStatus } from './offerStore';
+import { useTradeStore, TradeProposalStatus } from './tradeStore';
+
+/**
+ * The reviewee's public answer to a review
+ */
+export interface ReviewReply {
+  text: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+/**
+ * A star rating and comment one party left the other after a completed
+ * transaction
+ */
+export interface Review {
+  id: string;
+  listingId: string;
+  listingTitle: string;
+  reviewerId: string;
+  reviewerName: string;
+  revieweeId: string;
+  rating: number;  // Whole stars, 1 to 5
+  comment: string;
+  createdAt: number;
+  reply?: ReviewReply;
+}
+
+/**
+ * Average rating and number of reviews for a user
+ */
+export interface RatingSummary {
+  average: number;
+  count: number;
+}
+
+/**
+ * Someone the current user traded with on a listing and hasn't reviewed yet
+ */
+export interface PendingReview {
+  listing: Listing;
+  counterpartyId: string;
+  counterpartyName: string;
+}
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+/**
+ * Longest review or reply that can be posted
+ */
+export const MAX_REVIEW_LENGTH = 1000;
+
+/**
+ * Store state interface
+ */
+interface ReviewState {
+  reviews: Review[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Selectors
+  getReviewsForUser: (userId: string) => Review[];
+  getRatingSummary: (userId: string) => RatingSummary;
+  getCounterparties: (listingId: string, userId: string) => string[];
+  getPendingReviews: (userId: string) => PendingReview[];
+  hasReviewed: (listingId: string, reviewerId: string, revieweeId: string) => boolean;
+
+  // Actions
+  submitReview: (listingId: string, revieweeId: string, rating: number, comment: string) => Promise<Review>;
+  replyToReview: (reviewId: string, text: string) => Promise<boolean>;
+}
+
+/**
+ * Generate a random ID
+ */
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+/**
+ * Find the pairs of users who agreed a deal on a listing, through an accepted
+ * offer or trade. Each pair is one transaction.
+ */
+const getDealPairs = (listing: Listing): [string, string][] => {
+  const offerPairs = useOfferStore.getState().getOffersForListing(listing.id)
+    .filter(offer => offer.status === OfferStatus.ACCEPTED)
+    .map((offer): [string, string] => [offer.buyerId, offer.sellerId]);
+
+  const tradePairs = useTradeStore.getState().getProposalsForListing(listing.id)
+    .filter(proposal => proposal.status === TradeProposalStatus.ACCEPTED)
+    .map((proposal): [string, string] => [proposal.proposerId, proposal.recipientId]);
+
+  return [...offerPairs, ...tradePairs];
+};
+
+/**
+ * Create the review store
+ */
+export const useReviewStore = create<ReviewState>(
+  sync(
+    (set, get) => ({
+      reviews: [],
+      isLoading: false,
+      error: null,
+
+      // Selectors
+      getReviewsForUser: (userId) => {
+        return get().reviews
+          .filter(review => review.revieweeId === userId)
+          .sort((a, b) => b.createdAt - a.createdAt);
+      },
+
+      getRatingSummary: (userId) => {
+        const ratings = get().reviews
+          .filter(review => review.revieweeId === userId)
+          .map(review => review.rating);
+
+        if (ratings.length === 0) {
+          return { average: 0, count: 0 };
+        }
+
+        const total = ratings.reduce((sum, rating) => sum + rating, 0);
+        return { average: total / ratings.length, count: ratings.length };
+      },
+
+      // Reviews open once a listing is sold (or a service is completed)
+      getCounterparties: (listingId, userId) => {
+        const listing = useListingStore.getState().getListingById(listingId);
+        if (!listing || listing.status !== 'sold') {
+          return [];
+        }
+
+        const counterparties = new Set<string>();
+        getDealPairs(listing).forEach(([first, second]) => {
+          if (first === userId) counterparties.add(second);
+          if (second === userId) counterparties.add(first);
+        });
+
+        counterparties.delete(userId);
+        return [...counterparties];
+      },
+
+      getPendingReviews: (userId) => {
+        const { listings } = useListingStore.getState();
+        const { profiles } = useUserStore.getState();
+
+        return listings
+          .filter(listing => listing.status === 'sold')
+          .flatMap(listing =>
+            get().getCounterparties(listing.id, userId)
+              .filter(counterpartyId => !get().hasReviewed(listing.id, userId, counterpartyId))
+              .map(counterpartyId => ({
+                listing,
+                counterpartyId,
+                counterpartyName: profiles.find(p => p.id === counterpartyId)?.name || 'Unknown user'
+              }))
+          )
+          .sort((a, b) => b.listing.updatedAt - a.listing.updatedAt);
+      },
+
+      hasReviewed: (listingId, reviewerId, revieweeId) => {
+        return get().reviews.some(review =>
+          review.listingId === listingId &&
+          review.reviewerId === reviewerId &&
+          review.revieweeId === revieweeId
+        );
+      },
+
+      // Actions
+      submitReview: async (listingId, revieweeId, rating, comment) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const currentUser = useUserStore.getState().getCurrentUser();
+
+          if (!currentUser) {
+            throw new Error('You must be logged in to leave a review');
+          }
+
+          const listing = useListingStore.getState().getListingById(listingId);
+
+          if (!listing) {
+            throw new Error('Listing not found');
+          }
+
+          if (!get().getCounterparties(listingId, currentUser.id).includes(revieweeId)) {
+            throw new Error('You can only review people you completed a deal with');
+          }
+
+          // One review per counterparty per transaction
+          if (get().hasReviewed(listingId, currentUser.id, revieweeId)) {
+            throw new Error("You've already reviewed this transaction");
+          }
+
+          if (!Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+            throw new Error(`Please pick a rating from ${MIN_RATING} to ${MAX_RATING} stars`);
+          }
+
+          const trimmedComment = comment.trim();
+          if (trimmedComment.length > MAX_REVIEW_LENGTH) {
+            throw new Error(`Please keep your review under ${MAX_REVIEW_LENGTH} characters`);
+          }
+
+          const review: Review = {
+            id: generateId(),
+            listingId,
+            listingTitle: listing.title,
+            reviewerId: currentUser.id,
+            reviewerName: currentUser.name,
+            revieweeId,
+            rating,
+            comment: trimmedComment,
+            createdAt: Date.now()
+          };
+
+          set(state => ({
+            reviews: [...state.reviews, review],
+            isLoading: false
+          }));
+
+          console.log('Posted review:', review.id);
+          return review;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to post review';
+          console.error('Error posting review:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          throw error;
+        }
+      },
+
+      replyToReview: async (reviewId, text) => {
+        set({ isLoading: true, error: null });
+
+        try {
+          const currentUser = useUserStore.getState().getCurrentUser();
+
+          if (!currentUser) {
+            throw new Error('You must be logged in to reply');
+          }
+
+          const review = get().reviews.find(r => r.id === reviewId);
+
+          if (!review) {
+            throw new Error('Review not found');
+          }
+
+          if (review.revieweeId !== currentUser.id) {
+            throw new Error('You can only reply to reviews about you');
+          }
+
+          const trimmedText = text.trim();
+          if (!trimmedText) {
+            throw new Error('Please write a reply');
+          }
+
+          if (trimmedText.length > MAX_REVIEW_LENGTH) {
+            throw new Error(`Please keep your reply under ${MAX_REVIEW_LENGTH} characters`);
+          }
+
+          // Replying again edits the existing reply
+          const now = Date.now();
+          const reply: ReviewReply = review.reply
+            ? { ...review.reply, text: trimmedText, updatedAt: now }
+            : { text: trimmedText, createdAt: now };
+
+          set(state => ({
+            reviews: state.reviews.map(r => r.id === reviewId ? { ...r, reply } : r),
+            isLoading: false
+          }));
+
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to post reply';
+          console.error('Error replying to review:', errorMessage);
+          set({ error: errorMessage, isLoading: false });
+          return false;
+        }
+      }
+    }),
+    {
+      docId: "marketplace-reviews",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Review sync initialization error:", error);
+      }
+    }
+  )
+);
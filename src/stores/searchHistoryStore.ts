@@ -0,0 +1,81 @@
+import { create } from 'zustand';
+import { useUserStore } from './userStore';
+
+/**
+ * How many recent searches are kept for each user
+ */
+export const MAX_SEARCH_HISTORY = 10;
+
+/**
+ * Store state interface
+ *
+ * What someone searched for is nobody else's business, so this store is not
+ * synced. Each user's history is kept in localStorage on this device, under
+ * their profile id, with a separate history for guests.
+ */
+interface SearchHistoryState {
+  histories: Record<string, string[]>;
+
+  // Selectors
+  getRecentSearches: () => string[];
+
+  // Actions
+  recordSearch: (query: string) => void;
+  removeSearch: (query: string) => void;
+  clearHistory: () => void;
+}
+
+const STORAGE_PREFIX = "search-history:";
+
+/**
+ * Whose history is in use: the logged-in user's, or the guest history
+ */
+const historyOwner = () => useUserStore.getState().getCurrentUser()?.id || 'guest';
+
+const loadHistory = (owner: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(`${STORAGE_PREFIX}${owner}`) || '[]');
+    return Array.isArray(stored) ? stored.filter(entry => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Create the search history store
+ */
+export const useSearchHistoryStore = create<SearchHistoryState>((set, get) => {
+  const saveHistory = (owner: string, history: string[]) => {
+    localStorage.setItem(`${STORAGE_PREFIX}${owner}`, JSON.stringify(history));
+    set(state => ({ histories: { ...state.histories, [owner]: history } }));
+  };
+
+  return {
+    histories: {},
+
+    // Selectors
+    getRecentSearches: () => {
+      const owner = historyOwner();
+      return get().histories[owner] ?? loadHistory(owner);
+    },
+
+    // Actions
+    recordSearch: (query) => {
+      const trimmed = query.trim();
+      if (!trimmed) return;
+
+      // Searching again moves a query to the top rather than repeating it
+      const previous = get().getRecentSearches()
+        .filter(entry => entry.toLowerCase() !== trimmed.toLowerCase());
+      saveHistory(historyOwner(), [trimmed, ...previous].slice(0, MAX_SEARCH_HISTORY));
+    },
+
+    removeSearch: (query) => {
+      saveHistory(historyOwner(), get().getRecentSearches().filter(entry => entry !== query));
+    },
+
+    clearHistory: () => {
+      saveHistory(historyOwner(), []);
+    }
+  };
+});
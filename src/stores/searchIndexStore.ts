@@ -0,0 +1,117 @@
+import { create } from 'zustand';
+import { useListingStore, Listing } from './listingStore';
+import search, { SearchDocument, SearchOptions, SearchResult } from '../modules/search';
+
+/**
+ * How much a match in each listing field counts towards relevance
+ */
+export const LISTING_FIELD_WEIGHTS: Record<string, number> = {
+  title: 5,
+  tags: 4,
+  sellerName: 2,
+  shortDescription: 2,
+  category: 1.5,
+  detailedDescription: 1
+};
+
+/**
+ * Store state interface
+ *
+ * The index is built by each client from the synced listings, so this store
+ * is not synced. The index itself lives outside the state since it's updated
+ * in place; `version` changes whenever it does, so components can re-render
+ * and re-run their searches.
+ */
+interface SearchIndexState {
+  version: number;
+  indexedCount: number;
+
+  // Selectors
+  searchListings: (query: string, options?: SearchOptions) => SearchResult[];
+
+  // Actions
+  syncIndex: () => void;
+}
+
+/**
+ * Pick out the text of a listing that's searchable
+ */
+const toSearchDocument = (listing: Listing): SearchDocument => ({
+  id: listing.id,
+  fields: {
+    title: listing.title,
+    tags: listing.tags,
+    sellerName: listing.sellerName,
+    shortDescription: listing.shortDescription,
+    category: listing.category,
+    detailedDescription: listing.detailedDescription
+  }
+});
+
+const index = search.createIndex(LISTING_FIELD_WEIGHTS);
+
+/**
+ * The listing object and searchable text last indexed for each listing, so
+ * unchanged listings can be skipped without re-tokenising them
+ */
+const indexed = new Map<string, { listing: Listing; key: string }>();
+
+/**
+ * Create the search index store
+ */
+export const useSearchIndexStore = create<SearchIndexState>((set) => ({
+  version: 0,
+  indexedCount: 0,
+
+  // Selectors
+  searchListings: (query, options) => {
+    return search.search(index, query, options);
+  },
+
+  // Actions
+  syncIndex: () => {
+    const { listings } = useListingStore.getState();
+    const seen = new Set<string>();
+    let changed = false;
+
+    listings.forEach(listing => {
+      seen.add(listing.id);
+      const previous = indexed.get(listing.id);
+      if (previous?.listing === listing) return;
+
+      // Status changes and remote syncs give us new objects with the same text
+      const document = toSearchDocument(listing);
+      const key = JSON.stringify(document.fields);
+      if (previous?.key !== key) {
+        search.addDocument(index, document);
+        changed = true;
+      }
+      indexed.set(listing.id, { listing, key });
+    });
+
+    indexed.forEach((_, id) => {
+      if (!seen.has(id)) {
+        search.removeDocument(index, id);
+        indexed.delete(id);
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      set(state => ({ version: state.version + 1, indexedCount: indexed.size }));
+    }
+  }
+}));
+
+/**
+ * Keep the index in step with the listings document. Called once at startup.
+ */
+export const startSearchIndex = () => {
+  useListingStore.subscribe((state, prev) => {
+    if (state.listings !== prev.listings) {
+      useSearchIndexStore.getState().syncIndex();
+    }
+  });
+
+  useSearchIndexStore.getState().syncIndex();
+};
@@ -0,0 +1,227 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import { useUserStore } from './userStore';
+
+/**
+ * A logged-in device. Revoked sessions are kept with `revokedAt` set rather
+ * than removed, so a device that hasn't synced the revocation yet can still
+ * tell its session was ended rather than simply not synced.
+ */
+export interface DeviceSession {
+  id: string;
+  userId: string;
+  userAgent: string;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  revokedAt?: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Session lengths users can choose from. Sessions expire this long after the
+ * device was last used.
+ */
+export const SESSION_DURATION_OPTIONS = [
+  { label: '1 hour', value: HOUR },
+  { label: '1 day', value: DAY },
+  { label: '7 days', value: 7 * DAY },
+  { label: '30 days', value: 30 * DAY }
+];
+
+export const DEFAULT_SESSION_DURATION = 7 * DAY;
+
+// How often a device refreshes its last seen time, to keep sync traffic down
+const LAST_SEEN_INTERVAL = 5 * 60 * 1000;
+
+// How often this device rechecks its own session for expiry
+const SESSION_CHECK_INTERVAL = 60 * 1000;
+
+/**
+ * Store state interface
+ */
+interface SessionState {
+  sessions: Record<string, DeviceSession>;
+  sessionDurations: Record<string, number>;  // Chosen session length per user
+  revokedBefore: Record<string, number>;     // Sessions a user started before this time are ended
+
+  // Selectors
+  getSessionsForUser: (userId: string) => DeviceSession[];
+  getSessionDuration: (userId: string) => number;
+  isSessionActive: (sessionId: string, userId: string, startedAt: number) => boolean;
+
+  // Actions
+  startSession: (userId: string) => DeviceSession;
+  touchSession: (sessionId: string) => DeviceSession | null;
+  endSession: (sessionId: string) => void;
+  endAllSessions: (userId: string) => void;
+  setSessionDuration: (userId: string, duration: number) => void;
+}
+
+// Generate a random ID
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+/**
+ * Check whether a session is still usable
+ */
+const isLive = (session: DeviceSession, now: number) => {
+  return !session.revokedAt && session.expiresAt > now;
+};
+
+/**
+ * Create the session store
+ */
+export const useSessionStore = create<SessionState>(
+  sync(
+    (set, get) => ({
+      sessions: {},
+      sessionDurations: {},
+      revokedBefore: {},
+
+      // Selectors
+      getSessionsForUser: (userId) => {
+        const now = Date.now();
+        return Object.values(get().sessions)
+          .filter(session => session.userId === userId && isLive(session, now))
+          .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+      },
+
+      getSessionDuration: (userId) => {
+        return get().sessionDurations[userId] || DEFAULT_SESSION_DURATION;
+      },
+
+      // Only reports a session as ended on positive evidence, since this
+      // device may not have synced the session record yet
+      isSessionActive: (sessionId, userId, startedAt) => {
+        const revokedBefore = get().revokedBefore[userId];
+        if (revokedBefore && startedAt < revokedBefore) {
+          return false;
+        }
+
+        const session = get().sessions[sessionId];
+        return !session || isLive(session, Date.now());
+      },
+
+      // Actions
+      startSession: (userId) => {
+        const now = Date.now();
+        const session: DeviceSession = {
+          id: generateId(),
+          userId,
+          userAgent: navigator.userAgent,
+          createdAt: now,
+          lastSeenAt: now,
+          expiresAt: now + get().getSessionDuration(userId)
+        };
+
+        // Drop sessions that ended long enough ago that no device still needs the record
+        set(state => ({
+          sessions: {
+            ...Object.fromEntries(
+              Object.entries(state.sessions).filter(([, existing]) =>
+                Math.max(existing.expiresAt, existing.revokedAt || 0) > now - 30 * DAY
+              )
+            ),
+            [session.id]: session
+          }
+        }));
+
+        return session;
+      },
+
+      touchSession: (sessionId) => {
+        const session = get().sessions[sessionId];
+        const now = Date.now();
+        if (!session || !isLive(session, now)) return null;
+        if (now - session.lastSeenAt < LAST_SEEN_INTERVAL) return session;
+
+        const touched = {
+          ...session,
+          lastSeenAt: now,
+          expiresAt: now + get().getSessionDuration(session.userId)
+        };
+        set(state => ({
+          sessions: { ...state.sessions, [sessionId]: touched }
+        }));
+
+        return touched;
+      },
+
+      endSession: (sessionId) => {
+        const session = get().sessions[sessionId];
+        if (!session || session.revokedAt) return;
+
+        set(state => ({
+          sessions: { ...state.sessions, [sessionId]: { ...session, revokedAt: Date.now() } }
+        }));
+      },
+
+      endAllSessions: (userId) => {
+        const now = Date.now();
+        set(state => ({
+          revokedBefore: { ...state.revokedBefore, [userId]: now },
+          sessions: Object.fromEntries(
+            Object.entries(state.sessions).map(([id, session]) => [
+              id,
+              session.userId === userId && !session.revokedAt ? { ...session, revokedAt: now } : session
+            ])
+          )
+        }));
+
+        console.log('Ended all sessions for user:', userId);
+      },
+
+      setSessionDuration: (userId, duration) => {
+        set(state => ({
+          sessionDurations: { ...state.sessionDurations, [userId]: duration }
+        }));
+      }
+    }),
+    {
+      docId: "player-finder-sessions",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Session sync initialization error:", error);
+      }
+    }
+  )
+);
+
+// Stops the running session watch, if there is one
+let stopSessionWatch: (() => void) | null = null;
+
+/**
+ * Start checking this device's session. It's checked once profiles have
+ * synced, whenever sessions are ended elsewhere, and periodically for expiry.
+ * Called once at startup, after every store has been created, since the
+ * stores import each other. Calling it again while it's running does nothing.
+ *
+ * @returns A function that stops the checks
+ */
+export const startSessionWatch = () => {
+  if (stopSessionWatch) return stopSessionWatch;
+
+  const checkSession = () => useUserStore.getState().checkSession();
+
+  const unsubscribeSessions = useSessionStore.subscribe((state, prev) => {
+    if (state.sessions !== prev.sessions || state.revokedBefore !== prev.revokedBefore) {
+      checkSession();
+    }
+  });
+  const unsubscribeUsers = useUserStore.subscribe((state, prev) => {
+    if (state.profiles !== prev.profiles) checkSession();
+  });
+  const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL);
+
+  stopSessionWatch = () => {
+    unsubscribeSessions();
+    unsubscribeUsers();
+    clearInterval(interval);
+    stopSessionWatch = null;
+  };
+
+  checkSession();
+  return stopSessionWatch;
+};
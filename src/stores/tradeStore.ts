@@ -0,0 +1,459 @@
+import { create } from 'zustand';
+import { sync } from '@tonk/keepsync';
+import { useUserStore } from './userStore';
+import { useListingStore, ListingType } from './listingStore';
+import { TradeProposalStatus, TradeTerms, getTradeListingIds } from '../types/trade';
+
+// These live with the other shared types so pure modules can use them
+// without loading the store
+export { TradeProposalStatus, getTradeListingIds };
+export type { TradeTerms };
+
+/**
+ * Interface for a single entry in a trade proposal's history
+ */
+export interface TradeEvent {
+  id: string;
+  type: 'propose' | 'counter' | 'accept' | 'decline' | 'withdraw';
+  actorId: string;
+  actorName: string;
+  terms?: TradeTerms;
+  message?: string;
+  createdAt: number;
+}
+
+/**
+ * Main trade proposal interface
+ */
+export interface TradeProposal {
+  id: string;
+  targetListingId: string;
+  proposerId: string;
+  proposerName: string;
+  recipientId: string;
+  recipientName: string;
+  terms: TradeTerms;
+  status: TradeProposalStatus;
+  lastActorId: string;
+  history: TradeEvent[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Allowed status transitions for a trade proposal
+ */
+const TRADE_TRANSITIONS: Record<TradeProposalStatus, TradeProposalStatus[]> = {
+  [TradeProposalStatus.PENDING]: [
+    TradeProposalStatus.COUNTERED,
+    TradeProposalStatus.ACCEPTED,
+    TradeProposalStatus.DECLINED,
+    TradeProposalStatus.WITHDRAWN
+  ],
+  [TradeProposalStatus.COUNTERED]: [
+    TradeProposalStatus.COUNTERED,
+    TradeProposalStatus.ACCEPTED,
+    TradeProposalStatus.DECLINED,
+    TradeProposalStatus.WITHDRAWN
+  ],
+  [TradeProposalStatus.ACCEPTED]: [],
+  [TradeProposalStatus.DECLINED]: [],
+  [TradeProposalStatus.WITHDRAWN]: []
+};
+
+/**
+ * Store state interface
+ */
+interface TradeState {
+  proposals: TradeProposal[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Selectors
+  getProposalById: (id: string) => TradeProposal | undefined;
+  getProposalsForListing: (listingId: string) => TradeProposal[];
+  getProposalsForUser: (userId: string) => TradeProposal[];
+  hasAcceptedTrade: (listingId: string, userId: string) => boolean;
+
+  // Actions
+  proposeTrade: (targetListingId: string, terms: Omit<TradeTerms, 'recipientListingIds'>, message?: string) => Promise<TradeProposal>;
+  counterTrade: (proposalId: string, terms: TradeTerms, message?: string) => Promise<TradeProposal | null>;
+  acceptTrade: (proposalId: string) => Promise<boolean>;
+  declineTrade: (proposalId: string, message?: string) => Promise<boolean>;
+  withdrawTrade: (proposalId: string) => Promise<boolean>;
+}
+
+/**
+ * Generate a random ID
+ */
+const generateId = () => Math.random().toString(36).substring(2, 15);
+
+/**
+ * Check whether a trade proposal can still be acted on
+ */
+export const isTradeOpen = (proposal: TradeProposal) => {
+  return TRADE_TRANSITIONS[proposal.status].length > 0;
+};
+
+/**
+ * Check whether it is the given user's turn to respond to a trade proposal
+ */
+export const isTradeAwaitingResponseFrom = (proposal: TradeProposal, userId: string) => {
+  return isTradeOpen(proposal) &&
+    (userId === proposal.proposerId || userId === proposal.recipientId) &&
+    proposal.lastActorId !== userId;
+};
+
+/**
+ * Apply a status transition to a proposal, validating it against the state machine
+ */
+const transitionProposal = (
+  proposal: TradeProposal,
+  status: TradeProposalStatus,
+  event: Omit<TradeEvent, 'id' | 'createdAt'>
+): TradeProposal => {
+  if (!TRADE_TRANSITIONS[proposal.status].includes(status)) {
+    throw new Error(`Cannot move a trade proposal from ${proposal.status} to ${status}`);
+  }
+
+  const now = Date.now();
+  return {
+    ...proposal,
+    status,
+    terms: event.terms ?? proposal.terms,
+    lastActorId: event.actorId,
+    history: [...proposal.history, { ...event, id: generateId(), createdAt: now }],
+    updatedAt: now
+  };
+};
+
+/**
+ * Check that each side of the trade only contains active listings owned by that side
+ */
+const validateTerms = (terms: TradeTerms, proposerId: string, recipientId: string) => {
+  const { getListingById } = useListingStore.getState();
+
+  const checkSide = (listingIds: string[], ownerId: string) => {
+    listingIds.forEach(listingId => {
+      const listing = getListingById(listingId);
+      if (!listing || listing.status !== 'active') {
+        throw new Error('One of the listings in this trade is no longer available');
+      }
+      if (listing.sellerId !== ownerId) {
+        throw new Error('Each side of a trade can only include its own listings');
+      }
+    });
+  };
+
+  checkSide(terms.proposerListingIds, proposerId);
+  checkSide(terms.recipientListingIds, recipientId);
+
+  if (terms.proposerListingIds.length === 0 && terms.proposerCash <= 0) {
+    throw new Error('The proposer must offer at least one listing or some cash');
+  }
+  if (terms.recipientListingIds.length === 0) {
+    throw new Error('A trade must include at least one of the recipient\'s listings');
+  }
+  if (terms.proposerCash < 0 || terms.recipientCash < 0) {
+    throw new Error('Cash amounts cannot be negative');
+  }
+};
+
+/**
+ * Create the trade proposal store
+ */
+export const useTradeStore = create<TradeState>(
+  sync(
+    (set, get) => {
+      /**
+       * Replace a single proposal in state
+       */
+      const saveProposal = (proposal: TradeProposal) => {
+        set(state => ({
+          proposals: state.proposals.map(p => p.id === proposal.id ? proposal : p)
+        }));
+      };
+
+      /**
+       * Look up a proposal the current user is a party to
+       */
+      const getProposalForParty = (proposalId: string) => {
+        const currentUser = useUserStore.getState().getCurrentUser();
+
+        if (!currentUser) {
+          throw new Error('You must be logged in to respond to a trade');
+        }
+
+        const proposal = get().getProposalById(proposalId);
+
+        if (!proposal) {
+          throw new Error('Trade proposal not found');
+        }
+
+        if (proposal.proposerId !== currentUser.id && proposal.recipientId !== currentUser.id) {
+          throw new Error('You are not part of this trade');
+        }
+
+        return { proposal, currentUser };
+      };
+
+      return {
+        proposals: [],
+        isLoading: false,
+        error: null,
+
+        // Selectors
+        getProposalById: (id) => {
+          return get().proposals.find(proposal => proposal.id === id);
+        },
+
+        getProposalsForListing: (listingId) => {
+          return get().proposals.filter(proposal =>
+            proposal.targetListingId === listingId ||
+            getTradeListingIds(proposal.terms).includes(listingId)
+          );
+        },
+
+        getProposalsForUser: (userId) => {
+          return get().proposals.filter(proposal =>
+            proposal.proposerId === userId || proposal.recipientId === userId
+          );
+        },
+
+        hasAcceptedTrade: (listingId, userId) => {
+          return get().proposals.some(proposal =>
+            proposal.status === TradeProposalStatus.ACCEPTED &&
+            (proposal.proposerId === userId || proposal.recipientId === userId) &&
+            getTradeListingIds(proposal.terms).includes(listingId)
+          );
+        },
+
+        // Actions
+        proposeTrade: async (targetListingId, terms, message) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const currentUser = useUserStore.getState().getCurrentUser();
+
+            if (!currentUser) {
+              throw new Error('You must be logged in to propose a trade');
+            }
+
+            const target = useListingStore.getState().getListingById(targetListingId);
+
+            if (!target || target.status !== 'active') {
+              throw new Error('This listing is not accepting trades');
+            }
+
+            if (target.listingType !== ListingType.TRADE) {
+              throw new Error('Trades can only be proposed on trade listings');
+            }
+
+            if (target.sellerId === currentUser.id) {
+              throw new Error('You cannot propose a trade on your own listing');
+            }
+
+            const fullTerms: TradeTerms = {
+              ...terms,
+              recipientListingIds: [targetListingId]
+            };
+            validateTerms(fullTerms, currentUser.id, target.sellerId);
+
+            const now = Date.now();
+            const newProposal: TradeProposal = {
+              id: generateId(),
+              targetListingId,
+              proposerId: currentUser.id,
+              proposerName: currentUser.name,
+              recipientId: target.sellerId,
+              recipientName: target.sellerName,
+              terms: fullTerms,
+              status: TradeProposalStatus.PENDING,
+              lastActorId: currentUser.id,
+              history: [{
+                id: generateId(),
+                type: 'propose',
+                actorId: currentUser.id,
+                actorName: currentUser.name,
+                terms: fullTerms,
+                message,
+                createdAt: now
+              }],
+              createdAt: now,
+              updatedAt: now
+            };
+
+            set(state => ({
+              proposals: [...state.proposals, newProposal],
+              isLoading: false
+            }));
+
+            console.log('Created trade proposal:', newProposal);
+
+            return newProposal;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to propose trade';
+            console.error('Error proposing trade:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+          }
+        },
+
+        counterTrade: async (proposalId, terms, message) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const { proposal, currentUser } = getProposalForParty(proposalId);
+
+            if (!isTradeAwaitingResponseFrom(proposal, currentUser.id)) {
+              throw new Error('You are waiting for the other party to respond');
+            }
+
+            validateTerms(terms, proposal.proposerId, proposal.recipientId);
+
+            const updatedProposal = transitionProposal(proposal, TradeProposalStatus.COUNTERED, {
+              type: 'counter',
+              actorId: currentUser.id,
+              actorName: currentUser.name,
+              terms,
+              message
+            });
+
+            saveProposal(updatedProposal);
+            set({ isLoading: false });
+
+            console.log('Countered trade proposal:', updatedProposal);
+
+            return updatedProposal;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to counter trade';
+            console.error('Error countering trade:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            return null;
+          }
+        },
+
+        acceptTrade: async (proposalId) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const { proposal, currentUser } = getProposalForParty(proposalId);
+
+            if (!isTradeAwaitingResponseFrom(proposal, currentUser.id)) {
+              throw new Error('You are waiting for the other party to respond');
+            }
+
+            validateTerms(proposal.terms, proposal.proposerId, proposal.recipientId);
+
+            const acceptedProposal = transitionProposal(proposal, TradeProposalStatus.ACCEPTED, {
+              type: 'accept',
+              actorId: currentUser.id,
+              actorName: currentUser.name
+            });
+
+            saveProposal(acceptedProposal);
+
+            const listingIds = getTradeListingIds(proposal.terms);
+            const reserved = await useListingStore.getState().reserveListings(listingIds);
+
+            if (!reserved) {
+              // Roll the proposal back so it doesn't claim a deal the listings don't reflect
+              saveProposal(proposal);
+              throw new Error(useListingStore.getState().error || 'Failed to reserve the traded listings');
+            }
+
+            // Other open proposals that involve any of the reserved listings can't go ahead
+            set(state => ({
+              proposals: state.proposals.map(p =>
+                p.id !== proposal.id &&
+                isTradeOpen(p) &&
+                getTradeListingIds(p.terms).some(id => listingIds.includes(id))
+                  ? transitionProposal(p, TradeProposalStatus.DECLINED, {
+                      type: 'decline',
+                      actorId: currentUser.id,
+                      actorName: currentUser.name,
+                      message: 'One of these listings was traded elsewhere'
+                    })
+                  : p
+              ),
+              isLoading: false
+            }));
+
+            console.log('Accepted trade proposal:', proposalId);
+
+            return true;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to accept trade';
+            console.error('Error accepting trade:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            return false;
+          }
+        },
+
+        declineTrade: async (proposalId, message) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const { proposal, currentUser } = getProposalForParty(proposalId);
+
+            if (!isTradeAwaitingResponseFrom(proposal, currentUser.id)) {
+              throw new Error('You are waiting for the other party to respond');
+            }
+
+            saveProposal(transitionProposal(proposal, TradeProposalStatus.DECLINED, {
+              type: 'decline',
+              actorId: currentUser.id,
+              actorName: currentUser.name,
+              message
+            }));
+            set({ isLoading: false });
+
+            console.log('Declined trade proposal:', proposalId);
+
+            return true;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to decline trade';
+            console.error('Error declining trade:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            return false;
+          }
+        },
+
+        withdrawTrade: async (proposalId) => {
+          set({ isLoading: true, error: null });
+
+          try {
+            const { proposal, currentUser } = getProposalForParty(proposalId);
+
+            if (proposal.proposerId !== currentUser.id) {
+              throw new Error('Only the proposer can withdraw a trade');
+            }
+
+            saveProposal(transitionProposal(proposal, TradeProposalStatus.WITHDRAWN, {
+              type: 'withdraw',
+              actorId: currentUser.id,
+              actorName: currentUser.name
+            }));
+            set({ isLoading: false });
+
+            console.log('Withdrew trade proposal:', proposalId);
+
+            return true;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to withdraw trade';
+            console.error('Error withdrawing trade:', errorMessage);
+            set({ error: errorMessage, isLoading: false });
+            return false;
+          }
+        }
+      };
+    },
+    {
+      docId: "marketplace-trades",
+      initTimeout: 30000,
+      onInitError: (error) => {
+        console.error("Trade sync initialization error:", error);
+      }
+    }
+  )
+);
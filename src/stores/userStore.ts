@@ -1,16 +1,89 @@
 import { create } from "zustand";
 import { sync } from "@tonk/keepsync";
+import { useCredentialStore } from "./credentialStore";
+import { useSessionStore } from "./sessionStore";
+import { useModerationStore, ModerationAction } from "./moderationStore";
+import { useContactStore, ProfileContacts } from "./contactStore";
+import passwordHashing from "../modules/passwordHashing";
+import adminSetup, { InitialAdmin } from "../modules/adminSetup";
+import signing, { SigningKeyPair, PublishedKey } from "../modules/signing";
+import keyVault, { VaultKeys } from "../modules/keyVault";
+import encryption, { EncryptionKeyPair } from "../modules/encryption";
+import { PlayerRole, hasRole, getActiveRestriction } from "../types/playerProfile";
+
+// The role and restriction checks live with the player types so pure modules
+// can use them without loading the store
+export { hasRole, getActiveRestriction };
+
+/**
+ * A signing key published on a profile. Every device a user logs in on now
+ * shares one key from their key vault, but devices used to make their own, so
+ * a profile can list several. Older keys are endorsed by the shared key, and
+ * it by them, as each device logs in again.
+ */
+export interface PublishedSigningKey extends PublishedKey {
+  addedAt: number;
+}
+
+/**
+ * An admin's signed statement granting or revoking another user's admin
+ * rights. The `isAdmin` flag on a profile can be set by anyone, so clients
+ * only trust moderation from admins backed by a chain of these statements
+ * leading back to the admin the server recorded at setup.
+ */
+export interface AdminStatement {
+  signerId: string;
+  keyId: string;
+  signedAt: number;
+  value: string;
+}
+
+/**
+ * An admin's restriction on an account. Suspensions end at `until`, bans don't.
+ */
+export interface AccountRestriction {
+  type: "suspended" | "banned";
+  reason: string;
+  until?: number;
+  restrictedBy: string;
+  restrictedAt: number;
+}
 
 export interface UserProfile {
   id: string;
   name: string;
-  passwordHash?: string;  // Make optional for backward compatibility
+  passwordHash?: string;  // Legacy plaintext password, moved to the credential store by any client
   createdAt: number;
   genres?: string[];
   games?: string[];
   playerType?: string;
   isAdmin?: boolean;  // Added admin flag
-  roles?: string[];   // Add roles for marketplace
+  roles?: PlayerRole[];   // Add roles for marketplace
+  pendingRoles?: PlayerRole[];  // Roles the user asked for that are awaiting admin approval
+  restriction?: AccountRestriction;  // Set while the account is suspended or banned
+  updatedAt?: number;
+  
+  // Legacy plain-text contact details, sealed into the contact store by any client
+  email?: string;
+  primaryContact?: string;
+  additionalContacts?: string[];
+  
+  // Public profile details. Everything here syncs to every user
+  city?: string;
+  stateProvince?: string;
+  country?: string;
+  latitude?: number;  // Rounded to COORDINATE_DECIMALS places, never exact
+  longitude?: number;
+  profileImageUrl?: string;
+  bio?: string;
+  
+  haveList?: string[];  // Items the user owns and would trade away
+  wantList?: string[];  // Items the user is looking for
+  displayCurrency?: string;  // Currency prices are converted to for this user
+  encryptionPublicKey?: JsonWebKey;  // Key other users seal private data to, e.g. contact details
+  signingKeys?: PublishedSigningKey[];  // Keys the user's signed changes are verified against
+  adminGrant?: AdminStatement;  // Latest grant of admin rights to this user
+  adminRevocation?: AdminStatement;  // Latest revocation of them
 }
 
 interface UserState {
@@ -18,16 +91,21 @@ interface UserState {
   activeProfileId: string | null;
   viewingProfileId: string | null;
   authError: string | null;
+  roleError: string | null;
+  moderationError: string | null;
   isLoading: boolean;
+  requireServiceProviderApproval: boolean;
   
   // Authentication actions
   login: (username: string, password: string) => Promise<boolean>;
   signup: (username: string, password: string) => Promise<boolean>;
   logout: () => void;
+  logoutEverywhere: () => void;
   checkSession: () => void;
   
   // Helper to get current user
   getCurrentUser: () => UserProfile | null;
+  getProfileByName: (name: string) => UserProfile | null;
   
   // Legacy function for backward compatibility
   createProfile: (name: string) => UserProfile;
@@ -40,9 +118,31 @@ interface UserState {
   deleteProfile: (id: string) => void;
   isNameUnique: (name: string, excludeId?: string) => boolean;
   resetData: () => void;
+  migrateProfiles: () => void;
+  migrateLegacyPasswords: () => Promise<void>;
+  migrateLegacyProfileContacts: () => Promise<void>;
 
   // Add isCurrentUserAdmin helper
   isCurrentUserAdmin: () => boolean;
+  
+  // Roles
+  requestRole: (role: PlayerRole) => boolean;
+  leaveRole: (role: PlayerRole) => boolean;
+  grantRole: (userId: string, role: PlayerRole, reason: string) => Promise<boolean>;
+  revokeRole: (userId: string, role: PlayerRole, reason: string) => Promise<boolean>;
+  setRequireServiceProviderApproval: (required: boolean, reason: string) => boolean;
+  
+  // Moderation
+  suspendUser: (userId: string, reason: string, until: number) => boolean;
+  banUser: (userId: string, reason: string) => boolean;
+  reinstateUser: (userId: string, reason: string) => boolean;
+  
+  // Get the current user's signing key, unlocked from their key vault at login
+  getSigningKey: () => Promise<SigningKeyPair>;
+  
+  // First-run admin setup
+  hasAdmin: () => boolean;
+  createInitialAdmin: (setupToken: string, username: string, password: string) => Promise<boolean>;
 }
 
 // Generate a random ID
@@ -61,6 +161,442 @@ const getSessionData = () => {
   return null;
 };
 
+// End this device's session, so it drops off the user's device list
+const clearSession = () => {
+  const session = getSessionData();
+  localStorage.removeItem("user-session");
+  if (session?.sessionId) {
+    useSessionStore.getState().endSession(session.sessionId);
+  }
+};
+
+// Start a session for a user on this device and remember it locally,
+// ending any session the device had before
+const saveSession = (userId: string) => {
+  clearSession();
+  const session = useSessionStore.getState().startSession(userId);
+  localStorage.setItem("user-session", JSON.stringify({ 
+    userId,
+    sessionId: session.id,
+    timestamp: session.createdAt,
+    expiresAt: session.expiresAt
+  }));
+};
+
+/**
+ * Roles users can take on themselves from their profile. The rest are only
+ * granted by admins.
+ */
+export const SELF_SERVICE_ROLES = [PlayerRole.SELLER, PlayerRole.SERVICE_PROVIDER];
+
+export const ROLE_LABELS: Record<PlayerRole, string> = {
+  [PlayerRole.BUYER]: "Buyer",
+  [PlayerRole.SELLER]: "Seller",
+  [PlayerRole.SERVICE_PROVIDER]: "Service Provider",
+  [PlayerRole.ADMIN]: "Admin",
+  [PlayerRole.REGULAR]: "Member"
+};
+
+/**
+ * Describe a restriction to the user it applies to
+ */
+export const describeRestriction = (restriction: AccountRestriction) => {
+  return restriction.type === "banned"
+    ? `This account has been banned: ${restriction.reason}`
+    : `This account is suspended until ${new Date(restriction.until!).toLocaleString()}: ${restriction.reason}`;
+};
+
+// Suspend or ban a user, ending their sessions and recording why
+const restrictUser = (userId: string, restriction: Pick<AccountRestriction, "type" | "reason" | "until">) => {
+  const store = useUserStore.getState();
+  useUserStore.setState({ moderationError: null });
+  
+  const admin = store.getCurrentUser();
+  if (!admin || !store.isCurrentUserAdmin()) {
+    useUserStore.setState({ moderationError: "Only admins can suspend or ban users" });
+    return false;
+  }
+  
+  const profile = store.profiles.find(p => p.id === userId);
+  if (!profile) {
+    useUserStore.setState({ moderationError: "User not found" });
+    return false;
+  }
+  
+  if (profile.id === admin.id) {
+    useUserStore.setState({ moderationError: "You can't suspend or ban yourself" });
+    return false;
+  }
+  
+  if (!restriction.reason.trim()) {
+    useUserStore.setState({ moderationError: "Please give a reason" });
+    return false;
+  }
+  
+  if (restriction.type === "suspended" && (!restriction.until || restriction.until <= Date.now())) {
+    useUserStore.setState({ moderationError: "Suspensions must end in the future" });
+    return false;
+  }
+  
+  store.updateProfileDetails(userId, {
+    restriction: {
+      ...restriction,
+      reason: restriction.reason.trim(),
+      restrictedBy: admin.id,
+      restrictedAt: Date.now()
+    }
+  });
+  useSessionStore.getState().endAllSessions(userId);
+  
+  useModerationStore.getState().recordAction({
+    action: restriction.type === "banned" ? ModerationAction.BAN_USER : ModerationAction.SUSPEND_USER,
+    targetType: "user",
+    targetId: userId,
+    targetName: profile.name,
+    reason: restriction.reason,
+    details: restriction.until ? `Until ${new Date(restriction.until).toLocaleString()}` : undefined
+  });
+  
+  return true;
+};
+
+/**
+ * Decimal places profile coordinates are kept to. One place is about 11 km,
+ * close enough to sort by distance without pinpointing where anyone lives.
+ */
+export const COORDINATE_DECIMALS = 1;
+
+/**
+ * Round a coordinate to the precision profiles publish
+ */
+export const roundCoordinate = (value: number) => {
+  const factor = 10 ** COORDINATE_DECIMALS;
+  return Math.round(value * factor) / factor;
+};
+
+// Check whether a coordinate is more precise than profiles publish
+const isExactCoordinate = (value: number | undefined) => {
+  return value !== undefined && value !== roundCoordinate(value);
+};
+
+// Check whether a profile predates the fields merged in from PlayerProfile,
+// or has coordinates from before they were rounded
+const needsMigration = (profile: UserProfile) => {
+  return profile.updatedAt === undefined || profile.roles === undefined ||
+    isExactCoordinate(profile.latitude) || isExactCoordinate(profile.longitude);
+};
+
+// Check whether a profile still carries plain-text contact details
+const hasLegacyContacts = (profile: UserProfile) => {
+  return profile.email !== undefined || profile.primaryContact !== undefined || profile.additionalContacts !== undefined;
+};
+
+// Publish a signing key on a user's profile. A key this device used before
+// is endorsed by the new one and the new one by it, so clients that trust
+// either key come to trust both.
+const publishSigningKey = async (userId: string, keyPair: SigningKeyPair, previous: SigningKeyPair | null) => {
+  const store = useUserStore.getState();
+  const profile = store.profiles.find(p => p.id === userId);
+  if (!profile) return;
+  
+  let published = profile.signingKeys || [];
+  if (!published.some(key => key.keyId === keyPair.keyId)) {
+    published = [...published, { keyId: keyPair.keyId, publicKey: keyPair.publicKey, addedAt: Date.now() }];
+  }
+  
+  const previousKey = previous && previous.keyId !== keyPair.keyId
+    ? published.find(key => key.keyId === previous.keyId)
+    : undefined;
+  if (previous && previousKey) {
+    const endorse = async (key: PublishedSigningKey, by: SigningKeyPair) => {
+      if ((key.endorsements || []).some(endorsement => endorsement.keyId === by.keyId)) return key;
+      return { ...key, endorsements: [...(key.endorsements || []), await signing.endorseKey(userId, by, key)] };
+    };
+    const current = published.find(key => key.keyId === keyPair.keyId)!;
+    const [endorsedCurrent, endorsedPrevious] = await Promise.all([
+      endorse(current, previous),
+      endorse(previousKey, keyPair)
+    ]);
+    published = published.map(key =>
+      key.keyId === endorsedCurrent.keyId ? endorsedCurrent : key.keyId === endorsedPrevious.keyId ? endorsedPrevious : key
+    );
+  }
+  
+  if (published !== profile.signingKeys) {
+    store.updateProfileDetails(userId, { signingKeys: published });
+  }
+};
+
+// Check whether two encryption key pairs are the same key
+const isSameKey = (a: EncryptionKeyPair, b: EncryptionKeyPair) => {
+  return a.publicKey.x === b.publicKey.x && a.publicKey.y === b.publicKey.y;
+};
+
+// Give this device the keys the user shares between their devices, from the
+// key vault in the credential store, creating the vault from this device's
+// keys the first time. Called wherever the password is at hand. An encryption
+// key this device made for itself before keys were shared is kept in the
+// vault, so every device can still open what was sealed to it.
+const unlockKeys = async (userId: string, password: string) => {
+  const credentialStore = useCredentialStore.getState();
+  const wrapped = credentialStore.keyVaults[userId];
+  const localSigning = signing.loadKeyPair(userId);
+  const localEncryption = encryption.loadKeyPair(userId);
+  let keys: VaultKeys | null = null;
+  let isChanged = false;
+  
+  if (wrapped) {
+    try {
+      keys = await keyVault.unwrapKeys(wrapped, password);
+    } catch (error) {
+      // The password checked out, so the vault itself is damaged; replace it
+      console.error("Could not unlock key vault, creating a new one:", error);
+    }
+  }
+  
+  if (!keys) {
+    keys = { signing: localSigning || await signing.generateKeyPair() };
+    isChanged = true;
+  }
+  
+  const previousEncryption = keys.previousEncryption || [];
+  if (!keys.encryption) {
+    keys = { ...keys, encryption: localEncryption || await encryption.generateKeyPair() };
+    isChanged = true;
+  } else if (localEncryption &&
+      !isSameKey(localEncryption, keys.encryption) &&
+      !previousEncryption.some(key => isSameKey(key, localEncryption))) {
+    keys = { ...keys, previousEncryption: [...previousEncryption, localEncryption] };
+    isChanged = true;
+  }
+  
+  if (!keys.secret) {
+    keys = { ...keys, secret: keyVault.generateSecret() };
+    isChanged = true;
+  }
+  
+  if (isChanged) {
+    credentialStore.setKeyVault(userId, await keyVault.wrapKeys(keys, password));
+  }
+  
+  const encryptionKeys = keys.encryption!;
+  signing.saveKeyPair(userId, keys.signing);
+  encryption.saveKeyPair(userId, encryptionKeys);
+  encryption.savePreviousKeyPairs(userId, keys.previousEncryption || []);
+  keyVault.saveSecret(userId, keys.secret!);
+  await publishSigningKey(userId, keys.signing, localSigning);
+  
+  // Every device has the same key now, so publishing it can't undo another device
+  const profile = useUserStore.getState().profiles.find(p => p.id === userId);
+  if (profile && profile.encryptionPublicKey?.x !== encryptionKeys.publicKey.x) {
+    useUserStore.getState().updateProfileDetails(userId, { encryptionPublicKey: encryptionKeys.publicKey });
+  }
+};
+
+// Cache of trusted key ids per user, keyed by the keys they were worked out from
+const trustedKeyCache = new Map<string, { source: string; trusted: Promise<Set<string>> }>();
+
+/**
+ * Get the ids of a user's published signing keys this client trusts. The first
+ * time a client sees a user it pins their earliest published key; after that
+ * it only trusts that key and keys endorsed by a trusted key, so keys anyone
+ * else adds to the profile are ignored.
+ */
+export const getTrustedSigningKeys = (profile: UserProfile): Promise<Set<string>> => {
+  const published = profile.signingKeys || [];
+  let pinned = signing.loadPinnedKeyId(profile.id);
+  if (!pinned && published.length > 0) {
+    pinned = [...published].sort((a, b) => a.addedAt - b.addedAt)[0].keyId;
+    signing.pinKeyId(profile.id, pinned);
+  }
+  
+  const source = signing.canonicalize({ published, pinned });
+  const cached = trustedKeyCache.get(profile.id);
+  if (cached && cached.source === source) {
+    return cached.trusted;
+  }
+  
+  const trusted = signing.getTrustedKeys(profile.id, published, pinned);
+  trustedKeyCache.set(profile.id, { source, trusted });
+  return trusted;
+};
+
+// Where this client keeps the first admin the server recorded, so moderation
+// can still be checked while the server can't be reached
+const INITIAL_ADMIN_STORAGE_KEY = "initial-admin";
+
+// Where this client remembers the latest admin revocation it has seen for each
+// user, so deleting a revocation from the document doesn't restore the rights
+const ADMIN_REVOCATIONS_STORAGE_KEY = "admin-revocations";
+
+const loadCachedInitialAdmin = (): InitialAdmin | null => {
+  try {
+    return JSON.parse(localStorage.getItem(INITIAL_ADMIN_STORAGE_KEY) || "null");
+  } catch (e) {
+    return null;
+  }
+};
+
+let initialAdminRequest: Promise<InitialAdmin | null> | null = null;
+
+// Look up the first admin, asking the server once per session
+const loadInitialAdmin = (): Promise<InitialAdmin | null> => {
+  initialAdminRequest ??= adminSetup.getInitialAdmin()
+    .then(initialAdmin => {
+      if (initialAdmin) {
+        localStorage.setItem(INITIAL_ADMIN_STORAGE_KEY, JSON.stringify(initialAdmin));
+      }
+      return initialAdmin;
+    })
+    .catch(error => {
+      console.error("Could not look up the admin:", error);
+      initialAdminRequest = null;
+      return loadCachedInitialAdmin();
+    });
+  return initialAdminRequest;
+};
+
+const loadSeenRevocations = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(ADMIN_REVOCATIONS_STORAGE_KEY) || "{}");
+  } catch (e) {
+    return {};
+  }
+};
+
+const rememberRevocation = (userId: string, revokedAt: number) => {
+  const seen = loadSeenRevocations();
+  if ((seen[userId] || 0) >= revokedAt) return;
+  localStorage.setItem(ADMIN_REVOCATIONS_STORAGE_KEY, JSON.stringify({ ...seen, [userId]: revokedAt }));
+};
+
+// What an admin signs to grant or revoke another user's admin rights
+const adminStatementPayload = (type: "grant" | "revoke", userId: string, signerId: string, signedAt: number) => ({
+  type: `${type}-admin`,
+  userId,
+  signerId,
+  signedAt
+});
+
+// Check an admin statement was signed by one of the trusted admins, with a
+// key this client trusts for them
+const checkAdminStatement = async (
+  type: "grant" | "revoke",
+  userId: string,
+  statement: AdminStatement,
+  trustedAdmins: Map<string, Set<string>>,
+  profilesById: Map<string, UserProfile>
+) => {
+  const signerKeys = trustedAdmins.get(statement.signerId);
+  const key = profilesById.get(statement.signerId)?.signingKeys?.find(published => published.keyId === statement.keyId);
+  if (!signerKeys || !key || !signerKeys.has(key.keyId)) {
+    return false;
+  }
+  return signing.verify(
+    key.publicKey,
+    adminStatementPayload(type, userId, statement.signerId, statement.signedAt),
+    statement.value
+  );
+};
+
+// Cache of the trusted admins, keyed by what they were worked out from
+let trustedAdminCache: { source: string; admins: Promise<Set<string>> } | null = null;
+
+/**
+ * Get the ids of the admins this client trusts to moderate: the first admin
+ * the server recorded, with the signing key it recorded, and anyone a trusted
+ * admin has granted admin rights to and not revoked since.
+ */
+export const getTrustedAdminIds = async (): Promise<Set<string>> => {
+  const initialAdmin = await loadInitialAdmin();
+  const { profiles } = useUserStore.getState();
+  const source = signing.canonicalize({
+    initialAdmin,
+    revocations: loadSeenRevocations(),
+    admins: profiles
+      .filter(profile => profile.id === initialAdmin?.adminId || profile.adminGrant || profile.adminRevocation)
+      .map(profile => ({
+        id: profile.id,
+        signingKeys: profile.signingKeys,
+        adminGrant: profile.adminGrant,
+        adminRevocation: profile.adminRevocation
+      }))
+  });
+  if (trustedAdminCache && trustedAdminCache.source === source) {
+    return trustedAdminCache.admins;
+  }
+  
+  const admins = (async () => {
+    // Trusted signing keys of each trusted admin
+    const trusted = new Map<string, Set<string>>();
+    const rootProfile = initialAdmin && profiles.find(profile => profile.id === initialAdmin.adminId);
+    if (!initialAdmin || !rootProfile) {
+      return new Set<string>();
+    }
+    trusted.set(initialAdmin.adminId, await signing.getTrustedKeys(
+      initialAdmin.adminId,
+      rootProfile.signingKeys || [],
+      initialAdmin.adminKeyId
+    ));
+    
+    const profilesById = new Map(profiles.map(profile => [profile.id, profile]));
+    const seenRevocations = loadSeenRevocations();
+    let added = true;
+    while (added) {
+      added = false;
+      for (const profile of profiles) {
+        const grant = profile.adminGrant;
+        if (trusted.has(profile.id) || !grant || grant.signedAt <= (seenRevocations[profile.id] || 0)) continue;
+        if (!(await checkAdminStatement("grant", profile.id, grant, trusted, profilesById))) continue;
+        
+        const revocation = profile.adminRevocation;
+        if (revocation && revocation.signedAt >= grant.signedAt &&
+            await checkAdminStatement("revoke", profile.id, revocation, trusted, profilesById)) {
+          rememberRevocation(profile.id, revocation.signedAt);
+          continue;
+        }
+        
+        trusted.set(profile.id, await getTrustedSigningKeys(profile));
+        added = true;
+      }
+    }
+    
+    return new Set(trusted.keys());
+  })();
+  
+  trustedAdminCache = { source, admins };
+  return admins;
+};
+
+// Sign a statement granting or revoking a user's admin rights as the current user
+const signAdminStatement = async (type: "grant" | "revoke", userId: string): Promise<AdminStatement> => {
+  const store = useUserStore.getState();
+  const keyPair = await store.getSigningKey();
+  const signerId = store.getCurrentUser()!.id;
+  const signedAt = Date.now();
+  
+  return {
+    signerId,
+    keyId: keyPair.keyId,
+    signedAt,
+    value: await signing.sign(keyPair.privateKey, adminStatementPayload(type, userId, signerId, signedAt))
+  };
+};
+
+// Check whether a profile still carries a plaintext password from older versions
+const hasLegacyPassword = (profile: UserProfile) => profile.passwordHash !== undefined;
+
+// Only one password migration runs at a time, since hashing is slow
+let isMigratingPasswords = false;
+
+// Check for the admin/adminpass account older versions created on every client.
+// It can't be trusted, so it doesn't count as an admin and can't log in.
+const isDefaultAdmin = (profile: UserProfile) => {
+  return profile.isAdmin === true &&
+    profile.name === "admin" &&
+    profile.passwordHash === "adminpass";
+};
+
 // Create a stub for locationStore since it doesn't exist
 const locationStoreStub = {
   updateUserName: (id: string, name: string) => {
@@ -81,7 +617,10 @@ export const useUserStore = create<UserState>(
       activeProfileId: null,
       viewingProfileId: null,
       authError: null,
+      roleError: null,
+      moderationError: null,
       isLoading: true,
+      requireServiceProviderApproval: false,
       
       // Get current user helper
       getCurrentUser: () => {
@@ -89,20 +628,65 @@ export const useUserStore = create<UserState>(
         if (!activeProfileId) return null;
         return profiles.find(p => p.id === activeProfileId) || null;
       },
+      
+      // Find a profile by username, ignoring case
+      getProfileByName: (name) => {
+        const normalized = name.trim().toLowerCase();
+        return get().profiles.find(profile => profile.name.trim().toLowerCase() === normalized) || null;
+      },
 
-      // Check for existing session on initialization
+      // Check for an existing session, rejecting it once it has expired or
+      // been ended from another device
       checkSession: () => {
-        const session = getSessionData();
+        let session = getSessionData();
+        
+        // Sessions saved before device sessions existed have no session ID.
+        // Once the user's profile has synced they're carried over to a
+        // device session, unless the user has since ended all their sessions.
+        if (session && session.userId && !session.sessionId) {
+          const revokedBefore = useSessionStore.getState().revokedBefore[session.userId];
+          const isRevoked = Boolean(revokedBefore && (session.timestamp || 0) < revokedBefore);
+          if (!isRevoked && get().profiles.some(profile => profile.id === session.userId)) {
+            saveSession(session.userId);
+            session = getSessionData();
+            console.log("Migrated session for user:", session.userId);
+          } else if (!isRevoked) {
+            if (get().isLoading) {
+              set({ isLoading: false });
+            }
+            return;
+          }
+        }
+        
         if (session && session.userId) {
-          // Verify the user exists
-          const userExists = get().profiles.some(profile => profile.id === session.userId);
-          if (userExists) {
-            set({ activeProfileId: session.userId });
-          } else {
+          const sessionStore = useSessionStore.getState();
+          const isExpired = !session.sessionId || !session.expiresAt || session.expiresAt <= Date.now();
+          
+          const isRestricted = Boolean(getActiveRestriction(get().profiles.find(profile => profile.id === session.userId)));
+          
+          if (isExpired || isRestricted || !sessionStore.isSessionActive(session.sessionId, session.userId, session.timestamp)) {
             localStorage.removeItem("user-session");
+            if (get().activeProfileId === session.userId) {
+              set({ activeProfileId: null, viewingProfileId: null });
+            }
+            console.log("Session ended:", isExpired ? "expired" : isRestricted ? "account restricted" : "revoked");
+          } else {
+            // Using the session keeps it alive
+            const touched = sessionStore.touchSession(session.sessionId);
+            if (touched) {
+              localStorage.setItem("user-session", JSON.stringify({ ...session, expiresAt: touched.expiresAt }));
+            }
+            
+            // Profiles may not have synced yet, in which case a later check restores the user
+            const userExists = get().profiles.some(profile => profile.id === session.userId);
+            if (userExists && get().activeProfileId !== session.userId) {
+              set({ activeProfileId: session.userId });
+            }
           }
         }
-        set({ isLoading: false });
+        if (get().isLoading) {
+          set({ isLoading: false });
+        }
       },
       
       // Legacy createProfile function for backward compatibility
@@ -111,7 +695,9 @@ export const useUserStore = create<UserState>(
         const newProfile: UserProfile = {
           id,
           name,
-          createdAt: Date.now()
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          roles: [PlayerRole.REGULAR]
         };
 
         set((state) => ({
@@ -123,20 +709,14 @@ export const useUserStore = create<UserState>(
         locationStore.updateUserName(id, name);
 
         // Save session
-        localStorage.setItem("user-session", JSON.stringify({ 
-          userId: id,
-          timestamp: Date.now()
-        }));
+        saveSession(id);
 
         return newProfile;
       },
       
       // Legacy functions for compatibility
       setActiveProfile: (id) => {
-        localStorage.setItem("user-session", JSON.stringify({ 
-          userId: id,
-          timestamp: Date.now()
-        }));
+        saveSession(id);
 
         set({ 
           activeProfileId: id,
@@ -163,25 +743,50 @@ export const useUserStore = create<UserState>(
             return false;
           }
           
-          // Check if the user has a password hash
-          if (!user.passwordHash) {
+          const restriction = getActiveRestriction(user);
+          if (restriction) {
+            set({ authError: describeRestriction(restriction), isLoading: false });
+            return false;
+          }
+          
+          const credentialStore = useCredentialStore.getState();
+          let isMatch: boolean;
+          
+          if (isDefaultAdmin(user) && !credentialStore.hasCredential(user.id)) {
+            set({ authError: "The default admin account has been disabled. Use first-run setup to create an admin.", isLoading: false });
+            return false;
+          } else if (credentialStore.hasCredential(user.id)) {
+            isMatch = await credentialStore.verifyPassword(user.id, password);
+          } else if (user.passwordHash) {
+            // Legacy account with a plaintext password on the public profile
+            isMatch = passwordHashing.constantTimeEqual(user.passwordHash, password);
+            
+            if (isMatch) {
+              // Upgrade silently: hash the password and drop the plaintext copy
+              await credentialStore.setPassword(user.id, password);
+              set(state => ({
+                profiles: state.profiles.map(profile => {
+                  if (profile.id !== user.id) return profile;
+                  const { passwordHash: _legacy, ...rest } = profile;
+                  return rest;
+                })
+              }));
+            }
+          } else {
             set({ authError: "Account authentication error", isLoading: false });
             return false;
           }
           
-          // For now, use simple comparison - in a real app, you'd use a proper password verification
-          const isMatch = user.passwordHash === password;
           if (!isMatch) {
             set({ authError: "Invalid password", isLoading: false });
             return false;
           }
           
+          await unlockKeys(user.id, password);
+          
           // Set active profile and save to localStorage
           set({ activeProfileId: user.id, isLoading: false });
-          localStorage.setItem("user-session", JSON.stringify({ 
-            userId: user.id,
-            timestamp: Date.now()
-          }));
+          saveSession(user.id);
           
           console.log("Login successful:", user);
           return true;
@@ -207,13 +812,16 @@ export const useUserStore = create<UserState>(
             return false;
           }
           
-          // Create new user
+          // Create new user, keeping the password hash out of the public profile
           const id = generateId();
+          await useCredentialStore.getState().setPassword(id, password);
+          
           const newProfile: UserProfile = {
             id,
             name: username,
-            passwordHash: password,
             createdAt: Date.now(),
+            updatedAt: Date.now(),
+            roles: [PlayerRole.REGULAR]
           };
           
           set(state => ({
@@ -221,11 +829,10 @@ export const useUserStore = create<UserState>(
             activeProfileId: id
           }));
           
+          await unlockKeys(id, password);
+          
           // Save to localStorage
-          localStorage.setItem("user-session", JSON.stringify({ 
-            userId: id,
-            timestamp: Date.now()
-          }));
+          saveSession(id);
           
           // Update user name in location store
           locationStore.updateUserName(id, username);
@@ -240,7 +847,7 @@ export const useUserStore = create<UserState>(
       
       // Log out current user
       logout: () => {
-        localStorage.removeItem("user-session");
+        clearSession();
         set({ 
           activeProfileId: null,
           viewingProfileId: null,
@@ -252,6 +859,22 @@ export const useUserStore = create<UserState>(
         locationStore.resetViewingState();
       },
       
+      // End every session the current user has, on all devices
+      logoutEverywhere: () => {
+        const currentUser = get().getCurrentUser();
+        if (!currentUser) return;
+        
+        useSessionStore.getState().endAllSessions(currentUser.id);
+        localStorage.removeItem("user-session");
+        set({ 
+          activeProfileId: null,
+          viewingProfileId: null,
+          authError: null
+        });
+        
+        locationStore.resetViewingState();
+      },
+      
       // Update profile name
       updateProfileName: (id, name) => {
         set((state) => ({
@@ -266,9 +889,14 @@ export const useUserStore = create<UserState>(
       
       // Update profile details
       updateProfileDetails: (id, details) => {
+        // Only rounded coordinates are ever published
+        const coarse = { ...details };
+        if (coarse.latitude !== undefined) coarse.latitude = roundCoordinate(coarse.latitude);
+        if (coarse.longitude !== undefined) coarse.longitude = roundCoordinate(coarse.longitude);
+        
         set((state) => ({
           profiles: state.profiles.map((profile) =>
-            profile.id === id ? { ...profile, ...details } : profile
+            profile.id === id ? { ...profile, ...coarse, updatedAt: Date.now() } : profile
           ),
         }));
         
@@ -280,6 +908,8 @@ export const useUserStore = create<UserState>(
       
       // Delete account
       deleteProfile: (id) => {
+        useCredentialStore.getState().removeCredential(id);
+        useSessionStore.getState().endAllSessions(id);
         set((state) => {
           // Filter out the profile to delete
           const updatedProfiles = state.profiles.filter(
@@ -288,7 +918,7 @@ export const useUserStore = create<UserState>(
 
           // If we're deleting the active profile, log out
           if (state.activeProfileId === id) {
-            localStorage.removeItem("user-session");
+            clearSession();
           }
 
           return {
@@ -308,9 +938,111 @@ export const useUserStore = create<UserState>(
       
       // Reset data for testing
       resetData: () => {
-        localStorage.removeItem("user-session");
+        clearSession();
         set({ profiles: [], activeProfileId: null, viewingProfileId: null });
       },
+      
+      // Give profiles from before the PlayerProfile merge the fields every profile
+      // now has, and round coordinates saved before they were rounded
+      migrateProfiles: () => {
+        const profiles = get().profiles;
+        
+        if (!profiles.some(needsMigration)) {
+          return;
+        }
+        
+        set({
+          profiles: profiles.map(profile =>
+            needsMigration(profile)
+              ? {
+                  ...profile,
+                  roles: profile.roles || (profile.isAdmin ? [PlayerRole.REGULAR, PlayerRole.ADMIN] : [PlayerRole.REGULAR]),
+                  updatedAt: profile.updatedAt ?? profile.createdAt,
+                  ...(profile.latitude !== undefined && { latitude: roundCoordinate(profile.latitude) }),
+                  ...(profile.longitude !== undefined && { longitude: roundCoordinate(profile.longitude) })
+                }
+              : profile
+          )
+        });
+        
+        console.log("Migrated legacy user profiles");
+      },
+      
+      // Any client hashes the plaintext passwords older versions kept on public
+      // profiles and removes them, so accounts that never log in again don't
+      // keep theirs in the profiles document. The default admin's password is
+      // public knowledge, so it's dropped along with its admin rights instead.
+      migrateLegacyPasswords: async () => {
+        if (isMigratingPasswords) return;
+        isMigratingPasswords = true;
+        
+        try {
+          const legacy = get().profiles.filter(hasLegacyPassword);
+          if (legacy.length === 0) return;
+          
+          const credentialStore = useCredentialStore.getState();
+          for (const profile of legacy) {
+            if (!isDefaultAdmin(profile) && profile.passwordHash && !credentialStore.hasCredential(profile.id)) {
+              await credentialStore.setPassword(profile.id, profile.passwordHash);
+            }
+          }
+          
+          const migratedIds = new Set(legacy.map(profile => profile.id));
+          set(state => ({
+            profiles: state.profiles.map(profile => {
+              if (!migratedIds.has(profile.id)) return profile;
+              const { passwordHash: _legacy, ...rest } = profile;
+              return isDefaultAdmin(profile) ? { ...rest, isAdmin: false } : rest;
+            })
+          }));
+          
+          console.log("Migrated legacy passwords for", legacy.length, "profiles");
+        } catch (error) {
+          console.error("Error migrating legacy passwords:", error);
+        } finally {
+          isMigratingPasswords = false;
+        }
+      },
+      
+      // Any client moves plain-text contact details off public profiles,
+      // sealing them to the owner's key when they have one. Owners without a
+      // published key yet enter them again on My Profile.
+      migrateLegacyProfileContacts: async () => {
+        const legacy = get().profiles.filter(hasLegacyContacts);
+        let moved = 0;
+        
+        for (const profile of legacy) {
+          const contacts: ProfileContacts = {
+            email: profile.email?.trim() || undefined,
+            primaryContact: profile.primaryContact?.trim() || undefined,
+            additionalContacts: profile.additionalContacts?.length ? profile.additionalContacts : undefined
+          };
+          // Details stay on the profile until they're sealed, so profiles
+          // without a published key yet are retried once they have one
+          if (contacts.email || contacts.primaryContact || contacts.additionalContacts) {
+            try {
+              const sealed = await useContactStore.getState().sealLegacyProfileContacts(profile.id, contacts);
+              if (!sealed) continue;
+            } catch (error) {
+              console.error(`Error sealing contact details for profile ${profile.id}:`, error);
+              continue;
+            }
+          }
+          
+          moved++;
+          set(state => ({
+            profiles: state.profiles.map(p => {
+              if (p.id !== profile.id) return p;
+              const { email: _email, primaryContact: _primaryContact, additionalContacts: _additionalContacts, ...rest } = p;
+              return rest;
+            })
+          }));
+        }
+        
+        if (moved > 0) {
+          console.log("Moved legacy profile contact details into the contact store");
+        }
+      },
 
       // Check if current user is admin
       isCurrentUserAdmin: () => {
@@ -321,30 +1053,355 @@ export const useUserStore = create<UserState>(
         return activeProfile?.isAdmin === true;
       },
 
-      // Create admin account if it doesn't exist
-      onLoad: () => {
-        const { profiles } = get();
-        const adminExists = profiles.some(profile => 
-          profile.name.toLowerCase() === 'admin' && profile.isAdmin === true
+      // Take on a self-service role, or ask for it when it needs approval
+      requestRole: (role) => {
+        set({ roleError: null });
+        const currentUser = get().getCurrentUser();
+        
+        if (!currentUser) {
+          set({ roleError: "You must be logged in to change your roles" });
+          return false;
+        }
+        
+        if (!SELF_SERVICE_ROLES.includes(role)) {
+          set({ roleError: `The ${ROLE_LABELS[role]} role can only be granted by an admin` });
+          return false;
+        }
+        
+        if (hasRole(currentUser, role)) {
+          return true;
+        }
+        
+        const needsApproval = role === PlayerRole.SERVICE_PROVIDER && get().requireServiceProviderApproval;
+        const pendingRoles = currentUser.pendingRoles || [];
+        
+        get().updateProfileDetails(currentUser.id, needsApproval
+          ? { pendingRoles: pendingRoles.includes(role) ? pendingRoles : [...pendingRoles, role] }
+          : { roles: [...(currentUser.roles || []), role] }
         );
         
-        if (!adminExists) {
-          // Create admin account
+        console.log(needsApproval ? "Requested role:" : "Took on role:", role);
+        return true;
+      },
+      
+      // Give up a role, or withdraw a pending request for it
+      leaveRole: (role) => {
+        set({ roleError: null });
+        const currentUser = get().getCurrentUser();
+        
+        if (!currentUser) {
+          set({ roleError: "You must be logged in to change your roles" });
+          return false;
+        }
+        
+        if (!SELF_SERVICE_ROLES.includes(role)) {
+          set({ roleError: `The ${ROLE_LABELS[role]} role can only be removed by an admin` });
+          return false;
+        }
+        
+        get().updateProfileDetails(currentUser.id, {
+          roles: (currentUser.roles || []).filter(existing => existing !== role),
+          pendingRoles: (currentUser.pendingRoles || []).filter(existing => existing !== role)
+        });
+        
+        return true;
+      },
+      
+      // Admin: give a user any role, approving a pending request for it
+      grantRole: async (userId, role, reason) => {
+        set({ roleError: null });
+        
+        if (!get().isCurrentUserAdmin()) {
+          set({ roleError: "Only admins can grant roles" });
+          return false;
+        }
+        
+        if (!reason.trim()) {
+          set({ roleError: "Please give a reason" });
+          return false;
+        }
+        
+        const profile = get().profiles.find(p => p.id === userId);
+        if (!profile) {
+          set({ roleError: "User not found" });
+          return false;
+        }
+        
+        // Other clients only trust a new admin's moderation through a signed grant
+        let adminGrant: AdminStatement | undefined;
+        if (role === PlayerRole.ADMIN) {
+          try {
+            adminGrant = await signAdminStatement("grant", userId);
+          } catch (error) {
+            set({ roleError: error instanceof Error ? error.message : "Failed to sign the grant" });
+            return false;
+          }
+        }
+        
+        const roles = profile.roles || [];
+        get().updateProfileDetails(userId, {
+          roles: roles.includes(role) ? roles : [...roles, role],
+          pendingRoles: (profile.pendingRoles || []).filter(existing => existing !== role),
+          ...(adminGrant ? { isAdmin: true, adminGrant } : {})
+        });
+        
+        useModerationStore.getState().recordAction({
+          action: ModerationAction.GRANT_ROLE,
+          targetType: "user",
+          targetId: userId,
+          targetName: profile.name,
+          reason,
+          details: ROLE_LABELS[role]
+        });
+        
+        console.log(`Granted ${role} to ${profile.name}`);
+        return true;
+      },
+      
+      // Admin: take a role away from a user, or turn down their request for it
+      revokeRole: async (userId, role, reason) => {
+        set({ roleError: null });
+        
+        if (!get().isCurrentUserAdmin()) {
+          set({ roleError: "Only admins can revoke roles" });
+          return false;
+        }
+        
+        if (!reason.trim()) {
+          set({ roleError: "Please give a reason" });
+          return false;
+        }
+        
+        const profile = get().profiles.find(p => p.id === userId);
+        if (!profile) {
+          set({ roleError: "User not found" });
+          return false;
+        }
+        
+        let adminRevocation: AdminStatement | undefined;
+        if (role === PlayerRole.ADMIN) {
+          const otherAdmins = get().profiles.filter(p => p.id !== userId && p.isAdmin === true && !isDefaultAdmin(p));
+          if (otherAdmins.length === 0) {
+            set({ roleError: "There must always be at least one admin" });
+            return false;
+          }
+          
+          // The server's record of the first admin can't be signed away
+          if ((await loadInitialAdmin())?.adminId === userId) {
+            set({ roleError: "The admin created at setup can't lose admin rights" });
+            return false;
+          }
+          
+          try {
+            adminRevocation = await signAdminStatement("revoke", userId);
+          } catch (error) {
+            set({ roleError: error instanceof Error ? error.message : "Failed to sign the revocation" });
+            return false;
+          }
+        }
+        
+        get().updateProfileDetails(userId, {
+          roles: (profile.roles || []).filter(existing => existing !== role),
+          pendingRoles: (profile.pendingRoles || []).filter(existing => existing !== role),
+          ...(adminRevocation ? { isAdmin: false, adminRevocation } : {})
+        });
+        
+        useModerationStore.getState().recordAction({
+          action: ModerationAction.REVOKE_ROLE,
+          targetType: "user",
+          targetId: userId,
+          targetName: profile.name,
+          reason,
+          details: ROLE_LABELS[role]
+        });
+        
+        console.log(`Revoked ${role} from ${profile.name}`);
+        return true;
+      },
+      
+      // Admin: choose whether new service providers need approval
+      setRequireServiceProviderApproval: (required, reason) => {
+        set({ roleError: null });
+        
+        if (!get().isCurrentUserAdmin()) {
+          set({ roleError: "Only admins can change role settings" });
+          return false;
+        }
+        
+        if (!reason.trim()) {
+          set({ roleError: "Please give a reason" });
+          return false;
+        }
+        
+        set({ requireServiceProviderApproval: required });
+        useModerationStore.getState().recordAction({
+          action: ModerationAction.CHANGE_SETTING,
+          targetType: "setting",
+          targetId: "requireServiceProviderApproval",
+          targetName: "Service provider approval",
+          reason,
+          details: required ? "Required" : "Not required"
+        });
+        
+        return true;
+      },
+      
+      // Admin: suspend an account until a given time, logging it out everywhere
+      suspendUser: (userId, reason, until) => {
+        return restrictUser(userId, { type: "suspended", reason, until });
+      },
+      
+      // Admin: ban an account indefinitely, logging it out everywhere
+      banUser: (userId, reason) => {
+        return restrictUser(userId, { type: "banned", reason });
+      },
+      
+      // Admin: lift a suspension or ban
+      reinstateUser: (userId, reason) => {
+        set({ moderationError: null });
+        
+        if (!get().isCurrentUserAdmin()) {
+          set({ moderationError: "Only admins can reinstate users" });
+          return false;
+        }
+        
+        const profile = get().profiles.find(p => p.id === userId);
+        if (!profile) {
+          set({ moderationError: "User not found" });
+          return false;
+        }
+        
+        if (!reason.trim()) {
+          set({ moderationError: "Please give a reason" });
+          return false;
+        }
+        
+        set(state => ({
+          profiles: state.profiles.map(p => {
+            if (p.id !== userId) return p;
+            const { restriction: _lifted, ...rest } = p;
+            return { ...rest, updatedAt: Date.now() };
+          })
+        }));
+        
+        useModerationStore.getState().recordAction({
+          action: ModerationAction.REINSTATE_USER,
+          targetType: "user",
+          targetId: userId,
+          targetName: profile.name,
+          reason
+        });
+        
+        return true;
+      },
+      
+      getSigningKey: async () => {
+        const currentUser = get().getCurrentUser();
+        if (!currentUser) {
+          throw new Error("You must be logged in to sign changes");
+        }
+        
+        // Keys come from the key vault, which needs the password to open
+        const keyPair = signing.loadKeyPair(currentUser.id);
+        if (!keyPair) {
+          throw new Error("Log in again on this device to sign changes");
+        }
+        
+        await publishSigningKey(currentUser.id, keyPair, null);
+        
+        return keyPair;
+      },
+      
+      // Check whether a trusted admin account exists
+      hasAdmin: () => {
+        return get().profiles.some(profile => profile.isAdmin === true && !isDefaultAdmin(profile));
+      },
+      
+      // Create the first admin account, gated by the server's one-time setup token
+      createInitialAdmin: async (setupToken, username, password) => {
+        set({ authError: null, isLoading: true });
+        try {
+          if (get().hasAdmin()) {
+            set({ authError: "An admin account already exists", isLoading: false });
+            return false;
+          }
+          
+          const normalizedUsername = username.trim().toLowerCase();
+          const clashes = get().profiles.some(profile =>
+            profile.name.trim().toLowerCase() === normalizedUsername && !isDefaultAdmin(profile)
+          );
+          if (clashes) {
+            set({ authError: "Username already exists", isLoading: false });
+            return false;
+          }
+          
+          // The server lets one client at a time hold the token, and takes
+          // it back if creating the account fails
+          const claimId = await adminSetup.claimSetupToken(setupToken);
+          
           const id = generateId();
           const adminProfile: UserProfile = {
             id,
-            name: 'admin',
-            passwordHash: 'adminpass',
+            name: username.trim(),
             createdAt: Date.now(),
+            updatedAt: Date.now(),
+            roles: [PlayerRole.REGULAR, PlayerRole.ADMIN],
             isAdmin: true
           };
+          const previousProfiles = get().profiles;
           
-          set(state => ({
-            profiles: [...state.profiles, adminProfile]
-          }));
+          try {
+            await useCredentialStore.getState().setPassword(id, password);
+            
+            // Strip admin rights from any leftover default admin account
+            set(state => ({
+              profiles: [
+                ...state.profiles.map(profile => {
+                  if (!isDefaultAdmin(profile)) return profile;
+                  const { passwordHash: _legacy, ...rest } = profile;
+                  return { ...rest, isAdmin: false };
+                }),
+                adminProfile
+              ]
+            }));
+            
+            await unlockKeys(id, password);
+            
+            // Only now that the account exists is the token used up. The server
+            // records the admin's signing key for other clients to trust.
+            const signingKey = signing.loadKeyPair(id);
+            if (!signingKey) {
+              throw new Error("Could not create the admin's signing key");
+            }
+            await adminSetup.completeSetup(setupToken, claimId, id, signingKey.keyId);
+            localStorage.setItem(INITIAL_ADMIN_STORAGE_KEY, JSON.stringify({ adminId: id, adminKeyId: signingKey.keyId }));
+            initialAdminRequest = null;
+          } catch (error) {
+            set(state => ({
+              profiles: state.profiles
+                .filter(profile => profile.id !== id)
+                .map(profile => previousProfiles.find(previous => previous.id === profile.id) || profile)
+            }));
+            useCredentialStore.getState().removeCredential(id);
+            await adminSetup.releaseClaim(claimId).catch(releaseError => {
+              console.error("Could not release admin setup claim:", releaseError);
+            });
+            throw error;
+          }
+          
+          set({ activeProfileId: id, isLoading: false });
+          
+          saveSession(id);
           
-          // Update the user name in the location store's map
-          locationStore.updateUserName(id, 'admin');
+          locationStore.updateUserName(id, adminProfile.name);
+          
+          console.log("Created initial admin account:", adminProfile.name);
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : "Admin setup failed";
+          console.error("Admin setup error:", errorMessage);
+          set({ authError: errorMessage, isLoading: false });
+          return false;
         }
       },
     }),
@@ -354,8 +1411,6 @@ export const useUserStore = create<UserState>(
       onInitComplete: (store) => {
         // Check for existing session after data is loaded
         store.checkSession();
-        // Create admin account if it doesn't exist
-        if (store.onLoad) store.onLoad();
       },
       onInitError: (error) => {
         console.error("User sync initialization error:", error);
@@ -363,3 +1418,13 @@ export const useUserStore = create<UserState>(
     },
   ),
 );
+
+// Upgrade legacy profiles whenever they arrive from the synced document
+useUserStore.subscribe(state => {
+  if (state.profiles.some(needsMigration)) {
+    state.migrateProfiles();
+  }
+  if (state.profiles.some(hasLegacyPassword)) {
+    state.migrateLegacyPasswords();
+  }
+});
@@ -0,0 +1,63 @@
+/**
+ * Enum for listing types
+ */
+export enum ListingType {
+  SELL = 'sell',
+  BUY = 'buy',
+  TRADE = 'trade',
+  OFFER_SERVICE = 'offer_service',
+  REQUEST_SERVICE = 'request_service'
+}
+
+/**
+ * Enum for item categories
+ */
+export enum ItemCategory {
+  VIDEO_GAME = 'video_game',
+  BOARD_GAME = 'board_game',
+  CONSOLE = 'console',
+  ACCESSORY = 'accessory',
+  COLLECTIBLE = 'collectible',
+  OTHER = 'other'
+}
+
+/**
+ * Enum for service categories
+ */
+export enum ServiceCategory {
+  COACHING = 'coaching',
+  GAME_MASTER = 'game_master',
+  MEDIATION = 'mediation',
+  OTHER = 'other'
+}
+
+/**
+ * Enum for item conditions
+ */
+export enum ItemCondition {
+  NEW = 'new',
+  LIKE_NEW = 'like_new',
+  GOOD = 'good',
+  FAIR = 'fair',
+  FOR_PARTS = 'for_parts'
+}
+
+/**
+ * Enum for how a price applies
+ */
+export enum PricingUnit {
+  FIXED = 'fixed',
+  PER_HOUR = 'per_hour',
+  PER_SESSION = 'per_session',
+  NEGOTIABLE = 'negotiable',
+  FREE = 'free'
+}
+
+/**
+ * Enum for when a seller's contact details are shared with a buyer
+ */
+export enum ContactRevealPolicy {
+  ON_MESSAGE = 'on_message',              // Once buyer and seller have both written in a conversation
+  ON_ACCEPTED_DEAL = 'on_accepted_deal',  // Once an offer or trade is accepted
+  MESSAGES_ONLY = 'messages_only'         // Never, buyers use in-app messages
+}
@@ -0,0 +1,17 @@
+/**
+ * Kinds of admin action recorded in the audit log
+ */
+export enum ModerationAction {
+  SUSPEND_USER = 'suspend_user',
+  BAN_USER = 'ban_user',
+  REINSTATE_USER = 'reinstate_user',
+  GRANT_ROLE = 'grant_role',
+  REVOKE_ROLE = 'revoke_role',
+  CHANGE_SETTING = 'change_setting',
+  DEACTIVATE_LISTING = 'deactivate_listing',
+  RESTORE_LISTING = 'restore_listing',
+  REMOVE_LISTING = 'remove_listing',
+  RESOLVE_REPORTS = 'resolve_reports',
+  DISMISS_REPORTS = 'dismiss_reports',
+  ESCALATE_REPORTS = 'escalate_reports'
+}
@@ -0,0 +1,14 @@
+/**
+ * Enum for offer states
+ *
+ * An offer starts as `pending`, can bounce between the two parties as
+ * `countered`, and ends as `accepted`, `rejected`, `withdrawn` or `expired`.
+ */
+export enum OfferStatus {
+  PENDING = 'pending',
+  COUNTERED = 'countered',
+  ACCEPTED = 'accepted',
+  REJECTED = 'rejected',
+  WITHDRAWN = 'withdrawn',
+  EXPIRED = 'expired'
+}
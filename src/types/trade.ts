@@ -0,0 +1,27 @@
+/**
+ * Enum for trade proposal states
+ */
+export enum TradeProposalStatus {
+  PENDING = 'pending',
+  COUNTERED = 'countered',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  WITHDRAWN = 'withdrawn'
+}
+
+/**
+ * The items and cash each side puts into a trade
+ */
+export interface TradeTerms {
+  proposerListingIds: string[];
+  recipientListingIds: string[];
+  proposerCash: number;
+  recipientCash: number;
+}
+
+/**
+ * Get every listing id that is part of the trade, from both sides
+ */
+export const getTradeListingIds = (terms: TradeTerms) => {
+  return [...terms.proposerListingIds, ...terms.recipientListingIds];
+};